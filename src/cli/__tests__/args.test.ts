@@ -0,0 +1,260 @@
+/**
+ * Tests for CLI argument parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { ACTION_COMMANDS, parseCliArgs, parseTuiArgs } from "../args";
+
+describe("parseCliArgs", () => {
+	test("no command shows help", () => {
+		expect(parseCliArgs([])).toEqual({
+			ok: true,
+			command: { kind: "help" },
+			options: { json: false, dryRun: false },
+		});
+	});
+
+	test("--help wins over other arguments", () => {
+		const result = parseCliArgs(["list", "--help"]);
+		expect(result.ok && result.command.kind).toBe("help");
+	});
+
+	test("list uses TUI-like defaults", () => {
+		expect(parseCliArgs(["list"])).toEqual({
+			ok: true,
+			command: {
+				kind: "list",
+				filter: {
+					type: "all",
+					domain: "all",
+					status: "all",
+					loaded: "all",
+					signing: "all",
+					teamId: null,
+					showAppleServices: false,
+					showProtected: true,
+				},
+				sort: { field: "label", direction: "asc" },
+				search: "",
+			},
+			options: { json: false, dryRun: false },
+		});
+	});
+
+	test("list parses filters, sort and search", () => {
+		const result = parseCliArgs([
+			"list",
+			"--type",
+			"daemon",
+			"--domain",
+			"system",
+			"--status",
+			"running",
+			"--loaded",
+			"loaded",
+			"--apple",
+			"--no-protected",
+			"--sort",
+			"pid",
+			"--desc",
+			"--search",
+			"docker",
+			"--json",
+		]);
+		expect(result).toEqual({
+			ok: true,
+			command: {
+				kind: "list",
+				filter: {
+					type: "LaunchDaemon",
+					domain: "system",
+					status: "running",
+					loaded: "loaded",
+					signing: "all",
+					teamId: null,
+					showAppleServices: true,
+					showProtected: false,
+				},
+				sort: { field: "pid", direction: "desc" },
+				search: "docker",
+			},
+			options: { json: true, dryRun: false },
+		});
+	});
+
+	test("list parses signing and team filters", () => {
+		const result = parseCliArgs(["list", "--signing", "not-notarized", "--team", "9BNSXJN65R"]);
+		expect(result.ok && result.command.kind === "list" && result.command.filter).toMatchObject({
+			signing: "not-notarized",
+			teamId: "9BNSXJN65R",
+		});
+		expect(parseCliArgs(["list", "--signing", "maybe"])).toEqual({
+			ok: false,
+			error: "Invalid --signing: maybe",
+		});
+		expect(parseCliArgs(["show", "com.docker.vmnetd", "--team", "9BNSXJN65R"])).toEqual({
+			ok: false,
+			error: "--team is only valid for list",
+		});
+	});
+
+	test("list exports services in a format", () => {
+		const result = parseCliArgs(["list", "--type", "daemon", "--export", "csv"]);
+		expect(result.ok && result.command.kind === "list" && result.command.export).toBe("csv");
+		expect(parseCliArgs(["list", "--export", "xml"])).toEqual({ ok: false, error: "Invalid --export: xml" });
+		expect(parseCliArgs(["list", "--json", "--export", "json"])).toEqual({
+			ok: false,
+			error: "--json and --export cannot be combined",
+		});
+		expect(parseCliArgs(["show", "com.docker.vmnetd", "--export", "csv"])).toEqual({
+			ok: false,
+			error: "--export is only valid for list",
+		});
+	});
+
+	test("show takes a label", () => {
+		const result = parseCliArgs(["show", "com.docker.vmnetd", "--json"]);
+		expect(result).toEqual({
+			ok: true,
+			command: { kind: "show", label: "com.docker.vmnetd" },
+			options: { json: true, dryRun: false },
+		});
+	});
+
+	test("action commands accept --dry-run", () => {
+		const result = parseCliArgs(["--dry-run", "stop", "com.docker.vmnetd"]);
+		expect(result).toEqual({
+			ok: true,
+			command: { kind: "action", action: "stop", label: "com.docker.vmnetd" },
+			options: { json: false, dryRun: true },
+		});
+	});
+
+	test("every service action is a command", () => {
+		for (const action of ACTION_COMMANDS) {
+			const result = parseCliArgs([action, "com.example.app"]);
+			expect(result.ok && result.command).toEqual({ kind: "action", action, label: "com.example.app" });
+		}
+	});
+
+	test("rejects unknown commands and options", () => {
+		expect(parseCliArgs(["restart", "x"])).toEqual({ ok: false, error: "Unknown command: restart" });
+		expect(parseCliArgs(["list", "--verbose"])).toEqual({ ok: false, error: "Unknown option: --verbose" });
+	});
+
+	test("rejects missing labels and extra arguments", () => {
+		expect(parseCliArgs(["stop"])).toEqual({ ok: false, error: "Missing service label for stop" });
+		expect(parseCliArgs(["show", "a", "b"])).toEqual({ ok: false, error: "Unexpected argument: b" });
+		expect(parseCliArgs(["list", "extra"])).toEqual({ ok: false, error: "Unexpected argument: extra" });
+	});
+
+	test("rejects invalid or missing flag values", () => {
+		expect(parseCliArgs(["list", "--type", "widget"])).toEqual({
+			ok: false,
+			error: "Invalid --type: widget",
+		});
+		expect(parseCliArgs(["list", "--status", "sleeping"])).toEqual({
+			ok: false,
+			error: "Invalid --status: sleeping",
+		});
+		expect(parseCliArgs(["list", "--loaded", "yes"])).toEqual({
+			ok: false,
+			error: "Invalid --loaded: yes",
+		});
+		expect(parseCliArgs(["list", "--sort"])).toEqual({ ok: false, error: "Missing value for --sort" });
+	});
+
+	test("list sorts by resource fields", () => {
+		const result = parseCliArgs(["list", "--sort", "memory"]);
+		expect(result.ok && result.command.kind === "list" && result.command.sort.field).toBe("memory");
+	});
+
+	test("parses lint with a label or a path", () => {
+		expect(parseCliArgs(["lint", "com.example.app"])).toEqual({
+			ok: true,
+			command: { kind: "lint", target: "com.example.app" },
+			options: { json: false, dryRun: false },
+		});
+		expect(parseCliArgs(["lint", "./agent.plist", "--json"])).toEqual({
+			ok: true,
+			command: { kind: "lint", target: "./agent.plist" },
+			options: { json: true, dryRun: false },
+		});
+		expect(parseCliArgs(["lint"])).toEqual({
+			ok: false,
+			error: "Missing service label or plist path for lint",
+		});
+	});
+
+	test("parses snapshot with an optional file", () => {
+		expect(parseCliArgs(["snapshot"])).toEqual({
+			ok: true,
+			command: { kind: "snapshot" },
+			options: { json: false, dryRun: false },
+		});
+		expect(parseCliArgs(["snapshot", "before.json"])).toEqual({
+			ok: true,
+			command: { kind: "snapshot", path: "before.json" },
+			options: { json: false, dryRun: false },
+		});
+	});
+
+	test("parses diff against the live system or another snapshot", () => {
+		expect(parseCliArgs(["diff", "before.json"])).toEqual({
+			ok: true,
+			command: { kind: "diff", before: "before.json" },
+			options: { json: false, dryRun: false },
+		});
+		expect(parseCliArgs(["diff", "before.json", "after.json", "--json"])).toEqual({
+			ok: true,
+			command: { kind: "diff", before: "before.json", after: "after.json" },
+			options: { json: true, dryRun: false },
+		});
+		expect(parseCliArgs(["diff"])).toEqual({ ok: false, error: "Missing snapshot file for diff" });
+	});
+
+	test("parses audit with an output format", () => {
+		expect(parseCliArgs(["audit"])).toEqual({
+			ok: true,
+			command: { kind: "audit", markdown: false },
+			options: { json: false, dryRun: false },
+		});
+		expect(parseCliArgs(["audit", "--markdown"])).toEqual({
+			ok: true,
+			command: { kind: "audit", markdown: true },
+			options: { json: false, dryRun: false },
+		});
+		expect(parseCliArgs(["audit", "--markdown", "--json"])).toEqual({
+			ok: false,
+			error: "--json and --markdown cannot be combined",
+		});
+		expect(parseCliArgs(["list", "--markdown"])).toEqual({
+			ok: false,
+			error: "--markdown is only valid for audit",
+		});
+	});
+
+	test("rejects list options on single-service commands", () => {
+		expect(parseCliArgs(["stop", "com.example.app", "--apple"])).toEqual({
+			ok: false,
+			error: "--apple is only valid for list",
+		});
+	});
+});
+
+describe("parseTuiArgs", () => {
+	test("no arguments start the TUI", () => {
+		expect(parseTuiArgs([])).toEqual({ dryRun: false });
+	});
+
+	test("--dry-run alone starts the TUI in dry-run mode", () => {
+		expect(parseTuiArgs(["--dry-run"])).toEqual({ dryRun: true });
+	});
+
+	test("a command or another option runs the CLI", () => {
+		expect(parseTuiArgs(["list"])).toBeNull();
+		expect(parseTuiArgs(["stop", "com.example.app", "--dry-run"])).toBeNull();
+		expect(parseTuiArgs(["--dry-run", "--json"])).toBeNull();
+		expect(parseTuiArgs(["--help"])).toBeNull();
+	});
+});
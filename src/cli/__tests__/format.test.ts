@@ -0,0 +1,147 @@
+/**
+ * Tests for CLI output formatting
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { PersistenceAuditReport, Service, SnapshotDiff } from "../../types";
+import {
+	formatActionResult,
+	formatLintFindings,
+	formatPersistenceAudit,
+	formatServiceDetails,
+	formatServiceTable,
+	formatSnapshotDiff,
+} from "../format";
+
+const service: Service = {
+	id: "system-com.docker.vmnetd",
+	label: "com.docker.vmnetd",
+	displayName: "vmnetd",
+	type: "LaunchDaemon",
+	domain: "system",
+	status: "running",
+	pid: 512,
+	protection: "normal",
+	plistPath: "/Library/LaunchDaemons/com.docker.vmnetd.plist",
+	enabled: true,
+	isAppleService: false,
+	requiresRoot: true,
+};
+
+describe("formatServiceTable", () => {
+	test("aligns columns and shows - for missing PIDs", () => {
+		const stopped: Service = { ...service, label: "org.nginx", status: "stopped", pid: undefined };
+		expect(formatServiceTable([service, stopped]).split("\n")).toEqual([
+			"STATUS   PID  TYPE          DOMAIN  LABEL",
+			"running  512  LaunchDaemon  system  com.docker.vmnetd",
+			"stopped  -    LaunchDaemon  system  org.nginx",
+		]);
+	});
+
+	test("prints only the header for an empty list", () => {
+		expect(formatServiceTable([])).toBe("STATUS  PID  TYPE  DOMAIN  LABEL");
+	});
+});
+
+describe("formatServiceDetails", () => {
+	test("lists set fields with aligned keys", () => {
+		const lines = formatServiceDetails(service).split("\n");
+		expect(lines[0]).toBe("Label:         com.docker.vmnetd");
+		expect(lines).toContain("PID:           512");
+		expect(lines).toContain("Requires Root: yes");
+		expect(lines.some((line) => line.startsWith("Description:"))).toBe(false);
+	});
+
+	test("includes plist metadata when loaded", () => {
+		const lines = formatServiceDetails({
+			...service,
+			plistMetadata: { programArguments: ["/usr/bin/vmnetd", "--verbose"], standardOutPath: "/tmp/out.log" },
+		}).split("\n");
+		expect(lines).toContain("Arguments:     /usr/bin/vmnetd --verbose");
+		expect(lines).toContain("Stdout:        /tmp/out.log");
+	});
+});
+
+describe("formatActionResult", () => {
+	test("appends the error detail on a second line", () => {
+		expect(formatActionResult({ success: false, message: "Failed to stop service", error: "Denied" })).toBe(
+			"Failed to stop service\n  Denied",
+		);
+		expect(formatActionResult({ success: true, message: "Done" })).toBe("Done");
+	});
+});
+
+describe("formatLintFindings", () => {
+	test("lists findings with aligned severities and a summary", () => {
+		const text = formatLintFindings("/tmp/a.plist", [
+			{ rule: "missing-label", severity: "error", key: "Label", message: "Label is required" },
+			{ rule: "unknown-key", severity: "info", key: "Foo", message: 'Unknown key "Foo"' },
+		]);
+		expect(text.split("\n")).toEqual([
+			"/tmp/a.plist:",
+			"  error  Label is required  (missing-label, Label)",
+			'  info   Unknown key "Foo"  (unknown-key, Foo)',
+			"2 issues (1 error)",
+		]);
+	});
+
+	test("reports a clean file on one line", () => {
+		expect(formatLintFindings("/tmp/a.plist", [])).toBe("/tmp/a.plist: no issues found");
+	});
+});
+
+describe("formatSnapshotDiff", () => {
+	test("names both sides, lists changes and ends with a summary", () => {
+		const diff: SnapshotDiff = {
+			before: { createdAt: "2024-01-10T09:30:00.000Z", hostname: "mac" },
+			after: { createdAt: "2024-02-01T10:00:00.000Z", hostname: "" },
+			added: [{ id: "gui-org.new", label: "org.new", type: "LaunchAgent", domain: "gui", enabled: true }],
+			removed: [],
+			changed: [],
+		};
+		expect(formatSnapshotDiff(diff, "a.json", "live").split("\n")).toEqual([
+			"a.json (2024-01-10T09:30:00.000Z, mac) → live (2024-02-01T10:00:00.000Z)",
+			"Added (1)",
+			"+ org.new (LaunchAgent, gui)",
+			"1 added, 0 removed, 0 changed",
+		]);
+	});
+});
+
+describe("formatPersistenceAudit", () => {
+	test("lists services with findings and their program, then a summary", () => {
+		const report: PersistenceAuditReport = {
+			createdAt: "2024-01-10T09:30:00.000Z",
+			hostname: "mac",
+			summary: { high: 0, medium: 1, low: 0, none: 1 },
+			services: [
+				{
+					serviceId: "system-com.example.backup",
+					label: "com.example.backup",
+					type: "LaunchDaemon",
+					domain: "system",
+					program: "/bin/sh",
+					signature: { status: "signed", identifier: "com.apple.sh" },
+					score: 35,
+					risk: "medium",
+					findings: [{ signal: "interpreter-one-liner", score: 35, message: "Runs inline sh code: backup" }],
+				},
+				{
+					serviceId: "system-com.docker.vmnetd",
+					label: "com.docker.vmnetd",
+					type: "LaunchDaemon",
+					domain: "system",
+					score: 0,
+					risk: "none",
+					findings: [],
+				},
+			],
+		};
+		expect(formatPersistenceAudit(report).split("\n")).toEqual([
+			"medium   35  com.example.backup",
+			"             /bin/sh · signed (no team ID)",
+			"             +35 Runs inline sh code: backup  (interpreter-one-liner)",
+			"2 third-party services: 0 high, 1 medium, 0 low, 1 clean",
+		]);
+	});
+});
@@ -0,0 +1,294 @@
+/**
+ * Command-line argument parsing for the headless CLI
+ */
+
+import type {
+	FilterOptions,
+	InventoryFormat,
+	ServiceAction,
+	SigningFilter,
+	SortField,
+	SortOptions,
+} from "../types";
+
+/** Subcommands that map directly to a service action */
+export const ACTION_COMMANDS: readonly ServiceAction[] = [
+	"start",
+	"stop",
+	"enable",
+	"disable",
+	"load",
+	"unload",
+	"reload",
+];
+
+export type CliCommand =
+	| { kind: "help" }
+	| { kind: "list"; filter: FilterOptions; sort: SortOptions; search: string; export?: InventoryFormat }
+	| { kind: "show"; label: string }
+	| { kind: "action"; action: ServiceAction; label: string }
+	| { kind: "lint"; target: string }
+	| { kind: "snapshot"; path?: string }
+	| { kind: "diff"; before: string; after?: string }
+	| { kind: "audit"; markdown: boolean };
+
+export interface CliOptions {
+	json: boolean;
+	dryRun: boolean;
+}
+
+export type ParsedCliArgs =
+	| { ok: true; command: CliCommand; options: CliOptions }
+	| { ok: false; error: string };
+
+const TYPE_ALIASES: Record<string, FilterOptions["type"]> = {
+	all: "all",
+	daemon: "LaunchDaemon",
+	agent: "LaunchAgent",
+	extension: "SystemExtension",
+};
+
+const DOMAINS: readonly FilterOptions["domain"][] = ["all", "system", "user", "gui"];
+const STATUSES: readonly FilterOptions["status"][] = [
+	"all",
+	"running",
+	"stopped",
+	"disabled",
+	"error",
+	"not-loaded",
+	"unknown",
+];
+const LOADED_STATES: readonly FilterOptions["loaded"][] = ["all", "loaded", "unloaded"];
+const SIGNING_FILTERS: readonly SigningFilter[] = [
+	"all",
+	"apple",
+	"notarized",
+	"not-notarized",
+	"adhoc",
+	"unsigned",
+];
+const SORT_FIELDS: readonly SortField[] = [
+	"label",
+	"status",
+	"type",
+	"domain",
+	"pid",
+	"cpu",
+	"memory",
+	"uptime",
+];
+const EXPORT_FORMATS: readonly InventoryFormat[] = ["csv", "json", "markdown"];
+
+/** Flags that consume the following argument */
+const VALUE_FLAGS = new Set([
+	"--type",
+	"--domain",
+	"--status",
+	"--loaded",
+	"--signing",
+	"--team",
+	"--search",
+	"--sort",
+	"--export",
+]);
+
+export const USAGE = `Usage: msm [command] [options]
+
+Without a command, starts the interactive TUI; with only --dry-run, starts it in dry-run mode.
+
+Commands:
+  list                      List services
+  show <label>              Show details for a service
+  start|stop|reload <label> Start, stop or restart a service
+  enable|disable <label>    Enable or disable a service
+  load <label>              Load (bootstrap) an installed service
+  unload <label>            Unload (bootout) a service
+  lint <label|path>         Check a service's plist for common mistakes
+  snapshot [file]           Save every service, its enabled state and plist to a JSON snapshot
+                            (default: ~/.config/macos-service-manager/snapshots/)
+  diff <snapshot> [other]   Compare a snapshot with the live system, or with another snapshot
+  audit                     Score third-party services for persistence risk
+  help                      Show this help
+
+Options:
+  --json                    Print machine-readable JSON
+  --dry-run                 Print the launchctl command instead of running it
+  --markdown                Print the audit as a Markdown report
+
+List options:
+  --type <all|daemon|agent|extension>
+  --domain <all|system|user|gui>
+  --status <all|running|stopped|disabled|error|not-loaded|unknown>
+  --loaded <all|loaded|unloaded>
+  --signing <all|apple|notarized|not-notarized|adhoc|unsigned>
+                            Filter by the program's code signature (reads every program)
+  --team <team ID>          Only services whose program is signed by this developer team
+  --search <query>          Fuzzy search by label, name or description
+  --apple                   Include Apple services
+  --no-protected            Hide protected services
+  --sort <label|status|type|domain|pid|cpu|memory|uptime>
+  --desc                    Sort descending
+  --export <csv|json|markdown>
+                            Print the services with their plist metadata for a spreadsheet,
+                            script or ticket
+
+Exit codes:
+  0  success
+  1  action failed, service not found, lint errors, differences found by diff
+     or high-risk services found by audit
+  2  invalid usage`;
+
+function isOneOf<T extends string>(values: readonly T[], value: string): value is T {
+	return (values as readonly string[]).includes(value);
+}
+
+/**
+ * Options for starting the TUI, or null when the arguments are for the CLI
+ * Only `--dry-run` applies to the TUI; any command or other option runs the CLI
+ */
+export function parseTuiArgs(argv: string[]): { dryRun: boolean } | null {
+	let dryRun = false;
+	for (const arg of argv) {
+		if (arg !== "--dry-run") return null;
+		dryRun = true;
+	}
+	return { dryRun };
+}
+
+/**
+ * Parse CLI arguments (without the runtime and script path)
+ */
+export function parseCliArgs(argv: string[]): ParsedCliArgs {
+	const options: CliOptions = { json: false, dryRun: false };
+	const flags = new Map<string, string>();
+	const switches = new Set<string>();
+	const positionals: string[] = [];
+	let markdown = false;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i] as string;
+
+		if (arg === "--json") {
+			options.json = true;
+		} else if (arg === "--dry-run") {
+			options.dryRun = true;
+		} else if (arg === "--markdown") {
+			markdown = true;
+		} else if (arg === "--help" || arg === "-h") {
+			return { ok: true, command: { kind: "help" }, options };
+		} else if (VALUE_FLAGS.has(arg)) {
+			const value = argv[i + 1];
+			if (value === undefined || value.startsWith("--")) {
+				return { ok: false, error: `Missing value for ${arg}` };
+			}
+			flags.set(arg, value);
+			i++;
+		} else if (arg === "--apple" || arg === "--no-protected" || arg === "--desc") {
+			switches.add(arg);
+		} else if (arg.startsWith("-")) {
+			return { ok: false, error: `Unknown option: ${arg}` };
+		} else {
+			positionals.push(arg);
+		}
+	}
+
+	const [name, ...rest] = positionals;
+	if (!name || name === "help") {
+		return { ok: true, command: { kind: "help" }, options };
+	}
+	if (markdown && name !== "audit") return { ok: false, error: "--markdown is only valid for audit" };
+	if (markdown && options.json) return { ok: false, error: "--json and --markdown cannot be combined" };
+
+	if (name === "list") {
+		if (rest.length > 0) return { ok: false, error: `Unexpected argument: ${rest[0]}` };
+
+		const type = TYPE_ALIASES[flags.get("--type") ?? "all"];
+		if (!type) return { ok: false, error: `Invalid --type: ${flags.get("--type")}` };
+
+		const domain = flags.get("--domain") ?? "all";
+		if (!isOneOf(DOMAINS, domain)) return { ok: false, error: `Invalid --domain: ${domain}` };
+
+		const status = flags.get("--status") ?? "all";
+		if (!isOneOf(STATUSES, status)) return { ok: false, error: `Invalid --status: ${status}` };
+
+		const loaded = flags.get("--loaded") ?? "all";
+		if (!isOneOf(LOADED_STATES, loaded)) return { ok: false, error: `Invalid --loaded: ${loaded}` };
+
+		const signing = flags.get("--signing") ?? "all";
+		if (!isOneOf(SIGNING_FILTERS, signing)) return { ok: false, error: `Invalid --signing: ${signing}` };
+
+		const field = flags.get("--sort") ?? "label";
+		if (!isOneOf(SORT_FIELDS, field)) return { ok: false, error: `Invalid --sort: ${field}` };
+
+		const format = flags.get("--export");
+		if (format !== undefined && !isOneOf(EXPORT_FORMATS, format)) {
+			return { ok: false, error: `Invalid --export: ${format}` };
+		}
+		if (format !== undefined && options.json) {
+			return { ok: false, error: "--json and --export cannot be combined" };
+		}
+
+		return {
+			ok: true,
+			command: {
+				kind: "list",
+				...(format !== undefined && { export: format }),
+				filter: {
+					type,
+					domain,
+					status,
+					loaded,
+					signing,
+					teamId: flags.get("--team") ?? null,
+					showAppleServices: switches.has("--apple"),
+					showProtected: !switches.has("--no-protected"),
+				},
+				sort: { field, direction: switches.has("--desc") ? "desc" : "asc" },
+				search: flags.get("--search") ?? "",
+			},
+			options,
+		};
+	}
+
+	// List-only options make no sense for single-service commands
+	const listOption = [...flags.keys(), ...switches][0];
+	if (listOption) return { ok: false, error: `${listOption} is only valid for list` };
+
+	if (name === "show" || isOneOf(ACTION_COMMANDS, name)) {
+		const [label, extra] = rest;
+		if (!label) return { ok: false, error: `Missing service label for ${name}` };
+		if (extra) return { ok: false, error: `Unexpected argument: ${extra}` };
+
+		const command: CliCommand = isOneOf(ACTION_COMMANDS, name)
+			? { kind: "action", action: name, label }
+			: { kind: "show", label };
+		return { ok: true, command, options };
+	}
+
+	if (name === "lint") {
+		const [target, extra] = rest;
+		if (!target) return { ok: false, error: "Missing service label or plist path for lint" };
+		if (extra) return { ok: false, error: `Unexpected argument: ${extra}` };
+		return { ok: true, command: { kind: "lint", target }, options };
+	}
+
+	if (name === "snapshot") {
+		const [path, extra] = rest;
+		if (extra) return { ok: false, error: `Unexpected argument: ${extra}` };
+		return { ok: true, command: path ? { kind: "snapshot", path } : { kind: "snapshot" }, options };
+	}
+
+	if (name === "diff") {
+		const [before, after, extra] = rest;
+		if (!before) return { ok: false, error: "Missing snapshot file for diff" };
+		if (extra) return { ok: false, error: `Unexpected argument: ${extra}` };
+		return { ok: true, command: after ? { kind: "diff", before, after } : { kind: "diff", before }, options };
+	}
+
+	if (name === "audit") {
+		if (rest.length > 0) return { ok: false, error: `Unexpected argument: ${rest[0]}` };
+		return { ok: true, command: { kind: "audit", markdown }, options };
+	}
+
+	return { ok: false, error: `Unknown command: ${name}` };
+}
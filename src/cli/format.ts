@@ -0,0 +1,127 @@
+/**
+ * Plain-text output formatting for the headless CLI
+ */
+
+import { describeSignature, summarizeAudit } from "../services/persistence";
+import { snapshotDiffLines, summarizeSnapshotDiff } from "../services/snapshot";
+import type { ActionResult, PersistenceAuditReport, PlistLintFinding, Service, SnapshotDiff } from "../types";
+
+interface Column {
+	header: string;
+	value: (service: Service) => string;
+}
+
+const LIST_COLUMNS: Column[] = [
+	{ header: "STATUS", value: (s) => s.status },
+	{ header: "PID", value: (s) => (s.pid !== undefined ? String(s.pid) : "-") },
+	{ header: "TYPE", value: (s) => s.type },
+	{ header: "DOMAIN", value: (s) => s.domain },
+	{ header: "LABEL", value: (s) => s.label },
+];
+
+/**
+ * Render services as an aligned table (last column is not padded)
+ */
+export function formatServiceTable(services: Service[]): string {
+	const rows = [
+		LIST_COLUMNS.map((c) => c.header),
+		...services.map((s) => LIST_COLUMNS.map((c) => c.value(s))),
+	];
+	const widths = LIST_COLUMNS.map((_, i) => Math.max(...rows.map((row) => row[i]?.length ?? 0)));
+
+	return rows
+		.map((row) =>
+			row
+				.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i] ?? 0)))
+				.join("  ")
+				.trimEnd(),
+		)
+		.join("\n");
+}
+
+/**
+ * Render a service as `Key: value` lines, skipping unset fields
+ */
+export function formatServiceDetails(service: Service): string {
+	const meta = service.plistMetadata;
+	const fields: Array<[string, string | number | boolean | undefined]> = [
+		["Label", service.label],
+		["Name", service.displayName],
+		["Status", service.status],
+		["Type", service.type],
+		["Domain", service.domain],
+		["PID", service.pid],
+		["Exit Status", service.exitStatus],
+		["Enabled", service.enabled ? "yes" : "no"],
+		["Protection", service.protection],
+		["Requires Root", service.requiresRoot ? "yes" : "no"],
+		["Plist Path", service.plistPath],
+		["Description", service.description],
+		["Program", meta?.program],
+		["Arguments", meta?.programArguments?.join(" ")],
+		["Stdout", meta?.standardOutPath],
+		["Stderr", meta?.standardErrorPath],
+		["Last Error", service.lastError],
+	];
+
+	const present = fields.filter(
+		(entry): entry is [string, string | number | boolean] => entry[1] !== undefined,
+	);
+	const width = Math.max(...present.map(([key]) => key.length)) + 1;
+	return present.map(([key, value]) => `${`${key}:`.padEnd(width)} ${value}`).join("\n");
+}
+
+/**
+ * Render an action result as a one-line message plus optional error detail
+ */
+export function formatActionResult(result: ActionResult): string {
+	return result.error ? `${result.message}\n  ${result.error}` : result.message;
+}
+
+/**
+ * Render lint findings one per line, followed by a summary
+ */
+export function formatLintFindings(path: string, findings: PlistLintFinding[]): string {
+	if (findings.length === 0) return `${path}: no issues found`;
+
+	const width = Math.max(...findings.map((f) => f.severity.length));
+	const lines = findings.map(
+		(f) => `  ${f.severity.padEnd(width)}  ${f.message}  (${f.rule}${f.key ? `, ${f.key}` : ""})`,
+	);
+	const errors = findings.filter((f) => f.severity === "error").length;
+	const summary = `${findings.length} issue${findings.length === 1 ? "" : "s"} (${errors} error${errors === 1 ? "" : "s"})`;
+	return [`${path}:`, ...lines, summary].join("\n");
+}
+
+/**
+ * Render a snapshot diff: what was compared, each section, then a summary
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff, beforeName: string, afterName: string): string {
+	const describe = (name: string, side: SnapshotDiff["before"]) =>
+		side.hostname ? `${name} (${side.createdAt}, ${side.hostname})` : `${name} (${side.createdAt})`;
+	return [
+		`${describe(beforeName, diff.before)} → ${describe(afterName, diff.after)}`,
+		...snapshotDiffLines(diff).map((line) => line.text),
+		summarizeSnapshotDiff(diff),
+	].join("\n");
+}
+
+/**
+ * Render a persistence audit: each service with findings, highest score first, then a summary
+ */
+export function formatPersistenceAudit(report: PersistenceAuditReport): string {
+	const lines: string[] = [];
+	for (const service of report.services) {
+		if (service.risk === "none") continue;
+		lines.push(`${service.risk.padEnd(6)}  ${String(service.score).padStart(3)}  ${service.label}`);
+		if (service.program) {
+			const signature = service.signature ? ` · ${describeSignature(service.signature)}` : "";
+			lines.push(`             ${service.program}${signature}`);
+		}
+		for (const finding of service.findings) {
+			lines.push(`             +${finding.score} ${finding.message}  (${finding.signal})`);
+		}
+	}
+	lines.push(`${report.services.length} third-party services: ${summarizeAudit(report.summary)}`);
+	return lines.join("\n");
+}
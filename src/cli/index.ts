@@ -0,0 +1,222 @@
+/**
+ * Headless CLI
+ * Scriptable access to the same service operations as the TUI
+ */
+
+import {
+	buildAuditReport,
+	captureSnapshot,
+	diffSnapshots,
+	fetchAllServices,
+	fetchCodeSignatures,
+	fetchProcessSamples,
+	fetchServiceInventory,
+	filterServices,
+	findServiceByLabel,
+	formatAuditReport,
+	formatInventory,
+	isEmptySnapshotDiff,
+	isMacOS,
+	isResourceSortField,
+	lintPlistFile,
+	performServiceAction,
+	readSnapshot,
+	recordServiceAction,
+	runPersistenceAudit,
+	saveLiveSnapshot,
+	sortLintFindings,
+	sortServices,
+} from "../services";
+import type { ProcessSample } from "../types";
+import { type CliCommand, type CliOptions, parseCliArgs, USAGE } from "./args";
+import {
+	formatActionResult,
+	formatLintFindings,
+	formatPersistenceAudit,
+	formatServiceDetails,
+	formatServiceTable,
+	formatSnapshotDiff,
+} from "./format";
+
+export { parseCliArgs, parseTuiArgs, USAGE } from "./args";
+
+/** Process exit codes */
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+function print(text: string) {
+	process.stdout.write(`${text}\n`);
+}
+
+function printError(text: string) {
+	process.stderr.write(`msm: ${text}\n`);
+}
+
+function printJson(value: unknown) {
+	print(JSON.stringify(value, null, 2));
+}
+
+async function runCommand(command: CliCommand, options: CliOptions): Promise<number> {
+	switch (command.kind) {
+		case "help":
+			print(USAGE);
+			return EXIT_SUCCESS;
+
+		case "list": {
+			const services = await fetchAllServices();
+			const { signing, teamId } = command.filter;
+			let filtered = filterServices(
+				services,
+				{ ...command.filter, signing: "all", teamId: null },
+				command.search,
+			);
+			if (signing !== "all" || teamId !== null) {
+				// Read code signatures only for the services the other filters keep
+				const signatures = await fetchCodeSignatures(filtered);
+				filtered = filterServices(filtered, command.filter, "", signatures);
+			}
+			// Sample running processes once for resource sorting and the export's CPU, memory, threads and uptime
+			let samples: Record<number, ProcessSample> = {};
+			if (command.export || isResourceSortField(command.sort.field)) {
+				const pids = filtered.flatMap((service) => (service.pid !== undefined ? [service.pid] : []));
+				const sampled = pids.length > 0 ? await fetchProcessSamples(pids) : [];
+				samples = Object.fromEntries(sampled.map((sample) => [sample.pid, sample]));
+			}
+			// Keep relevance order when searching, like the TUI
+			const result = command.search ? filtered : sortServices(filtered, command.sort, samples);
+			if (command.export) {
+				const { filter, sort, search } = command;
+				const inventory = await fetchServiceInventory(result, { filter, sort, search, samples });
+				print(formatInventory(inventory, command.export));
+			} else if (options.json) {
+				printJson(result);
+			} else {
+				print(formatServiceTable(result));
+			}
+			return EXIT_SUCCESS;
+		}
+
+		case "show": {
+			const service = await findServiceByLabel(command.label);
+			if (!service) {
+				printError(`Service not found: ${command.label}`);
+				return EXIT_FAILURE;
+			}
+			if (options.json) {
+				printJson(service);
+			} else {
+				print(formatServiceDetails(service));
+			}
+			return EXIT_SUCCESS;
+		}
+
+		case "action": {
+			const service = await findServiceByLabel(command.label);
+			if (!service) {
+				printError(`Service not found: ${command.label}`);
+				return EXIT_FAILURE;
+			}
+
+			const result = await performServiceAction(command.action, service, { dryRun: options.dryRun });
+			await recordServiceAction(command.action, service, result, { dryRun: options.dryRun, source: "cli" });
+			// There is no password dialog here, so point at the usual workaround
+			if (result.error === "NEEDS_PASSWORD") {
+				result.error = "Run `sudo -v` first to cache administrator credentials";
+			}
+
+			if (options.json) {
+				printJson({ action: command.action, label: service.label, dryRun: options.dryRun, ...result });
+			} else if (result.success) {
+				print(formatActionResult(result));
+			} else {
+				printError(formatActionResult(result));
+			}
+			return result.success ? EXIT_SUCCESS : EXIT_FAILURE;
+		}
+
+		case "lint": {
+			// Anything that looks like a path is linted directly, otherwise look the label up
+			let path = command.target;
+			if (!path.includes("/") && !path.endsWith(".plist")) {
+				const service = await findServiceByLabel(command.target);
+				if (!service) {
+					printError(`Service not found: ${command.target}`);
+					return EXIT_FAILURE;
+				}
+				if (!service.plistPath) {
+					printError(`No plist found for ${service.label}`);
+					return EXIT_FAILURE;
+				}
+				path = service.plistPath;
+			}
+
+			const findings = sortLintFindings(await lintPlistFile(path));
+			if (options.json) {
+				printJson({ path, findings });
+			} else {
+				print(formatLintFindings(path, findings));
+			}
+			return findings.some((f) => f.severity === "error") ? EXIT_FAILURE : EXIT_SUCCESS;
+		}
+
+		case "snapshot": {
+			const { path, snapshot } = await saveLiveSnapshot(command.path);
+			if (options.json) {
+				printJson({ path, createdAt: snapshot.createdAt, services: snapshot.services.length });
+			} else {
+				print(`Saved ${snapshot.services.length} services to ${path}`);
+			}
+			return EXIT_SUCCESS;
+		}
+
+		case "diff": {
+			const before = await readSnapshot(command.before);
+			const after = command.after ? await readSnapshot(command.after) : await captureSnapshot();
+			const diff = diffSnapshots(before, after);
+			if (options.json) {
+				printJson(diff);
+			} else {
+				print(formatSnapshotDiff(diff, command.before, command.after ?? "live"));
+			}
+			// Like diff(1), differences are a non-zero exit
+			return isEmptySnapshotDiff(diff) ? EXIT_SUCCESS : EXIT_FAILURE;
+		}
+
+		case "audit": {
+			const report = buildAuditReport(await runPersistenceAudit(await fetchAllServices()));
+			if (options.json) {
+				printJson(report);
+			} else if (command.markdown) {
+				print(formatAuditReport(report, "markdown"));
+			} else {
+				print(formatPersistenceAudit(report));
+			}
+			return report.summary.high > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+		}
+	}
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+	const parsed = parseCliArgs(argv);
+	if (!parsed.ok) {
+		printError(parsed.error);
+		process.stderr.write("Run `msm --help` for usage.\n");
+		return EXIT_USAGE;
+	}
+
+	// stderr keeps --json output clean; the TUI shows the same services without a notice
+	if (parsed.command.kind !== "help" && !isMacOS()) {
+		printError("not running on macOS - using mock data");
+	}
+
+	try {
+		return await runCommand(parsed.command, parsed.options);
+	} catch (error) {
+		printError(error instanceof Error ? error.message : String(error));
+		return EXIT_FAILURE;
+	}
+}
@@ -0,0 +1,127 @@
+/**
+ * Batch Results Panel Component
+ * Progress and per-service outcome of an action run on marked services
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS } from "../constants";
+import { useAppStore } from "../store/useAppStore";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 90;
+// Border + padding
+const PANEL_CHROME_WIDTH = 4;
+// Status symbol + space
+const STATUS_WIDTH = 2;
+const LABEL_WIDTH = 36;
+// Header, summary, footer, borders
+const PANEL_CHROME_HEIGHT = 6;
+
+export function BatchResultsPanel() {
+	const batch = useAppStore((state) => state.batch);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!batch) {
+		return null;
+	}
+
+	const { results, running } = batch;
+	const done = results.filter((r) => r !== null);
+	const succeeded = done.filter((r) => r.result.success).length;
+	const failed = done.length - succeeded;
+
+	const visibleRows = Math.max(1, Math.min(results.length, terminalHeight - 4 - PANEL_CHROME_HEIGHT));
+	// While running, keep the newest completed rows in view
+	const startIndex = running ? Math.max(0, done.length - visibleRows) : 0;
+	const visibleResults = results.slice(startIndex, startIndex + visibleRows);
+	const hidden = results.length - startIndex - visibleResults.length;
+	const messageWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH - STATUS_WIDTH - LABEL_WIDTH - 1;
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={PANEL_WIDTH}
+				border
+				borderColor={failed > 0 ? COLORS.textError : COLORS.bgFocus}
+				backgroundColor={COLORS.bgSecondary}
+				flexDirection="column"
+			>
+				{/* Header */}
+				<box
+					backgroundColor={COLORS.bgHeader}
+					paddingLeft={1}
+					paddingRight={1}
+					height={1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={COLORS.textAccent}>
+						<strong>
+							{batch.dryRun ? "🔍 DRY RUN - " : ""}
+							{batch.action} {results.length} services
+						</strong>
+					</text>
+					<text fg={COLORS.textMuted}>{running ? `⏳ ${done.length}/${results.length}` : "done"}</text>
+				</box>
+
+				{/* Per-service results */}
+				<box flexDirection="column" paddingLeft={1} paddingRight={1} paddingTop={1}>
+					{visibleResults.map((item, i) => {
+						const index = startIndex + i;
+						if (!item) {
+							return (
+								<text key={`pending-${index}`} fg={COLORS.textMuted}>
+									… pending
+								</text>
+							);
+						}
+
+						const { result } = item;
+						const attempts = result.retryInfo?.retried ? ` (${result.retryInfo.attempts} attempts)` : "";
+						const detail = batch.dryRun && result.command ? result.command : (result.error ?? result.message);
+						return (
+							<box key={item.serviceId} flexDirection="row" height={1}>
+								<text fg={result.success ? COLORS.textSuccess : COLORS.textError}>
+									{result.success ? "✓ " : "✗ "}
+								</text>
+								<box width={LABEL_WIDTH}>
+									<text fg={COLORS.textSecondary}>{truncateWithEllipsis(item.label, LABEL_WIDTH - 1)}</text>
+								</box>
+								<text fg={result.success ? COLORS.textTertiary : COLORS.textWarningLight}>
+									{truncateWithEllipsis(`${detail}${attempts}`, messageWidth)}
+								</text>
+							</box>
+						);
+					})}
+					{hidden > 0 && <text fg={COLORS.textMuted}>…and {hidden} more</text>}
+				</box>
+
+				{/* Summary */}
+				<box
+					flexDirection="row"
+					justifyContent="space-between"
+					paddingLeft={1}
+					paddingRight={1}
+					marginTop={1}
+					backgroundColor={COLORS.bgTertiary}
+					height={1}
+				>
+					<text>
+						<span fg={COLORS.textSuccess}>{succeeded} succeeded</span>
+						<span fg={COLORS.textMuted}> · </span>
+						<span fg={failed > 0 ? COLORS.textError : COLORS.textMuted}>{failed} failed</span>
+					</text>
+					<text fg={COLORS.textMuted}>{running ? "Please wait..." : "[Enter/ESC] close"}</text>
+				</box>
+			</box>
+		</box>
+	);
+}
@@ -4,8 +4,76 @@
  */
 
 import { COLORS } from "../constants";
+import { formatActionCommand } from "../services";
 import { useAppStore } from "../store/useAppStore";
-import { useFilteredServices, useSelectedService } from "../store/useDerivedState";
+import { useFilteredServices, useMarkedServices, useSelectedService } from "../store/useDerivedState";
+import type { Service, ServiceAction } from "../types";
+
+/** Commands listed in the batch confirmation before collapsing the rest */
+const MAX_BATCH_PREVIEW = 8;
+
+/**
+ * Confirmation body for an action on every marked service
+ */
+function BatchConfirmBody({
+	action,
+	services,
+	filteredOut,
+	isDryRun,
+	isDestructive,
+}: {
+	action: ServiceAction;
+	services: Service[];
+	/** Marked services the current filter or search hides from the list */
+	filteredOut: number;
+	isDryRun: boolean;
+	isDestructive: boolean;
+}) {
+	const shown = services.slice(0, MAX_BATCH_PREVIEW);
+	const hidden = services.length - shown.length;
+	const needsRoot = services.some((s) => s.requiresRoot);
+
+	return (
+		<>
+			<box marginTop={1}>
+				<text fg={COLORS.textSecondary}>
+					{isDryRun ? "Preview" : "Are you sure you want to"}{" "}
+					<span fg={isDestructive ? COLORS.textError : COLORS.textSuccess}>{action}</span>{" "}
+					<span fg={COLORS.textMarked}>{services.length}</span> marked services?
+				</text>
+			</box>
+
+			<box marginTop={1} padding={1} backgroundColor={COLORS.bgPrimary} flexDirection="column">
+				{shown.map((service) => (
+					<text key={service.id} fg={COLORS.textTertiary}>
+						{service.protection !== "normal" || service.type === "SystemExtension" ? (
+							<span fg={COLORS.textMuted}>
+								skip {service.label} ({service.type === "SystemExtension" ? "extension" : "protected"})
+							</span>
+						) : (
+							(formatActionCommand(action, service) ?? service.label)
+						)}
+					</text>
+				))}
+				{hidden > 0 && <text fg={COLORS.textMuted}>…and {hidden} more</text>}
+			</box>
+
+			{filteredOut > 0 && (
+				<box marginTop={1}>
+					<text fg={COLORS.textWarning}>
+						⚠ {filteredOut} of these {filteredOut === 1 ? "is" : "are"} hidden by the current filter.
+					</text>
+				</box>
+			)}
+
+			{needsRoot && (
+				<box marginTop={1}>
+					<text fg={COLORS.textWarning}>🔑 Some actions require administrator privileges.</text>
+				</box>
+			)}
+		</>
+	);
+}
 
 export function ConfirmDialog() {
 	const { filteredServices } = useFilteredServices();
@@ -14,6 +82,7 @@ export function ConfirmDialog() {
 	const showConfirm = useAppStore((state) => state.showConfirm);
 	const pendingAction = useAppStore((state) => state.pendingAction);
 	const dryRun = useAppStore((state) => state.dryRun);
+	const markedServices = useMarkedServices();
 
 	// Show executing overlay
 	if (executingAction && pendingAction && selectedService) {
@@ -53,7 +122,10 @@ export function ConfirmDialog() {
 		);
 	}
 
-	if (!showConfirm || !pendingAction || !selectedService) {
+	const isBatch = markedServices.length > 0;
+	const visibleIds = new Set(filteredServices.map((s) => s.id));
+	const filteredOut = markedServices.filter((s) => !visibleIds.has(s.id)).length;
+	if (!showConfirm || !pendingAction || (!selectedService && !isBatch)) {
 		return null;
 	}
 
@@ -95,22 +167,36 @@ export function ConfirmDialog() {
 					</box>
 				)}
 
-				<box marginTop={1}>
-					<text fg={COLORS.textSecondary}>
-						{isDryRun ? "Preview" : "Are you sure you want to"}{" "}
-						<span fg={isDestructive ? COLORS.textError : COLORS.textSuccess}>{action}</span>
-						{isDryRun ? " for this service:" : " this service?"}
-					</text>
-				</box>
+				{isBatch ? (
+					<BatchConfirmBody
+						action={action}
+						services={markedServices}
+						filteredOut={filteredOut}
+						isDryRun={isDryRun}
+						isDestructive={isDestructive}
+					/>
+				) : (
+					service && (
+						<>
+							<box marginTop={1}>
+								<text fg={COLORS.textSecondary}>
+									{isDryRun ? "Preview" : "Are you sure you want to"}{" "}
+									<span fg={isDestructive ? COLORS.textError : COLORS.textSuccess}>{action}</span>
+									{isDryRun ? " for this service:" : " this service?"}
+								</text>
+							</box>
 
-				<box marginTop={1} padding={1} backgroundColor={COLORS.bgPrimary}>
-					<text fg={COLORS.textTertiary}>{service.label}</text>
-				</box>
+							<box marginTop={1} padding={1} backgroundColor={COLORS.bgPrimary}>
+								<text fg={COLORS.textTertiary}>{service.label}</text>
+							</box>
 
-				{service.requiresRoot && (
-					<box marginTop={1}>
-						<text fg={COLORS.textWarning}>🔑 This action requires administrator privileges.</text>
-					</box>
+							{service.requiresRoot && (
+								<box marginTop={1}>
+									<text fg={COLORS.textWarning}>🔑 This action requires administrator privileges.</text>
+								</box>
+							)}
+						</>
+					)
 				)}
 
 				{isDestructive && !isDryRun && (
@@ -0,0 +1,146 @@
+/**
+ * Events Panel Component
+ * Restarts, exits, crashes and flapping noticed across refreshes
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS } from "../constants";
+import { useAppStore } from "../store/useAppStore";
+import type { ServiceEventKind } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 100;
+// Border + padding
+const PANEL_CHROME_WIDTH = 4;
+// Header, key hints, borders, margins
+const PANEL_CHROME_HEIGHT = 6;
+const TIME_WIDTH = 10;
+const KIND_WIDTH = 11;
+const LABEL_WIDTH = 36;
+
+const KIND_COLORS: Record<ServiceEventKind, string> = {
+	started: COLORS.textSuccess,
+	exited: COLORS.textMuted,
+	restarted: COLORS.textWarning,
+	crashed: COLORS.textError,
+	flapping: COLORS.textOrange,
+};
+
+/**
+ * Format epoch milliseconds as local "HH:MM:SS"
+ */
+function formatEventTime(time: number): string {
+	const date = new Date(time);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+export function EventsPanel() {
+	const showEvents = useAppStore((state) => state.showEvents);
+	const health = useAppStore((state) => state.health);
+	const autoRefresh = useAppStore((state) => state.autoRefresh.enabled);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!showEvents) {
+		return null;
+	}
+
+	const { events } = health;
+	const visibleRows = Math.max(1, terminalHeight - 4 - PANEL_CHROME_HEIGHT);
+	const messageWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH - TIME_WIDTH - KIND_WIDTH - LABEL_WIDTH;
+	const alertCount = Object.keys(health.alerts).length;
+
+	// Keep the selected event in view
+	const selectedIndex = Math.min(health.selectedIndex, Math.max(0, events.length - 1));
+	const startIndex = Math.max(
+		0,
+		Math.min(selectedIndex - Math.floor(visibleRows / 2), events.length - visibleRows),
+	);
+	const visibleEvents = events.slice(startIndex, startIndex + visibleRows);
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={PANEL_WIDTH}
+				height={Math.min(terminalHeight - 4, visibleRows + PANEL_CHROME_HEIGHT)}
+				border
+				borderColor={COLORS.bgFocus}
+				backgroundColor={COLORS.bgPrimary}
+				flexDirection="column"
+			>
+				{/* Header */}
+				<box
+					backgroundColor={COLORS.bgHeader}
+					paddingLeft={1}
+					paddingRight={1}
+					height={1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={COLORS.textAccent}>
+						<strong>Service Events</strong>
+					</text>
+					<text fg={COLORS.textMuted}>
+						{events.length} events
+						{alertCount > 0 && (
+							<span fg={COLORS.textError}> · {alertCount} services crashed or flapping</span>
+						)}
+						{" · "}notifications {health.notify ? "on" : "off"}
+					</text>
+				</box>
+
+				{/* Events */}
+				<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+					{events.length === 0 ? (
+						<text fg={COLORS.textMuted}>
+							{autoRefresh
+								? "No restarts or exits seen yet"
+								: "No restarts or exits seen yet · turn on auto-refresh (Shift+A) to watch for crashes"}
+						</text>
+					) : (
+						visibleEvents.map((event, i) => {
+							const isSelected = startIndex + i === selectedIndex;
+							return (
+								<box
+									// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+									key={`event-${i}`}
+									flexDirection="row"
+									height={1}
+									backgroundColor={isSelected ? COLORS.bgSelected : undefined}
+								>
+									<box width={TIME_WIDTH}>
+										<text fg={COLORS.textMuted}>{formatEventTime(event.time)}</text>
+									</box>
+									<box width={KIND_WIDTH}>
+										<text fg={KIND_COLORS[event.kind]}>{event.kind}</text>
+									</box>
+									<box width={LABEL_WIDTH}>
+										<text fg={isSelected ? COLORS.textPrimary : COLORS.textSecondary}>
+											{truncateWithEllipsis(event.label, LABEL_WIDTH - 1)}
+										</text>
+									</box>
+									<box width={messageWidth}>
+										<text fg={COLORS.textTertiary}>{truncateWithEllipsis(event.message, messageWidth)}</text>
+									</box>
+								</box>
+							);
+						})
+					)}
+				</box>
+
+				{/* Key hints */}
+				<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgTertiary} height={1}>
+					<text fg={COLORS.textMuted}>[Enter] go to service [n] notifications [C] clear [ESC] close</text>
+				</box>
+			</box>
+		</box>
+	);
+}
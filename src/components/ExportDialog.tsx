@@ -0,0 +1,70 @@
+/**
+ * Export Dialog Component
+ * Picks the format the listed services are exported in
+ */
+
+import { COLORS } from "../constants";
+import { getReportDir } from "../services";
+import { useAppStore } from "../store/useAppStore";
+import { useFilteredServices } from "../store/useDerivedState";
+
+export function ExportDialog() {
+	const showExport = useAppStore((state) => state.showExport);
+	const exporting = useAppStore((state) => state.exportingServices);
+	const { filteredServices } = useFilteredServices();
+
+	if (!showExport) {
+		return null;
+	}
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={60}
+				border
+				borderColor={COLORS.bgFocus}
+				backgroundColor={COLORS.bgSecondary}
+				padding={2}
+				flexDirection="column"
+				gap={1}
+			>
+				<text fg={COLORS.textAccent}>
+					<strong>Export Services</strong>
+				</text>
+
+				<text fg={COLORS.textSecondary}>
+					{exporting ? "Reading plists of " : "Export "}
+					<span fg={COLORS.textPrimary}>{filteredServices.length}</span> listed services with their plist
+					metadata{exporting ? "..." : ", as filtered, searched and sorted"}
+				</text>
+
+				<box padding={1} backgroundColor={COLORS.bgPrimary}>
+					<text fg={COLORS.textTertiary}>{getReportDir()}</text>
+				</box>
+
+				<box flexDirection="row" gap={2} marginTop={1} justifyContent="center">
+					<text fg={COLORS.textMuted}>
+						<span fg={COLORS.textAccent}>[c]</span> CSV
+					</text>
+					<text fg={COLORS.textMuted}>
+						<span fg={COLORS.textAccent}>[j]</span> JSON
+					</text>
+					<text fg={COLORS.textMuted}>
+						<span fg={COLORS.textAccent}>[m]</span> Markdown
+					</text>
+					<text fg={COLORS.textMuted}>
+						<span fg={COLORS.textAccent}>[Esc]</span> Cancel
+					</text>
+				</box>
+			</box>
+		</box>
+	);
+}
@@ -77,6 +77,7 @@ function TogglePill({ label, active, shortcut }: TogglePillProps) {
 export function FilterBar() {
 	const filter = useAppStore((state) => state.filter);
 	const sort = useAppStore((state) => state.sort);
+	const signatures = useAppStore((state) => state.signatures);
 	const { height: terminalHeight } = useTerminalDimensions();
 
 	// Use compact layout on small terminals (< 25 rows)
@@ -121,6 +122,31 @@ export function FilterBar() {
 				<text fg={COLORS.textMuted}> - Press ] to cycle</text>
 			</FilterRow>
 
+			{/* Loaded filter */}
+			<FilterRow label="Loaded:">
+				<FilterButton label="All" active={filter.loaded === "all"} />
+				<FilterButton label="Loaded" active={filter.loaded === "loaded"} />
+				<FilterButton label="Not loaded" active={filter.loaded === "unloaded"} />
+				<text fg={COLORS.textMuted}> - Press \ to cycle</text>
+			</FilterRow>
+
+			{/* Code signature filters */}
+			<FilterRow label="Signing:">
+				<FilterButton label="All" active={filter.signing === "all"} />
+				<FilterButton label="Apple" active={filter.signing === "apple"} />
+				<FilterButton label="Notarized" active={filter.signing === "notarized"} />
+				<FilterButton label="Not notarized" active={filter.signing === "not-notarized"} />
+				<FilterButton label="Ad-hoc" active={filter.signing === "adhoc"} />
+				<FilterButton label="Unsigned" active={filter.signing === "unsigned"} />
+				<text fg={COLORS.textMuted}> - Press v to cycle</text>
+			</FilterRow>
+			<FilterRow label="Team:">
+				<FilterButton label={filter.teamId ?? "Any"} active={filter.teamId !== null} />
+				<text fg={COLORS.textMuted}> - Press V to match the selected service's team</text>
+				{signatures.loading && <text fg={COLORS.textMuted}>(reading code signatures...)</text>}
+				{signatures.error && <text fg={COLORS.textError}>{signatures.error}</text>}
+			</FilterRow>
+
 			{/* Toggles */}
 			<FilterRow label="Show:">
 				<TogglePill label="Apple/macOS Services" active={filter.showAppleServices} shortcut="a" />
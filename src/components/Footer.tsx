@@ -15,6 +15,7 @@ export function Footer() {
 	const shortcuts = [
 		{ key: "↑↓/jk", action: "Navigate" },
 		{ key: "/", action: "Search" },
+		{ key: "Space", action: "Mark" },
 		{ key: "f", action: "Filter" },
 		{
 			key: "D",
@@ -40,6 +41,9 @@ export function Footer() {
 							{lastActionResult.error && ` - ${lastActionResult.error}`}
 						</text>
 					)}
+					{lastActionResult?.auditError && !executingAction && !loading && (
+						<text fg={COLORS.textWarning}>⚠ {lastActionResult.auditError}</text>
+					)}
 				</box>
 			)}
 
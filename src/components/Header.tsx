@@ -6,25 +6,7 @@
 import { COLORS } from "../constants";
 import { useAppStore } from "../store/useAppStore";
 import { useFilteredServices } from "../store/useDerivedState";
-
-/**
- * Format a date as relative time (e.g., "2 min ago")
- */
-function formatRelativeTime(date: Date): string {
-	const now = new Date();
-	const diffMs = now.getTime() - date.getTime();
-	const diffSec = Math.floor(diffMs / 1000);
-	const diffMin = Math.floor(diffSec / 60);
-	const diffHour = Math.floor(diffMin / 60);
-
-	if (diffSec < 60) {
-		return `${diffSec}s ago`;
-	} else if (diffMin < 60) {
-		return `${diffMin}m ago`;
-	} else {
-		return `${diffHour}h ago`;
-	}
-}
+import { formatRelativeTime } from "../utils/format";
 
 export function Header() {
 	const { filteredServices } = useFilteredServices();
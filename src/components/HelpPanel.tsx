@@ -26,11 +26,17 @@ const SHORTCUT_GROUPS: ShortcutGroup[] = [
 		title: "Search & Filter",
 		shortcuts: [
 			{ key: "/", description: "Focus search" },
+			{ key: ":port N", description: "Find service by port" },
+			{ key: ":pid N", description: "Find service by PID" },
+			{ key: ":path P", description: "Find service by path" },
 			{ key: "ESC", description: "Clear/cancel" },
 			{ key: "f", description: "Toggle filters" },
 			{ key: "1-4", description: "Filter by type" },
 			{ key: "[", description: "Cycle domain" },
 			{ key: "]", description: "Cycle status" },
+			{ key: "\\", description: "Cycle loaded state" },
+			{ key: "v", description: "Cycle signing" },
+			{ key: "V", description: "Filter by team ID" },
 			{ key: "a", description: "Toggle Apple svcs" },
 			{ key: "p", description: "Toggle protected" },
 		],
@@ -42,12 +48,112 @@ const SHORTCUT_GROUPS: ShortcutGroup[] = [
 	{
 		title: "Actions",
 		shortcuts: [
-			{ key: "Enter", description: "Start (if stopped)" },
+			{ key: "Enter", description: "Start (or load)" },
 			{ key: "x", description: "Stop service" },
 			{ key: "r", description: "Reload service" },
 			{ key: "d", description: "Enable/disable" },
-			{ key: "u", description: "Unload service" },
-			{ key: "e", description: "Edit plist file" },
+			{ key: "u", description: "Unload/load service" },
+			{ key: "e", description: "Edit plist (tree)" },
+			{ key: "E", description: "Edit plist in $EDITOR" },
+			{ key: "n", description: "Create new service" },
+		],
+	},
+	{
+		title: "Multi-select",
+		shortcuts: [
+			{ key: "Space", description: "Mark/unmark service" },
+			{ key: "m", description: "Mark/unmark all shown" },
+			{ key: "M", description: "Invert marks" },
+			{ key: "Actions", description: "Apply to all marked" },
+		],
+	},
+	{
+		title: "Inspection",
+		shortcuts: [
+			{ key: "i", description: "Toggle raw launchctl print" },
+			{ key: "Tab ↑/↓", description: "Scroll raw output" },
+		],
+	},
+	{
+		title: "Process Tree",
+		shortcuts: [
+			{ key: "t", description: "Toggle process tree" },
+			{ key: "←/→", description: "Fold children" },
+			{ key: "x/X", description: "Send TERM/KILL" },
+		],
+	},
+	{
+		title: "Service Timeline",
+		shortcuts: [
+			{ key: "y", description: "Toggle per-service timeline" },
+			{ key: "Tab ↑/↓", description: "Scroll timeline" },
+		],
+	},
+	{
+		title: "Schedule Timeline",
+		shortcuts: [
+			{ key: "c", description: "Toggle scheduled-jobs timeline" },
+			{ key: "w", description: "Switch 24 hours/7 days" },
+			{ key: "Enter", description: "Go to selected service" },
+		],
+	},
+	{
+		title: "Events",
+		shortcuts: [
+			{ key: "b", description: "Toggle crash/restart events" },
+			{ key: "n", description: "Toggle desktop notifications" },
+			{ key: "C", description: "Clear events and badges" },
+			{ key: "Enter", description: "Go to selected service" },
+		],
+	},
+	{
+		title: "Snapshots",
+		shortcuts: [
+			{ key: "z", description: "Toggle snapshot diff" },
+			{ key: "←/→", description: "Older/newer snapshot" },
+			{ key: "[/]", description: "Compare with older/newer (live)" },
+			{ key: "s", description: "Save snapshot" },
+			{ key: "Enter", description: "Go to selected service" },
+		],
+	},
+	{
+		title: "Persistence Audit",
+		shortcuts: [
+			{ key: "w", description: "Toggle persistence audit" },
+			{ key: "e/m", description: "Export JSON/Markdown" },
+			{ key: "Enter", description: "Go to selected service" },
+		],
+	},
+	{
+		title: "Export",
+		shortcuts: [
+			{ key: "X", description: "Export listed services" },
+			{ key: "c/j/m", description: "CSV/JSON/Markdown" },
+		],
+	},
+	{
+		title: "History",
+		shortcuts: [
+			{ key: "h", description: "Toggle action history" },
+			{ key: "/", description: "Filter history" },
+			{ key: "Enter", description: "Re-run selected entry" },
+		],
+	},
+	{
+		title: "Logs",
+		shortcuts: [
+			{ key: "l", description: "Toggle log panel" },
+			{ key: "F", description: "Follow (live tail)" },
+			{ key: "v", description: "Cycle log level" },
+		],
+	},
+	{
+		title: "Output",
+		shortcuts: [
+			{ key: "o", description: "Toggle stdout/stderr panel" },
+			{ key: "←/→", description: "Switch stdout/stderr" },
+			{ key: "/", description: "Search output" },
+			{ key: "n/N", description: "Older/newer match" },
 		],
 	},
 	{
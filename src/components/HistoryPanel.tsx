@@ -0,0 +1,187 @@
+/**
+ * History Panel Component
+ * Browse, filter and re-run entries from the action audit log
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS } from "../constants";
+import { filterAuditRecords } from "../services";
+import { useAppStore } from "../store/useAppStore";
+import type { AuditRecord } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 100;
+// Border + padding
+const PANEL_CHROME_WIDTH = 4;
+// Header, detail (2 lines), filter line, borders, margins
+const PANEL_CHROME_HEIGHT = 9;
+const TIME_WIDTH = 15;
+const RESULT_WIDTH = 2;
+const ACTION_WIDTH = 9;
+const USER_WIDTH = 12;
+const FLAGS_WIDTH = 9;
+
+/**
+ * Format an ISO timestamp as local "MM-DD HH:MM:SS"
+ */
+function formatRecordTime(timestamp: string): string {
+	const date = new Date(timestamp);
+	if (Number.isNaN(date.getTime())) return timestamp.slice(0, TIME_WIDTH - 1);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function recordFlags(record: AuditRecord): string {
+	return [record.dryRun ? "dry" : "", record.sudo ? "sudo" : ""].filter(Boolean).join(",");
+}
+
+export function HistoryPanel() {
+	const showHistory = useAppStore((state) => state.showHistory);
+	const history = useAppStore((state) => state.history);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!showHistory) {
+		return null;
+	}
+
+	const records = filterAuditRecords(history.records, history.filterQuery);
+	const visibleRows = Math.max(1, terminalHeight - 4 - PANEL_CHROME_HEIGHT);
+	const labelWidth =
+		PANEL_WIDTH - PANEL_CHROME_WIDTH - TIME_WIDTH - RESULT_WIDTH - ACTION_WIDTH - USER_WIDTH - FLAGS_WIDTH;
+
+	// Keep the selected record in view
+	const selectedIndex = Math.min(history.selectedIndex, Math.max(0, records.length - 1));
+	const startIndex = Math.max(
+		0,
+		Math.min(selectedIndex - Math.floor(visibleRows / 2), records.length - visibleRows),
+	);
+	const visibleRecords = records.slice(startIndex, startIndex + visibleRows);
+	const selected = records[selectedIndex];
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={PANEL_WIDTH}
+				height={Math.min(terminalHeight - 4, visibleRows + PANEL_CHROME_HEIGHT)}
+				border
+				borderColor={COLORS.bgFocus}
+				backgroundColor={COLORS.bgPrimary}
+				flexDirection="column"
+			>
+				{/* Header */}
+				<box
+					backgroundColor={COLORS.bgHeader}
+					paddingLeft={1}
+					paddingRight={1}
+					height={1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={COLORS.textAccent}>
+						<strong>Action History</strong>
+					</text>
+					<text fg={COLORS.textMuted}>
+						{records.length}
+						{history.filterQuery ? ` of ${history.records.length}` : ""} entries
+					</text>
+				</box>
+
+				{/* Records */}
+				<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+					{history.error ? (
+						<text fg={COLORS.textError}>Failed to read audit log: {history.error}</text>
+					) : records.length === 0 ? (
+						<text fg={COLORS.textMuted}>
+							{history.loading
+								? "Loading history..."
+								: history.filterQuery
+									? "No matching entries"
+									: "No actions recorded yet"}
+						</text>
+					) : (
+						visibleRecords.map((record, i) => {
+							const isSelected = startIndex + i === selectedIndex;
+							return (
+								<box
+									// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+									key={`history-${i}`}
+									flexDirection="row"
+									height={1}
+									backgroundColor={isSelected ? COLORS.bgSelected : undefined}
+								>
+									<box width={TIME_WIDTH}>
+										<text fg={COLORS.textMuted}>{formatRecordTime(record.timestamp)}</text>
+									</box>
+									<box width={RESULT_WIDTH}>
+										<text fg={record.success ? COLORS.textSuccess : COLORS.textError}>
+											{record.success ? "✓" : "✗"}
+										</text>
+									</box>
+									<box width={ACTION_WIDTH}>
+										<text fg={COLORS.textWarning}>{record.action}</text>
+									</box>
+									<box width={labelWidth}>
+										<text fg={isSelected ? COLORS.textPrimary : COLORS.textSecondary}>
+											{truncateWithEllipsis(record.label, labelWidth - 1)}
+										</text>
+									</box>
+									<box width={USER_WIDTH}>
+										<text fg={COLORS.textTertiary}>{truncateWithEllipsis(record.user, USER_WIDTH - 1)}</text>
+									</box>
+									<box width={FLAGS_WIDTH}>
+										<text fg={COLORS.textOrange}>{recordFlags(record)}</text>
+									</box>
+								</box>
+							);
+						})
+					)}
+				</box>
+
+				{/* Selected record detail */}
+				<box flexDirection="column" paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgSecondary}>
+					<text fg={COLORS.textTertiary}>
+						{selected ? truncateWithEllipsis(`$ ${selected.command}`, PANEL_WIDTH - PANEL_CHROME_WIDTH) : " "}
+					</text>
+					<text fg={selected?.success ? COLORS.textMuted : COLORS.textWarningLight}>
+						{selected
+							? truncateWithEllipsis(
+									`${selected.message}${selected.error ? ` - ${selected.error}` : ""}${selected.attempts > 1 ? ` (${selected.attempts} attempts)` : ""} · ${selected.source}`,
+									PANEL_WIDTH - PANEL_CHROME_WIDTH,
+								)
+							: " "}
+					</text>
+				</box>
+
+				{/* Filter / key hints */}
+				<box
+					flexDirection="row"
+					justifyContent="space-between"
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={COLORS.bgTertiary}
+					height={1}
+				>
+					<text fg={COLORS.textPrimary}>
+						{history.filterEditing || history.filterQuery ? (
+							<>
+								/{history.filterQuery}
+								{history.filterEditing && <span fg={COLORS.bgFocus}>▌</span>}
+							</>
+						) : (
+							<span fg={COLORS.textMuted}>[/] filter</span>
+						)}
+					</text>
+					<text fg={COLORS.textMuted}>[Enter] re-run [ESC] close</text>
+				</box>
+			</box>
+		</box>
+	);
+}
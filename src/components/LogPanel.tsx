@@ -0,0 +1,126 @@
+/**
+ * Log Panel Component
+ * Unified log entries for the selected service (`log show` / `log stream`)
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { BASE_OVERHEAD, COLORS, FILTER_BAR_HEIGHT } from "../constants";
+import { useAppStore } from "../store/useAppStore";
+import type { LogLevel } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 60;
+// Border + left/right padding
+const PANEL_CHROME_WIDTH = 4;
+// "HH:MM:SS.mmm " prefix
+const TIME_WIDTH = 13;
+// Level badge + space
+const LEVEL_WIDTH = 2;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+	debug: COLORS.textMuted,
+	info: COLORS.textTertiary,
+	default: COLORS.textSecondary,
+	error: COLORS.textError,
+	fault: COLORS.textDanger,
+};
+
+const LEVEL_BADGES: Record<LogLevel, string> = {
+	debug: "D",
+	info: "I",
+	default: "·",
+	error: "E",
+	fault: "F",
+};
+
+/**
+ * Extract the time of day from a `log` timestamp ("2024-01-15 10:23:45.123456-0800")
+ */
+function formatLogTime(timestamp: string): string {
+	const time = timestamp.split(" ")[1] ?? timestamp;
+	return time.slice(0, 12);
+}
+
+export function LogPanel() {
+	const showLogs = useAppStore((state) => state.showLogs);
+	const logs = useAppStore((state) => state.logs);
+	const focusedPanel = useAppStore((state) => state.focusedPanel);
+	const showFilters = useAppStore((state) => state.showFilters);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!showLogs) {
+		return null;
+	}
+
+	const isFocused = focusedPanel === "logs";
+	const filterBarHeight = showFilters ? (terminalHeight < 25 ? 8 : FILTER_BAR_HEIGHT) : 0;
+	const visibleRows = Math.max(1, terminalHeight - BASE_OVERHEAD - filterBarHeight);
+	const messageWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH - TIME_WIDTH - LEVEL_WIDTH;
+
+	// Window ends `scrollOffset` entries before the newest entry
+	const { entries, scrollOffset } = logs;
+	const endIndex = Math.max(0, entries.length - scrollOffset);
+	const startIndex = Math.max(0, endIndex - visibleRows);
+	const visibleEntries = entries.slice(startIndex, endIndex);
+
+	return (
+		<box
+			width={PANEL_WIDTH}
+			border
+			borderColor={isFocused ? COLORS.bgFocus : COLORS.bgTertiary}
+			flexDirection="column"
+		>
+			{/* Header */}
+			<box
+				backgroundColor={COLORS.bgHeader}
+				paddingLeft={1}
+				paddingRight={1}
+				height={1}
+				flexDirection="row"
+				justifyContent="space-between"
+			>
+				<text fg={COLORS.textAccent}>
+					{isFocused && <span fg={COLORS.bgFocus}>▶ </span>}
+					<strong>Logs</strong>
+				</text>
+				<text fg={COLORS.textMuted}>
+					{logs.follow && <span fg={COLORS.textSuccess}>● live </span>}
+					level: <span fg={COLORS.textWarning}>{logs.level}</span>
+				</text>
+			</box>
+
+			{/* Entries */}
+			<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+				{logs.error ? (
+					<text fg={COLORS.textError}>Failed to load logs: {logs.error}</text>
+				) : entries.length === 0 ? (
+					<text fg={COLORS.textMuted}>{logs.loading ? "Loading logs..." : "No log entries"}</text>
+				) : (
+					visibleEntries.map((entry, i) => (
+						// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+						<box key={`log-${i}`} height={1} flexDirection="row">
+							<text fg={COLORS.textMuted}>{formatLogTime(entry.timestamp).padEnd(TIME_WIDTH)}</text>
+							<text fg={LEVEL_COLORS[entry.level]}>{LEVEL_BADGES[entry.level].padEnd(LEVEL_WIDTH)}</text>
+							<text fg={LEVEL_COLORS[entry.level]}>{truncateWithEllipsis(entry.message, messageWidth)}</text>
+						</box>
+					))
+				)}
+			</box>
+
+			{/* Scroll indicator */}
+			<box
+				flexDirection="row"
+				justifyContent="space-between"
+				paddingLeft={1}
+				paddingRight={1}
+				backgroundColor={COLORS.bgSecondary}
+				height={1}
+			>
+				<text fg={COLORS.textMuted}>
+					{entries.length} entries{scrollOffset > 0 && ` (↑${scrollOffset})`}
+				</text>
+				<text fg={COLORS.textMuted}>[F] follow [v] level</text>
+			</box>
+		</box>
+	);
+}
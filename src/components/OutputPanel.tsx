@@ -0,0 +1,128 @@
+/**
+ * Output Panel Component
+ * Follows the service's StandardOutPath / StandardErrorPath files
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { BASE_OVERHEAD, COLORS, FILTER_BAR_HEIGHT } from "../constants";
+import { useAppStore } from "../store/useAppStore";
+import type { OutputStream } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 60;
+// Border + left/right padding
+const PANEL_CHROME_WIDTH = 4;
+// File path line and error/notice line
+const PANEL_EXTRA_ROWS = 2;
+
+const TABS: OutputStream[] = ["stdout", "stderr"];
+
+export function OutputPanel() {
+	const showOutput = useAppStore((state) => state.showOutput);
+	const output = useAppStore((state) => state.output);
+	const focusedPanel = useAppStore((state) => state.focusedPanel);
+	const showFilters = useAppStore((state) => state.showFilters);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!showOutput) {
+		return null;
+	}
+
+	const isFocused = focusedPanel === "output";
+	const filterBarHeight = showFilters ? (terminalHeight < 25 ? 8 : FILTER_BAR_HEIGHT) : 0;
+	const visibleRows = Math.max(1, terminalHeight - BASE_OVERHEAD - filterBarHeight - PANEL_EXTRA_ROWS);
+	const lineWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH;
+
+	const buffer = output.buffers[output.tab];
+	const { lines } = buffer;
+	const { scrollOffset, matchLine } = output;
+
+	// Window ends `scrollOffset` lines before the newest line
+	const endIndex = Math.max(0, lines.length - scrollOffset);
+	const startIndex = Math.max(0, endIndex - visibleRows);
+	const visibleLines = lines.slice(startIndex, endIndex);
+
+	const showSearchLine = output.searchEditing || output.searchQuery.length > 0;
+
+	return (
+		<box
+			width={PANEL_WIDTH}
+			border
+			borderColor={isFocused ? COLORS.bgFocus : COLORS.bgTertiary}
+			flexDirection="column"
+		>
+			{/* Header with tabs */}
+			<box
+				backgroundColor={COLORS.bgHeader}
+				paddingLeft={1}
+				paddingRight={1}
+				height={1}
+				flexDirection="row"
+				justifyContent="space-between"
+			>
+				<text fg={COLORS.textAccent}>
+					{isFocused && <span fg={COLORS.bgFocus}>▶ </span>}
+					<strong>Output</strong>
+				</text>
+				<text>
+					{TABS.map((tab) => (
+						<span key={tab} fg={tab === output.tab ? COLORS.textWarning : COLORS.textMuted}>
+							{tab === output.tab ? `[${tab}]` : ` ${tab} `}
+						</span>
+					))}
+				</text>
+			</box>
+
+			{/* File path */}
+			<box paddingLeft={1} paddingRight={1} height={1}>
+				<text fg={COLORS.textTertiary}>
+					{buffer.path ? truncateWithEllipsis(buffer.path, lineWidth) : `No ${output.tab} path configured`}
+				</text>
+			</box>
+
+			{/* Lines */}
+			<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+				{buffer.error && <text fg={COLORS.textError}>{truncateWithEllipsis(buffer.error, lineWidth)}</text>}
+				{buffer.notice && <text fg={COLORS.textWarning}>{buffer.notice}</text>}
+				{!buffer.path ? null : lines.length === 0 ? (
+					<text fg={COLORS.textMuted}>No output</text>
+				) : (
+					visibleLines.map((line, i) => {
+						const isMatch = startIndex + i === matchLine;
+						return (
+							// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+							<box key={`out-${i}`} height={1} backgroundColor={isMatch ? COLORS.bgSelected : undefined}>
+								<text fg={output.tab === "stderr" ? COLORS.textError : COLORS.textSecondary}>
+									{truncateWithEllipsis(line, lineWidth)}
+								</text>
+							</box>
+						);
+					})
+				)}
+			</box>
+
+			{/* Search / scroll indicator */}
+			<box
+				flexDirection="row"
+				justifyContent="space-between"
+				paddingLeft={1}
+				paddingRight={1}
+				backgroundColor={COLORS.bgSecondary}
+				height={1}
+			>
+				{showSearchLine ? (
+					<text fg={COLORS.textPrimary}>
+						/{output.searchQuery}
+						{output.searchEditing && <span fg={COLORS.bgFocus}>▌</span>}
+						{!output.searchEditing && matchLine === null && <span fg={COLORS.textError}> (no match)</span>}
+					</text>
+				) : (
+					<text fg={COLORS.textMuted}>
+						{lines.length} lines{scrollOffset > 0 && ` (↑${scrollOffset})`}
+					</text>
+				)}
+				<text fg={COLORS.textMuted}>[←→] tab [/] search [n/N]</text>
+			</box>
+		</box>
+	);
+}
@@ -0,0 +1,187 @@
+/**
+ * Persistence Audit Panel Component
+ * Third-party services ranked by persistence risk, with the findings of the selected one
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS, FOOTER_HEIGHT } from "../constants";
+import { countByRisk, describeSignature, summarizeAudit } from "../services";
+import { useAppStore } from "../store/useAppStore";
+import type { PersistenceRisk } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+// Border + padding
+const VIEW_CHROME_WIDTH = 4;
+// Header, column headings, findings heading, status line, key hints, borders
+const VIEW_CHROME_HEIGHT = 7;
+// Findings shown for the selected service
+const FINDING_ROWS = 5;
+const RISK_WIDTH = 8;
+const SCORE_WIDTH = 7;
+const LABEL_WIDTH = 40;
+const SIGNATURE_WIDTH = 26;
+
+const RISK_COLORS: Record<PersistenceRisk, string> = {
+	high: COLORS.textError,
+	medium: COLORS.textOrange,
+	low: COLORS.textWarning,
+	none: COLORS.textMuted,
+};
+
+export function PersistenceAuditPanel() {
+	const showAudit = useAppStore((state) => state.showAudit);
+	const audit = useAppStore((state) => state.audit);
+	const { width: terminalWidth, height: terminalHeight } = useTerminalDimensions();
+
+	if (!showAudit) {
+		return null;
+	}
+
+	const { assessments } = audit;
+	const visibleRows = Math.max(1, terminalHeight - FOOTER_HEIGHT - VIEW_CHROME_HEIGHT - FINDING_ROWS);
+	const lineWidth = terminalWidth - VIEW_CHROME_WIDTH;
+	const programWidth = Math.max(10, lineWidth - RISK_WIDTH - SCORE_WIDTH - LABEL_WIDTH - SIGNATURE_WIDTH);
+
+	// Keep the selected service in view
+	const selectedIndex = Math.min(audit.selectedIndex, Math.max(0, assessments.length - 1));
+	const startIndex = Math.max(
+		0,
+		Math.min(selectedIndex - Math.floor(visibleRows / 2), assessments.length - visibleRows),
+	);
+	const visibleAssessments = assessments.slice(startIndex, startIndex + visibleRows);
+	const selected = assessments[selectedIndex];
+
+	const status = audit.error
+		? { text: audit.error, color: COLORS.textError }
+		: audit.exporting
+			? { text: "Exporting...", color: COLORS.textMuted }
+			: audit.message
+				? { text: audit.message, color: COLORS.textSuccess }
+				: { text: "Scores rank what to look at first; they are not a verdict", color: COLORS.textMuted };
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={FOOTER_HEIGHT}
+			border
+			borderColor={COLORS.bgFocus}
+			backgroundColor={COLORS.bgPrimary}
+			flexDirection="column"
+		>
+			{/* Header */}
+			<box
+				backgroundColor={COLORS.bgHeader}
+				paddingLeft={1}
+				paddingRight={1}
+				height={1}
+				flexDirection="row"
+				justifyContent="space-between"
+			>
+				<text fg={COLORS.textAccent}>
+					<strong>Persistence Audit</strong>
+					<span fg={COLORS.textTertiary}> · third-party launch items</span>
+				</text>
+				<text fg={COLORS.textMuted}>
+					{audit.auditedAt !== null ? summarizeAudit(countByRisk(assessments)) : ""}
+				</text>
+			</box>
+
+			{/* Column headings */}
+			<box flexDirection="row" height={1} paddingLeft={1} paddingRight={1}>
+				<box width={RISK_WIDTH}>
+					<text fg={COLORS.textMuted}>RISK</text>
+				</box>
+				<box width={SCORE_WIDTH}>
+					<text fg={COLORS.textMuted}>SCORE</text>
+				</box>
+				<box width={LABEL_WIDTH}>
+					<text fg={COLORS.textMuted}>LABEL</text>
+				</box>
+				<box width={SIGNATURE_WIDTH}>
+					<text fg={COLORS.textMuted}>SIGNATURE</text>
+				</box>
+				<box width={programWidth}>
+					<text fg={COLORS.textMuted}>PROGRAM</text>
+				</box>
+			</box>
+
+			{/* Services */}
+			<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+				{audit.loading ? (
+					<text fg={COLORS.textMuted}>Reading plists and code signatures...</text>
+				) : assessments.length === 0 ? (
+					<text fg={COLORS.textMuted}>{audit.error ? " " : "No third-party services to audit"}</text>
+				) : (
+					visibleAssessments.map((assessment, i) => {
+						const isSelected = startIndex + i === selectedIndex;
+						return (
+							<box
+								// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+								key={`audit-${i}`}
+								flexDirection="row"
+								height={1}
+								backgroundColor={isSelected ? COLORS.bgSelected : undefined}
+							>
+								<box width={RISK_WIDTH}>
+									<text fg={RISK_COLORS[assessment.risk]}>
+										{assessment.risk === "none" ? "-" : assessment.risk}
+									</text>
+								</box>
+								<box width={SCORE_WIDTH}>
+									<text fg={RISK_COLORS[assessment.risk]}>{String(assessment.score)}</text>
+								</box>
+								<box width={LABEL_WIDTH}>
+									<text fg={isSelected ? COLORS.textPrimary : COLORS.textSecondary}>
+										{truncateWithEllipsis(assessment.label, LABEL_WIDTH - 1)}
+									</text>
+								</box>
+								<box width={SIGNATURE_WIDTH}>
+									<text fg={COLORS.textTertiary}>
+										{assessment.signature
+											? truncateWithEllipsis(describeSignature(assessment.signature), SIGNATURE_WIDTH - 1)
+											: "-"}
+									</text>
+								</box>
+								<box width={programWidth}>
+									<text fg={COLORS.textTertiary}>
+										{truncateWithEllipsis(assessment.program ?? "-", programWidth)}
+									</text>
+								</box>
+							</box>
+						);
+					})
+				)}
+			</box>
+
+			{/* Findings of the selected service */}
+			<box flexDirection="column" height={FINDING_ROWS + 1} paddingLeft={1} paddingRight={1}>
+				<text fg={COLORS.textAccent}>
+					<strong>Findings</strong>
+					{selected && <span fg={COLORS.textTertiary}> · {selected.label}</span>}
+				</text>
+				{selected && selected.findings.length === 0 && <text fg={COLORS.textMuted}>No findings</text>}
+				{selected?.findings.slice(0, FINDING_ROWS).map((finding) => (
+					<text key={finding.signal} fg={COLORS.textSecondary}>
+						<span fg={RISK_COLORS[selected.risk]}>{`+${finding.score} `}</span>
+						{truncateWithEllipsis(finding.message, lineWidth - 6)}
+					</text>
+				))}
+			</box>
+
+			{/* Export result or disclaimer */}
+			<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgSecondary} height={1}>
+				<text fg={status.color}>{truncateWithEllipsis(status.text, lineWidth)}</text>
+			</box>
+
+			{/* Key hints */}
+			<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgTertiary} height={1}>
+				<text fg={COLORS.textMuted}>
+					[↑↓] select [Enter] go to service [e] export JSON [m] export Markdown [ESC] close
+				</text>
+			</box>
+		</box>
+	);
+}
@@ -0,0 +1,287 @@
+/**
+ * Plist Editor Component
+ * Key/value tree editor for a service plist, with a diff review before saving
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS } from "../constants";
+import {
+	flattenPlistTree,
+	formatPlistScalar,
+	type PlistTreeRow,
+	plistPathKey,
+	suggestLaunchdKeys,
+} from "../services";
+import { useAppStore } from "../store/useAppStore";
+import { usePlistEditorDiff } from "../store/useDerivedState";
+import type { PlistEditorState } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 100;
+// Border + padding
+const PANEL_CHROME_WIDTH = 4;
+// Header, path, status line, key hints, borders
+const PANEL_CHROME_HEIGHT = 7;
+const INDENT_WIDTH = 2;
+const KEY_WIDTH = 34;
+const KIND_WIDTH = 9;
+const MAX_KEY_SUGGESTIONS = 4;
+
+const KIND_COLORS: Record<PlistTreeRow["kind"], string> = {
+	string: COLORS.textSuccess,
+	boolean: COLORS.textWarning,
+	integer: COLORS.textAccent,
+	number: COLORS.textAccent,
+	array: COLORS.textTertiary,
+	dict: COLORS.textTertiary,
+	date: COLORS.textOrange,
+	data: COLORS.textOrange,
+};
+
+function diffLineColor(line: string): string {
+	if (line.startsWith("+++") || line.startsWith("---")) return COLORS.textTertiary;
+	if (line.startsWith("@@")) return COLORS.textAccent;
+	if (line.startsWith("+")) return COLORS.textSuccess;
+	if (line.startsWith("-")) return COLORS.textError;
+	return COLORS.textSecondary;
+}
+
+/**
+ * One key/value row of the tree
+ */
+function TreeRow({
+	row,
+	editor,
+	selected,
+	valueWidth,
+}: {
+	row: PlistTreeRow;
+	editor: PlistEditorState;
+	selected: boolean;
+	valueWidth: number;
+}) {
+	const isContainer = row.kind === "array" || row.kind === "dict";
+	const marker = isContainer ? (row.expanded ? "▾ " : "▸ ") : "  ";
+	const keyWidth = Math.max(4, KEY_WIDTH - row.depth * INDENT_WIDTH);
+	const input = editor.input;
+	const isEditing = input?.kind === "value" && plistPathKey(input.target) === plistPathKey(row.path);
+
+	return (
+		<box flexDirection="row" height={1} backgroundColor={selected ? COLORS.bgSelected : undefined}>
+			<box width={row.depth * INDENT_WIDTH} />
+			<box width={keyWidth}>
+				<text fg={selected ? COLORS.textPrimary : COLORS.textSecondary}>
+					{marker}
+					{truncateWithEllipsis(row.name, keyWidth - 3)}
+				</text>
+			</box>
+			<box width={KIND_WIDTH}>
+				<text fg={COLORS.textMuted}>{row.kind === "number" ? "real" : row.kind}</text>
+			</box>
+			<box flexGrow={1}>
+				{isEditing ? (
+					<text fg={COLORS.textPrimary}>
+						{input.buffer.length > valueWidth - 1
+							? `…${input.buffer.slice(input.buffer.length - valueWidth + 2)}`
+							: input.buffer}
+						<span fg={COLORS.bgFocus}>▌</span>
+					</text>
+				) : (
+					<text fg={isContainer ? COLORS.textMuted : KIND_COLORS[row.kind]}>
+						{truncateWithEllipsis(formatPlistScalar(row.value), valueWidth)}
+					</text>
+				)}
+			</box>
+		</box>
+	);
+}
+
+/**
+ * Tree view with the selected row kept in view
+ */
+function TreeBody({ editor, visibleRows }: { editor: PlistEditorState; visibleRows: number }) {
+	const rows = flattenPlistTree(editor.value, editor.expanded);
+	const valueWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH - KEY_WIDTH - KIND_WIDTH;
+
+	if (rows.length === 0) {
+		return <text fg={COLORS.textMuted}>Empty plist - press [a] to add a key</text>;
+	}
+
+	const cursor = Math.min(editor.cursor, rows.length - 1);
+	const startIndex = Math.max(0, Math.min(cursor - Math.floor(visibleRows / 2), rows.length - visibleRows));
+
+	return (
+		<>
+			{rows.slice(startIndex, startIndex + visibleRows).map((row, i) => (
+				<TreeRow
+					// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+					key={`plist-row-${i}`}
+					row={row}
+					editor={editor}
+					selected={startIndex + i === cursor}
+					valueWidth={valueWidth}
+				/>
+			))}
+		</>
+	);
+}
+
+/**
+ * Diff review shown before saving
+ */
+function DiffBody({ editor, visibleRows }: { editor: PlistEditorState; visibleRows: number }) {
+	const lines = usePlistEditorDiff();
+	const start = Math.min(editor.diffScroll, Math.max(0, lines.length - visibleRows));
+
+	return (
+		<>
+			{lines.slice(start, start + visibleRows).map((line, i) => (
+				// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for scrolling
+				<text key={`diff-${i}`} fg={diffLineColor(line)}>
+					{truncateWithEllipsis(line.replace(/\t/g, "  "), PANEL_WIDTH - PANEL_CHROME_WIDTH)}
+				</text>
+			))}
+		</>
+	);
+}
+
+/**
+ * Prompt for the name of a new dictionary key
+ */
+function KeyPrompt({ editor }: { editor: PlistEditorState }) {
+	const input = editor.input;
+	if (input?.kind !== "key") return null;
+
+	const where = input.target.length === 0 ? "plist" : input.target.join(".");
+	const suggestions =
+		input.target.length === 0
+			? suggestLaunchdKeys(input.buffer, editor.value).slice(0, MAX_KEY_SUGGESTIONS)
+			: [];
+
+	return (
+		<box flexDirection="column" paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgSecondary}>
+			<text fg={COLORS.textTertiary}>
+				New key in {where}: <span fg={COLORS.textPrimary}>{input.buffer}</span>
+				<span fg={COLORS.bgFocus}>▌</span>
+			</text>
+			{suggestions.length > 0 && (
+				<text fg={COLORS.textMuted}>
+					[Tab] {suggestions.join("  ")}
+					{input.buffer ? "" : " …"}
+				</text>
+			)}
+		</box>
+	);
+}
+
+export function PlistEditor() {
+	const editor = useAppStore((state) => state.plistEditor);
+	const dryRun = useAppStore((state) => state.dryRun);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!editor) {
+		return null;
+	}
+
+	const isDiff = editor.view === "diff";
+	const promptHeight = editor.input?.kind === "key" ? 2 : 0;
+	const visibleRows = Math.max(3, terminalHeight - 4 - PANEL_CHROME_HEIGHT - promptHeight);
+	const status = editor.input?.error ?? editor.error;
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={PANEL_WIDTH}
+				height={Math.min(terminalHeight - 4, visibleRows + PANEL_CHROME_HEIGHT + promptHeight)}
+				border
+				borderColor={COLORS.bgFocus}
+				backgroundColor={COLORS.bgPrimary}
+				flexDirection="column"
+			>
+				{/* Header */}
+				<box
+					backgroundColor={COLORS.bgHeader}
+					paddingLeft={1}
+					paddingRight={1}
+					height={1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={COLORS.textAccent}>
+						<strong>
+							{dryRun ? "🔍 DRY RUN - " : ""}
+							{isDiff ? "Review Changes" : "Edit Plist"} - {editor.label}
+						</strong>
+					</text>
+					<text fg={COLORS.textMuted}>
+						{editor.readOnly ? "🔒 read-only " : ""}
+						{editor.format}
+						{editor.dirty ? " ● modified" : ""}
+					</text>
+				</box>
+				<box paddingLeft={1} paddingRight={1} height={1}>
+					<text fg={COLORS.textTertiary}>
+						{truncateWithEllipsis(editor.plistPath, PANEL_WIDTH - PANEL_CHROME_WIDTH)}
+					</text>
+				</box>
+
+				{/* Tree or diff */}
+				<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+					{isDiff ? (
+						<DiffBody editor={editor} visibleRows={visibleRows} />
+					) : (
+						<TreeBody editor={editor} visibleRows={visibleRows} />
+					)}
+				</box>
+
+				<KeyPrompt editor={editor} />
+
+				{/* Status */}
+				<box paddingLeft={1} paddingRight={1} height={1}>
+					{status ? (
+						<text fg={COLORS.textError}>
+							{truncateWithEllipsis(status, PANEL_WIDTH - PANEL_CHROME_WIDTH)}
+						</text>
+					) : isDiff ? (
+						<text fg={editor.reload ? COLORS.textSuccess : COLORS.textMuted}>
+							{editor.reload ? "[x]" : "[ ]"} Reload service after saving (bootout + bootstrap)
+						</text>
+					) : null}
+				</box>
+
+				{/* Key hints */}
+				<box
+					flexDirection="row"
+					justifyContent="space-between"
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={COLORS.bgTertiary}
+					height={1}
+				>
+					<text fg={COLORS.textMuted}>
+						{editor.input
+							? `[Enter] apply [ESC] cancel${editor.input.kind === "key" ? " [Tab] complete" : ""}`
+							: isDiff
+								? "[↑↓] scroll [r] toggle reload"
+								: "[↑↓] move [←→] fold [Enter/Space] edit [a] add [d] delete"}
+					</text>
+					<text fg={COLORS.textMuted}>
+						{editor.saving
+							? "⏳ Saving..."
+							: isDiff
+								? `[Enter] ${dryRun ? "preview" : "save"} [ESC] back`
+								: "[s] review & save [ESC] close"}
+					</text>
+				</box>
+			</box>
+		</box>
+	);
+}
@@ -0,0 +1,246 @@
+/**
+ * Schedule Timeline Component
+ * Upcoming runs of every StartInterval/StartCalendarInterval job over 24 hours or 7 days
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { useMemo } from "react";
+import { COLORS, FOOTER_HEIGHT } from "../constants";
+import { buildScheduleTimeline, type TimelineJob, timelineBucketHours } from "../services";
+import { useAppStore } from "../store/useAppStore";
+import { formatFireTime } from "../utils";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+// Border + padding
+const VIEW_CHROME_WIDTH = 4;
+// Header, axis, totals, detail (2 lines), collisions, key hints, borders
+const VIEW_CHROME_HEIGHT = 10;
+const LABEL_WIDTH = 32;
+const NEXT_RUN_WIDTH = 18;
+const CELL_WIDTH = 3;
+// Upcoming collisions listed below the chart
+const COLLISIONS_SHOWN = 3;
+
+const SHORT_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Axis label of a bucket: the weekday at midnight, otherwise the hour
+ */
+function axisLabel(start: Date): string {
+	const label =
+		start.getHours() === 0
+			? (SHORT_WEEKDAYS[start.getDay()] ?? "")
+			: String(start.getHours()).padStart(2, "0");
+	return label.padStart(CELL_WIDTH);
+}
+
+/**
+ * A bucket's run count as one character: "·" for none, "+" for ten or more
+ */
+function countGlyph(count: number): string {
+	const glyph = count === 0 ? "·" : count < 10 ? String(count) : "+";
+	return glyph.padStart(CELL_WIDTH);
+}
+
+function cellColor(job: TimelineJob, bucket: number): string {
+	if ((job.counts[bucket] ?? 0) === 0 || job.inactive) return COLORS.textMuted;
+	if (job.collides[bucket]) return COLORS.textError;
+	return job.approximate ? COLORS.textTertiary : COLORS.textAccent;
+}
+
+export function ScheduleTimeline() {
+	const showTimeline = useAppStore((state) => state.showTimeline);
+	const timeline = useAppStore((state) => state.timeline);
+	const { width: terminalWidth, height: terminalHeight } = useTerminalDimensions();
+
+	const chartWidth = terminalWidth - VIEW_CHROME_WIDTH - LABEL_WIDTH - NEXT_RUN_WIDTH;
+	const bucketHours = timelineBucketHours(timeline.range, Math.max(1, Math.floor(chartWidth / CELL_WIDTH)));
+	const chart = useMemo(
+		() =>
+			timeline.loadedAt === null
+				? null
+				: buildScheduleTimeline(timeline.services, timeline.range, bucketHours, new Date(timeline.loadedAt)),
+		[timeline.services, timeline.range, timeline.loadedAt, bucketHours],
+	);
+
+	if (!showTimeline) {
+		return null;
+	}
+
+	const now = new Date(timeline.loadedAt ?? Date.now());
+	const jobs = chart?.jobs ?? [];
+	const visibleRows = Math.max(1, terminalHeight - FOOTER_HEIGHT - VIEW_CHROME_HEIGHT);
+
+	// Keep the selected job in view
+	const selectedIndex = Math.min(timeline.selectedIndex, Math.max(0, jobs.length - 1));
+	const startIndex = Math.max(
+		0,
+		Math.min(selectedIndex - Math.floor(visibleRows / 2), jobs.length - visibleRows),
+	);
+	const visibleJobs = jobs.slice(startIndex, startIndex + visibleRows);
+	const selected = jobs[selectedIndex];
+	const detailWidth = terminalWidth - VIEW_CHROME_WIDTH;
+
+	const rangeText = timeline.range === "day" ? "next 24 hours" : "next 7 days";
+	const upcoming = chart?.collisions.slice(0, COLLISIONS_SHOWN) ?? [];
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={FOOTER_HEIGHT}
+			border
+			borderColor={COLORS.bgFocus}
+			backgroundColor={COLORS.bgPrimary}
+			flexDirection="column"
+		>
+			{/* Header */}
+			<box
+				backgroundColor={COLORS.bgHeader}
+				paddingLeft={1}
+				paddingRight={1}
+				height={1}
+				flexDirection="row"
+				justifyContent="space-between"
+			>
+				<text fg={COLORS.textAccent}>
+					<strong>Scheduled Jobs</strong>
+					<span fg={COLORS.textTertiary}>
+						{" "}
+						· {rangeText} · {bucketHours}h buckets
+					</span>
+				</text>
+				<text fg={chart?.collisions.length ? COLORS.textError : COLORS.textMuted}>
+					{jobs.length} jobs · {chart?.collisions.length ?? 0} collisions
+				</text>
+			</box>
+
+			{timeline.error ? (
+				<box flexGrow={1} paddingLeft={1}>
+					<text fg={COLORS.textError}>Failed to read schedules: {timeline.error}</text>
+				</box>
+			) : !chart || jobs.length === 0 ? (
+				<box flexGrow={1} paddingLeft={1}>
+					<text fg={COLORS.textMuted}>
+						{timeline.loading
+							? "Reading schedules..."
+							: "No service has a StartInterval or StartCalendarInterval"}
+					</text>
+				</box>
+			) : (
+				<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+					{/* Axis */}
+					<box flexDirection="row" height={1}>
+						<box width={LABEL_WIDTH}>
+							<text fg={COLORS.textMuted}>Job</text>
+						</box>
+						<box width={chart.buckets.length * CELL_WIDTH}>
+							<text fg={COLORS.textTertiary}>{chart.buckets.map(axisLabel).join("")}</text>
+						</box>
+						<box paddingLeft={2}>
+							<text fg={COLORS.textMuted}>Next run</text>
+						</box>
+					</box>
+
+					{/* Jobs */}
+					<box flexDirection="column" flexGrow={1} overflow="hidden">
+						{visibleJobs.map((job, i) => {
+							const isSelected = startIndex + i === selectedIndex;
+							return (
+								<box
+									// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+									key={`timeline-${i}`}
+									flexDirection="row"
+									height={1}
+									backgroundColor={isSelected ? COLORS.bgSelected : undefined}
+								>
+									<box width={LABEL_WIDTH}>
+										<text fg={job.inactive ? COLORS.textMuted : COLORS.textSecondary}>
+											{truncateWithEllipsis(job.label, LABEL_WIDTH - 1)}
+										</text>
+									</box>
+									<box width={chart.buckets.length * CELL_WIDTH}>
+										<text>
+											{job.counts.map((count, bucket) => (
+												<span
+													// biome-ignore lint/suspicious/noArrayIndexKey: buckets are positional
+													key={`cell-${bucket}`}
+													fg={cellColor(job, bucket)}
+												>
+													{countGlyph(count)}
+												</span>
+											))}
+										</text>
+									</box>
+									<box paddingLeft={2}>
+										<text fg={job.inactive ? COLORS.textMuted : COLORS.textTertiary}>
+											{job.inactive
+												? "will not run"
+												: job.nextRun
+													? `${job.approximate ? "~" : ""}${formatFireTime(job.nextRun, now)}`
+													: "-"}
+										</text>
+									</box>
+								</box>
+							);
+						})}
+					</box>
+
+					{/* Totals */}
+					<box flexDirection="row" height={1}>
+						<box width={LABEL_WIDTH}>
+							<text fg={COLORS.textTertiary}>All active jobs</text>
+						</box>
+						<text>
+							{chart.totals.map((total, bucket) => (
+								<span
+									// biome-ignore lint/suspicious/noArrayIndexKey: buckets are positional
+									key={`total-${bucket}`}
+									fg={total === 0 ? COLORS.textMuted : COLORS.textPrimary}
+									bg={(chart.collisionCounts[bucket] ?? 0) > 0 ? COLORS.bgWarning : undefined}
+								>
+									{countGlyph(total)}
+								</span>
+							))}
+						</text>
+					</box>
+				</box>
+			)}
+
+			{/* Selected job and upcoming collisions */}
+			<box flexDirection="column" paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgSecondary}>
+				<text fg={COLORS.textSecondary}>
+					{selected ? truncateWithEllipsis(`${selected.label} · ${selected.description}`, detailWidth) : " "}
+				</text>
+				<text fg={COLORS.textMuted}>
+					{selected?.inactive
+						? "Disabled or not loaded: launchd will not run it"
+						: selected?.approximate
+							? "StartInterval: runs are counted from now; launchd's timer started when the job was loaded"
+							: "Jobs missed while asleep run together at wake"}
+				</text>
+				<text fg={upcoming.length > 0 ? COLORS.textWarningLight : COLORS.textMuted}>
+					{upcoming.length > 0
+						? truncateWithEllipsis(
+								upcoming
+									.map(
+										(collision) => `${formatFireTime(collision.time, now)}: ${collision.labels.join(", ")}`,
+									)
+									.join("  ·  "),
+								detailWidth,
+							)
+						: "No two calendar jobs fire in the same minute"}
+				</text>
+			</box>
+
+			{/* Key hints */}
+			<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgTertiary} height={1}>
+				<text fg={COLORS.textMuted}>
+					[↑↓] select [Enter] go to service [w] {timeline.range === "day" ? "7 days" : "24 hours"} [ESC] close
+				</text>
+			</box>
+		</box>
+	);
+}
@@ -5,6 +5,7 @@
 
 import { useEffect, useState } from "react";
 import { COLORS } from "../constants";
+import { isLookupQuery } from "../services";
 import { SEARCH_DEBOUNCE_MS } from "../store/constants";
 import { useAppStore } from "../store/useAppStore";
 
@@ -12,6 +13,7 @@ export function SearchBar() {
 	const searchQuery = useAppStore((state) => state.searchQuery);
 	const focusedPanel = useAppStore((state) => state.focusedPanel);
 	const setSearch = useAppStore((state) => state.setSearch);
+	const lookup = useAppStore((state) => state.lookup);
 
 	// Local state for immediate input feedback
 	const [localValue, setLocalValue] = useState(searchQuery);
@@ -37,9 +39,14 @@ export function SearchBar() {
 
 	const handleChange = (value: string) => {
 		setLocalValue(value);
+		// Lookups do not filter the list, so the store gets them right away for Enter to resolve
+		if (isLookupQuery(value)) setSearch(value);
 	};
 
 	const isFocused = focusedPanel === "search";
+	const isLookup = isLookupQuery(localValue);
+	const lookupResult = isLookup && lookup.query === localValue ? lookup : null;
+	const currentMatch = lookupResult?.matches[lookupResult.index];
 
 	return (
 		<box
@@ -55,7 +62,7 @@ export function SearchBar() {
 			<input
 				value={localValue}
 				onChange={handleChange}
-				placeholder="Search services... (press / to focus)"
+				placeholder="Search, or :port / :pid / :path (press / to focus)"
 				focused={isFocused}
 				width={40}
 				backgroundColor="transparent"
@@ -63,6 +70,16 @@ export function SearchBar() {
 				placeholderColor={COLORS.textMuted}
 				cursorColor={COLORS.textAccent}
 			/>
+			{isLookup && !lookupResult && <text fg={COLORS.textMuted}>[Enter] look up</text>}
+			{lookupResult?.loading && <text fg={COLORS.textMuted}>Looking up...</text>}
+			{currentMatch && (
+				<text fg={COLORS.textSuccess}>
+					{lookupResult.matches.length > 1 ? `${lookupResult.index + 1}/${lookupResult.matches.length} ` : ""}
+					{currentMatch.label}
+					<span fg={COLORS.textMuted}> ({currentMatch.reason})</span>
+				</text>
+			)}
+			{lookupResult?.error && <text fg={COLORS.textWarning}>{lookupResult.error}</text>}
 			{localValue && <text fg={COLORS.textMuted}>[ESC] clear</text>}
 		</box>
 	);
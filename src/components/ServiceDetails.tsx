@@ -4,18 +4,107 @@
  */
 
 import { COLORS } from "../constants";
+import {
+	countProcesses,
+	describeCalendarSchedule,
+	describeNotarization,
+	describeSignature,
+	describeStartInterval,
+	findBoundSockets,
+	flattenProcessTree,
+	formatSocketDeclaration,
+	nextCalendarFireTimes,
+	processNeedsSudo,
+} from "../services";
 import { useAppStore } from "../store/useAppStore";
 import { useFilteredServices, useSelectedService } from "../store/useDerivedState";
-import type { SystemExtension } from "../types";
+import type {
+	CodeSignature,
+	NotarizationStatus,
+	OpenSocket,
+	PlistLintFinding,
+	PlistLintSeverity,
+	PlistMetadata,
+	Service,
+	ServiceHistoryKind,
+	SystemExtension,
+} from "../types";
+import {
+	formatCpu,
+	formatFireTime,
+	formatMemory,
+	formatRelativeTime,
+	formatUptime,
+	sparkline,
+} from "../utils/format";
+import { truncateWithEllipsis } from "./ServiceRow";
 import { StatusIndicator } from "./StatusIndicator";
 
+// Findings shown before collapsing the rest into a count
+const MAX_LINT_FINDINGS = 5;
+// Width of the details panel minus border, padding and the severity icon
+const LINT_MESSAGE_WIDTH = 38;
+// Width of the details panel minus border and padding
+const INSPECTION_WIDTH = 41;
+// Raw `launchctl print` lines shown at once when expanded
+const RAW_VISIBLE_LINES = 12;
+
+// Samples drawn in each sparkline (the value column is 28 wide)
+const SPARKLINE_WIDTH = 20;
+
+// Process tree rows shown at once
+const PROCESS_TREE_VISIBLE_ROWS = 10;
+
+// Service history entries shown at once
+const SERVICE_HISTORY_VISIBLE_ROWS = 8;
+// Width of the relative time column, e.g. "59m ago "
+const HISTORY_TIME_WIDTH = 8;
+
+const HISTORY_COLORS: Record<ServiceHistoryKind, string> = {
+	status: COLORS.textSecondary,
+	pid: COLORS.textSuccess,
+	exit: COLORS.textTertiary,
+	action: COLORS.textAccent,
+};
+
+// Upcoming StartCalendarInterval fire times listed
+const NEXT_RUNS_SHOWN = 5;
+
+// Listening sockets shown before collapsing the rest into a count
+const MAX_LISTENING_SOCKETS = 6;
+
+const SIGNATURE_COLORS: Record<CodeSignature["status"], string> = {
+	signed: COLORS.textSecondary,
+	adhoc: COLORS.textWarning,
+	unsigned: COLORS.textError,
+	unknown: COLORS.textMuted,
+};
+
+const NOTARIZATION_COLORS: Record<NotarizationStatus, string> = {
+	apple: COLORS.textSuccess,
+	"app-store": COLORS.textSuccess,
+	notarized: COLORS.textSuccess,
+	"developer-id": COLORS.textWarning,
+	rejected: COLORS.textError,
+};
+
+// `launchctl print` properties that point at a misbehaving job
+const WARNING_PROPERTIES = new Set(["inefficient", "needs LWCR update"]);
+
+const LINT_STYLE: Record<PlistLintSeverity, { icon: string; color: string }> = {
+	error: { icon: "✖", color: COLORS.textError },
+	warning: { icon: "⚠", color: COLORS.textWarning },
+	info: { icon: "ℹ", color: COLORS.textMuted },
+};
+
 function DetailRow({ label, value, color }: { label: string; value?: string | number; color?: string }) {
 	if (value === undefined || value === null) return null;
 
 	return (
 		<box flexDirection="row" paddingLeft={1}>
 			<box width={14}>
-				<text fg={COLORS.textMuted}>{label}:</text>
+				{/* An empty label continues the row above */}
+				<text fg={COLORS.textMuted}>{label ? `${label}:` : ""}</text>
 			</box>
 			<box flexGrow={1}>
 				<text fg={color || COLORS.textSecondary}>{String(value)}</text>
@@ -24,6 +113,493 @@ function DetailRow({ label, value, color }: { label: string; value?: string | nu
 	);
 }
 
+/**
+ * Plist lint findings with a per-severity summary
+ */
+function LintFindings({ findings }: { findings: PlistLintFinding[] }) {
+	if (findings.length === 0) {
+		return (
+			<box paddingLeft={1} paddingTop={1}>
+				<text fg={COLORS.textSuccess}>✓ Plist lint: no issues</text>
+			</box>
+		);
+	}
+
+	const counts = { error: 0, warning: 0, info: 0 };
+	for (const finding of findings) counts[finding.severity]++;
+	const summary = (["error", "warning", "info"] as const)
+		.filter((severity) => counts[severity] > 0)
+		.map((severity) => `${counts[severity]} ${severity}${counts[severity] === 1 ? "" : "s"}`)
+		.join(", ");
+	const shown = findings.slice(0, MAX_LINT_FINDINGS);
+
+	return (
+		<box flexDirection="column" paddingLeft={1} paddingTop={1}>
+			<text fg={counts.error > 0 ? COLORS.textError : COLORS.textTertiary}>Plist lint: {summary}</text>
+			{shown.map((finding, i) => {
+				const style = LINT_STYLE[finding.severity];
+				return (
+					// biome-ignore lint/suspicious/noArrayIndexKey: findings are static for a given plist
+					<text key={i} fg={style.color}>
+						{style.icon} {truncateWithEllipsis(finding.message, LINT_MESSAGE_WIDTH)}
+					</text>
+				);
+			})}
+			{findings.length > shown.length && (
+				<text fg={COLORS.textMuted}>…{findings.length - shown.length} more (msm lint)</text>
+			)}
+		</box>
+	);
+}
+
+/**
+ * Latest `ps` sample of the service's process with sparklines of recent samples
+ */
+function Resources({ serviceId, pid }: { serviceId: string; pid: number }) {
+	const sample = useAppStore((state) => state.resources.samples[pid]);
+	const history = useAppStore((state) => state.resources.history[serviceId]);
+	if (!sample) return null;
+
+	const cpuHistory = history?.pid === pid ? history.cpu.slice(-SPARKLINE_WIDTH) : [];
+	const rssHistory = history?.pid === pid ? history.rss.slice(-SPARKLINE_WIDTH) : [];
+
+	return (
+		<>
+			<DetailRow label="Uptime" value={formatUptime(sample.uptime)} />
+			<DetailRow label="Threads" value={sample.threads} />
+			<box flexDirection="row" paddingLeft={1}>
+				<box width={14}>
+					<text fg={COLORS.textMuted}>CPU:</text>
+				</box>
+				<text fg={COLORS.textSecondary}>
+					{formatCpu(sample.cpu).padEnd(7)}
+					{/* Scale to at least 10% so idle jitter stays flat */}
+					<span fg={COLORS.textAccent}>{sparkline(cpuHistory, Math.max(10, ...cpuHistory))}</span>
+				</text>
+			</box>
+			<box flexDirection="row" paddingLeft={1}>
+				<box width={14}>
+					<text fg={COLORS.textMuted}>Memory:</text>
+				</box>
+				<text fg={COLORS.textSecondary}>
+					{formatMemory(sample.rss).padEnd(7)}
+					<span fg={COLORS.textSuccess}>{sparkline(rssHistory)}</span>
+				</text>
+			</box>
+		</>
+	);
+}
+
+/**
+ * Processes started by the service: its launchd PID and every descendant
+ */
+function ProcessTree({ serviceId }: { serviceId: string }) {
+	const tree = useAppStore((state) => state.processTree);
+	const focused = useAppStore((state) => state.focusedPanel === "details");
+	const dryRun = useAppStore((state) => state.dryRun);
+	if (tree.serviceId !== serviceId) return null;
+
+	const rows = flattenProcessTree(tree.root, tree.collapsed);
+	const start = Math.max(
+		0,
+		Math.min(
+			tree.cursor - Math.floor(PROCESS_TREE_VISIBLE_ROWS / 2),
+			rows.length - PROCESS_TREE_VISIBLE_ROWS,
+		),
+	);
+	const pending = tree.pendingSignal;
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>
+					Processes{tree.root ? ` (${countProcesses(tree.root)})` : ""}
+					{tree.loading ? " (loading...)" : ":"}
+				</text>
+			</box>
+			{tree.error && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textError}>{truncateWithEllipsis(tree.error, INSPECTION_WIDTH)}</text>
+				</box>
+			)}
+			{!tree.loading && !tree.error && !tree.root && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textMuted}>No running process</text>
+				</box>
+			)}
+			{rows.slice(start, start + PROCESS_TREE_VISIBLE_ROWS).map((row, i) => {
+				const selected = focused && start + i === tree.cursor;
+				const marker = row.node.children.length > 0 ? (row.expanded ? "▾ " : "▸ ") : "  ";
+				const label = `${"  ".repeat(row.depth)}${marker}${row.node.pid} ${row.node.command}`;
+				return (
+					<box
+						// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for scrolling
+						key={`proc-${i}`}
+						paddingLeft={1}
+						height={1}
+						backgroundColor={selected ? COLORS.bgSelected : undefined}
+					>
+						<text fg={selected ? COLORS.textPrimary : COLORS.textSecondary}>
+							{truncateWithEllipsis(label, INSPECTION_WIDTH)}
+						</text>
+					</box>
+				);
+			})}
+			{pending ? (
+				<box paddingLeft={1} flexDirection="column">
+					<text fg={pending.signal === "KILL" ? COLORS.textError : COLORS.textWarning}>
+						{dryRun ? "Preview" : "Send"} SIG{pending.signal} to {pending.pid}?
+						{processNeedsSudo(pending.uid) ? " 🔑" : ""}
+					</text>
+					<text fg={COLORS.textMuted}>[Enter] confirm [Esc] cancel</text>
+				</box>
+			) : (
+				focused && (
+					<box paddingLeft={1}>
+						<text fg={COLORS.textMuted}>[↑↓] move [←→] fold [x] TERM [X] KILL</text>
+					</box>
+				)
+			)}
+		</box>
+	);
+}
+
+/**
+ * Status, PID and exit changes and actions, newest first
+ */
+function HistoryTimeline({ serviceId }: { serviceId: string }) {
+	const history = useAppStore((state) => state.serviceHistory);
+	const focused = useAppStore((state) => state.focusedPanel === "details");
+	const entries = history.entries[serviceId] ?? [];
+	const scroll =
+		history.serviceId === serviceId ? Math.min(history.scroll, Math.max(0, entries.length - 1)) : 0;
+	const shown = entries.slice(scroll, scroll + SERVICE_HISTORY_VISIBLE_ROWS);
+	const now = new Date();
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>
+					Timeline
+					{entries.length > SERVICE_HISTORY_VISIBLE_ROWS
+						? ` (${scroll + 1}-${scroll + shown.length} of ${entries.length})`
+						: ""}
+					{history.loaded ? ":" : " (loading...)"}
+				</text>
+			</box>
+			{history.error && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textError}>{truncateWithEllipsis(history.error, INSPECTION_WIDTH)}</text>
+				</box>
+			)}
+			{history.loaded && entries.length === 0 && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textMuted}>No changes or actions recorded</text>
+				</box>
+			)}
+			{shown.map((entry, i) => (
+				<box
+					// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for scrolling
+					key={`history-${i}`}
+					flexDirection="row"
+					paddingLeft={1}
+					height={1}
+				>
+					<box width={HISTORY_TIME_WIDTH}>
+						<text fg={COLORS.textMuted}>{formatRelativeTime(new Date(entry.time), now)}</text>
+					</box>
+					<text fg={entry.failed ? COLORS.textError : HISTORY_COLORS[entry.kind]}>
+						{truncateWithEllipsis(entry.message, INSPECTION_WIDTH - HISTORY_TIME_WIDTH)}
+					</text>
+				</box>
+			))}
+			{focused && entries.length > SERVICE_HISTORY_VISIBLE_ROWS && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textMuted}>[↑↓] scroll [y] hide</text>
+				</box>
+			)}
+		</box>
+	);
+}
+
+/**
+ * Raw `launchctl print` output, collapsed by default
+ */
+/**
+ * StartInterval / StartCalendarInterval in words, with the next calendar fire times
+ */
+function Schedule({ metadata }: { metadata: PlistMetadata }) {
+	const { startInterval, startCalendarInterval } = metadata;
+	if (!startInterval && !startCalendarInterval) return null;
+
+	const now = new Date();
+	const nextRuns = startCalendarInterval
+		? nextCalendarFireTimes(startCalendarInterval, now, NEXT_RUNS_SHOWN)
+		: [];
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>Schedule:</text>
+			</box>
+			{startInterval ? <DetailRow label="Interval" value={describeStartInterval(startInterval)} /> : null}
+			{startCalendarInterval && (
+				<>
+					<DetailRow label="Calendar" value={describeCalendarSchedule(startCalendarInterval)} />
+					{nextRuns.length === 0 ? (
+						<DetailRow label="Next Runs" value="never (no date matches)" color={COLORS.textWarning} />
+					) : (
+						nextRuns.map((time, i) => (
+							<DetailRow
+								key={time.getTime()}
+								label={i === 0 ? "Next Runs" : ""}
+								value={formatFireTime(time, now)}
+								color={i === 0 ? COLORS.textAccent : undefined}
+							/>
+						))
+					)}
+				</>
+			)}
+		</box>
+	);
+}
+
+/**
+ * Format a socket from `lsof`, e.g. "TCP *:8080" or "UDP [::1]:53"
+ */
+/**
+ * Code signature of the service's program: team, certificate chain, hardened runtime
+ * and Gatekeeper's notarization verdict
+ */
+function Signature({ serviceId }: { serviceId: string }) {
+	const signature = useAppStore((state) => state.signatures.byService[serviceId]);
+
+	// No program to check
+	if (signature === null) return null;
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>Code Signature{signature === undefined ? " (reading...)" : ":"}</text>
+			</box>
+			{signature && (
+				<>
+					<DetailRow
+						label="Status"
+						value={describeSignature(signature)}
+						color={SIGNATURE_COLORS[signature.status]}
+					/>
+					{signature.error && (
+						<box paddingLeft={1}>
+							<text fg={COLORS.textError}>{truncateWithEllipsis(signature.error, INSPECTION_WIDTH)}</text>
+						</box>
+					)}
+					<DetailRow label="Identifier" value={signature.identifier} />
+					{signature.status === "signed" && (
+						<DetailRow
+							label="Notarization"
+							value={
+								describeNotarization(signature.notarization) +
+								(signature.gatekeeperSource && signature.notarization === "rejected"
+									? ` (${signature.gatekeeperSource})`
+									: "")
+							}
+							color={signature.notarization ? NOTARIZATION_COLORS[signature.notarization] : COLORS.textMuted}
+						/>
+					)}
+					{signature.hardenedRuntime !== undefined && (
+						<DetailRow
+							label="Hardened"
+							value={signature.hardenedRuntime ? "Yes" : "No"}
+							color={signature.hardenedRuntime ? COLORS.textSuccess : COLORS.textWarning}
+						/>
+					)}
+					{signature.authorities?.map((authority, i) => (
+						<DetailRow key={authority} label={i === 0 ? "Authority" : ""} value={authority} />
+					))}
+				</>
+			)}
+		</box>
+	);
+}
+
+function formatOpenSocket(socket: OpenSocket): string {
+	return `${socket.protocol ?? socket.family} ${socket.address}:${socket.port ?? "*"}`;
+}
+
+/**
+ * Sockets and Mach services declared in the plist, checked against the sockets
+ * the running processes actually hold
+ */
+function Endpoints({ service }: { service: Service }) {
+	const endpoints = useAppStore((state) => state.endpoints);
+	const declaredSockets = service.plistMetadata?.sockets ?? [];
+	const machServices = service.plistMetadata?.machServices ?? [];
+	const hasSockets = endpoints.serviceId === service.id && service.pid !== undefined;
+	const open = hasSockets ? endpoints.sockets : [];
+
+	const listening = open.filter(
+		(socket) => socket.state === "LISTEN" || (socket.protocol === "UDP" && !socket.remote),
+	);
+	const connected = open.filter((socket) => socket.remote).length;
+	const unixSockets = open.filter((socket) => socket.family === "unix").length;
+
+	if (declaredSockets.length === 0 && machServices.length === 0 && open.length === 0 && !endpoints.error) {
+		return null;
+	}
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>
+					Endpoints{hasSockets && endpoints.loading ? " (loading...)" : ":"}
+				</text>
+			</box>
+			{hasSockets && endpoints.error && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textError}>{truncateWithEllipsis(endpoints.error, INSPECTION_WIDTH)}</text>
+				</box>
+			)}
+			{declaredSockets.map((socket, i) => {
+				const bound = findBoundSockets(socket, open);
+				const status = !service.pid
+					? { icon: "·", color: COLORS.textMuted, note: "" }
+					: bound.length > 0
+						? { icon: "●", color: COLORS.textSuccess, note: " bound" }
+						: { icon: "○", color: COLORS.textWarning, note: " not bound" };
+				const bonjour = socket.bonjour
+					? ` bonjour${Array.isArray(socket.bonjour) ? ` ${socket.bonjour.join(",")}` : ""}`
+					: "";
+				const line = `${socket.name} ${formatSocketDeclaration(socket)}${bonjour}`;
+				return (
+					// One socket name can declare several sockets, so the index keeps keys unique
+					<box key={`${socket.name}-${i}`} paddingLeft={1}>
+						<text fg={COLORS.textSecondary}>
+							<span fg={status.color}>{status.icon} </span>
+							{truncateWithEllipsis(line, INSPECTION_WIDTH - 2 - status.note.length)}
+							<span fg={status.color}>{status.note}</span>
+						</text>
+					</box>
+				);
+			})}
+			{machServices.map((machService) => (
+				<box key={machService.name} paddingLeft={1}>
+					<text fg={COLORS.textSecondary}>
+						<span fg={COLORS.textAccent}>◆ </span>
+						{truncateWithEllipsis(machService.name, INSPECTION_WIDTH - 2)}
+					</text>
+				</box>
+			))}
+			{listening.length > 0 && (
+				<DetailRow
+					label="Listening"
+					value={
+						listening.slice(0, MAX_LISTENING_SOCKETS).map(formatOpenSocket).join(", ") +
+						(listening.length > MAX_LISTENING_SOCKETS
+							? ` +${listening.length - MAX_LISTENING_SOCKETS} more`
+							: "")
+					}
+					color={COLORS.textSuccess}
+				/>
+			)}
+			<DetailRow label="Connections" value={connected > 0 ? connected : undefined} />
+			<DetailRow label="Unix Sockets" value={unixSockets > 0 ? unixSockets : undefined} />
+		</box>
+	);
+}
+
+function RawInspection({ raw, expanded, scroll }: { raw: string; expanded: boolean; scroll: number }) {
+	const lines = raw.replace(/\n+$/, "").split("\n");
+
+	if (!expanded) {
+		return <text fg={COLORS.textMuted}>▸ [i] Raw output ({lines.length} lines)</text>;
+	}
+
+	const start = Math.min(scroll, Math.max(0, lines.length - RAW_VISIBLE_LINES));
+	const shown = lines.slice(start, start + RAW_VISIBLE_LINES);
+	return (
+		<box flexDirection="column">
+			<text fg={COLORS.textMuted}>
+				▾ [i] Raw output ({start + 1}-{start + shown.length} of {lines.length}, Tab + ↑↓ to scroll)
+			</text>
+			{shown.map((line, i) => (
+				// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for scrolling
+				<text key={`raw-${i}`} fg={COLORS.textSecondary}>
+					{truncateWithEllipsis(line.replace(/\t/g, "  "), INSPECTION_WIDTH)}
+				</text>
+			))}
+		</box>
+	);
+}
+
+/**
+ * launchd's view of the selected service from `launchctl print`
+ */
+function Inspection({ serviceId }: { serviceId: string }) {
+	const inspection = useAppStore((state) => state.inspection);
+	if (inspection.serviceId !== serviceId) return null;
+
+	const { data, loading, error } = inspection;
+
+	return (
+		<box flexDirection="column" paddingTop={1}>
+			<box paddingLeft={1}>
+				<text fg={COLORS.textTertiary}>launchctl print{loading ? " (loading...)" : ":"}</text>
+			</box>
+			{error && (
+				<box paddingLeft={1}>
+					<text fg={COLORS.textError}>{truncateWithEllipsis(error, INSPECTION_WIDTH)}</text>
+				</box>
+			)}
+			{data && (
+				<>
+					<DetailRow label="State" value={data.state} />
+					<DetailRow label="Runs" value={data.runs} />
+					<DetailRow label="Spawn Type" value={data.spawnType} />
+					<DetailRow label="Reason" value={data.immediateReason} />
+					<DetailRow
+						label="Last Exit"
+						value={data.lastExitCode}
+						color={/^(0|\(never exited\))$/.test(data.lastExitCode ?? "0") ? undefined : COLORS.textError}
+					/>
+					<DetailRow
+						label="Exit Reason"
+						value={data.lastExitReason ?? data.lastTerminatingSignal}
+						color={COLORS.textWarning}
+					/>
+					<DetailRow
+						label="Endpoints"
+						value={data.endpoints.length > 0 ? data.endpoints.join(", ") : undefined}
+					/>
+					{data.properties.length > 0 && (
+						<box flexDirection="row" paddingLeft={1}>
+							<box width={14}>
+								<text fg={COLORS.textMuted}>Properties:</text>
+							</box>
+							<box flexGrow={1}>
+								<text>
+									{data.properties.map((property, i) => (
+										<span
+											key={property}
+											fg={WARNING_PROPERTIES.has(property) ? COLORS.textWarning : COLORS.textSecondary}
+										>
+											{i > 0 ? ", " : ""}
+											{property}
+										</span>
+									))}
+								</text>
+							</box>
+						</box>
+					)}
+					<box paddingLeft={1}>
+						<RawInspection raw={data.raw} expanded={inspection.showRaw} scroll={inspection.rawScroll} />
+					</box>
+				</>
+			)}
+		</box>
+	);
+}
+
 function ActionButton({
 	label,
 	shortcut,
@@ -57,6 +633,8 @@ export function ServiceDetails() {
 	const focusedPanel = useAppStore((state) => state.focusedPanel);
 	const offline = useAppStore((state) => state.offline);
 	const metadataLoading = useAppStore((state) => state.metadataLoading);
+	const showProcessTree = useAppStore((state) => state.showProcessTree);
+	const showServiceHistory = useAppStore((state) => state.showServiceHistory);
 
 	if (!selectedService) {
 		return (
@@ -76,8 +654,12 @@ export function ServiceDetails() {
 	const service = selectedService;
 	const isProtected = service.protection !== "normal";
 	const isRunning = service.status === "running";
+	const isNotLoaded = service.status === "not-loaded";
 	const isSystemExt = service.type === "SystemExtension";
 	const isOffline = offline.isOffline;
+	const hasOutputPaths = Boolean(
+		service.plistMetadata?.standardOutPath || service.plistMetadata?.standardErrorPath,
+	);
 
 	// Check if metadata is loading
 	const metadataState = metadataLoading[service.id];
@@ -120,6 +702,7 @@ export function ServiceDetails() {
 				<DetailRow label="Type" value={service.type} />
 				<DetailRow label="Domain" value={service.domain} />
 				<DetailRow label="PID" value={service.pid} color={COLORS.textSuccess} />
+				{service.pid !== undefined && <Resources serviceId={service.id} pid={service.pid} />}
 				<DetailRow
 					label="Exit Status"
 					value={service.exitStatus}
@@ -141,6 +724,8 @@ export function ServiceDetails() {
 					</box>
 				)}
 				<DetailRow label="Plist Path" value={service.plistPath} />
+				<DetailRow label="Stdout" value={service.plistMetadata?.standardOutPath} />
+				<DetailRow label="Stderr" value={service.plistMetadata?.standardErrorPath} />
 				<DetailRow label="Description" value={service.description} />
 				{service.lastError && (
 					<DetailRow label="Last Error" value={service.lastError} color={COLORS.textError} />
@@ -158,6 +743,27 @@ export function ServiceDetails() {
 				)}
 			</box>
 
+			{/* Process tree */}
+			{showProcessTree && !isSystemExt && <ProcessTree serviceId={service.id} />}
+
+			{/* Status changes and actions over time */}
+			{showServiceHistory && <HistoryTimeline serviceId={service.id} />}
+
+			{/* StartInterval / StartCalendarInterval */}
+			{service.plistMetadata && <Schedule metadata={service.plistMetadata} />}
+
+			{/* Code signature of the program */}
+			{!isSystemExt && <Signature serviceId={service.id} />}
+
+			{/* Declared and bound endpoints */}
+			{!isSystemExt && <Endpoints service={service} />}
+
+			{/* launchd inspection */}
+			{!isSystemExt && !isNotLoaded && <Inspection serviceId={service.id} />}
+
+			{/* Plist lint */}
+			{service.plistLint && <LintFindings findings={service.plistLint} />}
+
 			{/* Protection notice */}
 			{isProtected && (
 				<box marginTop={1} marginLeft={1} marginRight={1} padding={1} backgroundColor={COLORS.bgWarning}>
@@ -172,6 +778,15 @@ export function ServiceDetails() {
 				</box>
 			)}
 
+			{/* Not loaded notice */}
+			{isNotLoaded && (
+				<box marginTop={1} marginLeft={1} marginRight={1} padding={1} backgroundColor={COLORS.bgTertiary}>
+					<text fg={COLORS.textTertiary}>
+						◇ Installed but not loaded - launchd will not run it until loaded
+					</text>
+				</box>
+			)}
+
 			{/* Root notice */}
 			{service.requiresRoot && !isProtected && (
 				<box marginTop={1} marginLeft={1} marginRight={1} padding={1} backgroundColor={COLORS.bgWarningLight}>
@@ -191,7 +806,10 @@ export function ServiceDetails() {
 				<box flexDirection="column" gap={1} paddingTop={1} paddingLeft={1} paddingBottom={1}>
 					<text fg={COLORS.textTertiary}>Actions:</text>
 					<box flexDirection="row" flexWrap="wrap" gap={1}>
-						{!isRunning && (
+						{isNotLoaded && (
+							<ActionButton label="Load" shortcut="Enter/u" disabled={isProtected} offline={isOffline} />
+						)}
+						{!isRunning && !isNotLoaded && (
 							<ActionButton label="Start" shortcut="Enter" disabled={isProtected} offline={isOffline} />
 						)}
 						{isRunning && (
@@ -206,8 +824,12 @@ export function ServiceDetails() {
 							disabled={isProtected}
 							offline={isOffline}
 						/>
-						<ActionButton label="Unload" shortcut="u" disabled={isProtected} offline={isOffline} warning />
+						{!isNotLoaded && (
+							<ActionButton label="Unload" shortcut="u" disabled={isProtected} offline={isOffline} warning />
+						)}
 						{service.plistPath && <ActionButton label="Edit" shortcut="e" disabled={false} />}
+						<ActionButton label="Logs" shortcut="l" disabled={false} />
+						{hasOutputPaths && <ActionButton label="Output" shortcut="o" disabled={false} />}
 					</box>
 				</box>
 			)}
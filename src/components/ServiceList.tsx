@@ -6,20 +6,39 @@
 import { useTerminalDimensions } from "@opentui/react";
 import {
 	BASE_OVERHEAD,
+	COL_ALERT,
+	COL_CPU,
 	COL_DOMAIN_SEPARATE,
+	COL_MARK,
+	COL_MEMORY,
 	COL_PID,
 	COL_PROTECTION,
 	COL_STATUS,
+	COL_THREADS,
 	COL_TYPE_DOMAIN_COMBINED,
 	COL_TYPE_SEPARATE,
+	COL_UPTIME,
 	COLORS,
 	FILTER_BAR_HEIGHT,
 	MIN_TERMINAL_WIDTH,
 } from "../constants";
 import { useAppStore } from "../store/useAppStore";
-import { useFilteredServices } from "../store/useDerivedState";
+import { useFilteredServices, useMarkedServices } from "../store/useDerivedState";
+import type { SortField, SortOptions } from "../types";
 import { calculateColumnLayout, ServiceRow } from "./ServiceRow";
 
+/**
+ * Column title with the sort direction when the list is sorted by it
+ */
+function SortableHeader({ title, field, sort }: { title: string; field: SortField; sort: SortOptions }) {
+	return (
+		<text fg={COLORS.textTertiary}>
+			{title}
+			{sort.field === field && <span fg={COLORS.textAccent}> {sort.direction === "asc" ? "▲" : "▼"}</span>}
+		</text>
+	);
+}
+
 export function ServiceList() {
 	const { filteredServices, serviceMatchInfo } = useFilteredServices();
 	const selectedIndex = useAppStore((state) => state.selectedIndex);
@@ -28,6 +47,10 @@ export function ServiceList() {
 	const searchQuery = useAppStore((state) => state.searchQuery);
 	const loading = useAppStore((state) => state.loading);
 	const showFilters = useAppStore((state) => state.showFilters);
+	const markedServiceIds = useAppStore((state) => state.markedServiceIds);
+	const processSamples = useAppStore((state) => state.resources.samples);
+	const alerts = useAppStore((state) => state.health.alerts);
+	const markedServices = useMarkedServices();
 	const { height: terminalHeight, width: terminalWidth } = useTerminalDimensions();
 
 	// Calculate column layout based on terminal width
@@ -37,7 +60,7 @@ export function ServiceList() {
 	// Account for filter bar when visible - use compact height on small terminals
 	const filterBarHeight = showFilters
 		? terminalHeight < 25
-			? 6 // Compact mode: reduced padding/gaps
+			? 8 // Compact mode: reduced padding/gaps
 			: FILTER_BAR_HEIGHT
 		: 0;
 	const overhead = BASE_OVERHEAD + filterBarHeight;
@@ -58,6 +81,7 @@ export function ServiceList() {
 	}
 
 	const endIndex = Math.min(totalItems, startIndex + visibleRows);
+	const markedCount = markedServices.length;
 	const visibleServices = filteredServices.slice(startIndex, endIndex);
 
 	// Show warning if terminal is too narrow
@@ -97,9 +121,15 @@ export function ServiceList() {
 				height={1}
 			>
 				{focusedPanel === "list" && <text fg={COLORS.bgFocus}>▶ </text>}
+				<box width={COL_MARK}>
+					<text> </text>
+				</box>
 				<box width={COL_STATUS}>
 					<text fg={COLORS.textTertiary}>S</text>
 				</box>
+				<box width={COL_ALERT}>
+					<text fg={COLORS.textTertiary}>!</text>
+				</box>
 				<box width={COL_PROTECTION}>
 					<text fg={COLORS.textTertiary}>P</text>
 				</box>
@@ -119,15 +149,26 @@ export function ServiceList() {
 					</box>
 				)}
 				<box width={layout.labelWidth}>
-					<text fg={COLORS.textTertiary}>
-						Label
-						{sort.field === "label" && (
-							<span fg={COLORS.textAccent}> {sort.direction === "asc" ? "▲" : "▼"}</span>
-						)}
-					</text>
+					<SortableHeader title="Label" field="label" sort={sort} />
 				</box>
+				{layout.showResources && (
+					<>
+						<box width={COL_CPU} justifyContent="flex-end">
+							<SortableHeader title="CPU" field="cpu" sort={sort} />
+						</box>
+						<box width={COL_MEMORY} justifyContent="flex-end">
+							<SortableHeader title="Mem" field="memory" sort={sort} />
+						</box>
+						<box width={COL_THREADS} justifyContent="flex-end">
+							<text fg={COLORS.textTertiary}>Thr</text>
+						</box>
+						<box width={COL_UPTIME} justifyContent="flex-end">
+							<SortableHeader title="Up" field="uptime" sort={sort} />
+						</box>
+					</>
+				)}
 				<box width={COL_PID} justifyContent="flex-end">
-					<text fg={COLORS.textTertiary}>PID</text>
+					<SortableHeader title="PID" field="pid" sort={sort} />
 				</box>
 			</box>
 
@@ -151,10 +192,13 @@ export function ServiceList() {
 								key={`row-${i}`}
 								service={service}
 								isSelected={startIndex + i === selectedIndex}
+								isMarked={markedServiceIds[service.id] === true}
 								index={startIndex + i}
 								layout={layout}
 								matchInfo={matchInfo}
 								hasSearchQuery={!!searchQuery}
+								sample={service.pid !== undefined ? processSamples[service.pid] : undefined}
+								alert={alerts[service.id]}
 							/>
 						);
 					}
@@ -184,6 +228,7 @@ export function ServiceList() {
 			>
 				<text fg={COLORS.textMuted}>
 					{selectedIndex + 1} / {filteredServices.length}
+					{markedCount > 0 && <span fg={COLORS.textMarked}> · {markedCount} marked</span>}
 				</text>
 				<text fg={COLORS.textMuted}>
 					{startIndex > 0 && "▲ "}
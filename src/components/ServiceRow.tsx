@@ -5,19 +5,27 @@
 
 import { memo } from "react";
 import {
+	COL_ALERT,
 	COL_BORDER,
+	COL_CPU,
 	COL_DOMAIN_SEPARATE,
+	COL_MARK,
+	COL_MEMORY,
 	COL_PADDING,
 	COL_PID,
 	COL_PROTECTION,
 	COL_STATUS,
+	COL_THREADS,
 	COL_TYPE_DOMAIN_COMBINED,
 	COL_TYPE_SEPARATE,
+	COL_UPTIME,
 	COLORS,
 	MIN_TERMINAL_WIDTH,
+	RESOURCE_COLUMNS_THRESHOLD,
 	WIDE_TERMINAL_THRESHOLD,
 } from "../constants";
-import type { Service, ServiceMatchInfo } from "../types";
+import type { ProcessSample, Service, ServiceAlert, ServiceMatchInfo } from "../types";
+import { formatCpu, formatMemory, formatUptime } from "../utils/format";
 import { getProtectionSymbol, getStatusColor, getStatusSymbol } from "../utils/status";
 import { HighlightedText } from "./HighlightedText";
 
@@ -37,17 +45,32 @@ export function truncateWithEllipsis(text: string, maxLength: number): string {
 export interface ColumnLayout {
 	labelWidth: number;
 	separateTypeAndDomain: boolean;
+	/** Whether the CPU, memory, thread and uptime columns fit */
+	showResources: boolean;
 	isTooNarrow: boolean;
 }
 
+/** Combined width of the CPU, memory, thread and uptime columns */
+const RESOURCE_COLUMNS_WIDTH = COL_CPU + COL_MEMORY + COL_THREADS + COL_UPTIME;
+
 export function calculateColumnLayout(terminalWidth: number): ColumnLayout {
-	const fixedWidth = COL_STATUS + COL_PROTECTION + COL_PID + COL_PADDING + COL_BORDER;
+	const showResources = terminalWidth >= RESOURCE_COLUMNS_THRESHOLD;
+	const fixedWidth =
+		COL_MARK +
+		COL_STATUS +
+		COL_ALERT +
+		COL_PROTECTION +
+		COL_PID +
+		COL_PADDING +
+		COL_BORDER +
+		(showResources ? RESOURCE_COLUMNS_WIDTH : 0);
 
 	// Check if terminal is too narrow
 	if (terminalWidth < MIN_TERMINAL_WIDTH) {
 		return {
 			labelWidth: Math.max(1, terminalWidth - fixedWidth - COL_TYPE_DOMAIN_COMBINED),
 			separateTypeAndDomain: false,
+			showResources: false,
 			isTooNarrow: true,
 		};
 	}
@@ -58,6 +81,7 @@ export function calculateColumnLayout(terminalWidth: number): ColumnLayout {
 		return {
 			labelWidth: terminalWidth - fixedWidth - typeAndDomainWidth,
 			separateTypeAndDomain: true,
+			showResources,
 			isTooNarrow: false,
 		};
 	}
@@ -66,26 +90,38 @@ export function calculateColumnLayout(terminalWidth: number): ColumnLayout {
 	return {
 		labelWidth: terminalWidth - fixedWidth - COL_TYPE_DOMAIN_COMBINED,
 		separateTypeAndDomain: false,
+		showResources,
 		isTooNarrow: false,
 	};
 }
 
+/** CPU usage highlighted in the list */
+const HIGH_CPU_PERCENT = 25;
+
 export interface ServiceRowProps {
 	service: Service;
 	isSelected: boolean;
+	isMarked: boolean;
 	index: number;
 	layout: ColumnLayout;
 	matchInfo?: ServiceMatchInfo;
 	hasSearchQuery: boolean;
+	/** Latest `ps` sample for the service's process */
+	sample?: ProcessSample;
+	/** Crash or flapping seen since the events were last cleared */
+	alert?: ServiceAlert;
 }
 
 export const ServiceRow = memo(function ServiceRow({
 	service,
 	isSelected,
+	isMarked,
 	index,
 	layout,
 	matchInfo,
 	hasSearchQuery,
+	sample,
+	alert,
 }: ServiceRowProps) {
 	const statusColor = getStatusColor(service.status);
 	const statusSymbol = getStatusSymbol(service.status);
@@ -104,11 +140,23 @@ export const ServiceRow = memo(function ServiceRow({
 
 	return (
 		<box flexDirection="row" backgroundColor={bgColor} paddingLeft={1} paddingRight={1} height={1}>
+			{/* Multi-select marker */}
+			<box width={COL_MARK}>
+				<text fg={COLORS.textMarked}>{isMarked ? "✱" : " "}</text>
+			</box>
+
 			{/* Status indicator */}
 			<box width={COL_STATUS}>
 				<text fg={statusColor}>{statusSymbol}</text>
 			</box>
 
+			{/* Crash/flapping badge */}
+			<box width={COL_ALERT}>
+				<text fg={alert === "flapping" ? COLORS.textOrange : COLORS.textError}>
+					{alert === "flapping" ? "↻" : alert === "crashed" ? "✗" : " "}
+				</text>
+			</box>
+
 			{/* Protection indicator */}
 			<box width={COL_PROTECTION}>
 				<text>{protectionSymbol || " "}</text>
@@ -149,6 +197,26 @@ export const ServiceRow = memo(function ServiceRow({
 				)}
 			</box>
 
+			{/* CPU, memory, threads and uptime */}
+			{layout.showResources && (
+				<>
+					<box width={COL_CPU} justifyContent="flex-end">
+						<text fg={sample && sample.cpu >= HIGH_CPU_PERCENT ? COLORS.textWarning : COLORS.textMuted}>
+							{sample ? formatCpu(sample.cpu) : ""}
+						</text>
+					</box>
+					<box width={COL_MEMORY} justifyContent="flex-end">
+						<text fg={COLORS.textMuted}>{sample ? formatMemory(sample.rss) : ""}</text>
+					</box>
+					<box width={COL_THREADS} justifyContent="flex-end">
+						<text fg={COLORS.textMuted}>{sample?.threads ?? ""}</text>
+					</box>
+					<box width={COL_UPTIME} justifyContent="flex-end">
+						<text fg={COLORS.textMuted}>{sample ? formatUptime(sample.uptime) : ""}</text>
+					</box>
+				</>
+			)}
+
 			{/* PID */}
 			<box width={COL_PID} justifyContent="flex-end">
 				<text fg={COLORS.textMuted}>{service.pid ? `PID ${service.pid}` : ""}</text>
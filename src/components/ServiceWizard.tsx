@@ -0,0 +1,273 @@
+/**
+ * Service Wizard Component
+ * Multi-step form for creating a new LaunchAgent or LaunchDaemon
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { COLORS, WIZARD_STEPS } from "../constants";
+import {
+	buildServicePlist,
+	getNewServicePlistPath,
+	parseServiceWizard,
+	serializePlistXml,
+} from "../services";
+import { useAppStore } from "../store/useAppStore";
+import type { NewServiceSchedule, NewServiceScope, ServiceWizardState, ServiceWizardValues } from "../types";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+const PANEL_WIDTH = 84;
+// Border + padding
+const PANEL_CHROME_WIDTH = 4;
+const FIELD_LABEL_WIDTH = 14;
+// Header, step title, path, hints, error, borders, margins
+const REVIEW_CHROME_HEIGHT = 14;
+
+const FIELD_LABELS: Record<keyof ServiceWizardValues, string> = {
+	scope: "Install as",
+	label: "Label",
+	command: "Program",
+	runAtLoad: "Run at load",
+	keepAlive: "Keep alive",
+	schedule: "Schedule",
+	scheduleValue: "When",
+	standardOutPath: "Stdout log",
+	standardErrorPath: "Stderr log",
+	environment: "Environment",
+	bootstrap: "Load now",
+};
+
+const FIELD_PLACEHOLDERS: Partial<Record<keyof ServiceWizardValues, string>> = {
+	label: "com.example.backup",
+	command: "/usr/local/bin/backup --quiet",
+	standardOutPath: "/tmp/com.example.backup.out.log",
+	standardErrorPath: "/tmp/com.example.backup.err.log",
+	environment: "KEY=value OTHER='with spaces'",
+};
+
+const SCOPE_LABELS: Record<NewServiceScope, string> = {
+	userAgent: "Agent for me (~/Library/LaunchAgents)",
+	systemAgent: "Agent for all users (/Library/LaunchAgents)",
+	systemDaemon: "Daemon (/Library/LaunchDaemons)",
+};
+
+const SCHEDULE_LABELS: Record<NewServiceSchedule, string> = {
+	none: "None",
+	interval: "Every N seconds (StartInterval)",
+	calendar: "Calendar (StartCalendarInterval)",
+};
+
+const SCHEDULE_PLACEHOLDERS: Record<NewServiceSchedule, string> = {
+	none: "not used",
+	interval: "3600",
+	calendar: "Hour=9 Minute=30 Weekday=1",
+};
+
+/**
+ * Render the value of one form field
+ */
+function FieldValue({
+	field,
+	values,
+	focused,
+	width,
+}: {
+	field: keyof ServiceWizardValues;
+	values: ServiceWizardValues;
+	focused: boolean;
+	width: number;
+}) {
+	if (field === "scope" || field === "schedule") {
+		const label = field === "scope" ? SCOPE_LABELS[values.scope] : SCHEDULE_LABELS[values.schedule];
+		return (
+			<text fg={focused ? COLORS.textPrimary : COLORS.textSecondary}>
+				{focused ? "◀ " : "  "}
+				{label}
+				{focused ? " ▶" : ""}
+			</text>
+		);
+	}
+
+	const value = values[field];
+	if (typeof value === "boolean") {
+		return <text fg={value ? COLORS.textSuccess : COLORS.textMuted}>{value ? "[x] Yes" : "[ ] No"}</text>;
+	}
+
+	const placeholder =
+		field === "scheduleValue" ? SCHEDULE_PLACEHOLDERS[values.schedule] : (FIELD_PLACEHOLDERS[field] ?? "");
+	if (!value && !focused) {
+		return <text fg={COLORS.textMuted}>{truncateWithEllipsis(placeholder, width)}</text>;
+	}
+	// Keep the end of long values (where the cursor is) in view
+	const shown = value.length > width - 1 ? `…${value.slice(value.length - width + 2)}` : value;
+	return (
+		<text fg={COLORS.textPrimary}>
+			{shown}
+			{focused && <span fg={COLORS.bgFocus}>▌</span>}
+			{!value && <span fg={COLORS.textMuted}> {placeholder}</span>}
+		</text>
+	);
+}
+
+/**
+ * Review step: target path and the plist that will be written
+ */
+function ReviewBody({ wizard, maxLines }: { wizard: ServiceWizardState; maxLines: number }) {
+	const { spec, errors } = parseServiceWizard(wizard.values);
+
+	if (!spec) {
+		return (
+			<box flexDirection="column" padding={1} backgroundColor={COLORS.bgPrimary}>
+				{Object.entries(errors).map(([field, error]) => (
+					<text key={field} fg={COLORS.textError}>
+						{FIELD_LABELS[field as keyof ServiceWizardValues]}: {error}
+					</text>
+				))}
+			</box>
+		);
+	}
+
+	const path = getNewServicePlistPath(spec.scope, spec.label);
+	const lines = serializePlistXml(buildServicePlist(spec)).trimEnd().split("\n");
+	const shown = lines.slice(0, maxLines);
+
+	return (
+		<box flexDirection="column">
+			<text fg={COLORS.textTertiary}>
+				Write <span fg={COLORS.textAccent}>{path}</span>
+			</text>
+			{spec.scope !== "userAgent" && (
+				<text fg={COLORS.textWarning}>🔑 Writing to /Library requires administrator privileges.</text>
+			)}
+			<box marginTop={1} paddingLeft={1} backgroundColor={COLORS.bgPrimary} flexDirection="column">
+				{shown.map((line, i) => (
+					// biome-ignore lint/suspicious/noArrayIndexKey: lines are static for a given plist
+					<text key={i} fg={COLORS.textTertiary}>
+						{truncateWithEllipsis(line.replace(/\t/g, "  "), PANEL_WIDTH - PANEL_CHROME_WIDTH - 2)}
+					</text>
+				))}
+				{lines.length > shown.length && (
+					<text fg={COLORS.textMuted}>…{lines.length - shown.length} more lines</text>
+				)}
+			</box>
+		</box>
+	);
+}
+
+export function ServiceWizard() {
+	const wizard = useAppStore((state) => state.wizard);
+	const dryRun = useAppStore((state) => state.dryRun);
+	const { height: terminalHeight } = useTerminalDimensions();
+
+	if (!wizard) {
+		return null;
+	}
+
+	const step = WIZARD_STEPS[wizard.step];
+	if (!step) {
+		return null;
+	}
+
+	const isReview = wizard.step === WIZARD_STEPS.length - 1;
+	const valueWidth = PANEL_WIDTH - PANEL_CHROME_WIDTH - FIELD_LABEL_WIDTH - 2;
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={0}
+			justifyContent="center"
+			alignItems="center"
+		>
+			<box
+				width={PANEL_WIDTH}
+				border
+				borderColor={COLORS.bgFocus}
+				backgroundColor={COLORS.bgSecondary}
+				flexDirection="column"
+			>
+				{/* Header */}
+				<box
+					backgroundColor={COLORS.bgHeader}
+					paddingLeft={1}
+					paddingRight={1}
+					height={1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={COLORS.textAccent}>
+						<strong>
+							{dryRun ? "🔍 DRY RUN - " : ""}New Service - {step.title}
+						</strong>
+					</text>
+					<text fg={COLORS.textMuted}>
+						Step {wizard.step + 1}/{WIZARD_STEPS.length}
+					</text>
+				</box>
+
+				<box flexDirection="column" paddingLeft={1} paddingRight={1} paddingTop={1}>
+					{isReview && (
+						<ReviewBody wizard={wizard} maxLines={Math.max(3, terminalHeight - REVIEW_CHROME_HEIGHT)} />
+					)}
+
+					{/* Fields */}
+					<box flexDirection="column" marginTop={isReview ? 1 : 0}>
+						{step.fields.map((field, i) => {
+							const focused = i === wizard.field;
+							const error = wizard.errors[field];
+							return (
+								<box key={field} flexDirection="column">
+									<box
+										flexDirection="row"
+										height={1}
+										backgroundColor={focused ? COLORS.bgSelected : undefined}
+									>
+										<box width={FIELD_LABEL_WIDTH}>
+											<text fg={focused ? COLORS.textAccent : COLORS.textTertiary}>
+												{FIELD_LABELS[field]}
+											</text>
+										</box>
+										<FieldValue field={field} values={wizard.values} focused={focused} width={valueWidth} />
+									</box>
+									{error && (
+										<box paddingLeft={FIELD_LABEL_WIDTH} height={1}>
+											<text fg={COLORS.textError}>{truncateWithEllipsis(error, valueWidth)}</text>
+										</box>
+									)}
+								</box>
+							);
+						})}
+					</box>
+				</box>
+
+				{/* Write/bootstrap error */}
+				{wizard.error && (
+					<box marginTop={1} paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgWarning}>
+						<text fg={COLORS.textWarningLight}>
+							❌ {truncateWithEllipsis(wizard.error, PANEL_WIDTH - PANEL_CHROME_WIDTH - 3)}
+						</text>
+					</box>
+				)}
+
+				{/* Key hints */}
+				<box
+					flexDirection="row"
+					justifyContent="space-between"
+					paddingLeft={1}
+					paddingRight={1}
+					marginTop={1}
+					backgroundColor={COLORS.bgTertiary}
+					height={1}
+				>
+					<text fg={COLORS.textMuted}>[Tab/↑↓] field [←→/Space] change</text>
+					<text fg={COLORS.textMuted}>
+						{wizard.submitting
+							? "⏳ Creating..."
+							: `[Enter] ${isReview ? (dryRun ? "preview" : "create") : "next"} [ESC] ${wizard.step === 0 ? "cancel" : "back"}`}
+					</text>
+				</box>
+			</box>
+		</box>
+	);
+}
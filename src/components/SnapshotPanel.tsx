@@ -0,0 +1,175 @@
+/**
+ * Snapshot Panel Component
+ * Services added, removed and changed between a saved inventory snapshot and the live system
+ * or another saved snapshot
+ */
+
+import { useTerminalDimensions } from "@opentui/react";
+import { useMemo } from "react";
+import { COLORS, FOOTER_HEIGHT } from "../constants";
+import { type SnapshotDiffLine, snapshotDiffLines, summarizeSnapshotDiff } from "../services";
+import { useAppStore } from "../store/useAppStore";
+import { truncateWithEllipsis } from "./ServiceRow";
+
+// Border + padding
+const VIEW_CHROME_WIDTH = 4;
+// Header, status line, key hints, borders
+const VIEW_CHROME_HEIGHT = 5;
+
+function lineColor(line: SnapshotDiffLine): string {
+	switch (line.kind) {
+		case "heading":
+			return COLORS.textAccent;
+		case "added":
+			return COLORS.textSuccess;
+		case "removed":
+			return COLORS.textError;
+		case "changed":
+			return COLORS.textWarning;
+		case "field":
+			return COLORS.textTertiary;
+		case "plist": {
+			const text = line.text.trimStart();
+			if (text.startsWith("@@")) return COLORS.textMuted;
+			if (text.startsWith("+")) return COLORS.textSuccess;
+			if (text.startsWith("-")) return COLORS.textError;
+			return COLORS.textSecondary;
+		}
+	}
+}
+
+/** File name of a snapshot path */
+function fileName(path: string): string {
+	return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Format an ISO timestamp as local "YYYY-MM-DD HH:MM"
+ */
+function formatSnapshotTime(iso: string): string {
+	const date = new Date(iso);
+	if (Number.isNaN(date.getTime())) return "unknown time";
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function SnapshotPanel() {
+	const showSnapshots = useAppStore((state) => state.showSnapshots);
+	const snapshots = useAppStore((state) => state.snapshots);
+	const { width: terminalWidth, height: terminalHeight } = useTerminalDimensions();
+	const lines = useMemo(() => (snapshots.diff ? snapshotDiffLines(snapshots.diff) : []), [snapshots.diff]);
+
+	if (!showSnapshots) {
+		return null;
+	}
+
+	const { diff, paths, pathIndex, targetIndex } = snapshots;
+	const path = paths[pathIndex];
+	const targetPath = targetIndex === null ? undefined : paths[targetIndex];
+	const targetName = targetPath ? fileName(targetPath) : "live";
+	const visibleRows = Math.max(1, terminalHeight - FOOTER_HEIGHT - VIEW_CHROME_HEIGHT);
+	const lineWidth = terminalWidth - VIEW_CHROME_WIDTH;
+
+	// Keep the selected line in view
+	const selectedIndex = Math.min(snapshots.selectedIndex, Math.max(0, lines.length - 1));
+	const startIndex = Math.max(
+		0,
+		Math.min(selectedIndex - Math.floor(visibleRows / 2), lines.length - visibleRows),
+	);
+	const visibleLines = lines.slice(startIndex, startIndex + visibleRows);
+
+	const status = snapshots.error
+		? { text: snapshots.error, color: COLORS.textError }
+		: snapshots.saving
+			? { text: "Saving a snapshot of the live system...", color: COLORS.textMuted }
+			: snapshots.message
+				? { text: snapshots.message, color: COLORS.textSuccess }
+				: diff
+					? {
+							text: `${formatSnapshotTime(diff.before.createdAt)} on ${diff.before.hostname || "unknown host"} → ${targetPath ? `${formatSnapshotTime(diff.after.createdAt)} on ${diff.after.hostname || "unknown host"}` : "live"}: ${summarizeSnapshotDiff(diff)}`,
+							color: COLORS.textTertiary,
+						}
+					: { text: " ", color: COLORS.textMuted };
+
+	return (
+		<box
+			position="absolute"
+			left={0}
+			top={0}
+			right={0}
+			bottom={FOOTER_HEIGHT}
+			border
+			borderColor={COLORS.bgFocus}
+			backgroundColor={COLORS.bgPrimary}
+			flexDirection="column"
+		>
+			{/* Header */}
+			<box
+				backgroundColor={COLORS.bgHeader}
+				paddingLeft={1}
+				paddingRight={1}
+				height={1}
+				flexDirection="row"
+				justifyContent="space-between"
+			>
+				<text fg={COLORS.textAccent}>
+					<strong>Snapshot Diff</strong>
+					<span fg={COLORS.textTertiary}>
+						{" "}
+						· {path ? `${fileName(path)} → ${targetName}` : "no snapshot"}
+					</span>
+				</text>
+				<text fg={COLORS.textMuted}>
+					{paths.length > 0 ? `snapshot ${pathIndex + 1} of ${paths.length} (newest first)` : ""}
+				</text>
+			</box>
+
+			{/* Diff */}
+			<box flexDirection="column" flexGrow={1} overflow="hidden" paddingLeft={1} paddingRight={1}>
+				{snapshots.loading ? (
+					<text fg={COLORS.textMuted}>
+						{targetPath ? "Comparing snapshots..." : "Comparing with the live system..."}
+					</text>
+				) : !path ? (
+					<text fg={COLORS.textMuted}>No saved snapshots. Press [s] to save one, or run `msm snapshot`.</text>
+				) : lines.length === 0 ? (
+					<text fg={COLORS.textMuted}>
+						{diff ? `No changes from ${formatSnapshotTime(diff.before.createdAt)} to ${targetName}` : " "}
+					</text>
+				) : (
+					visibleLines.map((line, i) => {
+						const isSelected = startIndex + i === selectedIndex;
+						return (
+							<box
+								// biome-ignore lint/suspicious/noArrayIndexKey: position-based keys required for virtual scrolling
+								key={`snapshot-${i}`}
+								height={1}
+								backgroundColor={isSelected ? COLORS.bgSelected : undefined}
+							>
+								<text fg={lineColor(line)}>
+									{line.kind === "heading" ? (
+										<strong>{line.text}</strong>
+									) : (
+										truncateWithEllipsis(line.text.replace(/\t/g, "  "), lineWidth)
+									)}
+								</text>
+							</box>
+						);
+					})
+				)}
+			</box>
+
+			{/* Compared snapshot and summary */}
+			<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgSecondary} height={1}>
+				<text fg={status.color}>{truncateWithEllipsis(status.text, lineWidth)}</text>
+			</box>
+
+			{/* Key hints */}
+			<box paddingLeft={1} paddingRight={1} backgroundColor={COLORS.bgTertiary} height={1}>
+				<text fg={COLORS.textMuted}>
+					[↑↓] select [Enter] go to service [←→] from older/newer [[ ]] to older/newer [s] save [ESC] close
+				</text>
+			</box>
+		</box>
+	);
+}
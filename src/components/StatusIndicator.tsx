@@ -4,7 +4,7 @@
  */
 
 import type { ProtectionStatus, ServiceStatus } from "../types";
-import { getProtectionSymbol, getStatusColor, getStatusSymbol } from "../utils/status";
+import { getProtectionSymbol, getStatusColor, getStatusLabel, getStatusSymbol } from "../utils/status";
 
 const PROTECTION_LABELS: Record<ProtectionStatus, string> = {
 	normal: "",
@@ -42,7 +42,7 @@ export function StatusIndicator({ status, protection, compact = false }: StatusI
 	return (
 		<box flexDirection="row" gap={1}>
 			<text fg={color}>{symbol}</text>
-			<text fg={color}>{status}</text>
+			<text fg={color}>{getStatusLabel(status)}</text>
 			{protectionSymbol && (
 				<text>
 					{protectionSymbol}
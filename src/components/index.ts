@@ -2,13 +2,24 @@
  * Component exports
  */
 
+export { BatchResultsPanel } from "./BatchResultsPanel";
 export { ConfirmDialog } from "./ConfirmDialog";
+export { EventsPanel } from "./EventsPanel";
+export { ExportDialog } from "./ExportDialog";
 export { FilterBar } from "./FilterBar";
 export { Footer } from "./Footer";
 export { Header } from "./Header";
 export { HelpPanel } from "./HelpPanel";
+export { HistoryPanel } from "./HistoryPanel";
+export { LogPanel } from "./LogPanel";
+export { OutputPanel } from "./OutputPanel";
 export { PasswordDialog } from "./PasswordDialog";
+export { PersistenceAuditPanel } from "./PersistenceAuditPanel";
+export { PlistEditor } from "./PlistEditor";
+export { ScheduleTimeline } from "./ScheduleTimeline";
 export { SearchBar } from "./SearchBar";
 export { ServiceDetails } from "./ServiceDetails";
 export { ServiceList } from "./ServiceList";
+export { ServiceWizard } from "./ServiceWizard";
+export { SnapshotPanel } from "./SnapshotPanel";
 export { StatusIndicator } from "./StatusIndicator";
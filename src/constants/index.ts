@@ -3,10 +3,12 @@
  * Centralized constants for heights, widths, colors, and other UI values
  */
 
+import type { ServiceWizardValues } from "../types";
+
 // Fixed UI element heights
 export const HEADER_HEIGHT = 3;
 export const SEARCH_BAR_HEIGHT = 1;
-export const FILTER_BAR_HEIGHT = 8; // 6 rows (Type, Domain, Status, Show, Sort, blank) + 2 padding
+export const FILTER_BAR_HEIGHT = 10; // 8 rows (Type, Domain, Status, Loaded, Signing, Team, Show, Sort) + 2 padding
 export const FOOTER_HEIGHT = 3;
 export const LIST_BORDER_HEIGHT = 2; // top + bottom border
 export const LIST_HEADER_HEIGHT = 1;
@@ -21,12 +23,18 @@ export const BASE_OVERHEAD =
 	LIST_FOOTER_HEIGHT;
 
 // Column width constants
+export const COL_MARK = 2; // multi-select marker
 export const COL_STATUS = 2;
+export const COL_ALERT = 2; // crash/flapping badge
 export const COL_PROTECTION = 2;
 export const COL_TYPE_DOMAIN_COMBINED = 8; // "D/sys" format
 export const COL_TYPE_SEPARATE = 4; // "D" with padding
 export const COL_DOMAIN_SEPARATE = 6; // "sys" with padding
 export const COL_PID = 8;
+export const COL_CPU = 7; // "112%" / "12.5%" with padding
+export const COL_MEMORY = 7; // "14.2M" with padding
+export const COL_THREADS = 5; // "128" with padding
+export const COL_UPTIME = 7; // "12d07h" with padding
 export const COL_PADDING = 2; // left + right padding
 export const COL_BORDER = 2; // list border
 
@@ -34,7 +42,9 @@ export const COL_BORDER = 2; // list border
 export const MIN_LABEL_WIDTH = 15;
 // Minimum terminal width to display the list
 export const MIN_TERMINAL_WIDTH =
+	COL_MARK +
 	COL_STATUS +
+	COL_ALERT +
 	COL_PROTECTION +
 	COL_TYPE_DOMAIN_COMBINED +
 	COL_PID +
@@ -43,6 +53,8 @@ export const MIN_TERMINAL_WIDTH =
 	MIN_LABEL_WIDTH;
 // Width threshold to show separate type/domain columns
 export const WIDE_TERMINAL_THRESHOLD = 100;
+// Width threshold to show CPU, memory, thread and uptime columns
+export const RESOURCE_COLUMNS_THRESHOLD = 90;
 
 // Colors
 export const COLORS = {
@@ -73,6 +85,7 @@ export const COLORS = {
 	statusStopped: "#6b7280",
 	statusDisabled: "#eab308",
 	statusError: "#ef4444",
+	statusNotLoaded: "#64748b",
 	statusUnknown: "#8b5cf6",
 
 	// Action/dialog colors
@@ -82,4 +95,22 @@ export const COLORS = {
 	textOrange: "#f97316",
 	bgAmber: "#b45309",
 	borderMuted: "#4b5563",
+	textMarked: "#e879f9",
 } as const;
+
+// Create-service wizard steps and the form fields on each
+export const WIZARD_STEPS: ReadonlyArray<{
+	title: string;
+	fields: ReadonlyArray<keyof ServiceWizardValues>;
+}> = [
+	{ title: "Basics", fields: ["scope", "label", "command"] },
+	{ title: "Behavior", fields: ["runAtLoad", "keepAlive", "schedule", "scheduleValue"] },
+	{ title: "Logs & Environment", fields: ["standardOutPath", "standardErrorPath", "environment"] },
+	{ title: "Review", fields: ["bootstrap"] },
+];
+
+// Options for the wizard's multiple-choice fields, in cycle order
+export const WIZARD_CHOICES = {
+	scope: ["userAgent", "systemAgent", "systemDaemon"],
+	schedule: ["none", "interval", "calendar"],
+} as const satisfies Partial<Record<keyof ServiceWizardValues, readonly string[]>>;
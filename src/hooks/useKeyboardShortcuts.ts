@@ -4,8 +4,10 @@
  */
 
 import { useKeyboard, useRenderer } from "@opentui/react";
+import { WIZARD_CHOICES, WIZARD_STEPS } from "../constants";
+import { filterAuditRecords, isLookupQuery, requiresConfirmation } from "../services";
 import { useAppStore } from "../store/useAppStore";
-import { useFilteredServices, useSelectedService } from "../store/useDerivedState";
+import { useFilteredServices, useMarkedServices, useSelectedService } from "../store/useDerivedState";
 import type { Service, ServiceAction } from "../types";
 import { openInEditor, plistExists, requiresRootToEdit } from "../utils/editor";
 
@@ -14,6 +16,7 @@ interface KeyEvent {
 	shift?: boolean;
 	ctrl?: boolean;
 	meta?: boolean;
+	sequence?: string;
 }
 
 type StoreState = ReturnType<typeof useAppStore.getState>;
@@ -39,7 +42,12 @@ function handlePasswordMode(key: KeyEvent, store: StoreState): boolean {
 }
 
 /** Handle input while confirm dialog is open */
-function handleConfirmMode(key: KeyEvent, store: StoreState, selectedService: Service | null): boolean {
+function handleConfirmMode(
+	key: KeyEvent,
+	store: StoreState,
+	selectedService: Service | null,
+	markedServices: Service[],
+): boolean {
 	if (!store.showConfirm) return false;
 
 	if (key.name === "escape") {
@@ -47,13 +55,25 @@ function handleConfirmMode(key: KeyEvent, store: StoreState, selectedService: Se
 	} else if (key.name === "return" || key.name === "enter") {
 		const { pendingAction, dryRun } = store;
 		store.confirmAction();
-		if (pendingAction && selectedService) {
+		if (pendingAction && markedServices.length > 0) {
+			store.executeBatchAction(pendingAction, markedServices, { dryRun });
+		} else if (pendingAction && selectedService) {
 			store.executeAction(pendingAction, selectedService, { dryRun });
 		}
 	}
 	return true; // Always consume input in confirm mode
 }
 
+/** Handle input while batch results are shown */
+function handleBatchResultsMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.batch) return false;
+
+	if (!store.batch.running && (key.name === "escape" || key.name === "return" || key.name === "enter")) {
+		store.dismissBatchResults();
+	}
+	return true; // Always consume input while batch results are shown
+}
+
 /** Handle input while help panel is open */
 function handleHelpMode(key: KeyEvent, store: StoreState): boolean {
 	if (!store.showHelp) return false;
@@ -75,12 +95,536 @@ function handleSearchMode(key: KeyEvent, store: StoreState): boolean {
 			store.setFocus("list");
 		}
 	} else if (key.name === "return" || key.name === "enter") {
+		// `:port 5432` and friends jump to the owning service instead of filtering
+		if (isLookupQuery(store.searchQuery)) store.runLookup(store.searchQuery);
 		store.setFocus("list");
 	}
 	// Let input component handle other keys
 	return true;
 }
 
+/** Handle input while the log panel is focused */
+function handleLogsMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showLogs || store.focusedPanel !== "logs") return false;
+
+	if (key.name === "escape") {
+		store.setFocus("list");
+		return true;
+	}
+	// Scrolling is measured from the newest entry, so "up" moves back in time
+	if (key.name === "up" || key.name === "k") {
+		store.scrollLogs(1);
+		return true;
+	}
+	if (key.name === "down" || key.name === "j") {
+		store.scrollLogs(-1);
+		return true;
+	}
+	if (key.name === "pageup") {
+		store.scrollLogs(10);
+		return true;
+	}
+	if (key.name === "pagedown") {
+		store.scrollLogs(-10);
+		return true;
+	}
+	if (key.name === "g" && !key.shift) {
+		store.scrollLogsTo(store.logs.entries.length);
+		return true;
+	}
+	if (key.shift && key.name === "g") {
+		store.scrollLogsTo(0);
+		return true;
+	}
+	if (key.shift && key.name === "f") {
+		store.toggleLogFollow();
+		return true;
+	}
+	if (key.name === "v") {
+		store.cycleLogLevel();
+		return true;
+	}
+	return false;
+}
+
+/** Handle the process tree while the details panel is focused */
+function handleProcessTreeMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showProcessTree || store.focusedPanel !== "details") return false;
+
+	if (store.processTree.pendingSignal) {
+		if (key.name === "return" || key.name === "enter") {
+			store.sendProcessSignal();
+		} else if (key.name === "escape") {
+			store.cancelProcessSignal();
+		}
+		return true; // Always consume input while a signal awaits confirmation
+	}
+
+	if (key.name === "escape") {
+		store.setFocus("list");
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveProcessTreeCursor(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveProcessTreeCursor(1);
+	} else if (key.name === "right" || key.name === "l") {
+		store.expandProcessTreeRow();
+	} else if (key.name === "left" || key.name === "h") {
+		store.collapseProcessTreeRow();
+	} else if (key.name === "x") {
+		store.requestProcessSignal(key.shift ? "KILL" : "TERM");
+	} else {
+		return false;
+	}
+	return true;
+}
+
+/** Handle scrolling the service history while the details panel is focused */
+function handleServiceHistoryMode(
+	key: KeyEvent,
+	store: StoreState,
+	selectedService: Service | null,
+): boolean {
+	if (!store.showServiceHistory || store.focusedPanel !== "details" || !selectedService) return false;
+
+	if (key.name === "up" || key.name === "k") {
+		store.scrollServiceHistory(selectedService.id, -1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.scrollServiceHistory(selectedService.id, 1);
+	} else if (key.name === "pageup") {
+		store.scrollServiceHistory(selectedService.id, -10);
+	} else if (key.name === "pagedown") {
+		store.scrollServiceHistory(selectedService.id, 10);
+	} else {
+		return false;
+	}
+	return true;
+}
+
+/** Handle scrolling the raw inspection output while the details panel is focused */
+function handleDetailsMode(key: KeyEvent, store: StoreState): boolean {
+	if (store.focusedPanel !== "details" || !store.inspection.showRaw) return false;
+
+	if (key.name === "escape") {
+		store.setFocus("list");
+		return true;
+	}
+	if (key.name === "up" || key.name === "k") {
+		store.scrollInspectionRaw(-1);
+		return true;
+	}
+	if (key.name === "down" || key.name === "j") {
+		store.scrollInspectionRaw(1);
+		return true;
+	}
+	if (key.name === "pageup") {
+		store.scrollInspectionRaw(-10);
+		return true;
+	}
+	if (key.name === "pagedown") {
+		store.scrollInspectionRaw(10);
+		return true;
+	}
+	return false;
+}
+
+/** Handle typing into the output panel's search line */
+function handleOutputSearchInput(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showOutput || !store.output.searchEditing) return false;
+
+	if (key.name === "escape") {
+		store.cancelOutputSearch();
+	} else if (key.name === "return" || key.name === "enter") {
+		store.commitOutputSearch();
+	} else if (key.name === "backspace") {
+		store.setOutputSearchQuery(store.output.searchQuery.slice(0, -1));
+	} else if (key.name === "space") {
+		store.setOutputSearchQuery(`${store.output.searchQuery} `);
+	} else if (key.name && key.name.length === 1 && !key.ctrl && !key.meta) {
+		const char = key.shift ? key.name.toUpperCase() : key.name;
+		store.setOutputSearchQuery(store.output.searchQuery + char);
+	}
+	return true; // Always consume input while editing the search
+}
+
+/** Handle input while the output panel is focused */
+function handleOutputMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showOutput || store.focusedPanel !== "output") return false;
+
+	const { output } = store;
+	if (key.name === "escape") {
+		if (output.searchQuery) {
+			store.cancelOutputSearch();
+		} else {
+			store.setFocus("list");
+		}
+		return true;
+	}
+	if (key.name === "left" || key.name === "right") {
+		store.switchOutputTab();
+		return true;
+	}
+	if (key.name === "/") {
+		store.startOutputSearch();
+		return true;
+	}
+	if (key.name === "n") {
+		store.jumpToOutputMatch(key.shift ? 1 : -1);
+		return true;
+	}
+	// Scrolling is measured from the newest line, so "up" moves back in the file
+	if (key.name === "up" || key.name === "k") {
+		store.scrollOutput(1);
+		return true;
+	}
+	if (key.name === "down" || key.name === "j") {
+		store.scrollOutput(-1);
+		return true;
+	}
+	if (key.name === "pageup") {
+		store.scrollOutput(10);
+		return true;
+	}
+	if (key.name === "pagedown") {
+		store.scrollOutput(-10);
+		return true;
+	}
+	if (key.name === "g" && !key.shift) {
+		store.scrollOutputTo(output.buffers[output.tab].lines.length);
+		return true;
+	}
+	if (key.shift && key.name === "g") {
+		store.scrollOutputTo(0);
+		return true;
+	}
+	return false;
+}
+
+/** Re-run the selected history entry on the same service (through the usual confirmation) */
+function rerunHistoryEntry(store: StoreState, filteredServices: Service[]) {
+	const { history } = store;
+	const record = filterAuditRecords(history.records, history.filterQuery)[history.selectedIndex];
+	if (!record) return;
+
+	store.toggleHistory();
+
+	if (record.action === "create" || record.action === "edit" || record.action === "signal") {
+		const what = { create: "Service creation", edit: "Plist edits", signal: "Process signals" }[
+			record.action
+		];
+		store.setActionResult({ success: false, message: `${what} cannot be re-run from history` });
+		return;
+	}
+
+	if (Object.keys(store.markedServiceIds).length > 0) {
+		store.setActionResult({
+			success: false,
+			message: "Clear marked services before re-running a history entry",
+		});
+		return;
+	}
+
+	const index = filteredServices.findIndex((s) => s.id === record.serviceId);
+	const service = filteredServices[index];
+	if (!service) {
+		store.setActionResult({
+			success: false,
+			message: `${record.label} is not in the current list`,
+			error: "Clear the search or filters and try again",
+		});
+		return;
+	}
+
+	store.selectIndex(index);
+	requestServiceAction(store, record.action, service);
+}
+
+/** Handle input while the history panel is open */
+function handleHistoryMode(key: KeyEvent, store: StoreState, filteredServices: Service[]): boolean {
+	if (!store.showHistory) return false;
+
+	const { history } = store;
+	if (history.filterEditing) {
+		if (key.name === "escape") {
+			store.cancelHistoryFilter();
+		} else if (key.name === "return" || key.name === "enter") {
+			store.commitHistoryFilter();
+		} else if (key.name === "backspace") {
+			store.setHistoryFilter(history.filterQuery.slice(0, -1));
+		} else if (key.name === "space") {
+			store.setHistoryFilter(`${history.filterQuery} `);
+		} else if (key.name && key.name.length === 1 && !key.ctrl && !key.meta) {
+			store.setHistoryFilter(history.filterQuery + (key.shift ? key.name.toUpperCase() : key.name));
+		}
+		return true;
+	}
+
+	if (key.name === "escape") {
+		if (history.filterQuery) {
+			store.cancelHistoryFilter();
+		} else {
+			store.toggleHistory();
+		}
+	} else if (key.name === "h" && !key.shift) {
+		store.toggleHistory();
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveHistorySelection(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveHistorySelection(1);
+	} else if (key.name === "pageup") {
+		store.moveHistorySelection(-10);
+	} else if (key.name === "pagedown") {
+		store.moveHistorySelection(10);
+	} else if (key.name === "/") {
+		store.startHistoryFilter();
+	} else if (key.name === "return" || key.name === "enter") {
+		rerunHistoryEntry(store, filteredServices);
+	}
+	return true; // Always consume input while the history panel is open
+}
+
+/** Handle input while the scheduled-jobs timeline is open */
+function handleTimelineMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showTimeline) return false;
+
+	if (key.name === "escape" || (key.name === "c" && !key.shift)) {
+		store.toggleTimeline();
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveTimelineSelection(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveTimelineSelection(1);
+	} else if (key.name === "pageup") {
+		store.moveTimelineSelection(-10);
+	} else if (key.name === "pagedown") {
+		store.moveTimelineSelection(10);
+	} else if (key.name === "w") {
+		store.toggleTimelineRange();
+	} else if (key.name === "return" || key.name === "enter") {
+		store.openTimelineService();
+	}
+	return true; // Always consume input while the timeline is open
+}
+
+/** Handle input while the snapshot diff is open */
+function handleSnapshotMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showSnapshots) return false;
+
+	if (key.name === "escape" || (key.name === "z" && !key.shift)) {
+		store.toggleSnapshots();
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveSnapshotSelection(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveSnapshotSelection(1);
+	} else if (key.name === "pageup") {
+		store.moveSnapshotSelection(-10);
+	} else if (key.name === "pagedown") {
+		store.moveSnapshotSelection(10);
+	} else if (key.name === "left" || key.name === "h") {
+		store.selectSnapshot(1);
+	} else if (key.name === "right" || key.name === "l") {
+		store.selectSnapshot(-1);
+	} else if (key.name === "[") {
+		store.selectSnapshotTarget(1);
+	} else if (key.name === "]") {
+		store.selectSnapshotTarget(-1);
+	} else if (key.name === "s" && !key.shift) {
+		store.saveSnapshot();
+	} else if (key.name === "return" || key.name === "enter") {
+		store.openSnapshotService();
+	}
+	return true; // Always consume input while the snapshot diff is open
+}
+
+/** Handle input while the persistence audit is open */
+function handleAuditMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showAudit) return false;
+
+	if (key.name === "escape" || (key.name === "w" && !key.shift)) {
+		store.toggleAudit();
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveAuditSelection(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveAuditSelection(1);
+	} else if (key.name === "pageup") {
+		store.moveAuditSelection(-10);
+	} else if (key.name === "pagedown") {
+		store.moveAuditSelection(10);
+	} else if (key.name === "e" && !key.shift) {
+		store.exportAudit("json");
+	} else if (key.name === "m" && !key.shift) {
+		store.exportAudit("markdown");
+	} else if (key.name === "return" || key.name === "enter") {
+		store.openAuditService();
+	}
+	return true; // Always consume input while the audit is open
+}
+
+/** Handle input while the service list export dialog is open */
+function handleExportMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showExport) return false;
+	if (store.exportingServices) return true;
+
+	if (key.name === "escape" || (key.shift && key.name === "x")) {
+		store.toggleExport();
+	} else if (key.name === "c") {
+		store.exportServices("csv");
+	} else if (key.name === "j") {
+		store.exportServices("json");
+	} else if (key.name === "m") {
+		store.exportServices("markdown");
+	}
+	return true; // Always consume input while the dialog is open
+}
+
+/** Handle input while the service events panel is open */
+function handleEventsMode(key: KeyEvent, store: StoreState): boolean {
+	if (!store.showEvents) return false;
+
+	if (key.name === "escape" || (key.name === "b" && !key.shift)) {
+		store.toggleEvents();
+	} else if (key.name === "up" || key.name === "k") {
+		store.moveEventSelection(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.moveEventSelection(1);
+	} else if (key.name === "pageup") {
+		store.moveEventSelection(-10);
+	} else if (key.name === "pagedown") {
+		store.moveEventSelection(10);
+	} else if (key.name === "n" && !key.shift) {
+		store.toggleEventNotifications();
+	} else if (key.name === "c" && key.shift) {
+		store.clearServiceEvents();
+	} else if (key.name === "return" || key.name === "enter") {
+		store.openEventService();
+	}
+	return true; // Always consume input while the events panel is open
+}
+
+/** Get the character typed by a key press, or null for non-printable keys */
+function printableChar(key: KeyEvent): string | null {
+	if (key.ctrl || key.meta || !key.sequence || key.sequence.length !== 1) return null;
+	return key.sequence >= " " && key.sequence !== "\x7f" ? key.sequence : null;
+}
+
+/** Step through a list of choices, wrapping around */
+function cycleChoice<T extends string>(choices: readonly T[], current: T, delta: number): T {
+	const index = choices.indexOf(current);
+	return choices[(index + delta + choices.length) % choices.length] ?? current;
+}
+
+/** Handle input while the create-service wizard is open */
+function handleWizardMode(key: KeyEvent, store: StoreState): boolean {
+	const { wizard } = store;
+	if (!wizard) return false;
+	if (wizard.submitting) return true;
+
+	if (key.name === "escape") {
+		store.prevWizardStep();
+		return true;
+	}
+	if (key.name === "return" || key.name === "enter") {
+		if (wizard.step === WIZARD_STEPS.length - 1) {
+			store.submitWizard();
+		} else {
+			store.nextWizardStep();
+		}
+		return true;
+	}
+	if (key.name === "tab" || key.name === "down" || key.name === "up") {
+		store.moveWizardField(key.name === "up" || (key.name === "tab" && key.shift) ? -1 : 1);
+		return true;
+	}
+
+	const field = WIZARD_STEPS[wizard.step]?.fields[wizard.field];
+	if (!field) return true;
+	const delta = key.name === "left" ? -1 : key.name === "right" || key.name === "space" ? 1 : 0;
+
+	if (field === "scope" || field === "schedule") {
+		if (delta !== 0) {
+			store.setWizardValue(field, cycleChoice(WIZARD_CHOICES[field], wizard.values[field], delta));
+		}
+	} else if (typeof wizard.values[field] === "boolean") {
+		if (delta !== 0) store.setWizardValue(field, !wizard.values[field]);
+	} else {
+		const value = String(wizard.values[field]);
+		const char = printableChar(key);
+		if (key.name === "backspace") {
+			store.setWizardValue(field, value.slice(0, -1));
+		} else if (char) {
+			store.setWizardValue(field, value + char);
+		}
+	}
+	return true; // Always consume input while the wizard is open
+}
+
+/** Handle the structured plist editor (tree, inline input and diff review) */
+function handlePlistEditorMode(key: KeyEvent, store: StoreState): boolean {
+	const editor = store.plistEditor;
+	if (!editor) return false;
+	if (editor.saving) return true;
+
+	const isEnter = key.name === "return" || key.name === "enter";
+
+	if (editor.input) {
+		const char = printableChar(key);
+		if (key.name === "escape") {
+			store.cancelPlistEditorInput();
+		} else if (isEnter) {
+			store.commitPlistEditorInput();
+		} else if (key.name === "tab") {
+			store.completePlistEditorKey();
+		} else if (key.name === "backspace") {
+			store.setPlistEditorInput(editor.input.buffer.slice(0, -1));
+		} else if (char) {
+			store.setPlistEditorInput(editor.input.buffer + char);
+		}
+		return true;
+	}
+
+	if (editor.view === "diff") {
+		if (key.name === "escape") {
+			store.hidePlistEditorDiff();
+		} else if (isEnter) {
+			store.savePlistEditor();
+		} else if (key.name === "r") {
+			store.togglePlistEditorReload();
+		} else if (key.name === "up" || key.name === "k") {
+			store.scrollPlistEditorDiff(-1);
+		} else if (key.name === "down" || key.name === "j") {
+			store.scrollPlistEditorDiff(1);
+		} else if (key.name === "pageup") {
+			store.scrollPlistEditorDiff(-10);
+		} else if (key.name === "pagedown") {
+			store.scrollPlistEditorDiff(10);
+		}
+		return true;
+	}
+
+	if (key.name === "escape") {
+		store.closePlistEditor();
+	} else if (isEnter || key.name === "space") {
+		store.activatePlistEditorRow();
+	} else if (key.name === "up" || key.name === "k") {
+		store.movePlistEditorCursor(-1);
+	} else if (key.name === "down" || key.name === "j") {
+		store.movePlistEditorCursor(1);
+	} else if (key.name === "pageup") {
+		store.movePlistEditorCursor(-10);
+	} else if (key.name === "pagedown") {
+		store.movePlistEditorCursor(10);
+	} else if (key.name === "right" || key.name === "l") {
+		store.expandPlistEditorRow();
+	} else if (key.name === "left" || key.name === "h") {
+		store.collapsePlistEditorRow();
+	} else if (key.name === "a") {
+		store.startPlistEditorAdd();
+	} else if (key.name === "d" || key.name === "delete") {
+		store.deletePlistEditorRow();
+	} else if (key.name === "s") {
+		store.showPlistEditorDiff();
+	}
+	return true; // Always consume input while the editor is open
+}
+
 /** Handle navigation keys (arrows, vim, page up/down) */
 function handleNavigation(key: KeyEvent, store: StoreState, filteredCount: number): boolean {
 	if (key.name === "up" || key.name === "k") {
@@ -124,7 +668,7 @@ function handleSorting(key: KeyEvent, store: StoreState): boolean {
 }
 
 /** Handle filter shortcut keys */
-function handleFilters(key: KeyEvent, store: StoreState): boolean {
+function handleFilters(key: KeyEvent, store: StoreState, selectedService: Service | null): boolean {
 	if (key.name === "1") {
 		store.setFilter({ type: "all" });
 		return true;
@@ -165,10 +709,28 @@ function handleFilters(key: KeyEvent, store: StoreState): boolean {
 		if (next) store.setFilter({ status: next });
 		return true;
 	}
+	if (key.name === "\\") {
+		const states = ["all", "loaded", "unloaded"] as const;
+		const next = states[(states.indexOf(store.filter.loaded) + 1) % states.length];
+		if (next) store.setFilter({ loaded: next });
+		return true;
+	}
+	if (key.name === "v" && !key.shift) {
+		const signings = ["all", "apple", "notarized", "not-notarized", "adhoc", "unsigned"] as const;
+		const next = signings[(signings.indexOf(store.filter.signing) + 1) % signings.length];
+		if (next) store.setFilter({ signing: next });
+		return true;
+	}
+	if (key.shift && key.name === "v") {
+		// Clearing the team filter needs no selection (the filter may hide every service)
+		if (store.filter.teamId !== null) store.setFilter({ teamId: null });
+		else if (selectedService) store.toggleTeamFilter(selectedService);
+		return true;
+	}
 	return false;
 }
 
-/** Handle plist editor launch */
+/** Handle plist editor launch (`e` structured editor, `E` $EDITOR) */
 function handleEditor(
 	key: KeyEvent,
 	store: StoreState,
@@ -184,6 +746,10 @@ function handleEditor(
 		store.setActionResult({ success: false, message: "No plist file for this service" });
 		return true;
 	}
+	if (!key.shift) {
+		store.openPlistEditor(selectedService);
+		return true;
+	}
 	if (!plistExists(plistPath)) {
 		store.setActionResult({ success: false, message: `Plist file not found: ${plistPath}` });
 		return true;
@@ -192,7 +758,7 @@ function handleEditor(
 	const useRoot = requiresRootToEdit(plistPath);
 	renderer.suspend();
 
-	openInEditor(plistPath, { useRoot })
+	openInEditor(plistPath, { useRoot, editor: store.config.editor })
 		.then((result) => {
 			renderer.resume();
 			if (result.success) {
@@ -213,32 +779,102 @@ function handleEditor(
 	return true;
 }
 
+/** Handle multi-select keys (mark, mark all, invert) */
+function handleMarks(
+	key: KeyEvent,
+	store: StoreState,
+	filteredServices: Service[],
+	selectedService: Service | null,
+): boolean {
+	if (key.name === "space" && selectedService) {
+		store.toggleMark(selectedService.id);
+		if (store.selectedIndex < filteredServices.length - 1) store.selectNext();
+		return true;
+	}
+	if (key.name === "m" && !key.shift) {
+		store.markAll(filteredServices.map((s) => s.id));
+		return true;
+	}
+	if (key.shift && key.name === "m") {
+		store.invertMarks(filteredServices.map((s) => s.id));
+		return true;
+	}
+	return false;
+}
+
+/** Handle service action keys while services are marked (applies to all marked) */
+function handleBatchActions(key: KeyEvent, store: StoreState, markedServices: Service[]): boolean {
+	if (markedServices.length === 0) return false;
+
+	let action: ServiceAction | null = null;
+	if (key.name === "return" || key.name === "enter") {
+		action = "start";
+	} else if (key.name === "x") {
+		action = "stop";
+	} else if (key.name === "r" && !key.shift) {
+		action = "reload";
+	} else if (key.name === "d") {
+		// Enable only when every marked service is disabled
+		action = markedServices.every((s) => !s.enabled) ? "enable" : "disable";
+	} else if (key.name === "u") {
+		// Load only when every marked service is installed but not loaded
+		action = markedServices.every((s) => s.status === "not-loaded") ? "load" : "unload";
+	}
+	if (!action) return false;
+
+	if (store.offline.isOffline) {
+		store.setActionResult({
+			success: false,
+			message: "Cannot perform action - offline mode",
+			error: "Connection to launchd unavailable. Waiting for reconnection...",
+		});
+		return true;
+	}
+	const running = markedServices.some((s) => s.status === "running");
+	if (!requiresConfirmation(action, store.config.confirm, running)) {
+		store.executeBatchAction(action, markedServices, { dryRun: store.dryRun });
+		return true;
+	}
+	store.requestAction(action);
+	return true;
+}
+
+/** Ask for confirmation of an action on one service, unless offline, protected or the confirm policy skips it */
+function requestServiceAction(store: StoreState, action: ServiceAction, service: Service) {
+	if (store.offline.isOffline) {
+		store.setActionResult({
+			success: false,
+			message: "Cannot perform action - offline mode",
+			error: "Connection to launchd unavailable. Waiting for reconnection...",
+		});
+		return;
+	}
+	if (service.protection !== "normal") {
+		store.setActionResult({
+			success: false,
+			message: "Cannot perform action on protected service",
+			sipProtected: true,
+		});
+		return;
+	}
+	if (!requiresConfirmation(action, store.config.confirm, service.status === "running")) {
+		store.executeAction(action, service, { dryRun: store.dryRun });
+		return;
+	}
+	store.requestAction(action);
+}
+
 /** Handle service action keys (start, stop, reload, etc.) */
 function handleServiceActions(key: KeyEvent, store: StoreState, selectedService: Service | null): boolean {
 	if (!selectedService || selectedService.type === "SystemExtension") return false;
 
-	const requestAction = (action: ServiceAction) => {
-		if (store.offline.isOffline) {
-			store.setActionResult({
-				success: false,
-				message: "Cannot perform action - offline mode",
-				error: "Connection to launchd unavailable. Waiting for reconnection...",
-			});
-			return;
-		}
-		if (selectedService.protection !== "normal") {
-			store.setActionResult({
-				success: false,
-				message: "Cannot perform action on protected service",
-				sipProtected: true,
-			});
-			return;
-		}
-		store.requestAction(action);
-	};
+	const requestAction = (action: ServiceAction) => requestServiceAction(store, action, selectedService);
+
+	const notLoaded = selectedService.status === "not-loaded";
 
 	if ((key.name === "return" || key.name === "enter") && selectedService.status !== "running") {
-		requestAction("start");
+		// A job has to be bootstrapped before it can be kickstarted
+		requestAction(notLoaded ? "load" : "start");
 		return true;
 	}
 	if (key.name === "x" && selectedService.status === "running") {
@@ -254,7 +890,7 @@ function handleServiceActions(key: KeyEvent, store: StoreState, selectedService:
 		return true;
 	}
 	if (key.name === "u") {
-		requestAction("unload");
+		requestAction(notLoaded ? "load" : "unload");
 		return true;
 	}
 	return false;
@@ -268,6 +904,7 @@ export function useKeyboardShortcuts() {
 	const renderer = useRenderer();
 	const { filteredServices } = useFilteredServices();
 	const selectedService = useSelectedService(filteredServices);
+	const markedServices = useMarkedServices();
 
 	useKeyboard((key) => {
 		const store = useAppStore.getState();
@@ -276,7 +913,17 @@ export function useKeyboardShortcuts() {
 
 		// Modal modes (consume all input)
 		if (handlePasswordMode(key, store)) return;
-		if (handleConfirmMode(key, store, selectedService)) return;
+		if (handleConfirmMode(key, store, selectedService, markedServices)) return;
+		if (handleBatchResultsMode(key, store)) return;
+		if (handleHistoryMode(key, store, filteredServices)) return;
+		if (handleTimelineMode(key, store)) return;
+		if (handleEventsMode(key, store)) return;
+		if (handleSnapshotMode(key, store)) return;
+		if (handleAuditMode(key, store)) return;
+		if (handleExportMode(key, store)) return;
+		if (handleWizardMode(key, store)) return;
+		if (handlePlistEditorMode(key, store)) return;
+		if (handleOutputSearchInput(key, store)) return;
 
 		// Help toggle (works everywhere)
 		if (key.name === "?" || (key.shift && key.name === "/")) {
@@ -288,6 +935,17 @@ export function useKeyboardShortcuts() {
 		// Search mode
 		if (handleSearchMode(key, store)) return;
 
+		// Log panel (scrolling, follow, level)
+		if (handleLogsMode(key, store)) return;
+
+		// Output panel (tabs, scrolling, search)
+		if (handleOutputMode(key, store)) return;
+
+		// Details panel (process tree, service history and raw inspection scrolling)
+		if (handleProcessTreeMode(key, store)) return;
+		if (handleServiceHistoryMode(key, store, selectedService)) return;
+		if (handleDetailsMode(key, store)) return;
+
 		// Global shortcuts
 		if (key.name === "q" || (key.ctrl && key.name === "c")) {
 			renderer.destroy();
@@ -302,10 +960,58 @@ export function useKeyboardShortcuts() {
 			store.setActionResult(null);
 			return;
 		}
-		if (key.name === "f") {
+		if (key.name === "f" && !key.shift) {
 			store.toggleFilters();
 			return;
 		}
+		if (key.name === "l" && !key.shift) {
+			store.toggleLogs();
+			return;
+		}
+		if (key.name === "o" && !key.shift) {
+			store.toggleOutput();
+			return;
+		}
+		if (key.name === "i" && !key.shift) {
+			store.toggleInspectionRaw();
+			return;
+		}
+		if (key.name === "t" && !key.shift) {
+			store.toggleProcessTree();
+			return;
+		}
+		if (key.name === "h" && !key.shift) {
+			store.toggleHistory();
+			return;
+		}
+		if (key.name === "y" && !key.shift) {
+			store.toggleServiceHistory();
+			return;
+		}
+		if (key.name === "c" && !key.shift) {
+			store.toggleTimeline();
+			return;
+		}
+		if (key.name === "b" && !key.shift) {
+			store.toggleEvents();
+			return;
+		}
+		if (key.name === "z" && !key.shift) {
+			store.toggleSnapshots();
+			return;
+		}
+		if (key.name === "w" && !key.shift) {
+			store.toggleAudit();
+			return;
+		}
+		if (key.shift && key.name === "x") {
+			store.toggleExport();
+			return;
+		}
+		if (key.name === "n" && !key.shift) {
+			store.openWizard();
+			return;
+		}
 		if (key.shift && key.name === "r") {
 			store.refresh();
 			return;
@@ -319,15 +1025,21 @@ export function useKeyboardShortcuts() {
 			return;
 		}
 		if (key.name === "tab") {
-			store.setFocus(store.focusedPanel === "list" ? "details" : "list");
+			const panels: StoreState["focusedPanel"][] = ["list", "details"];
+			if (store.showLogs) panels.push("logs");
+			if (store.showOutput) panels.push("output");
+			const idx = panels.indexOf(store.focusedPanel);
+			store.setFocus(panels[(idx + 1) % panels.length] ?? "list");
 			return;
 		}
 
 		// Delegated handlers
 		if (handleNavigation(key, store, filteredServices.length)) return;
 		if (handleSorting(key, store)) return;
-		if (handleFilters(key, store)) return;
+		if (handleFilters(key, store, selectedService)) return;
 		if (handleEditor(key, store, selectedService, renderer)) return;
+		if (handleMarks(key, store, filteredServices, selectedService)) return;
+		if (handleBatchActions(key, store, markedServices)) return;
 		handleServiceActions(key, store, selectedService);
 	});
 }
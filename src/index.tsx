@@ -1,3 +1,4 @@
+#!/usr/bin/env bun
 /**
  * macOS Service Manager TUI
  * A terminal interface for managing launchd services and system extensions
@@ -7,18 +8,32 @@ import { createCliRenderer } from "@opentui/core";
 import { createRoot } from "@opentui/react";
 import { useEffect } from "react";
 
+import { parseTuiArgs, runCli } from "./cli";
 import {
+	BatchResultsPanel,
 	ConfirmDialog,
+	EventsPanel,
+	ExportDialog,
 	FilterBar,
 	Footer,
 	Header,
 	HelpPanel,
+	HistoryPanel,
+	LogPanel,
+	OutputPanel,
 	PasswordDialog,
+	PersistenceAuditPanel,
+	PlistEditor,
+	ScheduleTimeline,
 	SearchBar,
 	ServiceDetails,
 	ServiceList,
+	ServiceWizard,
+	SnapshotPanel,
 } from "./components";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
+import { loadConfig } from "./services";
+import { defaultConfig } from "./store/initialState";
 import { useAppEffects } from "./store/useAppEffects";
 import { useAppStore } from "./store/useAppStore";
 
@@ -56,6 +71,10 @@ function App() {
 
 				{/* Service Details */}
 				<ServiceDetails />
+
+				{/* Log viewer ('l') and output viewer ('o') share this slot */}
+				<LogPanel />
+				<OutputPanel />
 			</box>
 
 			{/* Footer */}
@@ -64,11 +83,40 @@ function App() {
 			{/* Overlays */}
 			<HelpPanel />
 			<ConfirmDialog />
+			<BatchResultsPanel />
+			<HistoryPanel />
+			<ScheduleTimeline />
+			<EventsPanel />
+			<SnapshotPanel />
+			<PersistenceAuditPanel />
+			<ExportDialog />
+			<ServiceWizard />
+			<PlistEditor />
 			<PasswordDialog />
 		</box>
 	);
 }
 
+// Subcommands run headless; no command starts the TUI
+const cliArgs = process.argv.slice(2);
+const tuiOptions = parseTuiArgs(cliArgs);
+if (!tuiOptions) {
+	process.exit(await runCli(cliArgs));
+}
+
+// Settings from config.json; an invalid file stops startup instead of being half applied
+try {
+	useAppStore.getState().applyConfig(await loadConfig(defaultConfig));
+} catch (error) {
+	console.error(error instanceof Error ? error.message : String(error));
+	process.exit(1);
+}
+
+// Dry-run mode is off in the initial state
+if (tuiOptions.dryRun) {
+	useAppStore.getState().toggleDryRun();
+}
+
 // Initialize and render
 const renderer = await createCliRenderer({
 	exitOnCtrlC: false, // We handle Ctrl+C ourselves
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the action audit log
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	appendAuditRecord,
+	buildAuditRecord,
+	filterAuditRecords,
+	getAuditLogPath,
+	getAuditUser,
+	parseAuditLog,
+	readAuditRecords,
+} from "../audit";
+
+const service = { id: "gui-com.example.agent", label: "com.example.agent", domain: "gui" as const };
+
+function record(overrides: Partial<Parameters<typeof buildAuditRecord>[0]> = {}) {
+	return buildAuditRecord({
+		action: "reload",
+		service,
+		command: "launchctl kickstart -k gui/501/com.example.agent",
+		sudo: false,
+		dryRun: false,
+		result: { success: true, message: "Service reloaded" },
+		source: "tui",
+		user: "alice",
+		timestamp: new Date("2026-01-02T03:04:05.000Z"),
+		...overrides,
+	});
+}
+
+describe("buildAuditRecord", () => {
+	it("captures the action, service and result", () => {
+		expect(record({ action: "stop" })).toEqual({
+			timestamp: "2026-01-02T03:04:05.000Z",
+			user: "alice",
+			source: "tui",
+			action: "stop",
+			serviceId: "gui-com.example.agent",
+			label: "com.example.agent",
+			domain: "gui",
+			command: "launchctl kickstart -k gui/501/com.example.agent",
+			sudo: false,
+			dryRun: false,
+			success: true,
+			message: "Service reloaded",
+			attempts: 1,
+		});
+	});
+
+	it("records errors and retry attempts", () => {
+		const failed = record({
+			result: {
+				success: false,
+				message: "Failed",
+				error: "Operation not permitted",
+				retryInfo: { attempts: 3, retried: true },
+			},
+		});
+		expect(failed.success).toBe(false);
+		expect(failed.error).toBe("Operation not permitted");
+		expect(failed.attempts).toBe(3);
+	});
+});
+
+describe("getAuditUser", () => {
+	it("prefers the invoking user under sudo", () => {
+		expect(getAuditUser({ SUDO_USER: "alice", USER: "root" })).toBe("alice");
+	});
+});
+
+describe("getAuditLogPath", () => {
+	it("lives in the config directory", () => {
+		expect(getAuditLogPath({ XDG_CONFIG_HOME: "/tmp/cfg" })).toBe(
+			"/tmp/cfg/macos-service-manager/audit.jsonl",
+		);
+	});
+});
+
+describe("parseAuditLog", () => {
+	it("returns records newest first", () => {
+		const first = record({ action: "stop" });
+		const second = record({ action: "start" });
+		const text = `${JSON.stringify(first)}\n${JSON.stringify(second)}\n`;
+		expect(parseAuditLog(text).map((r) => r.action)).toEqual(["start", "stop"]);
+	});
+
+	it("skips malformed and incomplete lines", () => {
+		const good = record({ action: "stop" });
+		const text = `not json\n${JSON.stringify(good)}\n{"foo":1}\n{"timestamp":"2026`;
+		expect(parseAuditLog(text)).toEqual([good]);
+	});
+
+	it("handles empty input", () => {
+		expect(parseAuditLog("")).toEqual([]);
+	});
+});
+
+describe("filterAuditRecords", () => {
+	const records = [
+		record({ action: "stop" }),
+		record({ action: "start", dryRun: true, user: "bob" }),
+		record({ action: "unload", result: { success: false, message: "Failed" } }),
+	];
+
+	it("returns everything for an empty query", () => {
+		expect(filterAuditRecords(records, "  ")).toHaveLength(3);
+	});
+
+	it("matches action and user case-insensitively", () => {
+		expect(filterAuditRecords(records, "UNLOAD").map((r) => r.action)).toEqual(["unload"]);
+		expect(filterAuditRecords(records, "bob").map((r) => r.action)).toEqual(["start"]);
+	});
+
+	it("matches result and dry-run keywords", () => {
+		expect(filterAuditRecords(records, "failed").map((r) => r.action)).toEqual(["unload"]);
+		expect(filterAuditRecords(records, "dry-run").map((r) => r.action)).toEqual(["start"]);
+	});
+});
+
+describe("appendAuditRecord / readAuditRecords", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-audit-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("creates the directory and round-trips records", async () => {
+		const path = join(dir, "nested", "audit.jsonl");
+		await appendAuditRecord(record({ action: "stop" }), path);
+		await appendAuditRecord(record({ action: "start" }), path);
+		expect((await readAuditRecords(path)).map((r) => r.action)).toEqual(["start", "stop"]);
+	});
+
+	it("treats a missing log as empty history", async () => {
+		expect(await readAuditRecords(join(dir, "missing.jsonl"))).toEqual([]);
+	});
+});
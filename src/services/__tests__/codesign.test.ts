@@ -0,0 +1,165 @@
+/**
+ * Unit tests for `codesign -dvvv` and `spctl --assess` parsing
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { CodeSignature, Service, SystemExtension } from "../../types";
+import { matchesSignatureFilter, parseCodesignOutput, parseSpctlOutput } from "../codesign";
+
+describe("parseCodesignOutput", () => {
+	it("reads the identifier and team ID of a Developer ID signature", () => {
+		const output = [
+			"Executable=/Library/PrivilegedHelperTools/com.docker.vmnetd",
+			"Identifier=com.docker.vmnetd",
+			"Format=Mach-O universal (x86_64 arm64)",
+			"CodeDirectory v=20500 size=4012 flags=0x10000(runtime) hashes=114+7 location=embedded",
+			"Signature size=8987",
+			"TeamIdentifier=9BNSXJN65R",
+			"Sealed Resources=none",
+		].join("\n");
+		expect(parseCodesignOutput(output, 0)).toEqual({
+			status: "signed",
+			identifier: "com.docker.vmnetd",
+			teamId: "9BNSXJN65R",
+			hardenedRuntime: true,
+		});
+	});
+
+	it("reads the authority chain, leaf first", () => {
+		const output = [
+			"Identifier=com.docker.vmnetd",
+			"CodeDirectory v=20500 size=4012 flags=0x10000(runtime) hashes=114+7 location=embedded",
+			"Authority=Developer ID Application: Docker Inc (9BNSXJN65R)",
+			"Authority=Developer ID Certification Authority",
+			"Authority=Apple Root CA",
+			"Timestamp=Mar 14, 2025 at 17:02:45",
+			"TeamIdentifier=9BNSXJN65R",
+		].join("\n");
+		expect(parseCodesignOutput(output, 0).authorities).toEqual([
+			"Developer ID Application: Docker Inc (9BNSXJN65R)",
+			"Developer ID Certification Authority",
+			"Apple Root CA",
+		]);
+	});
+
+	it("reports a missing hardened runtime", () => {
+		const output = [
+			"Identifier=agsservice",
+			"CodeDirectory v=20200 size=2210 flags=0x0(none) hashes=60+3 location=embedded",
+			"TeamIdentifier=JQ525L2MZD",
+		].join("\n");
+		expect(parseCodesignOutput(output, 0).hardenedRuntime).toBe(false);
+	});
+
+	it("recognizes ad-hoc signatures", () => {
+		const output = [
+			"Executable=/opt/homebrew/Cellar/redis/7.2.4/bin/redis-server",
+			"Identifier=redis-server",
+			"CodeDirectory v=20400 size=9120 flags=0x20002(adhoc,linker-signed) hashes=282+0 location=embedded",
+			"Signature=adhoc",
+			"TeamIdentifier=not set",
+		].join("\n");
+		expect(parseCodesignOutput(output, 0)).toEqual({
+			status: "adhoc",
+			identifier: "redis-server",
+			hardenedRuntime: false,
+		});
+	});
+
+	it("leaves out the team ID of Apple platform binaries", () => {
+		const output = ["Identifier=com.apple.sh", "Platform identifier=15", "TeamIdentifier=not set"].join("\n");
+		expect(parseCodesignOutput(output, 0)).toEqual({ status: "signed", identifier: "com.apple.sh" });
+	});
+
+	it("reports unsigned files and other failures", () => {
+		expect(parseCodesignOutput("/tmp/payload: code object is not signed at all\n", 1)).toEqual({
+			status: "unsigned",
+		});
+		expect(parseCodesignOutput("/tmp/gone: No such file or directory\n", 1)).toEqual({
+			status: "unknown",
+			error: "/tmp/gone: No such file or directory",
+		});
+	});
+});
+
+describe("parseSpctlOutput", () => {
+	it("recognizes notarized, Apple and App Store code", () => {
+		const notarized = [
+			"/Library/PrivilegedHelperTools/com.docker.vmnetd: accepted",
+			"source=Notarized Developer ID",
+			"origin=Developer ID Application: Docker Inc (9BNSXJN65R)",
+		].join("\n");
+		expect(parseSpctlOutput(notarized)).toEqual({
+			notarization: "notarized",
+			gatekeeperSource: "Notarized Developer ID",
+		});
+		expect(parseSpctlOutput("/bin/sh: accepted\nsource=Apple System\n").notarization).toBe("apple");
+		expect(parseSpctlOutput("/Applications/X.app: accepted\nsource=Mac App Store\n").notarization).toBe(
+			"app-store",
+		);
+	});
+
+	it("treats other accepted sources as Developer ID without notarization", () => {
+		expect(parseSpctlOutput("/usr/local/bin/agsservice: accepted\nsource=Developer ID\n")).toEqual({
+			notarization: "developer-id",
+			gatekeeperSource: "Developer ID",
+		});
+	});
+
+	it("reports rejections and ignores output without a verdict", () => {
+		expect(parseSpctlOutput("/tmp/agent: rejected\nsource=no usable signature\n")).toEqual({
+			notarization: "rejected",
+			gatekeeperSource: "no usable signature",
+		});
+		expect(parseSpctlOutput("spctl: /tmp/gone: No such file or directory\n")).toEqual({});
+	});
+});
+
+describe("matchesSignatureFilter", () => {
+	const service: Service = {
+		id: "system-com.docker.vmnetd",
+		label: "com.docker.vmnetd",
+		displayName: "vmnetd",
+		type: "LaunchDaemon",
+		domain: "system",
+		status: "running",
+		protection: "normal",
+		enabled: true,
+		isAppleService: false,
+		requiresRoot: true,
+	};
+	const notarized: CodeSignature = { status: "signed", teamId: "9BNSXJN65R", notarization: "notarized" };
+
+	it("passes everything when both filters are off", () => {
+		expect(matchesSignatureFilter(service, undefined, { signing: "all", teamId: null })).toBe(true);
+	});
+
+	it("matches signing status and Gatekeeper verdicts", () => {
+		expect(matchesSignatureFilter(service, notarized, { signing: "notarized", teamId: null })).toBe(true);
+		expect(matchesSignatureFilter(service, notarized, { signing: "not-notarized", teamId: null })).toBe(
+			false,
+		);
+		const developerId: CodeSignature = { status: "signed", notarization: "developer-id" };
+		expect(matchesSignatureFilter(service, developerId, { signing: "not-notarized", teamId: null })).toBe(
+			true,
+		);
+		expect(matchesSignatureFilter(service, { status: "adhoc" }, { signing: "adhoc", teamId: null })).toBe(
+			true,
+		);
+		expect(matchesSignatureFilter(service, { status: "adhoc" }, { signing: "unsigned", teamId: null })).toBe(
+			false,
+		);
+	});
+
+	it("hides services whose signature is not known yet", () => {
+		expect(matchesSignatureFilter(service, undefined, { signing: "notarized", teamId: null })).toBe(false);
+		expect(matchesSignatureFilter(service, null, { signing: "all", teamId: "9BNSXJN65R" })).toBe(false);
+	});
+
+	it("matches the team of programs and system extensions", () => {
+		expect(matchesSignatureFilter(service, notarized, { signing: "all", teamId: "9BNSXJN65R" })).toBe(true);
+		expect(matchesSignatureFilter(service, notarized, { signing: "all", teamId: "X9E956P446" })).toBe(false);
+		const extension: SystemExtension = { ...service, type: "SystemExtension", teamId: "9BNSXJN65R" };
+		expect(matchesSignatureFilter(extension, null, { signing: "all", teamId: "9BNSXJN65R" })).toBe(true);
+	});
+});
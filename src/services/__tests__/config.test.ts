@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the user configuration
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defaultConfig } from "../../store/initialState";
+import { getConfigPath, loadConfig, parseConfig, requiresConfirmation, validateConfig } from "../config";
+
+describe("validateConfig", () => {
+	it("keeps the defaults for an empty config", () => {
+		expect(validateConfig({}, defaultConfig)).toEqual({ config: defaultConfig, errors: [] });
+	});
+
+	it("overrides only the settings given", () => {
+		const { config, errors } = validateConfig(
+			{
+				filter: { type: "LaunchDaemon", showAppleServices: true },
+				sort: { direction: "desc" },
+				autoRefresh: { enabled: true, activeIntervalMs: 5000 },
+				offlineThreshold: 5,
+				editor: " code --wait ",
+				confirm: "destructive",
+			},
+			defaultConfig,
+		);
+		expect(errors).toEqual([]);
+		expect(config).toEqual({
+			filter: { ...defaultConfig.filter, type: "LaunchDaemon", showAppleServices: true },
+			sort: { field: "label", direction: "desc" },
+			autoRefresh: { ...defaultConfig.autoRefresh, enabled: true, activeIntervalMs: 5000 },
+			offlineThreshold: 5,
+			editor: "code --wait",
+			confirm: "destructive",
+		});
+	});
+
+	it("reports every invalid value and unknown key", () => {
+		const { config, errors } = validateConfig(
+			{
+				filters: {},
+				filter: { type: "daemon", showProtected: "no", color: "red" },
+				sort: "status",
+				autoRefresh: { activeIntervalMs: 500 },
+				offlineThreshold: 1.5,
+				editor: "",
+				confirm: "sometimes",
+			},
+			defaultConfig,
+		);
+		expect(errors).toEqual([
+			'Unknown setting "filters"',
+			'Unknown setting "filter.color"',
+			"sort must be an object",
+			"filter.type must be one of: all, LaunchDaemon, LaunchAgent, SystemExtension",
+			"filter.showProtected must be true or false",
+			"autoRefresh.activeIntervalMs must be a whole number of at least 1000",
+			"offlineThreshold must be a whole number of at least 1",
+			"editor must be a non-empty string or null",
+			"confirm must be one of: always, destructive, never",
+		]);
+		expect(config).toEqual(defaultConfig);
+	});
+
+	it("rejects an idle interval shorter than the active one", () => {
+		const { errors } = validateConfig({ autoRefresh: { idleIntervalMs: 2000 } }, defaultConfig);
+		expect(errors).toEqual([
+			"autoRefresh.idleIntervalMs must not be shorter than autoRefresh.activeIntervalMs",
+		]);
+	});
+});
+
+describe("parseConfig", () => {
+	it("reports invalid JSON and non-object configs", () => {
+		expect(parseConfig("{ filter: }", defaultConfig).errors[0]).toStartWith("Invalid JSON: ");
+		expect(parseConfig("[]", defaultConfig).errors).toEqual(["The config must be a JSON object"]);
+	});
+});
+
+describe("loadConfig", () => {
+	let dir: string;
+	let env: NodeJS.ProcessEnv;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-config-"));
+		env = { XDG_CONFIG_HOME: dir };
+		mkdirSync(join(dir, "macos-service-manager"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("uses the defaults without a config file", async () => {
+		expect(await loadConfig(defaultConfig, env)).toBe(defaultConfig);
+	});
+
+	it("reads config.json from the config directory", async () => {
+		const path = getConfigPath(env);
+		expect(path).toBe(join(dir, "macos-service-manager", "config.json"));
+		writeFileSync(path, JSON.stringify({ confirm: "never" }));
+		expect((await loadConfig(defaultConfig, env)).confirm).toBe("never");
+	});
+
+	it("names the file and lists every problem", async () => {
+		const path = getConfigPath(env);
+		writeFileSync(path, JSON.stringify({ offlineThreshold: 0, confirm: "maybe" }));
+		await expect(loadConfig(defaultConfig, env)).rejects.toThrow(
+			`Invalid config ${path}:\n  - offlineThreshold must be a whole number of at least 1\n  - confirm must be one of: always, destructive, never`,
+		);
+	});
+});
+
+describe("requiresConfirmation", () => {
+	it("asks per policy", () => {
+		expect(requiresConfirmation("start", "always")).toBe(true);
+		expect(requiresConfirmation("start", "destructive")).toBe(false);
+		expect(requiresConfirmation("stop", "destructive")).toBe(true);
+		expect(requiresConfirmation("unload", "destructive")).toBe(true);
+		expect(requiresConfirmation("reload", "destructive")).toBe(true);
+		expect(requiresConfirmation("start", "destructive", true)).toBe(true);
+		expect(requiresConfirmation("disable", "never")).toBe(false);
+	});
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for output file tailing helpers
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { appendFileSync, mkdtempSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { detectFileChange, expandHomePath, searchLines, splitLines, tailFile } from "../filetail";
+
+describe("detectFileChange", () => {
+	it("reports unchanged when size matches the offset", () => {
+		expect(detectFileChange({ ino: 1, offset: 100 }, { ino: 1, size: 100 })).toBe("unchanged");
+	});
+
+	it("reports appended when the file grew", () => {
+		expect(detectFileChange({ ino: 1, offset: 100 }, { ino: 1, size: 150 })).toBe("appended");
+	});
+
+	it("reports truncated when the file shrank", () => {
+		expect(detectFileChange({ ino: 1, offset: 100 }, { ino: 1, size: 10 })).toBe("truncated");
+	});
+
+	it("reports rotated when the inode changed", () => {
+		expect(detectFileChange({ ino: 1, offset: 100 }, { ino: 2, size: 500 })).toBe("rotated");
+		expect(detectFileChange({ ino: 1, offset: 100 }, { ino: 2, size: 100 })).toBe("rotated");
+	});
+});
+
+describe("splitLines", () => {
+	it("splits complete lines and keeps the trailing partial line", () => {
+		expect(splitLines("", "one\ntwo\nthr")).toEqual({ lines: ["one", "two"], rest: "thr" });
+	});
+
+	it("joins the pending partial line with the next chunk", () => {
+		expect(splitLines("thr", "ee\nfour\n")).toEqual({ lines: ["three", "four"], rest: "" });
+	});
+
+	it("returns no lines when the chunk has no newline", () => {
+		expect(splitLines("par", "tial")).toEqual({ lines: [], rest: "partial" });
+	});
+
+	it("preserves empty lines", () => {
+		expect(splitLines("", "a\n\nb\n")).toEqual({ lines: ["a", "", "b"], rest: "" });
+	});
+});
+
+describe("searchLines", () => {
+	const lines = ["Starting server", "listening on :8080", "ERROR: connection refused", "error again"];
+
+	it("finds matches case-insensitively", () => {
+		expect(searchLines(lines, "error")).toEqual([2, 3]);
+	});
+
+	it("returns no matches for an empty query", () => {
+		expect(searchLines(lines, "")).toEqual([]);
+	});
+
+	it("returns no matches when nothing matches", () => {
+		expect(searchLines(lines, "timeout")).toEqual([]);
+	});
+});
+
+describe("expandHomePath", () => {
+	it("expands a leading tilde", () => {
+		expect(expandHomePath("~/Library/Logs/app.log")).toBe(`${process.env.HOME}/Library/Logs/app.log`);
+	});
+
+	it("leaves absolute paths untouched", () => {
+		expect(expandHomePath("/var/log/app.log")).toBe("/var/log/app.log");
+	});
+
+	it("does not expand other users' home directories", () => {
+		expect(expandHomePath("~root/app.log")).toBe("~root/app.log");
+	});
+});
+
+describe("tailFile", () => {
+	let dir: string;
+	let path: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-tail-"));
+		path = join(dir, "out.log");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	/** Collect callbacks until the predicate holds (or time out) */
+	async function waitFor(predicate: () => boolean, timeoutMs = 2000) {
+		const deadline = Date.now() + timeoutMs;
+		while (!predicate()) {
+			if (Date.now() > deadline) throw new Error("Timed out waiting for tail");
+			await Bun.sleep(10);
+		}
+	}
+
+	it("reads existing lines, appends and detects rotation", async () => {
+		writeFileSync(path, "first\nsecond\n");
+
+		const batches: Array<{ lines: string[]; reset: string | null }> = [];
+		const handle = tailFile(path, {
+			pollIntervalMs: 20,
+			onLines: (lines, reset) => batches.push({ lines, reset }),
+			onError: () => {},
+		});
+
+		try {
+			await waitFor(() => batches.length >= 1);
+			expect(batches[0]).toEqual({ lines: ["first", "second"], reset: null });
+
+			appendFileSync(path, "third\n");
+			await waitFor(() => batches.length >= 2);
+			expect(batches[1]).toEqual({ lines: ["third"], reset: null });
+
+			renameSync(path, `${path}.1`);
+			writeFileSync(path, "fresh\n");
+			await waitFor(() => batches.length >= 3);
+			expect(batches[2]).toEqual({ lines: ["fresh"], reset: "rotated" });
+		} finally {
+			handle.stop();
+		}
+	});
+
+	it("decodes a character split across two appends", async () => {
+		writeFileSync(path, "");
+
+		const batches: string[][] = [];
+		const handle = tailFile(path, {
+			pollIntervalMs: 20,
+			onLines: (lines) => batches.push(lines),
+			onError: () => {},
+		});
+
+		try {
+			await waitFor(() => batches.length >= 1);
+			const bytes = Buffer.from("café\n");
+			appendFileSync(path, bytes.subarray(0, 4));
+			await Bun.sleep(60);
+			appendFileSync(path, bytes.subarray(4));
+			await waitFor(() => batches.some((lines) => lines.length > 0));
+			expect(batches.flat()).toEqual(["café"]);
+		} finally {
+			handle.stop();
+		}
+	});
+
+	it("reports a missing file until it is created", async () => {
+		const errors: Array<string | null> = [];
+		const handle = tailFile(path, {
+			pollIntervalMs: 20,
+			onLines: () => {},
+			onError: (error) => errors.push(error),
+		});
+
+		try {
+			await waitFor(() => errors.length >= 1);
+			expect(errors[0]).toContain("Waiting for");
+
+			writeFileSync(path, "hello\n");
+			await waitFor(() => errors.length >= 2);
+			expect(errors[1]).toBeNull();
+		} finally {
+			handle.stop();
+		}
+	});
+});
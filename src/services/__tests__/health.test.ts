@@ -0,0 +1,148 @@
+/**
+ * Unit tests for crash and flapping detection
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Service, ServiceChange } from "../../types";
+import { describeExitStatus, detectServiceEvents, isCrashExit } from "../health";
+import { buildNotificationScript } from "../notify";
+import { createMockAgent } from "./service-fixtures";
+
+function change(previous: Partial<Service>, current: Partial<Service>): ServiceChange {
+	return { previous: createMockAgent(previous), current: createMockAgent(current) };
+}
+
+const OPTIONS = { threshold: 3, windowMs: 300_000 };
+const NOW = 1_700_000_000_000;
+
+describe("describeExitStatus", () => {
+	it("describes exit codes and signals", () => {
+		expect(describeExitStatus(1)).toBe("exit status 1");
+		expect(describeExitStatus(-11)).toBe("SIGSEGV");
+		expect(describeExitStatus(-15)).toBe("SIGTERM");
+		expect(describeExitStatus(-30)).toBe("signal 30");
+	});
+});
+
+describe("isCrashExit", () => {
+	it("treats non-zero exits and crash signals as crashes", () => {
+		expect(isCrashExit(undefined)).toBe(false);
+		expect(isCrashExit(0)).toBe(false);
+		expect(isCrashExit(78)).toBe(true);
+		expect(isCrashExit(-6)).toBe(true);
+		expect(isCrashExit(-15)).toBe(false);
+		expect(isCrashExit(-9)).toBe(false);
+	});
+});
+
+describe("detectServiceEvents", () => {
+	it("reports a start", () => {
+		const { events, restarts } = detectServiceEvents(
+			[change({ status: "stopped" }, { pid: 42 })],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events).toEqual([
+			{
+				time: NOW,
+				serviceId: "gui-com.example.agent",
+				label: "com.example.agent",
+				kind: "started",
+				message: "Started as PID 42",
+				pid: 42,
+			},
+		]);
+		expect(restarts).toEqual({ "gui-com.example.agent": [NOW] });
+	});
+
+	it("reports a restart after a crash as a crash", () => {
+		const { events } = detectServiceEvents(
+			[change({ pid: 42 }, { pid: 43, exitStatus: -11 })],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events.map((event) => [event.kind, event.message])).toEqual([
+			["crashed", "Restarted as PID 43 after SIGSEGV"],
+		]);
+	});
+
+	it("reports a clean restart", () => {
+		const { events } = detectServiceEvents(
+			[change({ pid: 42 }, { pid: 43, exitStatus: 0 })],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events.map((event) => event.kind)).toEqual(["restarted"]);
+	});
+
+	it("reports an exit without counting a restart", () => {
+		const { events, restarts } = detectServiceEvents(
+			[change({ pid: 42 }, { status: "stopped", exitStatus: 1 })],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events.map((event) => [event.kind, event.message])).toEqual([
+			["crashed", "PID 42 exited after exit status 1"],
+		]);
+		expect(restarts).toEqual({});
+	});
+
+	it("reports a run that started and exited between refreshes", () => {
+		const { events, restarts } = detectServiceEvents(
+			[change({ status: "stopped", exitStatus: 0 }, { status: "stopped", exitStatus: -15 })],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events.map((event) => [event.kind, event.message])).toEqual([
+			["exited", "Ran and exited after SIGTERM"],
+		]);
+		expect(restarts["gui-com.example.agent"]).toEqual([NOW]);
+	});
+
+	it("ignores changes that are not runs", () => {
+		const { events } = detectServiceEvents(
+			[
+				change({ pid: 42, enabled: true }, { pid: 42, enabled: false }),
+				change({ status: "stopped" }, { status: "error" }),
+			],
+			{},
+			NOW,
+			OPTIONS,
+		);
+		expect(events).toEqual([]);
+	});
+
+	it("reports flapping when restarts reach the threshold", () => {
+		const earlier = { "gui-com.example.agent": [NOW - 60_000, NOW - 30_000] };
+		const { events } = detectServiceEvents([change({ pid: 42 }, { pid: 43 })], earlier, NOW, OPTIONS);
+		expect(events.map((event) => [event.kind, event.message])).toEqual([
+			["restarted", "Restarted as PID 43"],
+			["flapping", "Restarted 3 times in 5m"],
+		]);
+	});
+
+	it("forgets restarts outside the window", () => {
+		const earlier = { "gui-com.example.agent": [NOW - 600_000, NOW - 30_000], "gui-other": [NOW - 400_000] };
+		const { events, restarts } = detectServiceEvents(
+			[change({ pid: 42 }, { pid: 43 })],
+			earlier,
+			NOW,
+			OPTIONS,
+		);
+		expect(events.map((event) => event.kind)).toEqual(["restarted"]);
+		expect(restarts).toEqual({ "gui-com.example.agent": [NOW - 30_000, NOW] });
+	});
+});
+
+describe("buildNotificationScript", () => {
+	it("quotes the title and message", () => {
+		expect(buildNotificationScript('com.example "agent"', "back\\slash")).toBe(
+			'display notification "back\\\\slash" with title "com.example \\"agent\\""',
+		);
+	});
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the service list export
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { FilterOptions } from "../../types";
+import {
+	buildServiceInventory,
+	describeInventoryFilters,
+	formatInventory,
+	formatInventoryCsv,
+	formatInventoryMarkdown,
+	toInventoryService,
+} from "../inventory";
+import { createMockDaemon } from "./service-fixtures";
+
+const FILTER: FilterOptions = {
+	type: "all",
+	domain: "all",
+	status: "all",
+	loaded: "all",
+	signing: "all",
+	teamId: null,
+	showAppleServices: false,
+	showProtected: true,
+};
+
+const CONTEXT = { filter: FILTER, sort: { field: "label", direction: "asc" }, search: "" } as const;
+
+describe("toInventoryService", () => {
+	it("combines list columns with plist metadata", () => {
+		const exported = toInventoryService(
+			createMockDaemon({
+				pid: 42,
+				plistMetadata: {
+					programArguments: ["/usr/local/bin/helper", "--daemon"],
+					runAtLoad: true,
+					keepAlive: { SuccessfulExit: false },
+					startInterval: 3600,
+				},
+			}),
+			{ pid: 42, cpu: 1.5, rss: 2048, uptime: 90, threads: 4 },
+			"crashed",
+		);
+		expect(exported).toMatchObject({
+			label: "com.example.helper",
+			alert: "crashed",
+			pid: 42,
+			cpu: 1.5,
+			memory: 2048,
+			threads: 4,
+			uptime: 90,
+			programArguments: ["/usr/local/bin/helper", "--daemon"],
+			runAtLoad: true,
+			keepAlive: { SuccessfulExit: false },
+		});
+		expect(exported.schedule).toBeString();
+	});
+
+	it("leaves unset fields out of JSON", () => {
+		const json = JSON.parse(JSON.stringify(toInventoryService(createMockDaemon())));
+		expect(Object.keys(json)).toEqual([
+			"label",
+			"name",
+			"status",
+			"type",
+			"domain",
+			"protection",
+			"enabled",
+			"plistPath",
+		]);
+	});
+});
+
+describe("formatInventoryCsv", () => {
+	it("quotes fields with separators, quotes and line breaks", () => {
+		const inventory = buildServiceInventory(
+			[createMockDaemon({ plistMetadata: { programArguments: ["/bin/sh", "-c", 'echo "a,b"'] } })],
+			CONTEXT,
+		);
+		const [header, row] = formatInventoryCsv(inventory).split("\r\n");
+		expect(header?.startsWith("Status,Alert,Protection,Type,Domain,Label,Name,CPU %")).toBe(true);
+		expect(row).toContain(',"/bin/sh -c echo ""a,b""",');
+	});
+
+	it("writes only the header for an empty list", () => {
+		expect(formatInventoryCsv(buildServiceInventory([], CONTEXT)).split("\r\n")).toHaveLength(1);
+	});
+});
+
+describe("formatInventoryMarkdown", () => {
+	const inventory = buildServiceInventory(
+		[
+			createMockDaemon({ pid: 42, plistMetadata: { program: "/usr/local/bin/a|b" } }),
+			createMockDaemon({
+				id: "gui-com.example.agent",
+				label: "com.example.agent",
+				status: "stopped",
+				enabled: false,
+			}),
+		],
+		{ ...CONTEXT, filter: { ...FILTER, type: "LaunchDaemon" }, search: "example" },
+		new Date("2024-01-10T09:30:00.000Z"),
+		"mac",
+	);
+
+	it("summarizes the filters and drops empty columns", () => {
+		expect(formatInventoryMarkdown(inventory).split("\n")).toEqual([
+			"# Services",
+			"",
+			"- Host: mac",
+			"- Date: 2024-01-10T09:30:00.000Z",
+			'- Filters: type LaunchDaemon, without Apple services, search "example"',
+			"- Sort: label (asc)",
+			"- Services: 2",
+			"",
+			"| Status | Protection | Type | Domain | Label | Name | PID | Enabled | Plist | Program |",
+			"| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+			"| running | normal | LaunchDaemon | system | com.example.helper | helper | 42 | yes | /Library/LaunchDaemons/com.example.helper.plist | /usr/local/bin/a\\|b |",
+			"| stopped | normal | LaunchDaemon | system | com.example.agent | helper |  | no | /Library/LaunchDaemons/com.example.helper.plist |  |",
+		]);
+	});
+
+	it("says when nothing matched", () => {
+		const empty = buildServiceInventory([], CONTEXT, new Date(0), "mac");
+		expect(formatInventoryMarkdown(empty).split("\n").at(-1)).toBe("No services.");
+		expect(describeInventoryFilters(empty)).toBe("without Apple services");
+	});
+
+	it("keeps the context in JSON", () => {
+		const json = JSON.parse(formatInventory(inventory, "json"));
+		expect(json.hostname).toBe("mac");
+		expect(json.search).toBe("example");
+		expect(json.services).toHaveLength(2);
+	});
+});
@@ -237,6 +237,105 @@ export const PRINT_HEX_VALUES = `com.example.hex = {
 }
 `;
 
+/** `launchctl print system` (trimmed) with its services block */
+export const PRINT_SYSTEM_DOMAIN = `system = {
+\ttype = system
+\thandle = 0
+\tactive count = 3
+\tservice count = 4
+
+\tservices = {
+\t\t     390      -  \tcom.apple.runningboardd
+\t\t       0      -  \tcom.apple.xpc.smd
+\t\t       0     78  \tcom.example.crashy
+\t\t    1201      -  \tcom.docker.vmnetd
+\t}
+
+\tendpoints = {
+\t\t"com.apple.runningboard" = {
+\t\t\tport = 0x2e03
+\t\t}
+\t}
+}
+`;
+
+// ============================================================================
+// launchctl print-disabled output fixtures
+// ============================================================================
+
+/** `print-disabled system` on macOS 11+ ("=> disabled" / "=> enabled") */
+export const PRINT_DISABLED_SYSTEM = `disabled services = {
+\t"com.apple.CSCSupportd" => disabled
+\t"com.example.backup" => disabled
+\t"com.docker.vmnetd" => enabled
+\t"com.apple.ftpd" => disabled
+}
+`;
+
+/** `print-disabled gui/501` with the login item block that follows on Ventura and later */
+export const PRINT_DISABLED_GUI = `disabled services = {
+\t"com.dropbox.DropboxMacUpdate.agent" => disabled
+\t"homebrew.mxcl.postgresql@14" => enabled
+}
+
+login item associations = {
+\t"com.example.helper" => "com.example.app"
+}
+`;
+
+/** macOS 10.15 and earlier ("=> true" means disabled) */
+export const PRINT_DISABLED_LEGACY = `disabled services = {
+\t"com.apple.ftpd" => true
+\t"com.example.agent" => false
+}
+`;
+
+/** A domain without overrides */
+export const PRINT_DISABLED_EMPTY = `disabled services = {
+}
+`;
+
+/** A crashed agent inspected with `launchctl print gui/501/<label>` (macOS 14) */
+export const PRINT_SERVICE_INSPECT = `gui/501/com.example.agent = {
+	active count = 0
+	path = /Users/user/Library/LaunchAgents/com.example.agent.plist
+	type = LaunchAgent
+	state = not running
+
+	program = /usr/local/bin/agent
+	arguments = {
+		/usr/local/bin/agent
+		--state = running
+	}
+
+	default environment = {
+		PATH => /usr/bin:/bin:/usr/sbin:/sbin
+	}
+
+	domain = gui/501 [100005]
+	runs = 7
+	last exit code = 1
+	last terminating signal = Killed: 9
+	spawn type = daemon (3)
+	jetsam priority = 40
+
+	endpoints = {
+		"com.example.agent.xpc" = {
+			port = 0x1a03
+			active = 0
+			managed = 1
+		}
+		"com.example.agent.helper" = {
+			port = 0x1b07
+			active = 0
+			managed = 1
+		}
+	}
+
+	properties = inferred program | managed LWCR | needs LWCR update | inefficient
+}
+`;
+
 // ============================================================================
 // Expected parse results
 // ============================================================================
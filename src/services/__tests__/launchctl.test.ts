@@ -2,12 +2,23 @@
  * Unit tests for launchctl parsing functions
  */
 
-import { describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+	buildUnloadedService,
 	getMacOSVersion,
+	getPlistDirectories,
+	getServiceStatus,
+	isServiceDisabled,
 	normalizePrintKey,
+	parseDomainServices,
 	parseLaunchctlList,
 	parseLaunchctlPrint,
+	parsePrintDisabled,
+	parseServiceInspection,
+	scanPlistDirectories,
 } from "../launchctl/index";
 import {
 	EXPECTED_LIST_NO_HEADER,
@@ -26,6 +37,10 @@ import {
 	PRINT_BIG_SUR,
 	PRINT_CATALINA,
 	PRINT_DISABLED,
+	PRINT_DISABLED_EMPTY,
+	PRINT_DISABLED_GUI,
+	PRINT_DISABLED_LEGACY,
+	PRINT_DISABLED_SYSTEM,
 	PRINT_EMPTY,
 	PRINT_ERROR,
 	PRINT_HEX_VALUES,
@@ -35,7 +50,9 @@ import {
 	PRINT_NOT_FOUND,
 	PRINT_PARTIAL_ERROR,
 	PRINT_SEQUOIA,
+	PRINT_SERVICE_INSPECT,
 	PRINT_STOPPED,
+	PRINT_SYSTEM_DOMAIN,
 	PRINT_VENTURA,
 } from "./launchctl-fixtures";
 
@@ -218,6 +235,204 @@ describe("parseLaunchctlPrint", () => {
 	});
 });
 
+describe("parseDomainServices", () => {
+	it("parses only the services block", () => {
+		expect(parseDomainServices(PRINT_SYSTEM_DOMAIN)).toEqual([
+			{ pid: 390, exitStatus: undefined, label: "com.apple.runningboardd" },
+			{ pid: 0, exitStatus: undefined, label: "com.apple.xpc.smd" },
+			{ pid: 0, exitStatus: 78, label: "com.example.crashy" },
+			{ pid: 1201, exitStatus: undefined, label: "com.docker.vmnetd" },
+		]);
+	});
+
+	it("returns nothing without a services block", () => {
+		expect(parseDomainServices(PRINT_MODERN)).toEqual([]);
+		expect(parseDomainServices(PRINT_EMPTY)).toEqual([]);
+	});
+});
+
+describe("parseServiceInspection", () => {
+	it("extracts the inspection summary", () => {
+		const result = parseServiceInspection(PRINT_SERVICE_INSPECT);
+		expect(result.state).toBe("not running");
+		expect(result.runs).toBe(7);
+		expect(result.spawnType).toBe("daemon (3)");
+		expect(result.lastExitCode).toBe("1");
+		expect(result.lastTerminatingSignal).toBe("Killed: 9");
+		expect(result.pid).toBeUndefined();
+		expect(result.raw).toBe(PRINT_SERVICE_INSPECT);
+	});
+
+	it("lists endpoint names", () => {
+		expect(parseServiceInspection(PRINT_SERVICE_INSPECT).endpoints).toEqual([
+			"com.example.agent.xpc",
+			"com.example.agent.helper",
+		]);
+	});
+
+	it("splits properties", () => {
+		expect(parseServiceInspection(PRINT_SERVICE_INSPECT).properties).toEqual([
+			"inferred program",
+			"managed LWCR",
+			"needs LWCR update",
+			"inefficient",
+		]);
+	});
+
+	it("ignores values nested in blocks", () => {
+		const { fields } = parseServiceInspection(PRINT_SERVICE_INSPECT);
+		// "--state = running" inside arguments must not replace the top-level state
+		expect(fields.state).toBe("not running");
+		expect(fields.port).toBeUndefined();
+		expect(fields.path).toBe("/Users/user/Library/LaunchAgents/com.example.agent.plist");
+	});
+
+	it("handles older output and empty input", () => {
+		expect(parseServiceInspection(PRINT_MODERN).endpoints).toEqual([]);
+		const empty = parseServiceInspection(PRINT_EMPTY);
+		expect(empty.state).toBeUndefined();
+		expect(empty.properties).toEqual([]);
+	});
+});
+
+describe("parsePrintDisabled", () => {
+	it("parses disabled and enabled overrides", () => {
+		expect(parsePrintDisabled(PRINT_DISABLED_SYSTEM)).toEqual({
+			"com.apple.CSCSupportd": true,
+			"com.example.backup": true,
+			"com.docker.vmnetd": false,
+			"com.apple.ftpd": true,
+		});
+	});
+
+	it("ignores the login item block", () => {
+		expect(parsePrintDisabled(PRINT_DISABLED_GUI)).toEqual({
+			"com.dropbox.DropboxMacUpdate.agent": true,
+			"homebrew.mxcl.postgresql@14": false,
+		});
+	});
+
+	it("parses the legacy true/false format", () => {
+		expect(parsePrintDisabled(PRINT_DISABLED_LEGACY)).toEqual({
+			"com.apple.ftpd": true,
+			"com.example.agent": false,
+		});
+	});
+
+	it("handles empty output", () => {
+		expect(parsePrintDisabled(PRINT_DISABLED_EMPTY)).toEqual({});
+		expect(parsePrintDisabled("")).toEqual({});
+		expect(parsePrintDisabled(PRINT_NOT_FOUND)).toEqual({});
+	});
+});
+
+describe("isServiceDisabled", () => {
+	const overrides = {
+		system: { "com.example.shared": true, "com.example.daemon": true },
+		gui: { "com.example.shared": false, "com.example.agent": true },
+	};
+
+	it("prefers the service's own domain", () => {
+		expect(isServiceDisabled(overrides, "com.example.shared", "system")).toBe(true);
+		expect(isServiceDisabled(overrides, "com.example.shared", "gui")).toBe(false);
+		expect(isServiceDisabled(overrides, "com.example.agent", "user")).toBe(true);
+	});
+
+	it("falls back to the other domain and defaults to enabled", () => {
+		expect(isServiceDisabled(overrides, "com.example.daemon", "user")).toBe(true);
+		expect(isServiceDisabled(overrides, "com.example.unknown", "gui")).toBe(false);
+	});
+
+	it("feeds the disabled status", () => {
+		expect(getServiceStatus(undefined, 0, !isServiceDisabled(overrides, "com.example.agent", "gui"))).toBe(
+			"disabled",
+		);
+	});
+});
+
+describe("scanPlistDirectories", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-scan-"));
+		mkdirSync(join(dir, "LaunchDaemons"));
+		writeFileSync(join(dir, "LaunchDaemons", "com.example.b.plist"), "");
+		writeFileSync(join(dir, "LaunchDaemons", "com.example.a.plist"), "");
+		writeFileSync(join(dir, "LaunchDaemons", "README.txt"), "");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("lists plist files sorted by name and skips missing directories", async () => {
+		const result = await scanPlistDirectories([
+			{ dir: join(dir, "LaunchDaemons"), type: "LaunchDaemon", domain: "system" },
+			{ dir: join(dir, "missing"), type: "LaunchAgent", domain: "gui" },
+		]);
+		expect(result).toEqual([
+			{
+				path: join(dir, "LaunchDaemons", "com.example.a.plist"),
+				label: "com.example.a",
+				type: "LaunchDaemon",
+				domain: "system",
+			},
+			{
+				path: join(dir, "LaunchDaemons", "com.example.b.plist"),
+				label: "com.example.b",
+				type: "LaunchDaemon",
+				domain: "system",
+			},
+		]);
+	});
+
+	it("lists a directory again once its contents change", async () => {
+		const dirs = [{ dir: join(dir, "LaunchDaemons"), type: "LaunchDaemon", domain: "system" } as const];
+		expect(await scanPlistDirectories(dirs)).toHaveLength(2);
+		writeFileSync(join(dir, "LaunchDaemons", "com.example.c.plist"), "");
+		utimesSync(join(dir, "LaunchDaemons"), new Date(), new Date(Date.now() + 1000));
+		const labels = (await scanPlistDirectories(dirs)).map((plist) => plist.label);
+		expect(labels).toEqual(["com.example.a", "com.example.b", "com.example.c"]);
+	});
+
+	it("expands the home directory for user agents", () => {
+		const dirs = getPlistDirectories("/Users/test");
+		expect(dirs.map((d) => d.dir)).toContain("/Users/test/Library/LaunchAgents");
+		expect(dirs.filter((d) => d.type === "LaunchAgent").every((d) => d.domain === "gui")).toBe(true);
+		expect(getPlistDirectories(undefined).some((d) => d.dir.includes("~"))).toBe(false);
+	});
+});
+
+describe("buildUnloadedService", () => {
+	it("marks the service as not loaded with its plist path", () => {
+		const service = buildUnloadedService({
+			path: "/Library/LaunchDaemons/com.example.backup.plist",
+			label: "com.example.backup",
+			type: "LaunchDaemon",
+			domain: "system",
+		});
+		expect(service).toMatchObject({
+			id: "system-com.example.backup",
+			displayName: "backup",
+			status: "not-loaded",
+			plistPath: "/Library/LaunchDaemons/com.example.backup.plist",
+			protection: "normal",
+			requiresRoot: true,
+		});
+	});
+
+	it("classifies Apple plists as protected", () => {
+		const service = buildUnloadedService({
+			path: "/System/Library/LaunchAgents/com.apple.Siri.agent.plist",
+			label: "com.apple.Siri.agent",
+			type: "LaunchAgent",
+			domain: "gui",
+		});
+		expect(service.protection).toBe("sip-protected");
+		expect(service.isAppleService).toBe(true);
+	});
+});
+
 describe("normalizePrintKey", () => {
 	it("normalizes various PID key names", () => {
 		expect(normalizePrintKey("PID")).toBe("pid");
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the launchd plist linter
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type LintFileSystem, lintPlist, lintPlistFile, sortLintFindings } from "../plist/lint";
+import type { PlistDict } from "../plist/types";
+
+/** File system where only the listed paths exist */
+function fakeFs(files: string[], dirs: string[] = ["/tmp"], executables: string[] = files): LintFileSystem {
+	return {
+		exists: (path) => files.includes(path) || dirs.includes(path),
+		isExecutable: (path) => executables.includes(path),
+		isDirectory: (path) => dirs.includes(path),
+	};
+}
+
+const fs = fakeFs(["/usr/local/bin/agent"]);
+
+function rules(raw: PlistDict, options: Parameters<typeof lintPlist>[1] = { fs }): string[] {
+	return lintPlist(raw, options).map((f) => f.rule);
+}
+
+describe("lintPlist", () => {
+	it("accepts a well-formed job", () => {
+		expect(
+			lintPlist(
+				{
+					Label: "com.example.agent",
+					ProgramArguments: ["/usr/local/bin/agent", "--quiet"],
+					RunAtLoad: true,
+					StandardOutPath: "/tmp/agent.log",
+				},
+				{ path: "/Users/me/Library/LaunchAgents/com.example.agent.plist", fs },
+			),
+		).toEqual([]);
+	});
+
+	it("flags a missing or unusable label", () => {
+		expect(rules({ Program: "/usr/local/bin/agent" })).toEqual(["missing-label"]);
+		expect(rules({ Label: "bad label;rm", Program: "/usr/local/bin/agent" })).toEqual(["invalid-label"]);
+		expect(
+			rules({ Label: "com.example.agent", Program: "/usr/local/bin/agent" }, { path: "/x/other.plist", fs }),
+		).toEqual(["label-filename"]);
+	});
+
+	it("checks the program", () => {
+		expect(rules({ Label: "a" })).toEqual(["missing-program"]);
+		expect(rules({ Label: "a", ProgramArguments: [] })).toEqual(["missing-program"]);
+		expect(rules({ Label: "a", Program: "/usr/local/bin/agent", ProgramArguments: ["agent"] })).toEqual([
+			"program-and-arguments",
+		]);
+		expect(rules({ Label: "a", ProgramArguments: ["agent"] })).toEqual(["relative-program"]);
+		expect(rules({ Label: "a", Program: "/opt/missing" })).toEqual(["program-missing"]);
+		expect(
+			rules(
+				{ Label: "a", Program: "/usr/local/bin/agent" },
+				{ fs: fakeFs(["/usr/local/bin/agent"], [], []) },
+			),
+		).toEqual(["program-not-executable"]);
+	});
+
+	it("warns when StartInterval is combined with KeepAlive", () => {
+		expect(
+			rules({ Label: "a", Program: "/usr/local/bin/agent", StartInterval: 60, KeepAlive: true }),
+		).toEqual(["interval-keepalive"]);
+	});
+
+	it("flags log paths in missing directories", () => {
+		const findings = lintPlist(
+			{ Label: "a", Program: "/usr/local/bin/agent", StandardErrorPath: "/var/log/nowhere/err.log" },
+			{ fs },
+		);
+		expect(findings).toEqual([
+			{
+				rule: "log-dir-missing",
+				severity: "error",
+				key: "StandardErrorPath",
+				message: "Directory /var/log/nowhere does not exist (launchd will not create it)",
+			},
+		]);
+	});
+
+	it("checks key types and unknown keys", () => {
+		expect(
+			rules({
+				Label: "a",
+				Program: "/usr/local/bin/agent",
+				RunAtLoad: "yes",
+				StartInterval: 1.5,
+				EnvironmentVariables: { PORT: 8080 },
+				RunAtBoot: true,
+				_PrivateKey: true,
+			}),
+		).toEqual(["wrong-type", "wrong-type", "wrong-type", "unknown-key"]);
+	});
+});
+
+describe("lintPlistFile", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-lint-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("reports malformed and non-dictionary files", async () => {
+		const broken = join(dir, "broken.plist");
+		writeFileSync(broken, "<plist><dict><key>Label</key>");
+		const [finding] = await lintPlistFile(broken, fs);
+		expect(finding?.rule).toBe("parse-error");
+
+		const array = join(dir, "array.plist");
+		writeFileSync(array, "<plist><array/></plist>");
+		expect(await lintPlistFile(array, fs)).toEqual([
+			{ rule: "not-a-dictionary", severity: "error", message: "Top-level plist value must be a dictionary" },
+		]);
+	});
+
+	it("checks the label against the file name", async () => {
+		const path = join(dir, "com.example.agent.plist");
+		writeFileSync(path, "<plist><dict><key>Label</key><string>com.example.other</string></dict></plist>");
+		expect((await lintPlistFile(path, fs)).map((f) => f.rule)).toEqual(["label-filename", "missing-program"]);
+	});
+});
+
+describe("sortLintFindings", () => {
+	it("orders by severity and keeps rule order within a severity", () => {
+		const sorted = sortLintFindings([
+			{ rule: "unknown-key", severity: "info", message: "" },
+			{ rule: "relative-program", severity: "warning", message: "" },
+			{ rule: "missing-label", severity: "error", message: "" },
+			{ rule: "wrong-type", severity: "error", message: "" },
+		]);
+		expect(sorted.map((f) => f.rule)).toEqual([
+			"missing-label",
+			"wrong-type",
+			"relative-program",
+			"unknown-key",
+		]);
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for reverse lookups
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { OpenSocket, Service } from "../../types";
+import { findServicesByLookup, isLookupQuery, parseLookupQuery } from "../lookup";
+import { parsePsProcessList } from "../process/index";
+import { PS_PROCESS_LIST } from "./process-fixtures";
+import { createMockDaemon } from "./service-fixtures";
+
+function service(label: string, overrides: Partial<Service> = {}): Service {
+	return createMockDaemon({
+		id: `system-${label}`,
+		label,
+		displayName: label,
+		status: "stopped",
+		plistPath: undefined,
+		...overrides,
+	});
+}
+
+const backup = service("com.example.backupd", {
+	status: "running",
+	pid: 1201,
+	plistPath: "/Library/LaunchDaemons/com.example.backupd.plist",
+	plistMetadata: {
+		programArguments: ["/usr/local/bin/backupd", "--config=/etc/backupd.conf"],
+		watchPaths: ["/Users/shared/inbox"],
+		standardOutPath: "/var/log/backupd.log",
+	},
+});
+const web = service("org.example.web", {
+	plistMetadata: {
+		program: "/opt/web/bin/web",
+		sockets: [
+			{ name: "Listeners", serviceName: "8080" },
+			{ name: "Control", pathName: "/var/run/web.sock" },
+		],
+	},
+});
+const other = service("com.example.other", { status: "running", pid: 2000 });
+const services = [backup, web, other];
+
+describe("isLookupQuery", () => {
+	it("recognises queries starting with a colon", () => {
+		expect(isLookupQuery(":port 5432")).toBe(true);
+		expect(isLookupQuery("  :pid")).toBe(true);
+		expect(isLookupQuery("postgres")).toBe(false);
+		expect(isLookupQuery("")).toBe(false);
+	});
+});
+
+describe("parseLookupQuery", () => {
+	it("parses each kind", () => {
+		expect(parseLookupQuery(":port 5432")).toEqual({ kind: "port", port: 5432 });
+		expect(parseLookupQuery(":PID  1234 ")).toEqual({ kind: "pid", pid: 1234 });
+		expect(parseLookupQuery(":path /usr/local/bin/")).toEqual({ kind: "path", path: "/usr/local/bin" });
+		expect(parseLookupQuery(":path /")).toEqual({ kind: "path", path: "/" });
+	});
+
+	it("rejects unknown kinds and bad values", () => {
+		expect(() => parseLookupQuery(":host example.com")).toThrow("Unknown lookup");
+		expect(() => parseLookupQuery(":port 70000")).toThrow("Usage: :port");
+		expect(() => parseLookupQuery(":port http")).toThrow("Usage: :port");
+		expect(() => parseLookupQuery(":pid 0")).toThrow("Usage: :pid");
+		expect(() => parseLookupQuery(":path")).toThrow("Usage: :path");
+	});
+});
+
+describe("findServicesByLookup", () => {
+	const processes = parsePsProcessList(PS_PROCESS_LIST);
+
+	it("matches a service's own PID", () => {
+		expect(findServicesByLookup(services, { kind: "pid", pid: 1201 }, { processes })).toEqual([
+			{ serviceId: backup.id, label: backup.label, reason: "PID 1201" },
+		]);
+	});
+
+	it("walks up to the service owning a child process, but never to launchd", () => {
+		expect(findServicesByLookup(services, { kind: "pid", pid: 1300 }, { processes })).toEqual([
+			{ serviceId: backup.id, label: backup.label, reason: "parent of PID 1300" },
+		]);
+		expect(findServicesByLookup(services, { kind: "pid", pid: 412 }, { processes })).toEqual([]);
+	});
+
+	it("matches ports through bound sockets and declared Sockets", () => {
+		const sockets: OpenSocket[] = [
+			{ pid: 1210, fd: "5", family: "IPv4", protocol: "TCP", address: "*", port: 8080, state: "LISTEN" },
+		];
+		expect(findServicesByLookup(services, { kind: "port", port: 8080 }, { processes, sockets })).toEqual([
+			{ serviceId: backup.id, label: backup.label, reason: "TCP *:8080 (PID 1210)" },
+			{ serviceId: web.id, label: web.label, reason: "Sockets Listeners tcp *:8080" },
+		]);
+		expect(findServicesByLookup(services, { kind: "port", port: 9090 }, { processes, sockets })).toEqual([]);
+	});
+
+	it("matches paths in program, arguments, watched paths, logs and sockets", () => {
+		const reasons = (path: string) =>
+			findServicesByLookup(services, { kind: "path", path }).map(
+				(match) => `${match.label}: ${match.reason}`,
+			);
+
+		expect(reasons("/usr/local/bin/backupd")).toEqual(["com.example.backupd: ProgramArguments"]);
+		expect(reasons("/etc/backupd.conf")).toEqual(["com.example.backupd: ProgramArguments"]);
+		expect(reasons("/Users/shared/inbox")).toEqual(["com.example.backupd: WatchPaths"]);
+		expect(reasons("/var/log")).toEqual(["com.example.backupd: StandardOutPath"]);
+		expect(reasons("/opt/web")).toEqual(["org.example.web: Program"]);
+		expect(reasons("/var/run/web.sock")).toEqual(["org.example.web: Sockets Control"]);
+		expect(reasons("/Library/LaunchDaemons/com.example.backupd.plist")).toEqual([
+			"com.example.backupd: plist",
+		]);
+	});
+
+	it("does not treat a path prefix as a parent directory", () => {
+		expect(findServicesByLookup(services, { kind: "path", path: "/usr/local/bin/back" })).toEqual([]);
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for new service definitions
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { ServiceWizardValues } from "../../types";
+import {
+	buildServicePlist,
+	getNewServiceDomain,
+	getNewServicePlistPath,
+	parseCalendarSpec,
+	parseEnvironment,
+	parseServiceWizard,
+	splitCommandLine,
+} from "../newservice";
+
+const baseValues: ServiceWizardValues = {
+	scope: "userAgent",
+	label: "com.example.backup",
+	command: "/usr/local/bin/backup --quiet",
+	runAtLoad: true,
+	keepAlive: false,
+	schedule: "none",
+	scheduleValue: "",
+	standardOutPath: "",
+	standardErrorPath: "",
+	environment: "",
+	bootstrap: true,
+};
+
+/** Parse values that are expected to be valid */
+function validSpec(values: ServiceWizardValues) {
+	const { spec, errors } = parseServiceWizard(values);
+	if (!spec) throw new Error(`Unexpected errors: ${JSON.stringify(errors)}`);
+	return spec;
+}
+
+describe("splitCommandLine", () => {
+	it("splits on whitespace", () => {
+		expect(splitCommandLine("  /bin/echo  hello world ")).toEqual(["/bin/echo", "hello", "world"]);
+	});
+
+	it("keeps quoted arguments together", () => {
+		expect(splitCommandLine(`/bin/sh -c "echo 'hi there'" ''`)).toEqual([
+			"/bin/sh",
+			"-c",
+			"echo 'hi there'",
+			"",
+		]);
+	});
+
+	it("handles backslash escapes", () => {
+		expect(splitCommandLine(String.raw`/bin/ls /Volumes/My\ Disk "a\"b"`)).toEqual([
+			"/bin/ls",
+			"/Volumes/My Disk",
+			'a"b',
+		]);
+	});
+
+	it("rejects unterminated quotes", () => {
+		expect(() => splitCommandLine(`/bin/echo "oops`)).toThrow("Unterminated");
+	});
+});
+
+describe("parseEnvironment", () => {
+	it("parses NAME=value pairs", () => {
+		expect(parseEnvironment("PATH=/usr/bin:/bin GREETING='hello world' EMPTY=")).toEqual({
+			PATH: "/usr/bin:/bin",
+			GREETING: "hello world",
+			EMPTY: "",
+		});
+	});
+
+	it("rejects entries without a valid name", () => {
+		expect(() => parseEnvironment("=value")).toThrow();
+		expect(() => parseEnvironment("novalue")).toThrow();
+		expect(() => parseEnvironment("1BAD=x")).toThrow();
+	});
+});
+
+describe("parseCalendarSpec", () => {
+	it("parses case-insensitive keys", () => {
+		expect(parseCalendarSpec("hour=9 Minute=30 WEEKDAY=1")).toEqual({ hour: 9, minute: 30, weekday: 1 });
+	});
+
+	it("rejects out-of-range values", () => {
+		expect(() => parseCalendarSpec("Hour=24")).toThrow("Hour must be 0-23");
+		expect(() => parseCalendarSpec("Day=0")).toThrow("Day must be 1-31");
+		expect(() => parseCalendarSpec("Minute=x")).toThrow();
+	});
+
+	it("rejects unknown keys and empty input", () => {
+		expect(() => parseCalendarSpec("Second=5")).toThrow("Unknown calendar key");
+		expect(() => parseCalendarSpec("  ")).toThrow();
+	});
+});
+
+describe("parseServiceWizard", () => {
+	it("builds a spec from valid values", () => {
+		const { spec, errors } = parseServiceWizard({
+			...baseValues,
+			schedule: "calendar",
+			scheduleValue: "Hour=3",
+			standardOutPath: "/tmp/out.log",
+			environment: "MODE=nightly",
+		});
+		expect(errors).toEqual({});
+		expect(spec).toEqual({
+			scope: "userAgent",
+			label: "com.example.backup",
+			programArguments: ["/usr/local/bin/backup", "--quiet"],
+			runAtLoad: true,
+			keepAlive: false,
+			startCalendarInterval: { hour: 3 },
+			standardOutPath: "/tmp/out.log",
+			environmentVariables: { MODE: "nightly" },
+		});
+	});
+
+	it("validates the label", () => {
+		expect(parseServiceWizard({ ...baseValues, label: "" }).errors.label).toBe("Label is required");
+		const { spec, errors } = parseServiceWizard({ ...baseValues, label: "com.example;rm -rf" });
+		expect(spec).toBeNull();
+		expect(errors.label).toBeDefined();
+	});
+
+	it("requires an absolute program path", () => {
+		expect(parseServiceWizard({ ...baseValues, command: "" }).errors.command).toBe("Program is required");
+		expect(parseServiceWizard({ ...baseValues, command: "backup --quiet" }).errors.command).toContain(
+			"absolute path",
+		);
+	});
+
+	it("validates schedules and their combination with KeepAlive", () => {
+		expect(
+			parseServiceWizard({ ...baseValues, schedule: "interval", scheduleValue: "-5" }).errors.scheduleValue,
+		).toBeDefined();
+		expect(
+			parseServiceWizard({ ...baseValues, schedule: "interval", scheduleValue: "300" }).spec?.startInterval,
+		).toBe(300);
+		expect(
+			parseServiceWizard({ ...baseValues, keepAlive: true, schedule: "interval", scheduleValue: "300" })
+				.errors.keepAlive,
+		).toBeDefined();
+	});
+
+	it("ignores the schedule value when there is no schedule", () => {
+		expect(parseServiceWizard({ ...baseValues, scheduleValue: "garbage" }).errors).toEqual({});
+	});
+
+	it("rejects relative log paths", () => {
+		const { errors } = parseServiceWizard({ ...baseValues, standardErrorPath: "~/err.log" });
+		expect(errors.standardErrorPath).toContain("absolute path");
+	});
+});
+
+describe("buildServicePlist", () => {
+	it("writes launchd keys and omits unset options", () => {
+		const spec = validSpec({
+			...baseValues,
+			runAtLoad: false,
+			schedule: "calendar",
+			scheduleValue: "Minute=0 Hour=9",
+		});
+		expect(buildServicePlist(spec)).toEqual({
+			Label: "com.example.backup",
+			ProgramArguments: ["/usr/local/bin/backup", "--quiet"],
+			StartCalendarInterval: { Minute: 0, Hour: 9 },
+		});
+	});
+
+	it("includes KeepAlive, logs and environment", () => {
+		const spec = validSpec({
+			...baseValues,
+			keepAlive: true,
+			standardOutPath: "/tmp/out.log",
+			standardErrorPath: "/tmp/err.log",
+			environment: "A=1",
+		});
+		expect(buildServicePlist(spec)).toEqual({
+			Label: "com.example.backup",
+			ProgramArguments: ["/usr/local/bin/backup", "--quiet"],
+			RunAtLoad: true,
+			KeepAlive: true,
+			StandardOutPath: "/tmp/out.log",
+			StandardErrorPath: "/tmp/err.log",
+			EnvironmentVariables: { A: "1" },
+		});
+	});
+});
+
+describe("getNewServicePlistPath", () => {
+	it("places each scope in its launchd directory", () => {
+		expect(getNewServicePlistPath("userAgent", "com.example.a", "/Users/alice")).toBe(
+			"/Users/alice/Library/LaunchAgents/com.example.a.plist",
+		);
+		expect(getNewServicePlistPath("systemAgent", "com.example.a")).toBe(
+			"/Library/LaunchAgents/com.example.a.plist",
+		);
+		expect(getNewServicePlistPath("systemDaemon", "com.example.a")).toBe(
+			"/Library/LaunchDaemons/com.example.a.plist",
+		);
+	});
+
+	it("runs only daemons in the system domain", () => {
+		expect(getNewServiceDomain("systemDaemon")).toBe("system");
+		expect(getNewServiceDomain("systemAgent")).toBe("gui");
+		expect(getNewServiceDomain("userAgent")).toBe("gui");
+	});
+});
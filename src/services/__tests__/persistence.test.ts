@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the persistence audit
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { CodeSignature, PersistenceAssessment, PlistMetadata, Service } from "../../types";
+import {
+	type AuditFileSystem,
+	assessService,
+	buildAuditReport,
+	findInterpreterOneLiner,
+	formatAuditMarkdown,
+	isAuditedService,
+	riskForScore,
+	SIGNAL_SCORES,
+	sortAssessments,
+	summarizeAudit,
+} from "../persistence";
+import { createMockDaemon } from "./service-fixtures";
+
+function service(plistMetadata: PlistMetadata, overrides: Partial<Service> = {}): Service {
+	return createMockDaemon({ plistMetadata, ...overrides });
+}
+
+/** Every path exists and belongs to root with 0755, unless listed */
+function fileSystem(
+	options: { missing?: string[]; stats?: Record<string, { uid: number; mode: number }> } = {},
+): AuditFileSystem {
+	return {
+		exists: (path) => !options.missing?.includes(path),
+		stat: (path) =>
+			options.missing?.includes(path) ? null : (options.stats?.[path] ?? { uid: 0, mode: 0o100755 }),
+	};
+}
+
+const SIGNED: CodeSignature = { status: "signed", identifier: "com.example.helper", teamId: "ABCDE12345" };
+
+function signals(assessment: PersistenceAssessment): string[] {
+	return assessment.findings.map((finding) => finding.signal);
+}
+
+describe("isAuditedService", () => {
+	it("skips Apple services and system extensions", () => {
+		expect(isAuditedService(service({}))).toBe(true);
+		expect(isAuditedService(service({}, { isAppleService: true }))).toBe(false);
+		expect(isAuditedService(service({}, { type: "SystemExtension" }))).toBe(false);
+	});
+});
+
+describe("findInterpreterOneLiner", () => {
+	it("finds inline code for shells and scripting languages", () => {
+		expect(findInterpreterOneLiner(["/bin/bash", "-lc", "curl -s x | sh"])).toEqual({
+			interpreter: "bash",
+			code: "curl -s x | sh",
+		});
+		expect(findInterpreterOneLiner(["/usr/bin/python3", "-c", "import os"])?.interpreter).toBe("python3");
+		expect(findInterpreterOneLiner(["/usr/bin/osascript", "-e", "beep"])?.code).toBe("beep");
+	});
+
+	it("looks through /usr/bin/env", () => {
+		expect(findInterpreterOneLiner(["/usr/bin/env", "-i", "A=1", "perl", "-e", "print 1"])).toEqual({
+			interpreter: "perl",
+			code: "print 1",
+		});
+	});
+
+	it("ignores scripts and non-interpreters", () => {
+		expect(findInterpreterOneLiner(["/bin/sh", "/usr/local/bin/start.sh"])).toBeNull();
+		expect(findInterpreterOneLiner(["/usr/local/bin/helper", "-c", "config.toml"])).toBeNull();
+		expect(findInterpreterOneLiner([])).toBeNull();
+	});
+});
+
+describe("assessService", () => {
+	it("finds nothing for a signed program in a root-owned location", () => {
+		const assessment = assessService(service({ program: "/Library/Helpers/helper", runAtLoad: true }), {
+			fs: fileSystem(),
+			signatures: new Map([["/Library/Helpers/helper", SIGNED]]),
+		});
+		expect(assessment.findings).toEqual([]);
+		expect(assessment.score).toBe(0);
+		expect(assessment.risk).toBe("none");
+		expect(assessment.signature).toEqual(SIGNED);
+	});
+
+	it("flags hidden programs in temporary directories", () => {
+		const assessment = assessService(service({ programArguments: ["/tmp/.cache/agent", "--quiet"] }), {
+			fs: fileSystem(),
+		});
+		expect(signals(assessment)).toEqual(["temp-location", "hidden-path"]);
+		expect(assessment.score).toBe(SIGNAL_SCORES["temp-location"] + SIGNAL_SCORES["hidden-path"]);
+		expect(assessment.risk).toBe("high");
+	});
+
+	it("checks the script an interpreter runs", () => {
+		const assessment = assessService(service({ programArguments: ["/bin/bash", "/Users/Shared/run.sh"] }), {
+			fs: fileSystem({ missing: ["/Users/Shared/run.sh"] }),
+		});
+		expect(assessment.findings.map((finding) => finding.message)).toEqual([
+			"Script /Users/Shared/run.sh is in a temporary or shared directory",
+			"Script /Users/Shared/run.sh no longer exists",
+		]);
+	});
+
+	it("flags root daemons whose program a non-root user can replace", () => {
+		const metadata = { program: "/usr/local/bin/helper" };
+		const fs = fileSystem({ stats: { "/usr/local/bin": { uid: 501, mode: 0o40755 } } });
+		expect(signals(assessService(service(metadata), { fs }))).toEqual(["user-writable"]);
+		// Agents run as the user anyway
+		expect(signals(assessService(service(metadata, { type: "LaunchAgent" }), { fs }))).toEqual([]);
+	});
+
+	it("flags unsigned and ad-hoc signed programs", () => {
+		const metadata = { program: "/usr/local/bin/helper" };
+		const unsigned = assessService(service(metadata), {
+			fs: fileSystem(),
+			signatures: new Map([["/usr/local/bin/helper", { status: "unsigned" }]]),
+		});
+		expect(signals(unsigned)).toEqual(["unsigned"]);
+		const adhoc = assessService(service(metadata), {
+			fs: fileSystem(),
+			signatures: new Map([["/usr/local/bin/helper", { status: "adhoc" }]]),
+		});
+		expect(signals(adhoc)).toEqual(["adhoc-signed"]);
+	});
+
+	it("flags interpreter one-liners kept alive without a developer team", () => {
+		const assessment = assessService(
+			service({
+				programArguments: ["/bin/sh", "-c", "while true; do nc -l 4444; done"],
+				runAtLoad: true,
+				keepAlive: true,
+			}),
+			{
+				fs: fileSystem(),
+				signatures: new Map([["/bin/sh", { status: "signed", identifier: "com.apple.sh" }]]),
+			},
+		);
+		expect(signals(assessment)).toEqual(["interpreter-one-liner", "keepalive-unknown-vendor"]);
+		expect(assessment.findings[0]?.message).toBe("Runs inline sh code: while true; do nc -l 4444; done");
+		expect(assessment.risk).toBe("high");
+	});
+
+	it("reports a missing program once and skips its other checks", () => {
+		const assessment = assessService(service({ program: "/opt/old/helper" }), {
+			fs: fileSystem({ missing: ["/opt/old/helper"] }),
+		});
+		expect(signals(assessment)).toEqual(["program-missing"]);
+		expect(assessment.risk).toBe("low");
+	});
+
+	it("flags world-writable and hidden plists", () => {
+		const plistPath = "/Library/LaunchDaemons/.com.example.helper.plist";
+		const assessment = assessService(service({ program: "/Library/Helpers/helper" }, { plistPath }), {
+			fs: fileSystem({ stats: { [plistPath]: { uid: 0, mode: 0o100666 } } }),
+			signatures: new Map([["/Library/Helpers/helper", SIGNED]]),
+		});
+		expect(signals(assessment)).toEqual(["hidden-path", "world-writable-plist"]);
+	});
+});
+
+describe("riskForScore", () => {
+	it("maps scores to levels", () => {
+		expect(riskForScore(0)).toBe("none");
+		expect(riskForScore(10)).toBe("low");
+		expect(riskForScore(25)).toBe("medium");
+		expect(riskForScore(50)).toBe("high");
+	});
+});
+
+describe("sortAssessments", () => {
+	it("orders by score, then label", () => {
+		const fs = fileSystem({ missing: ["/gone"] });
+		const sorted = sortAssessments([
+			assessService(service({}, { id: "b", label: "b" }), { fs }),
+			assessService(service({ program: "/gone" }, { id: "c", label: "c" }), { fs }),
+			assessService(service({}, { id: "a", label: "a" }), { fs }),
+		]);
+		expect(sorted.map((assessment) => assessment.label)).toEqual(["c", "a", "b"]);
+	});
+});
+
+describe("audit reports", () => {
+	const fs = fileSystem({ missing: ["/gone"] });
+	const assessments = [
+		assessService(service({}, { id: "clean", label: "clean" }), { fs }),
+		assessService(service({ programArguments: ["/gone", "a|b"] }, { id: "old", label: "old" }), { fs }),
+	];
+	const report = buildAuditReport(assessments, new Date("2024-01-10T09:30:00.000Z"), "mac");
+
+	it("counts services per risk level", () => {
+		expect(report.summary).toEqual({ high: 0, medium: 0, low: 1, none: 1 });
+		expect(summarizeAudit(report.summary)).toBe("0 high, 0 medium, 1 low, 1 clean");
+		expect(report.services.map((assessment) => assessment.label)).toEqual(["old", "clean"]);
+	});
+
+	it("formats Markdown with only the services that have findings", () => {
+		expect(formatAuditMarkdown(report).split("\n")).toEqual([
+			"# Persistence audit",
+			"",
+			"- Host: mac",
+			"- Date: 2024-01-10T09:30:00.000Z",
+			"- Third-party services: 2 (0 high, 0 medium, 1 low, 1 clean)",
+			"",
+			"| Risk | Score | Label | Type | Program | Signature | Findings |",
+			"| --- | ---: | --- | --- | --- | --- | --- |",
+			"| low | 10 | old | LaunchDaemon | `/gone` | - | Program /gone no longer exists |",
+		]);
+	});
+});
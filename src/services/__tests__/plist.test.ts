@@ -0,0 +1,425 @@
+/**
+ * Unit tests for plist parsing and serialization
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { OpenSocket } from "../../types";
+import {
+	describePlistConfig,
+	findBoundSockets,
+	formatSocketDeclaration,
+	mapToPlistData,
+	PlistReal,
+	type PlistValue,
+	parseMachServiceDeclarations,
+	parsePlist,
+	parsePlistBinary,
+	parsePlistXml,
+	parseSocketDeclarations,
+	readPlist,
+	serializePlist,
+	serializePlistBinary,
+	serializePlistXml,
+} from "../plist";
+
+/** One value of every plist type */
+const everyType: PlistValue = {
+	Label: "com.example.agent",
+	Unicode: "café ☕ 日本",
+	Empty: "",
+	Count: 42,
+	Negative: -7,
+	Large: 4294967296,
+	Huge: 2n ** 63n + 5n,
+	Ratio: 0.25,
+	Enabled: true,
+	Disabled: false,
+	Created: new Date("2024-05-06T07:08:09Z"),
+	Blob: new Uint8Array([0, 1, 2, 253, 254, 255]),
+	Arguments: ["/usr/bin/true", "--flag"],
+	Nested: { Inner: [1, { Deep: "yes" }], EmptyDict: {}, EmptyArray: [] },
+};
+
+const appleXml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<!-- generated by hand -->
+<dict>
+	<key>Label</key>
+	<string>com.example.agent</string>
+	<key>ProgramArguments</key>
+	<array>
+		<string>/bin/sh</string>
+		<string>-c</string>
+		<string>echo "a &amp; b" &lt; /dev/null &#x263A; &#65;</string>
+	</array>
+	<key>Script</key>
+	<string><![CDATA[if [ $x < 1 ]; then echo; fi]]></string>
+	<key>RunAtLoad</key>
+	<true/>
+	<key>KeepAlive</key>
+	<false/>
+	<key>StartInterval</key>
+	<integer>300</integer>
+	<key>Hex</key>
+	<integer>0x1F</integer>
+	<key>Nice</key>
+	<real>-1.5</real>
+	<key>Infinite</key>
+	<real>+infinity</real>
+	<key>Date</key>
+	<date>2024-05-06T07:08:09Z</date>
+	<key>Data</key>
+	<data>
+	AAEC
+	/f7/
+	</data>
+	<key>EmptyString</key>
+	<string/>
+	<key>EmptyArray</key>
+	<array/>
+</dict>
+</plist>
+`;
+
+describe("parsePlistXml", () => {
+	it("parses every element type", () => {
+		expect(parsePlistXml(appleXml)).toEqual({
+			Label: "com.example.agent",
+			ProgramArguments: ["/bin/sh", "-c", 'echo "a & b" < /dev/null ☺ A'],
+			Script: "if [ $x < 1 ]; then echo; fi",
+			RunAtLoad: true,
+			KeepAlive: false,
+			StartInterval: 300,
+			Hex: 31,
+			Nice: -1.5,
+			Infinite: Number.POSITIVE_INFINITY,
+			Date: new Date("2024-05-06T07:08:09Z"),
+			Data: new Uint8Array([0, 1, 2, 253, 254, 255]),
+			EmptyString: "",
+			EmptyArray: [],
+		});
+	});
+
+	it("keeps integers beyond the safe range as bigint", () => {
+		expect(parsePlistXml("<plist><integer>18446744073709551615</integer></plist>")).toBe(2n ** 64n - 1n);
+	});
+
+	it("stores keys that would otherwise touch the prototype", () => {
+		const dict = parsePlistXml("<plist><dict><key>__proto__</key><string>x</string></dict></plist>");
+		expect(Object.keys(dict as object)).toEqual(["__proto__"]);
+	});
+
+	it("rejects malformed documents", () => {
+		expect(() => parsePlistXml("<plist><dict><string>no key</string></dict></plist>")).toThrow(
+			"expected <key>",
+		);
+		expect(() => parsePlistXml("<plist><integer>1.5</integer></plist>")).toThrow("invalid <integer>");
+		expect(() => parsePlistXml("<plist><date>yesterday</date></plist>")).toThrow("invalid <date>");
+		expect(() => parsePlistXml("<plist><array><true/></plist>")).toThrow();
+		expect(() => parsePlistXml("<plist><true/></plist><extra/>")).toThrow("unexpected content");
+		expect(() => parsePlistXml("<plist><set/></plist>")).toThrow("unknown element");
+	});
+});
+
+describe("serializePlistXml", () => {
+	it("writes a complete XML plist document", () => {
+		expect(serializePlistXml({ Label: "com.example.a", RunAtLoad: true })).toBe(
+			[
+				'<?xml version="1.0" encoding="UTF-8"?>',
+				'<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+				'<plist version="1.0">',
+				"<dict>",
+				"\t<key>Label</key>",
+				"\t<string>com.example.a</string>",
+				"\t<key>RunAtLoad</key>",
+				"\t<true/>",
+				"</dict>",
+				"</plist>",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("writes nested arrays and dictionaries", () => {
+		const xml = serializePlistXml({ Args: ["/bin/echo", "hi"], Cal: { Hour: 9 }, Empty: [], Ratio: 0.5 });
+		expect(xml).toContain("\t<array>\n\t\t<string>/bin/echo</string>\n\t\t<string>hi</string>\n\t</array>");
+		expect(xml).toContain("\t<dict>\n\t\t<key>Hour</key>\n\t\t<integer>9</integer>\n\t</dict>");
+		expect(xml).toContain("\t<array/>");
+		expect(xml).toContain("\t<real>0.5</real>");
+	});
+
+	it("escapes XML special characters", () => {
+		expect(serializePlistXml("a < b && c > d")).toContain("<string>a &lt; b &amp;&amp; c &gt; d</string>");
+	});
+
+	it("round-trips every type", () => {
+		expect(parsePlistXml(serializePlistXml(everyType))).toEqual(everyType);
+	});
+
+	it("keeps whole-number reals as reals", () => {
+		const parsed = parsePlistXml(
+			"<plist><dict><key>Real</key><real>2.0</real><key>Int</key><integer>2</integer></dict></plist>",
+		);
+		expect(parsed).toEqual({ Real: new PlistReal(2), Int: 2 });
+		const xml = serializePlistXml(parsed);
+		expect(xml).toContain("\t<real>2</real>");
+		expect(xml).toContain("\t<integer>2</integer>");
+		expect(parsePlistXml(xml)).toEqual(parsed);
+	});
+});
+
+describe("binary plists", () => {
+	// { a: true } laid out by hand following the bplist00 format
+	// biome-ignore format: one row per plist section
+	const handBuilt = new Uint8Array([
+		...Buffer.from("bplist00"),
+		0xd1, 0x01, 0x02, // dict with 1 entry: key ref 1, value ref 2
+		0x51, 0x61, // ASCII "a"
+		0x09, // true
+		0x08, 0x0b, 0x0d, // offset table
+		0, 0, 0, 0, 0, 0, 1, 1, // unused, offset size, reference size
+		0, 0, 0, 0, 0, 0, 0, 3, // object count
+		0, 0, 0, 0, 0, 0, 0, 0, // top object
+		0, 0, 0, 0, 0, 0, 0, 14, // offset table offset
+	]);
+
+	it("parses a hand-built document", () => {
+		expect(parsePlistBinary(handBuilt)).toEqual({ a: true });
+	});
+
+	it("serializes in the same layout", () => {
+		expect(serializePlistBinary({ a: true })).toEqual(handBuilt);
+	});
+
+	it("round-trips every type", () => {
+		expect(parsePlistBinary(serializePlistBinary(everyType))).toEqual(everyType);
+	});
+
+	it("keeps whole-number reals as reals", () => {
+		const value = parsePlistXml("<plist><array><real>2.0</real><integer>2</integer></array></plist>");
+		const bytes = serializePlistBinary(value);
+		// Objects follow the array header and its two one-byte references
+		expect(bytes[11]).toBe(0x23);
+		expect(bytes[20]).toBe(0x10);
+		const parsed = parsePlistBinary(bytes) as PlistValue[];
+		expect(parsed[0]).toBeInstanceOf(PlistReal);
+		expect(parsed).toEqual([new PlistReal(2), 2]);
+	});
+
+	it("handles long strings, large collections and wide references", () => {
+		const items = Array.from({ length: 300 }, (_, i) => `item-${i}`);
+		const value = {
+			List: items,
+			Text: "x".repeat(70000),
+			Numbers: Array.from({ length: 20 }, (_, i) => i * 1000),
+		};
+		expect(parsePlistBinary(serializePlistBinary(value))).toEqual(value);
+	});
+
+	it("stores repeated strings once", () => {
+		const once = serializePlistBinary(["same"]).length;
+		const twice = serializePlistBinary(["same", "same"]).length;
+		expect(twice - once).toBe(1); // just one more reference
+	});
+
+	it("rejects truncated data and reference cycles", () => {
+		expect(() => parsePlistBinary(handBuilt.slice(0, 20))).toThrow("Invalid binary plist");
+
+		// biome-ignore format: one row per plist section
+		const cyclic = new Uint8Array([
+			...Buffer.from("bplist00"),
+			0xa1, 0x00, // array holding a reference to itself
+			0x08, // offset table
+			0, 0, 0, 0, 0, 0, 1, 1,
+			0, 0, 0, 0, 0, 0, 0, 1,
+			0, 0, 0, 0, 0, 0, 0, 0,
+			0, 0, 0, 0, 0, 0, 0, 10,
+		]);
+		expect(() => parsePlistBinary(cyclic)).toThrow("cycle");
+	});
+});
+
+describe("parsePlist / serializePlist", () => {
+	it("detects the format", () => {
+		expect(parsePlist(serializePlist({ a: 1 }, "binary"))).toEqual({ a: 1 });
+		expect(parsePlist(serializePlist({ a: 1 }, "xml"))).toEqual({ a: 1 });
+		expect(parsePlist(serializePlistXml({ a: 1 }))).toEqual({ a: 1 });
+	});
+});
+
+describe("readPlist", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-plist-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const job = {
+		Label: "com.example.job",
+		ProgramArguments: ["/usr/bin/true"],
+		RunAtLoad: true,
+		StartInterval: 60,
+		StandardOutPath: "/tmp/job.log",
+	};
+	const expected = {
+		label: "com.example.job",
+		programArguments: ["/usr/bin/true"],
+		runAtLoad: true,
+		startInterval: 60,
+		standardOutPath: "/tmp/job.log",
+	};
+
+	it("reads XML plists", async () => {
+		const path = join(dir, "job.plist");
+		writeFileSync(path, serializePlistXml(job));
+		expect(await readPlist(path)).toEqual(expected);
+	});
+
+	it("reads binary plists", async () => {
+		const path = join(dir, "job.plist");
+		writeFileSync(path, serializePlistBinary(job));
+		expect(await readPlist(path)).toEqual(expected);
+	});
+
+	it("returns null for missing, invalid and non-dictionary files", async () => {
+		expect(await readPlist(join(dir, "missing.plist"))).toBeNull();
+		writeFileSync(join(dir, "bad.plist"), "not a plist");
+		expect(await readPlist(join(dir, "bad.plist"))).toBeNull();
+		writeFileSync(join(dir, "array.plist"), serializePlistXml(["a"]));
+		expect(await readPlist(join(dir, "array.plist"))).toBeNull();
+	});
+});
+
+describe("mapToPlistData", () => {
+	it("ignores values of the wrong type", () => {
+		expect(mapToPlistData({ Label: 5, RunAtLoad: "yes", ProgramArguments: ["/bin/ls", 3] })).toEqual({
+			programArguments: ["/bin/ls"],
+		});
+	});
+
+	it("maps StartCalendarInterval keys to CalendarInterval fields", () => {
+		expect(mapToPlistData({ StartCalendarInterval: { Hour: 9, Minute: 30, Weekday: "1" } })).toEqual({
+			startCalendarInterval: { hour: 9, minute: 30 },
+		});
+		expect(
+			mapToPlistData({ StartCalendarInterval: [{ Weekday: 1, Hour: 9 }, "junk", { Day: 1, Month: 2 }] }),
+		).toEqual({
+			startCalendarInterval: [
+				{ weekday: 1, hour: 9 },
+				{ day: 1, month: 2 },
+			],
+		});
+	});
+});
+
+describe("parseSocketDeclarations", () => {
+	it("reads socket dictionaries and arrays of them", () => {
+		const sockets = parseSocketDeclarations({
+			Listeners: [
+				{ SockServiceName: "8080", SockFamily: "IPv4", Bonjour: true },
+				{ SockServiceName: 8080, SockFamily: "IPv6", SockNodeName: "::1" },
+			],
+			Discovery: { SockServiceName: "5353", SockType: "dgram", Bonjour: ["_http._tcp", 7] },
+			Control: { SockPathName: "/var/run/example.sock", SockPassive: true, Bonjour: "_ctl._tcp" },
+			Broken: "not a socket",
+		});
+
+		expect(sockets).toEqual([
+			{ name: "Listeners", serviceName: "8080", family: "IPv4", bonjour: true },
+			{ name: "Listeners", serviceName: "8080", family: "IPv6", nodeName: "::1" },
+			{ name: "Discovery", serviceName: "5353", type: "dgram", bonjour: ["_http._tcp"] },
+			{ name: "Control", pathName: "/var/run/example.sock", passive: true, bonjour: ["_ctl._tcp"] },
+		]);
+	});
+
+	it("returns nothing without a Sockets dictionary", () => {
+		expect(parseSocketDeclarations(undefined)).toEqual([]);
+	});
+
+	it("survives a round trip through mapToPlistData", () => {
+		const data = mapToPlistData({ Sockets: { Listeners: { SockServiceName: "22" } } });
+		expect(parseSocketDeclarations(data.sockets)).toEqual([{ name: "Listeners", serviceName: "22" }]);
+	});
+});
+
+describe("parseMachServiceDeclarations", () => {
+	it("reads boolean and dictionary entries and skips disabled ones", () => {
+		expect(
+			parseMachServiceDeclarations({
+				"com.example.agent": true,
+				"com.example.agent.private": { HideUntilCheckIn: true, ResetAtClose: false },
+				"com.example.agent.off": false,
+			}),
+		).toEqual([
+			{ name: "com.example.agent" },
+			{ name: "com.example.agent.private", hideUntilCheckIn: true, resetAtClose: false },
+		]);
+	});
+});
+
+describe("formatSocketDeclaration", () => {
+	it("describes network and Unix sockets", () => {
+		expect(formatSocketDeclaration({ name: "a", serviceName: "8080" })).toBe("tcp *:8080");
+		expect(
+			formatSocketDeclaration({ name: "a", serviceName: "53", type: "dgram", nodeName: "127.0.0.1" }),
+		).toBe("udp 127.0.0.1:53");
+		expect(formatSocketDeclaration({ name: "a", pathName: "/tmp/x.sock" })).toBe("unix /tmp/x.sock");
+		expect(formatSocketDeclaration({ name: "a", family: "Unix" })).toBe("unix ?");
+	});
+});
+
+describe("findBoundSockets", () => {
+	const open: OpenSocket[] = [
+		{ pid: 1, fd: "5", family: "IPv4", protocol: "TCP", address: "*", port: 8080, state: "LISTEN" },
+		{ pid: 1, fd: "6", family: "IPv6", protocol: "TCP", address: "[::1]", port: 8080, state: "LISTEN" },
+		{
+			pid: 1,
+			fd: "7",
+			family: "IPv4",
+			protocol: "TCP",
+			address: "127.0.0.1",
+			port: 9090,
+			remote: "127.0.0.1:52114",
+			state: "ESTABLISHED",
+		},
+		{ pid: 2, fd: "8", family: "IPv4", protocol: "UDP", address: "*", port: 5353 },
+		{ pid: 2, fd: "4", family: "unix", address: "/tmp/x.sock" },
+	];
+
+	it("matches listening TCP sockets by port and family", () => {
+		expect(findBoundSockets({ name: "a", serviceName: "8080" }, open).map((s) => s.fd)).toEqual(["5", "6"]);
+		expect(
+			findBoundSockets({ name: "a", serviceName: "8080", family: "IPv6" }, open).map((s) => s.fd),
+		).toEqual(["6"]);
+	});
+
+	it("ignores connected sockets and the wrong protocol", () => {
+		expect(findBoundSockets({ name: "a", serviceName: "9090" }, open)).toEqual([]);
+		expect(findBoundSockets({ name: "a", serviceName: "8080", type: "dgram" }, open)).toEqual([]);
+		expect(
+			findBoundSockets({ name: "a", serviceName: "5353", type: "dgram" }, open).map((s) => s.fd),
+		).toEqual(["8"]);
+	});
+
+	it("matches Unix sockets by path and never resolves service names", () => {
+		expect(findBoundSockets({ name: "a", pathName: "/tmp/x.sock" }, open).map((s) => s.fd)).toEqual(["4"]);
+		expect(findBoundSockets({ name: "a", serviceName: "http" }, open)).toEqual([]);
+	});
+});
+
+describe("describePlistConfig", () => {
+	it("describes schedules in words", () => {
+		expect(describePlistConfig({ startInterval: 3600 })).toBe("Every hour");
+		expect(
+			describePlistConfig({ runAtLoad: true, startCalendarInterval: { weekday: 0, hour: 4, minute: 0 } }),
+		).toBe("Runs at load, Sundays at 04:00");
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the structured plist editor operations
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	addPlistEntry,
+	defaultValueForKey,
+	flattenPlistTree,
+	formatPlistScalar,
+	getPlistValueAt,
+	parsePlistScalarInput,
+	plistPathKey,
+	removePlistValueAt,
+	setPlistValueAt,
+	suggestLaunchdKeys,
+} from "../plist/edit";
+import { type PlistDict, PlistReal } from "../plist/types";
+
+const plist: PlistDict = {
+	Label: "com.example.agent",
+	ProgramArguments: ["/usr/local/bin/agent", "--quiet"],
+	RunAtLoad: true,
+	EnvironmentVariables: { PATH: "/usr/bin", HOME: "/Users/me" },
+};
+
+describe("flattenPlistTree", () => {
+	it("shows top-level keys with containers collapsed", () => {
+		const rows = flattenPlistTree(plist, {});
+		expect(rows.map((row) => [row.name, row.kind, row.depth, row.expanded])).toEqual([
+			["Label", "string", 0, false],
+			["ProgramArguments", "array", 0, false],
+			["RunAtLoad", "boolean", 0, false],
+			["EnvironmentVariables", "dict", 0, false],
+		]);
+	});
+
+	it("descends into expanded containers", () => {
+		const rows = flattenPlistTree(plist, { [plistPathKey(["ProgramArguments"])]: true });
+		expect(rows.slice(1, 4).map((row) => [row.name, row.depth, row.path])).toEqual([
+			["ProgramArguments", 0, ["ProgramArguments"]],
+			["[0]", 1, ["ProgramArguments", 0]],
+			["[1]", 1, ["ProgramArguments", 1]],
+		]);
+	});
+});
+
+describe("path updates", () => {
+	it("reads values by path", () => {
+		expect(getPlistValueAt(plist, ["ProgramArguments", 1])).toBe("--quiet");
+		expect(getPlistValueAt(plist, ["EnvironmentVariables", "HOME"])).toBe("/Users/me");
+		expect(getPlistValueAt(plist, ["Missing"])).toBeUndefined();
+		expect(getPlistValueAt(plist, ["Label", 0])).toBeUndefined();
+	});
+
+	it("replaces values without mutating the original", () => {
+		const edited = setPlistValueAt(plist, ["EnvironmentVariables", "PATH"], "/opt/bin");
+		expect(getPlistValueAt(edited, ["EnvironmentVariables", "PATH"])).toBe("/opt/bin");
+		expect(getPlistValueAt(plist, ["EnvironmentVariables", "PATH"])).toBe("/usr/bin");
+		// Key order is preserved
+		expect(Object.keys(edited.EnvironmentVariables as PlistDict)).toEqual(["PATH", "HOME"]);
+		expect(edited.ProgramArguments).toBe(plist.ProgramArguments);
+	});
+
+	it("removes entries and array items", () => {
+		expect(Object.keys(removePlistValueAt(plist, ["RunAtLoad"]))).toEqual([
+			"Label",
+			"ProgramArguments",
+			"EnvironmentVariables",
+		]);
+		expect(removePlistValueAt(plist, ["ProgramArguments", 0]).ProgramArguments).toEqual(["--quiet"]);
+	});
+
+	it("adds dictionary keys and appends array items", () => {
+		const withKey = addPlistEntry(plist, [], 60, "StartInterval");
+		expect(Object.keys(withKey).at(-1)).toBe("StartInterval");
+		expect(addPlistEntry(plist, ["ProgramArguments"], "-v").ProgramArguments).toEqual([
+			"/usr/local/bin/agent",
+			"--quiet",
+			"-v",
+		]);
+		expect(() => addPlistEntry(plist, [], "x", "Label")).toThrow('Key "Label" already exists');
+	});
+
+	it("stores keys that plain assignment would treat specially", () => {
+		const edited = addPlistEntry({}, [], "x", "__proto__");
+		expect(Object.keys(edited)).toEqual(["__proto__"]);
+		expect(Object.getPrototypeOf(edited)).toBe(Object.prototype);
+	});
+
+	it("rejects paths that do not exist", () => {
+		expect(() => setPlistValueAt(plist, ["Nope", "x"], 1)).toThrow('No key "Nope"');
+		expect(() => removePlistValueAt(plist, [])).toThrow("Cannot change the root dictionary");
+	});
+});
+
+describe("typed values", () => {
+	it("defaults new keys to the type launchd expects", () => {
+		expect(defaultValueForKey("KeepAlive")).toBe(false);
+		expect(defaultValueForKey("StartInterval")).toBe(0);
+		expect(defaultValueForKey("WatchPaths")).toEqual([]);
+		expect(defaultValueForKey("EnvironmentVariables")).toEqual({});
+		expect(defaultValueForKey("MyCustomKey")).toBe("");
+	});
+
+	it("parses edited text by kind", () => {
+		expect(parsePlistScalarInput("string", " spaced ")).toEqual({ value: " spaced " });
+		expect(parsePlistScalarInput("integer", "0x10")).toEqual({ value: 16 });
+		expect(parsePlistScalarInput("integer", "1.5")).toEqual({ error: "Enter a whole number" });
+		expect(parsePlistScalarInput("number", "2.5")).toEqual({ value: 2.5 });
+		expect(parsePlistScalarInput("number", "3").value).toBeInstanceOf(PlistReal);
+		expect(formatPlistScalar(new PlistReal(3))).toBe("3");
+		expect(parsePlistScalarInput("number", "")).toEqual({ error: "Enter a number" });
+		expect(parsePlistScalarInput("date", "2024-01-01")).toEqual({
+			error: "date values cannot be edited as text",
+		});
+	});
+
+	it("formats values for display", () => {
+		expect(formatPlistScalar(new Date("2024-01-02T03:04:05.678Z"))).toBe("2024-01-02T03:04:05Z");
+		expect(formatPlistScalar(new Uint8Array(3))).toBe("<3 bytes>");
+		expect(formatPlistScalar(["a"])).toBe("1 item");
+		expect(formatPlistScalar({ a: 1, b: 2 })).toBe("2 keys");
+		expect(formatPlistScalar(42)).toBe("42");
+	});
+
+	it("suggests documented keys that are not set yet", () => {
+		expect(suggestLaunchdKeys("run", plist)).toEqual([]);
+		expect(suggestLaunchdKeys("standard", plist)).toEqual([
+			"StandardInPath",
+			"StandardOutPath",
+			"StandardErrorPath",
+		]);
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Test fixtures for `ps` output parsing
+ *
+ * Captured on macOS 14 Sonoma (PIDs and values adjusted)
+ */
+
+/** `ps -o pid=,%cpu=,rss=,etime= -p ...` with every elapsed time format */
+export const PS_SAMPLES = `  412   0.0  10240 12-03:04:05
+ 1201  37.5 412880    03:04:05
+ 5678 112.3 1048576       04:05
+99999   0.1    812       00:07
+`;
+
+/** The same columns with a header (e.g. captured without the `=` suffixes) */
+export const PS_WITH_HEADER = `  PID  %CPU    RSS     ELAPSED
+ 1201  37.5 412880    03:04:05
+`;
+
+/** Decimal commas and junk lines */
+export const PS_MALFORMED = ` 1201  37,5 412880 03:04:05
+ps: illegal option -- q
+ 1202  abc 100 00:01
+ 1203  1.0 100 yesterday
+ 1204  2.0
+`;
+
+/**
+ * `ps -M -p 412,1201,5678`: one row per thread; the first row of each process has the user,
+ * terminal and command, the others only the PID and per-thread columns
+ */
+export const PS_THREADS = `USER               PID   TT   %CPU STAT PRI     STIME     UTIME COMMAND
+root               412   ??    0.0 S    31T   0:00.52   0:01.10 /usr/libexec/logd
+                   412         0.0 S    31T   0:00.01   0:00.02
+                   412         0.0 S    37T   0:00.00   0:00.00
+_backup           1201   ??   12.0 R    31T   0:10.00   1:20.00 /bin/sh /usr/local/bin/backupd-wrapper.sh
+                  1201        25.5 R    31T   0:05.00   0:40.00
+alice             5678 s003    0.3 S    31T   0:00.04   0:00.21 /Applications/Other.app/Contents/MacOS/Other -psn_0
+`;
+
+/** `ps -axo pid=,ppid=,uid=,command=`: a wrapper daemon that forks workers, plus unrelated processes */
+export const PS_PROCESS_LIST = `    1     0     0 /sbin/launchd
+  412     1     0 /usr/libexec/logd
+ 1201     1     0 /bin/sh /usr/local/bin/backupd-wrapper.sh --config /etc/backupd.conf
+ 1210  1201     0 /usr/local/bin/backupd --worker 1
+ 1205  1201    501 /usr/local/bin/backupd --worker 0
+ 1300  1210     0 /usr/bin/rsync -a /Users /Volumes/Backup
+ 2000     1   501 /Applications/Other.app/Contents/MacOS/Other
+`;
+
+/** `lsof -nP -F pftPnT -p 1201,1210`: listening, connected, UDP and Unix sockets mixed with regular files */
+export const LSOF_SOCKETS = `p1201
+fcwd
+tDIR
+n/
+f3
+tREG
+n/var/log/backupd.log
+f5
+tIPv4
+PTCP
+n*:8080
+TST=LISTEN
+TQR=0
+TQS=0
+f6
+tIPv6
+PTCP
+n[::1]:8080
+TST=LISTEN
+f7
+tIPv4
+PTCP
+n10.0.0.2:51000->17.1.1.1:443
+TST=ESTABLISHED
+f8
+tIPv4
+PUDP
+n*:*
+p1210
+f4
+tunix
+n/var/run/backupd.sock
+f9
+tIPv6
+PUDP
+n[fe80::1%lo0]:5353
+`;
@@ -0,0 +1,242 @@
+/**
+ * Unit tests for process sampling and socket parsers
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	buildProcessTree,
+	buildSignalCommand,
+	countProcesses,
+	describeProcessChange,
+	flattenProcessTree,
+	parseElapsedTime,
+	parseLsofAddress,
+	parseLsofOutput,
+	parsePsLine,
+	parsePsOutput,
+	parsePsProcessList,
+	parsePsThreadCounts,
+} from "../process/index";
+import {
+	LSOF_SOCKETS,
+	PS_MALFORMED,
+	PS_PROCESS_LIST,
+	PS_SAMPLES,
+	PS_THREADS,
+	PS_WITH_HEADER,
+} from "./process-fixtures";
+
+describe("parseElapsedTime", () => {
+	it("parses every ps elapsed format", () => {
+		expect(parseElapsedTime("00:07")).toBe(7);
+		expect(parseElapsedTime("04:05")).toBe(245);
+		expect(parseElapsedTime("03:04:05")).toBe(11_045);
+		expect(parseElapsedTime("12-03:04:05")).toBe(12 * 86_400 + 11_045);
+	});
+
+	it("rejects anything else", () => {
+		expect(parseElapsedTime("")).toBeUndefined();
+		expect(parseElapsedTime("ELAPSED")).toBeUndefined();
+		expect(parseElapsedTime("12-04:05")).toBeUndefined();
+		expect(parseElapsedTime("1:2:3:4")).toBeUndefined();
+	});
+});
+
+describe("parsePsLine", () => {
+	it("parses pid, cpu, rss and uptime", () => {
+		expect(parsePsLine(" 1201  37.5 412880    03:04:05")).toEqual({
+			pid: 1201,
+			cpu: 37.5,
+			rss: 412880,
+			uptime: 11_045,
+		});
+	});
+
+	it("returns null for short or non-numeric lines", () => {
+		expect(parsePsLine("")).toBeNull();
+		expect(parsePsLine("  PID  %CPU    RSS     ELAPSED")).toBeNull();
+		expect(parsePsLine(" 1204  2.0")).toBeNull();
+	});
+});
+
+describe("parsePsOutput", () => {
+	it("parses every process line", () => {
+		const result = parsePsOutput(PS_SAMPLES);
+		expect(result.map((sample) => sample.pid)).toEqual([412, 1201, 5678, 99999]);
+		expect(result[0]?.uptime).toBe(12 * 86_400 + 11_045);
+		expect(result[2]).toEqual({ pid: 5678, cpu: 112.3, rss: 1048576, uptime: 245 });
+	});
+
+	it("skips header lines", () => {
+		expect(parsePsOutput(PS_WITH_HEADER)).toEqual([{ pid: 1201, cpu: 37.5, rss: 412880, uptime: 11_045 }]);
+	});
+
+	it("accepts decimal commas and skips malformed lines", () => {
+		expect(parsePsOutput(PS_MALFORMED)).toEqual([{ pid: 1201, cpu: 37.5, rss: 412880, uptime: 11_045 }]);
+	});
+
+	it("handles empty output", () => {
+		expect(parsePsOutput("")).toEqual([]);
+	});
+});
+
+describe("parsePsThreadCounts", () => {
+	it("counts the thread rows of each process", () => {
+		expect(parsePsThreadCounts(PS_THREADS)).toEqual({ 412: 3, 1201: 2, 5678: 1 });
+	});
+
+	it("skips the header and malformed lines", () => {
+		expect(
+			parsePsThreadCounts("USER PID TT %CPU STAT PRI STIME UTIME COMMAND\nps: no such process\n"),
+		).toEqual({});
+		expect(parsePsThreadCounts("")).toEqual({});
+	});
+});
+
+describe("parsePsProcessList", () => {
+	it("keeps the full command line", () => {
+		const result = parsePsProcessList(PS_PROCESS_LIST);
+		expect(result.length).toBe(7);
+		expect(result[2]).toEqual({
+			pid: 1201,
+			ppid: 1,
+			uid: 0,
+			command: "/bin/sh /usr/local/bin/backupd-wrapper.sh --config /etc/backupd.conf",
+		});
+	});
+
+	it("skips lines without a command", () => {
+		expect(parsePsProcessList("  PID  PPID   UID COMMAND\n 12 1 0\n\n")).toEqual([]);
+	});
+});
+
+describe("buildProcessTree", () => {
+	const processes = parsePsProcessList(PS_PROCESS_LIST);
+
+	it("walks descendants in PID order", () => {
+		const root = buildProcessTree(processes, 1201);
+		expect(root?.command).toStartWith("/bin/sh");
+		expect(root?.children.map((child) => child.pid)).toEqual([1205, 1210]);
+		expect(root?.children[1]?.children.map((child) => child.pid)).toEqual([1300]);
+		expect(countProcesses(root)).toBe(4);
+	});
+
+	it("returns null for a process that is gone", () => {
+		expect(buildProcessTree(processes, 4242)).toBeNull();
+		expect(countProcesses(null)).toBe(0);
+	});
+
+	it("does not loop on self-parented or cyclic entries", () => {
+		const cyclic = [
+			{ pid: 10, ppid: 11, uid: 0, command: "a" },
+			{ pid: 11, ppid: 10, uid: 0, command: "b" },
+			{ pid: 12, ppid: 12, uid: 0, command: "c" },
+		];
+		expect(countProcesses(buildProcessTree(cyclic, 10))).toBe(2);
+		expect(buildProcessTree(cyclic, 12)?.children).toEqual([]);
+	});
+});
+
+describe("flattenProcessTree", () => {
+	const root = buildProcessTree(parsePsProcessList(PS_PROCESS_LIST), 1201);
+
+	it("lists rows depth first", () => {
+		expect(flattenProcessTree(root).map((row) => [row.node.pid, row.depth])).toEqual([
+			[1201, 0],
+			[1205, 1],
+			[1210, 1],
+			[1300, 2],
+		]);
+	});
+
+	it("hides children of collapsed processes", () => {
+		const rows = flattenProcessTree(root, { 1210: true });
+		expect(rows.map((row) => row.node.pid)).toEqual([1201, 1205, 1210]);
+		expect(rows[2]?.expanded).toBe(false);
+	});
+
+	it("is empty without a root", () => {
+		expect(flattenProcessTree(null)).toEqual([]);
+	});
+});
+
+describe("buildSignalCommand", () => {
+	it("uses kill with the signal name", () => {
+		expect(buildSignalCommand(1210, "TERM")).toEqual(["kill", "-TERM", "1210"]);
+		expect(buildSignalCommand(1210, "KILL")).toEqual(["kill", "-KILL", "1210"]);
+	});
+});
+
+describe("describeProcessChange", () => {
+	const tree = { pid: 1210, ppid: 1201, uid: 0, command: "/usr/local/bin/backupd --worker 1" };
+
+	it("accepts the same process", () => {
+		expect(describeProcessChange(tree, { ...tree })).toBeNull();
+	});
+
+	it("reports an exited process", () => {
+		expect(describeProcessChange(tree, null)).toBe("Process 1210 has exited");
+	});
+
+	it("reports a PID reused by another process", () => {
+		const reused = { pid: 1210, ppid: 1, uid: 501, command: "/usr/bin/vim" };
+		expect(describeProcessChange(tree, reused)).toBe("Process 1210 is now /usr/bin/vim");
+		expect(describeProcessChange(tree, { ...tree, ppid: 1 })).not.toBeNull();
+	});
+});
+
+describe("parseLsofAddress", () => {
+	it("splits local and remote ends", () => {
+		expect(parseLsofAddress("*:8080")).toEqual({ address: "*", port: 8080, remote: undefined });
+		expect(parseLsofAddress("[::1]:5432")).toEqual({ address: "[::1]", port: 5432, remote: undefined });
+		expect(parseLsofAddress("10.0.0.2:51000->17.1.1.1:443")).toEqual({
+			address: "10.0.0.2",
+			port: 51000,
+			remote: "17.1.1.1:443",
+		});
+	});
+
+	it("leaves unbound ports and odd names without a port", () => {
+		expect(parseLsofAddress("*:*")).toEqual({ address: "*", port: undefined, remote: undefined });
+		expect(parseLsofAddress("no-port")).toEqual({ address: "no-port", remote: undefined });
+	});
+});
+
+describe("parseLsofOutput", () => {
+	it("keeps only sockets, tagged with their process", () => {
+		const sockets = parseLsofOutput(LSOF_SOCKETS);
+		expect(sockets.map((s) => `${s.pid}/${s.fd}`)).toEqual([
+			"1201/5",
+			"1201/6",
+			"1201/7",
+			"1201/8",
+			"1210/4",
+			"1210/9",
+		]);
+	});
+
+	it("reads protocol, address, port and TCP state", () => {
+		const [listener, ipv6, connected, udp, unix, linkLocal] = parseLsofOutput(LSOF_SOCKETS);
+		expect(listener).toEqual({
+			pid: 1201,
+			fd: "5",
+			family: "IPv4",
+			protocol: "TCP",
+			address: "*",
+			port: 8080,
+			remote: undefined,
+			state: "LISTEN",
+		});
+		expect(ipv6?.address).toBe("[::1]");
+		expect(connected?.remote).toBe("17.1.1.1:443");
+		expect(connected?.state).toBe("ESTABLISHED");
+		expect(udp?.port).toBeUndefined();
+		expect(udp?.state).toBeUndefined();
+		expect(unix).toEqual({ pid: 1210, fd: "4", family: "unix", address: "/var/run/backupd.sock" });
+		expect(linkLocal?.port).toBe(5353);
+	});
+
+	it("returns nothing for empty output", () => {
+		expect(parseLsofOutput("")).toEqual([]);
+	});
+});
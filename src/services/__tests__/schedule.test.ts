@@ -0,0 +1,133 @@
+/**
+ * Unit tests for schedule evaluation and descriptions
+ */
+
+import { describe, expect, it } from "bun:test";
+import { describeCalendarSchedule, describeStartInterval, nextCalendarFireTimes } from "../schedule";
+
+/** Local time as "YYYY-MM-DD HH:MM", so expectations do not depend on the time zone */
+function local(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Wednesday 2024-01-10 12:00 local time
+const FROM = new Date(2024, 0, 10, 12, 0);
+
+describe("nextCalendarFireTimes", () => {
+	it("fires daily at a fixed time, starting after `from`", () => {
+		expect(nextCalendarFireTimes({ hour: 9, minute: 30 }, FROM, 3).map(local)).toEqual([
+			"2024-01-11 09:30",
+			"2024-01-12 09:30",
+			"2024-01-13 09:30",
+		]);
+		expect(nextCalendarFireTimes({ hour: 12, minute: 0 }, FROM, 1).map(local)).toEqual(["2024-01-11 12:00"]);
+	});
+
+	it("treats missing keys as wildcards", () => {
+		expect(nextCalendarFireTimes({ minute: 15 }, FROM, 2).map(local)).toEqual([
+			"2024-01-10 12:15",
+			"2024-01-10 13:15",
+		]);
+		expect(nextCalendarFireTimes({ hour: 13 }, FROM, 2).map(local)).toEqual([
+			"2024-01-10 13:00",
+			"2024-01-10 13:01",
+		]);
+		expect(nextCalendarFireTimes({}, FROM, 1).map(local)).toEqual(["2024-01-10 12:01"]);
+	});
+
+	it("treats weekday 0 and 7 as Sunday", () => {
+		const sunday = ["2024-01-14 04:00", "2024-01-21 04:00"];
+		expect(nextCalendarFireTimes({ weekday: 0, hour: 4, minute: 0 }, FROM, 2).map(local)).toEqual(sunday);
+		expect(nextCalendarFireTimes({ weekday: 7, hour: 4, minute: 0 }, FROM, 2).map(local)).toEqual(sunday);
+	});
+
+	it("merges arrays of intervals in time order without duplicates", () => {
+		const weekdays = [1, 2, 3, 4, 5].map((weekday) => ({ weekday, hour: 9, minute: 30 }));
+		expect(
+			nextCalendarFireTimes([...weekdays, { weekday: 5, hour: 9, minute: 30 }], FROM, 4).map(local),
+		).toEqual(["2024-01-11 09:30", "2024-01-12 09:30", "2024-01-15 09:30", "2024-01-16 09:30"]);
+	});
+
+	it("fires on either the day or the weekday when both are set", () => {
+		expect(nextCalendarFireTimes({ day: 1, weekday: 1, hour: 0, minute: 0 }, FROM, 4).map(local)).toEqual([
+			"2024-01-15 00:00",
+			"2024-01-22 00:00",
+			"2024-01-29 00:00",
+			"2024-02-01 00:00",
+		]);
+	});
+
+	it("honours the month and skips months without the day", () => {
+		expect(nextCalendarFireTimes({ day: 31, hour: 3, minute: 0 }, FROM, 3).map(local)).toEqual([
+			"2024-01-31 03:00",
+			"2024-03-31 03:00",
+			"2024-05-31 03:00",
+		]);
+		expect(nextCalendarFireTimes({ month: 2, day: 29, hour: 0, minute: 0 }, FROM, 2).map(local)).toEqual([
+			"2024-02-29 00:00",
+			"2028-02-29 00:00",
+		]);
+	});
+
+	it("never fires for out-of-range or impossible dates", () => {
+		expect(nextCalendarFireTimes({ hour: 24, minute: 0 }, FROM)).toEqual([]);
+		expect(nextCalendarFireTimes({ month: 2, day: 30 }, FROM)).toEqual([]);
+	});
+});
+
+describe("describeCalendarSchedule", () => {
+	it("describes common schedules", () => {
+		expect(describeCalendarSchedule({ hour: 3, minute: 0 })).toBe("Daily at 03:00");
+		expect(describeCalendarSchedule({ minute: 15 })).toBe("Every hour at :15");
+		expect(describeCalendarSchedule({})).toBe("Every minute");
+		expect(describeCalendarSchedule({ weekday: 0, hour: 4, minute: 0 })).toBe("Sundays at 04:00");
+		expect(describeCalendarSchedule({ weekday: 7, hour: 4, minute: 0 })).toBe("Sundays at 04:00");
+		expect(describeCalendarSchedule({ day: 1, hour: 0, minute: 0 })).toBe(
+			"On the 1st of every month at 00:00",
+		);
+		expect(describeCalendarSchedule({ month: 1, day: 22, hour: 8, minute: 5 })).toBe(
+			"On January 22nd at 08:05",
+		);
+		expect(describeCalendarSchedule({ month: 3, minute: 0, hour: 6 })).toBe("Daily in March at 06:00");
+	});
+
+	it("warns that an hour without a minute fires every minute", () => {
+		expect(describeCalendarSchedule({ hour: 9 })).toBe("Daily every minute from 09:00 to 09:59");
+	});
+
+	it("collapses weekday arrays", () => {
+		const at = (weekdays: number[]) => weekdays.map((weekday) => ({ weekday, hour: 9, minute: 30 }));
+		expect(describeCalendarSchedule(at([1, 2, 3, 4, 5]))).toBe("Weekdays at 09:30");
+		expect(describeCalendarSchedule(at([0, 6]))).toBe("Weekends at 09:30");
+		expect(describeCalendarSchedule(at([1, 3, 5]))).toBe("Mon, Wed, Fri at 09:30");
+		expect(describeCalendarSchedule(at([0, 1, 2, 3, 4, 5, 6]))).toBe("Daily at 09:30");
+	});
+
+	it("lists several times on the same days together", () => {
+		expect(
+			describeCalendarSchedule([
+				{ hour: 3, minute: 0 },
+				{ hour: 15, minute: 0 },
+			]),
+		).toBe("Daily at 03:00 and 15:00");
+		expect(
+			describeCalendarSchedule([
+				{ weekday: 1, hour: 9, minute: 0 },
+				{ weekday: 5, hour: 17, minute: 0 },
+			]),
+		).toBe("Mondays at 09:00; Fridays at 17:00");
+	});
+});
+
+describe("describeStartInterval", () => {
+	it("uses the largest whole unit", () => {
+		expect(describeStartInterval(1)).toBe("Every second");
+		expect(describeStartInterval(30)).toBe("Every 30 seconds");
+		expect(describeStartInterval(300)).toBe("Every 5 minutes");
+		expect(describeStartInterval(3600)).toBe("Every hour");
+		expect(describeStartInterval(5400)).toBe("Every 90 minutes");
+		expect(describeStartInterval(172_800)).toBe("Every 2 days");
+		expect(describeStartInterval(3700)).toBe("Every 3700s (~1h01m)");
+	});
+});
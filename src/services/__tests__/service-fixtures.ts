@@ -0,0 +1,36 @@
+/**
+ * Service fixtures shared by the service tests
+ */
+
+import type { Service } from "../../types";
+
+/** A running third-party user agent; tests override the fields they check */
+export function createMockAgent(overrides: Partial<Service> = {}): Service {
+	return {
+		id: "gui-com.example.agent",
+		label: "com.example.agent",
+		displayName: "agent",
+		type: "LaunchAgent",
+		domain: "gui",
+		status: "running",
+		protection: "normal",
+		enabled: true,
+		isAppleService: false,
+		requiresRoot: false,
+		...overrides,
+	};
+}
+
+/** A running third-party system daemon with its plist in /Library/LaunchDaemons */
+export function createMockDaemon(overrides: Partial<Service> = {}): Service {
+	return createMockAgent({
+		id: "system-com.example.helper",
+		label: "com.example.helper",
+		displayName: "helper",
+		type: "LaunchDaemon",
+		domain: "system",
+		plistPath: "/Library/LaunchDaemons/com.example.helper.plist",
+		requiresRoot: true,
+		...overrides,
+	});
+}
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for per-service history
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AuditRecord, ServiceEvent, ServiceHistoryEntry } from "../../types";
+import {
+	addServiceHistory,
+	appendServiceHistoryEntries,
+	historyEntriesFromChanges,
+	historyEntryFromAudit,
+	parseServiceHistory,
+	readServiceHistory,
+} from "../servicehistory";
+import { createMockAgent } from "./service-fixtures";
+
+function entry(time: number, serviceId = "a", message = `at ${time}`): ServiceHistoryEntry {
+	return { time, serviceId, kind: "status", message };
+}
+
+const NOW = 1_700_000_000_000;
+
+describe("historyEntriesFromChanges", () => {
+	it("records status and enabled changes, then PID and exit events", () => {
+		const changes = [
+			{
+				previous: createMockAgent({ pid: 42 }),
+				current: createMockAgent({ status: "stopped", enabled: false, exitStatus: -11 }),
+			},
+		];
+		const events: ServiceEvent[] = [
+			{
+				time: NOW,
+				serviceId: "gui-com.example.agent",
+				label: "com.example.agent",
+				kind: "crashed",
+				message: "PID 42 exited after SIGSEGV",
+				exitStatus: -11,
+			},
+		];
+		expect(historyEntriesFromChanges(changes, events, NOW)).toEqual([
+			{ time: NOW, serviceId: "gui-com.example.agent", kind: "status", message: "running → stopped" },
+			{ time: NOW, serviceId: "gui-com.example.agent", kind: "status", message: "Disabled" },
+			{
+				time: NOW,
+				serviceId: "gui-com.example.agent",
+				kind: "exit",
+				message: "PID 42 exited after SIGSEGV",
+				failed: true,
+			},
+		]);
+	});
+
+	it("files events with a PID as PID changes", () => {
+		const events: ServiceEvent[] = [
+			{ time: NOW, serviceId: "a", label: "a", kind: "started", message: "Started as PID 7", pid: 7 },
+		];
+		expect(historyEntriesFromChanges([], events, NOW)).toEqual([
+			{ time: NOW, serviceId: "a", kind: "pid", message: "Started as PID 7" },
+		]);
+	});
+});
+
+describe("historyEntryFromAudit", () => {
+	it("names the action and marks failures and CLI runs", () => {
+		const record: AuditRecord = {
+			timestamp: new Date(NOW).toISOString(),
+			user: "alice",
+			source: "cli",
+			action: "stop",
+			serviceId: "gui-com.example.agent",
+			label: "com.example.agent",
+			domain: "gui",
+			command: "launchctl bootout gui/501/com.example.agent",
+			sudo: false,
+			dryRun: false,
+			success: false,
+			message: "Failed to stop service",
+			attempts: 1,
+		};
+		expect(historyEntryFromAudit(record)).toEqual({
+			time: NOW,
+			serviceId: "gui-com.example.agent",
+			kind: "action",
+			message: "stop (cli): Failed to stop service",
+			failed: true,
+		});
+	});
+});
+
+describe("addServiceHistory", () => {
+	it("keeps each service newest first and bounded", () => {
+		const history = addServiceHistory({ a: [entry(3), entry(1)] }, [entry(2), entry(4), entry(5, "b")], 3);
+		expect(history.a?.map((e) => e.time)).toEqual([4, 3, 2]);
+		expect(history.b?.map((e) => e.time)).toEqual([5]);
+	});
+
+	it("lists entries added together in reverse order of addition", () => {
+		const history = addServiceHistory({}, [entry(1, "a", "first"), entry(1, "a", "second")], 10);
+		expect(history.a?.map((e) => e.message)).toEqual(["second", "first"]);
+	});
+});
+
+describe("parseServiceHistory", () => {
+	it("skips malformed lines and unknown kinds", () => {
+		const text = [
+			JSON.stringify(entry(1)),
+			"{not json",
+			JSON.stringify({ ...entry(2), kind: "other" }),
+			JSON.stringify(entry(3)),
+		].join("\n");
+		expect(parseServiceHistory(text).map((e) => e.time)).toEqual([1, 3]);
+	});
+});
+
+describe("appendServiceHistoryEntries / readServiceHistory", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-history-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("round-trips entries, keeping the newest per service", async () => {
+		const path = join(dir, "nested", "service-history.jsonl");
+		await appendServiceHistoryEntries([entry(1), entry(2), entry(5, "b")], 2, path);
+		await appendServiceHistoryEntries([entry(3)], 2, path);
+
+		const history = await readServiceHistory(2, path);
+		expect(history.a?.map((e) => e.time)).toEqual([3, 2]);
+		expect(history.b?.map((e) => e.time)).toEqual([5]);
+		// Reading leaves the file alone
+		expect(parseServiceHistory(readFileSync(path, "utf8")).map((e) => e.time)).toEqual([1, 2, 5, 3]);
+	});
+
+	it("compacts the file when an append passes the size limit", async () => {
+		const path = join(dir, "service-history.jsonl");
+		await appendServiceHistoryEntries([entry(1), entry(2), entry(3, "b")], 2, path, 1000);
+		expect(parseServiceHistory(readFileSync(path, "utf8"))).toHaveLength(3);
+
+		await appendServiceHistoryEntries([entry(4, "a", "x".repeat(1000))], 2, path, 1000);
+		expect(parseServiceHistory(readFileSync(path, "utf8")).map((e) => e.time)).toEqual([2, 3, 4]);
+	});
+
+	it("loses no entries when appends overlap", async () => {
+		const path = join(dir, "service-history.jsonl");
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) =>
+				appendServiceHistoryEntries([entry(i, `s${i % 4}`)], 50, path, 200),
+			),
+		);
+		const history = await readServiceHistory(50, path);
+		expect(Object.values(history).flat()).toHaveLength(20);
+	});
+
+	it("treats a missing file as empty history", async () => {
+		expect(await readServiceHistory(10, join(dir, "missing.jsonl"))).toEqual({});
+	});
+});
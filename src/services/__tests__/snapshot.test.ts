@@ -0,0 +1,164 @@
+/**
+ * Unit tests for inventory snapshots
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ServiceSnapshot, SnapshotService } from "../../types";
+import {
+	buildSnapshot,
+	diffSnapshots,
+	isEmptySnapshotDiff,
+	listSnapshots,
+	parseSnapshot,
+	readSnapshot,
+	SNAPSHOT_VERSION,
+	snapshotDiffLines,
+	summarizeSnapshotDiff,
+	writeSnapshot,
+} from "../snapshot";
+import { createMockAgent } from "./service-fixtures";
+
+function service(overrides: Partial<SnapshotService> = {}): SnapshotService {
+	return createMockAgent({
+		pid: 100,
+		plistPath: "/Users/me/Library/LaunchAgents/com.example.agent.plist",
+		...overrides,
+	});
+}
+
+const CREATED = new Date("2024-01-10T09:30:00.000Z");
+
+function snapshot(services: SnapshotService[]): ServiceSnapshot {
+	return buildSnapshot(services, CREATED, "mac");
+}
+
+describe("buildSnapshot", () => {
+	it("records the version and host and sorts services by ID", () => {
+		const built = snapshot([service({ id: "b" }), service({ id: "a" })]);
+		expect(built.version).toBe(SNAPSHOT_VERSION);
+		expect(built.createdAt).toBe("2024-01-10T09:30:00.000Z");
+		expect(built.hostname).toBe("mac");
+		expect(built.services.map((s) => s.id)).toEqual(["a", "b"]);
+	});
+});
+
+describe("parseSnapshot", () => {
+	it("round-trips a built snapshot", () => {
+		const built = snapshot([service()]);
+		expect(parseSnapshot(JSON.stringify(built))).toEqual(built);
+	});
+
+	it("rejects files that are not snapshots", () => {
+		expect(() => parseSnapshot("not json")).toThrow("Not a service snapshot: invalid JSON");
+		expect(() => parseSnapshot('{"services": []}')).toThrow("Not a service snapshot");
+		expect(() => parseSnapshot("[]")).toThrow("Not a service snapshot");
+	});
+
+	it("rejects snapshots from a newer version", () => {
+		const text = JSON.stringify({ version: SNAPSHOT_VERSION + 1, services: [] });
+		expect(() => parseSnapshot(text)).toThrow(`Snapshot version ${SNAPSHOT_VERSION + 1} is newer`);
+	});
+});
+
+describe("diffSnapshots", () => {
+	it("finds added and removed services", () => {
+		const kept = service({ id: "kept", label: "kept" });
+		const diff = diffSnapshots(
+			snapshot([kept, service({ id: "old", label: "old" })]),
+			snapshot([kept, service({ id: "new", label: "new", enabled: false })]),
+		);
+		expect(diff.added.map((s) => s.id)).toEqual(["new"]);
+		expect(diff.added[0]?.enabled).toBe(false);
+		expect(diff.removed.map((s) => s.id)).toEqual(["old"]);
+		expect(diff.changed).toEqual([]);
+	});
+
+	it("reports field changes but not run state", () => {
+		const diff = diffSnapshots(
+			snapshot([service()]),
+			snapshot([service({ enabled: false, status: "stopped", pid: undefined })]),
+		);
+		expect(diff.changed).toEqual([
+			{
+				id: "gui-com.example.agent",
+				label: "com.example.agent",
+				fields: [{ field: "enabled", before: "yes", after: "no" }],
+				plistDiff: [],
+			},
+		]);
+	});
+
+	it("diffs plist contents when both snapshots have them", () => {
+		const before = "<dict>\n\t<key>RunAtLoad</key>\n\t<false/>\n</dict>";
+		const after = "<dict>\n\t<key>RunAtLoad</key>\n\t<true/>\n</dict>";
+		const diff = diffSnapshots(snapshot([service({ plist: before })]), snapshot([service({ plist: after })]));
+		expect(diff.changed[0]?.plistDiff).toContain("-\t<false/>");
+		expect(diff.changed[0]?.plistDiff).toContain("+\t<true/>");
+
+		const unreadable = diffSnapshots(snapshot([service({ plist: before })]), snapshot([service()]));
+		expect(isEmptySnapshotDiff(unreadable)).toBe(true);
+	});
+});
+
+describe("snapshotDiffLines", () => {
+	it("lays out non-empty sections with headings", () => {
+		const diff = diffSnapshots(
+			snapshot([service({ id: "gone", label: "gone" }), service()]),
+			snapshot([service({ enabled: false })]),
+		);
+		expect(snapshotDiffLines(diff).map((line) => [line.kind, line.text])).toEqual([
+			["heading", "Removed (1)"],
+			["removed", "- gone (LaunchAgent, gui)"],
+			["heading", "Changed (1)"],
+			["changed", "~ com.example.agent"],
+			["field", "    enabled: yes → no"],
+		]);
+	});
+
+	it("has no lines for an empty diff", () => {
+		expect(snapshotDiffLines(diffSnapshots(snapshot([service()]), snapshot([service()])))).toEqual([]);
+	});
+});
+
+describe("summarizeSnapshotDiff", () => {
+	it("counts enable/disable changes", () => {
+		const diff = diffSnapshots(
+			snapshot([service()]),
+			snapshot([service({ enabled: false }), service({ id: "new", label: "new" })]),
+		);
+		expect(summarizeSnapshotDiff(diff)).toBe("1 added, 0 removed, 1 changed (1 enable/disable)");
+	});
+});
+
+describe("snapshot files", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "msm-snapshot-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("writes and reads a snapshot, creating the directory", async () => {
+		const built = snapshot([service()]);
+		const path = join(dir, "nested", "snapshot-20240110-093000.json");
+		await writeSnapshot(built, path);
+		expect(await readSnapshot(path)).toEqual(built);
+	});
+
+	it("lists snapshots newest first", async () => {
+		writeFileSync(join(dir, "snapshot-20240101-000000.json"), "{}");
+		writeFileSync(join(dir, "snapshot-20240301-000000.json"), "{}");
+		writeFileSync(join(dir, "notes.txt"), "");
+		expect(await listSnapshots(dir)).toEqual([
+			join(dir, "snapshot-20240301-000000.json"),
+			join(dir, "snapshot-20240101-000000.json"),
+		]);
+		expect(await listSnapshots(join(dir, "missing"))).toEqual([]);
+	});
+});
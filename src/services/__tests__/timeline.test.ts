@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the scheduled-jobs timeline
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { PlistMetadata, Service } from "../../types";
+import { buildScheduleTimeline, hasSchedule, sortByNextRun, timelineBucketHours } from "../timeline";
+import { createMockAgent } from "./service-fixtures";
+
+function service(label: string, plistMetadata: PlistMetadata, overrides: Partial<Service> = {}): Service {
+	return createMockAgent({
+		id: `gui-${label}`,
+		label,
+		displayName: label,
+		status: "stopped",
+		plistMetadata,
+		...overrides,
+	});
+}
+
+// Wednesday 2024-01-10 12:20 local time
+const NOW = new Date(2024, 0, 10, 12, 20);
+
+const updater = service("com.example.updater", { startCalendarInterval: { hour: 15, minute: 0 } });
+const backup = service("com.example.backup", {
+	startCalendarInterval: [
+		{ hour: 15, minute: 0 },
+		{ hour: 3, minute: 30 },
+	],
+});
+const poller = service("com.example.poller", { startInterval: 1800 });
+const disabled = service(
+	"com.example.disabled",
+	{ startCalendarInterval: { hour: 15, minute: 0 } },
+	{ enabled: false, status: "disabled" },
+);
+
+describe("hasSchedule", () => {
+	it("requires a calendar interval or a positive StartInterval", () => {
+		expect(hasSchedule(updater)).toBe(true);
+		expect(hasSchedule(poller)).toBe(true);
+		expect(hasSchedule(service("a", { startInterval: 0 }))).toBe(false);
+		expect(hasSchedule(service("b", { runAtLoad: true }))).toBe(false);
+	});
+});
+
+describe("timelineBucketHours", () => {
+	it("picks the smallest bucket that fits", () => {
+		expect(timelineBucketHours("day", 24)).toBe(1);
+		expect(timelineBucketHours("day", 20)).toBe(2);
+		expect(timelineBucketHours("week", 168)).toBe(1);
+		expect(timelineBucketHours("week", 30)).toBe(6);
+		expect(timelineBucketHours("week", 3)).toBe(24);
+	});
+});
+
+describe("sortByNextRun", () => {
+	it("orders by next run, with jobs that will not run last", () => {
+		const sorted = sortByNextRun([disabled, backup, poller, updater], NOW);
+		expect(sorted.map((s) => s.label)).toEqual([
+			"com.example.poller",
+			"com.example.backup",
+			"com.example.updater",
+			"com.example.disabled",
+		]);
+	});
+});
+
+describe("buildScheduleTimeline", () => {
+	it("aligns buckets to the bucket boundary before now", () => {
+		const timeline = buildScheduleTimeline([], "day", 6, NOW);
+		expect(timeline.buckets.map((bucket) => bucket.getHours())).toEqual([12, 18, 0, 6]);
+		expect(timeline.start).toEqual(new Date(2024, 0, 10, 12));
+		expect(timeline.end).toEqual(new Date(2024, 0, 11, 12));
+	});
+
+	it("counts calendar runs per bucket", () => {
+		const [job] = buildScheduleTimeline([backup], "day", 6, NOW).jobs;
+		expect(job?.counts).toEqual([1, 0, 1, 0]);
+		expect(job?.nextRun).toEqual(new Date(2024, 0, 10, 15, 0));
+		expect(job?.approximate).toBe(false);
+	});
+
+	it("counts StartInterval runs from now", () => {
+		const [job] = buildScheduleTimeline([poller], "day", 6, NOW).jobs;
+		// 12:50, 13:20 ... 17:50 in the first bucket; 48 runs before 12:20 the next day
+		expect(job?.counts).toEqual([11, 12, 12, 12]);
+		expect(job?.nextRun).toEqual(new Date(2024, 0, 10, 12, 50));
+		expect(job?.approximate).toBe(true);
+	});
+
+	it("reports calendar jobs firing in the same minute", () => {
+		const timeline = buildScheduleTimeline([updater, backup, poller, disabled], "day", 6, NOW);
+		expect(timeline.collisions).toEqual([
+			{ time: new Date(2024, 0, 10, 15, 0), labels: ["com.example.updater", "com.example.backup"] },
+		]);
+		expect(timeline.collisionCounts).toEqual([1, 0, 0, 0]);
+		expect(timeline.jobs.map((job) => job.collides[0])).toEqual([true, true, false, false]);
+	});
+
+	it("lists inactive jobs without counting them", () => {
+		const timeline = buildScheduleTimeline([updater, disabled], "day", 6, NOW);
+		expect(timeline.jobs.map((job) => job.inactive)).toEqual([false, true]);
+		expect(timeline.jobs[1]?.counts).toEqual([1, 0, 0, 0]);
+		expect(timeline.totals).toEqual([1, 0, 0, 0]);
+		expect(timeline.collisions).toEqual([]);
+	});
+
+	it("skips services without a schedule", () => {
+		expect(buildScheduleTimeline([service("x", {})], "week", 24, NOW).jobs).toEqual([]);
+	});
+});
@@ -0,0 +1,50 @@
+/**
+ * Test fixtures for unified log output parsing
+ *
+ * Captured from `log show` / `log stream` on macOS 14 Sonoma
+ * (trimmed to the fields the parser reads)
+ */
+
+// ============================================================================
+// ndjson style (`--style ndjson`)
+// ============================================================================
+
+/** `log show --style ndjson` output, including the trailing summary object */
+export const NDJSON_SHOW = `{"traceID":8726463234113540,"eventMessage":"Starting backup run","eventType":"logEvent","subsystem":"com.example.backup","category":"scheduler","threadID":1204991,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:23:45.123456-0800","messageType":"Default","processID":4321}
+{"traceID":8726463234113541,"eventMessage":"Resolved 42 paths","eventType":"logEvent","subsystem":"com.example.backup","category":"scheduler","threadID":1204991,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:23:45.234567-0800","messageType":"Info","processID":4321}
+{"traceID":8726463234113542,"eventMessage":"stat() cache hit","eventType":"logEvent","subsystem":"com.example.backup","category":"fs","threadID":1204992,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:23:45.345678-0800","messageType":"Debug","processID":4321}
+{"traceID":8726463234113543,"eventMessage":"Failed to open /Volumes/Backup: No such file or directory","eventType":"logEvent","subsystem":"com.example.backup","category":"fs","threadID":1204992,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:23:46.000001-0800","messageType":"Error","processID":4321}
+{"traceID":8726463234113544,"eventMessage":"Assertion failed: queue != NULL","eventType":"logEvent","subsystem":"","category":"","threadID":1204993,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:23:46.100000-0800","messageType":"Fault","processID":4321}
+{"count":5,"finished":1}
+`;
+
+/** `log stream --style ndjson` output starts with a plain-text filter header */
+export const NDJSON_STREAM = `Filtering the log data using "subsystem == \\"com.example.backup\\""
+{"eventMessage":"Heartbeat","eventType":"logEvent","subsystem":"com.example.backup","category":"","processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:30:00.000000-0800","messageType":"Default","processID":4321}
+{"eventMessage":"Heartbeat","eventType":"logEvent","subsystem":"com.example.backup","category":"","processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:30:05.000000-0800","messageType":"Default","processID":4321}
+`;
+
+/** Non-message events (activities) have no eventMessage and are skipped */
+export const NDJSON_ACTIVITY = `{"eventType":"activityCreateEvent","activityIdentifier":1234,"processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:31:00.000000-0800","processID":4321}
+{"eventMessage":"After activity","eventType":"logEvent","processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:31:00.100000-0800","messageType":"Default","processID":4321}
+`;
+
+/** Truncated JSON (e.g. the stream was killed mid-line) */
+export const NDJSON_TRUNCATED = `{"eventMessage":"Complete","eventType":"logEvent","processImagePath":"/usr/local/bin/backupd","timestamp":"2024-01-15 10:32:00.000000-0800","messageType":"Default","processID":4321}
+{"eventMessage":"Incompl`;
+
+// ============================================================================
+// compact style (`--style compact`)
+// ============================================================================
+
+/** `log show --style compact` output with header line */
+export const COMPACT_SHOW = `Timestamp               Ty Process[PID:TID]
+2024-01-15 10:23:45.123 Df backupd[4321:1263b] [com.example.backup:scheduler] Starting backup run
+2024-01-15 10:23:45.234 I  backupd[4321:1263b] [com.example.backup:scheduler] Resolved 42 paths
+2024-01-15 10:23:45.345 Db backupd[4321:1263c] [com.example.backup:fs] stat() cache hit
+2024-01-15 10:23:46.000 E  backupd[4321:1263c] [com.example.backup:fs] Failed to open /Volumes/Backup
+2024-01-15 10:23:46.100 F  Backup Helper[4322:1263d] Assertion failed: queue != NULL
+`;
+
+/** Empty output */
+export const LOG_EMPTY = ``;
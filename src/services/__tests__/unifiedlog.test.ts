@@ -0,0 +1,184 @@
+/**
+ * Unit tests for unified log parsing functions
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { LogEntry } from "../../types";
+import {
+	buildLogPredicate,
+	filterLogEntries,
+	getLogLevelFlags,
+	parseLogChunk,
+	parseLogLine,
+	parseLogOutput,
+} from "../unifiedlog/index";
+import {
+	COMPACT_SHOW,
+	LOG_EMPTY,
+	NDJSON_ACTIVITY,
+	NDJSON_SHOW,
+	NDJSON_STREAM,
+	NDJSON_TRUNCATED,
+} from "./unifiedlog-fixtures";
+
+describe("parseLogOutput", () => {
+	it("parses ndjson log show output", () => {
+		const result = parseLogOutput(NDJSON_SHOW);
+		expect(result.length).toBe(5);
+		expect(result[0]).toEqual({
+			timestamp: "2024-01-15 10:23:45.123456-0800",
+			level: "default",
+			process: "backupd",
+			pid: 4321,
+			subsystem: "com.example.backup",
+			category: "scheduler",
+			message: "Starting backup run",
+		});
+	});
+
+	it("maps ndjson message types to levels", () => {
+		const result = parseLogOutput(NDJSON_SHOW);
+		expect(result.map((e) => e.level)).toEqual(["default", "info", "debug", "error", "fault"]);
+	});
+
+	it("omits empty subsystem and category", () => {
+		const result = parseLogOutput(NDJSON_SHOW);
+		expect(result[4]?.subsystem).toBeUndefined();
+		expect(result[4]?.category).toBeUndefined();
+	});
+
+	it("skips the log stream filter header", () => {
+		const result = parseLogOutput(NDJSON_STREAM);
+		expect(result.length).toBe(2);
+		expect(result[1]?.timestamp).toBe("2024-01-15 10:30:05.000000-0800");
+	});
+
+	it("skips events without a message", () => {
+		const result = parseLogOutput(NDJSON_ACTIVITY);
+		expect(result.length).toBe(1);
+		expect(result[0]?.message).toBe("After activity");
+	});
+
+	it("skips truncated JSON lines", () => {
+		const result = parseLogOutput(NDJSON_TRUNCATED);
+		expect(result.length).toBe(1);
+		expect(result[0]?.message).toBe("Complete");
+	});
+
+	it("parses compact style output", () => {
+		const result = parseLogOutput(COMPACT_SHOW);
+		expect(result.length).toBe(5);
+		expect(result[0]).toEqual({
+			timestamp: "2024-01-15 10:23:45.123",
+			level: "default",
+			process: "backupd",
+			pid: 4321,
+			subsystem: "com.example.backup",
+			category: "scheduler",
+			message: "Starting backup run",
+		});
+		expect(result.map((e) => e.level)).toEqual(["default", "info", "debug", "error", "fault"]);
+	});
+
+	it("parses compact lines with spaces in the process name and no subsystem", () => {
+		const result = parseLogOutput(COMPACT_SHOW);
+		expect(result[4]?.process).toBe("Backup Helper");
+		expect(result[4]?.pid).toBe(4322);
+		expect(result[4]?.subsystem).toBeUndefined();
+		expect(result[4]?.message).toBe("Assertion failed: queue != NULL");
+	});
+
+	it("returns empty array for empty output", () => {
+		expect(parseLogOutput(LOG_EMPTY)).toEqual([]);
+	});
+});
+
+describe("parseLogLine", () => {
+	it("returns null for blank and unrecognised lines", () => {
+		expect(parseLogLine("")).toBeNull();
+		expect(parseLogLine("   ")).toBeNull();
+		expect(parseLogLine("Timestamp               Ty Process[PID:TID]")).toBeNull();
+		expect(parseLogLine('{"count":5,"finished":1}')).toBeNull();
+	});
+});
+
+describe("parseLogChunk", () => {
+	it("carries partial lines between chunks", () => {
+		const lines = NDJSON_STREAM.split("\n");
+		const firstEntry = lines[1] ?? "";
+		const splitAt = Math.floor(firstEntry.length / 2);
+
+		const first = parseLogChunk("", `${lines[0]}\n${firstEntry.slice(0, splitAt)}`);
+		expect(first.entries).toEqual([]);
+		expect(first.rest).toBe(firstEntry.slice(0, splitAt));
+
+		const second = parseLogChunk(first.rest, `${firstEntry.slice(splitAt)}\n`);
+		expect(second.entries.length).toBe(1);
+		expect(second.entries[0]?.message).toBe("Heartbeat");
+		expect(second.rest).toBe("");
+	});
+
+	it("returns everything as rest when no newline has arrived", () => {
+		const result = parseLogChunk("abc", "def");
+		expect(result.entries).toEqual([]);
+		expect(result.rest).toBe("abcdef");
+	});
+});
+
+describe("filterLogEntries", () => {
+	const entries: LogEntry[] = parseLogOutput(NDJSON_SHOW);
+
+	it("keeps everything at debug level", () => {
+		expect(filterLogEntries(entries, "debug").length).toBe(5);
+	});
+
+	it("drops debug at info level", () => {
+		expect(filterLogEntries(entries, "info").map((e) => e.level)).toEqual([
+			"default",
+			"info",
+			"error",
+			"fault",
+		]);
+	});
+
+	it("drops info and debug at default level", () => {
+		expect(filterLogEntries(entries, "default").map((e) => e.level)).toEqual(["default", "error", "fault"]);
+	});
+
+	it("keeps errors and faults at error level", () => {
+		expect(filterLogEntries(entries, "error").map((e) => e.level)).toEqual(["error", "fault"]);
+	});
+});
+
+describe("getLogLevelFlags", () => {
+	it("requests info and debug messages only when needed", () => {
+		expect(getLogLevelFlags("debug")).toEqual(["--info", "--debug"]);
+		expect(getLogLevelFlags("info")).toEqual(["--info"]);
+		expect(getLogLevelFlags("default")).toEqual([]);
+		expect(getLogLevelFlags("error")).toEqual([]);
+	});
+});
+
+describe("buildLogPredicate", () => {
+	it("matches subsystem only when nothing else is known", () => {
+		expect(buildLogPredicate({ label: "com.example.backup" })).toBe('subsystem == "com.example.backup"');
+	});
+
+	it("includes PID and program process name", () => {
+		expect(
+			buildLogPredicate({ label: "com.example.backup", pid: 4321, program: "/usr/local/bin/backupd" }),
+		).toBe('subsystem == "com.example.backup" OR processID == 4321 OR process == "backupd"');
+	});
+
+	it("ignores non-positive PIDs", () => {
+		expect(buildLogPredicate({ label: "com.example.backup", pid: 0 })).toBe(
+			'subsystem == "com.example.backup"',
+		);
+	});
+
+	it("escapes quotes and backslashes", () => {
+		expect(buildLogPredicate({ label: "com.example", program: '/opt/we"ird\\name' })).toBe(
+			'subsystem == "com.example" OR process == "we\\"ird\\\\name"',
+		);
+	});
+});
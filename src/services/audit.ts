@@ -0,0 +1,137 @@
+/**
+ * Action audit log
+ * Appends one JSON record per executed (or dry-run) service action to
+ * audit.jsonl in the user's config directory
+ */
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { userInfo } from "node:os";
+import { dirname, join } from "node:path";
+import type { ActionResult, AuditAction, AuditRecord, AuditSource, Service } from "../types";
+import { getConfigDir } from "../utils/paths";
+
+/** Audit log file name inside the config directory */
+const AUDIT_LOG_FILE = "audit.jsonl";
+
+/**
+ * Get the audit log path
+ */
+export function getAuditLogPath(env: NodeJS.ProcessEnv = process.env): string {
+	return join(getConfigDir(env), AUDIT_LOG_FILE);
+}
+
+/**
+ * Get the person running the app; under sudo this is the invoking user, not root
+ */
+export function getAuditUser(env: NodeJS.ProcessEnv = process.env): string {
+	if (env.SUDO_USER) return env.SUDO_USER;
+	try {
+		return userInfo().username;
+	} catch {
+		return env.USER ?? "unknown";
+	}
+}
+
+export interface AuditRecordInput {
+	action: AuditAction;
+	service: Pick<Service, "id" | "label" | "domain">;
+	command: string;
+	sudo: boolean;
+	dryRun: boolean;
+	result: ActionResult;
+	source: AuditSource;
+	user?: string;
+	timestamp?: Date;
+}
+
+/**
+ * Build an audit record for an action result
+ */
+export function buildAuditRecord(input: AuditRecordInput): AuditRecord {
+	const { action, service, command, sudo, dryRun, result, source } = input;
+	const record: AuditRecord = {
+		timestamp: (input.timestamp ?? new Date()).toISOString(),
+		user: input.user ?? getAuditUser(),
+		source,
+		action,
+		serviceId: service.id,
+		label: service.label,
+		domain: service.domain,
+		command,
+		sudo,
+		dryRun,
+		success: result.success,
+		message: result.message,
+		attempts: result.retryInfo?.attempts ?? 1,
+	};
+	if (result.error) record.error = result.error;
+	return record;
+}
+
+/**
+ * Parse audit log contents, newest first
+ * Lines that are not valid records (e.g. a torn final write) are skipped
+ */
+export function parseAuditLog(text: string): AuditRecord[] {
+	const records: AuditRecord[] = [];
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		try {
+			const parsed = JSON.parse(trimmed) as Partial<AuditRecord>;
+			if (typeof parsed.timestamp === "string" && typeof parsed.label === "string" && parsed.action) {
+				records.push(parsed as AuditRecord);
+			}
+		} catch {
+			// Skip malformed lines
+		}
+	}
+	return records.reverse();
+}
+
+/**
+ * Filter audit records by a case-insensitive query
+ * Matches label, action, command, user and the words "ok", "failed" and "dry-run"
+ */
+export function filterAuditRecords(records: AuditRecord[], query: string): AuditRecord[] {
+	const needle = query.trim().toLowerCase();
+	if (!needle) return records;
+
+	return records.filter((record) => {
+		const haystack = [
+			record.label,
+			record.action,
+			record.command,
+			record.user,
+			record.success ? "ok" : "failed",
+			record.dryRun ? "dry-run" : "",
+		]
+			.join(" ")
+			.toLowerCase();
+		return haystack.includes(needle);
+	});
+}
+
+/**
+ * Append a record to the audit log, creating the directory if needed
+ */
+export async function appendAuditRecord(
+	record: AuditRecord,
+	path: string = getAuditLogPath(),
+): Promise<void> {
+	await mkdir(dirname(path), { recursive: true });
+	await appendFile(path, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Read the audit log, newest first
+ * A missing log is an empty history
+ */
+export async function readAuditRecords(path: string = getAuditLogPath()): Promise<AuditRecord[]> {
+	try {
+		return parseAuditLog(await readFile(path, "utf8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+		throw error;
+	}
+}
@@ -0,0 +1,160 @@
+/**
+ * Code signatures of service executables
+ * Wraps `codesign -dvvv`, which prints the signature details on stderr, and
+ * `spctl --assess` for Gatekeeper's notarization verdict
+ */
+
+import type { CodeSignature, FilterOptions, NotarizationStatus, Service, SystemExtension } from "../types";
+import { execCommand } from "./launchctl/exec";
+
+/**
+ * Parse `codesign -dvvv` output
+ * Unsigned files are reported with exit code 1 and "code object is not signed at all";
+ * any other failure (missing file, no permission) gives status "unknown".
+ */
+export function parseCodesignOutput(output: string, exitCode: number): CodeSignature {
+	if (/code object is not signed at all/.test(output)) {
+		return { status: "unsigned" };
+	}
+	if (exitCode !== 0) {
+		const error = output
+			.split("\n")
+			.map((line) => line.trim())
+			.find(Boolean);
+		return error ? { status: "unknown", error } : { status: "unknown" };
+	}
+
+	const fields = new Map<string, string>();
+	// Authority repeats once per certificate, leaf first
+	const authorities: string[] = [];
+	for (const line of output.split("\n")) {
+		const separator = line.indexOf("=");
+		if (separator <= 0) continue;
+		const key = line.slice(0, separator).trim();
+		const value = line.slice(separator + 1).trim();
+		if (key === "Authority") authorities.push(value);
+		else fields.set(key, value);
+	}
+
+	const codeDirectory = fields.get("CodeDirectory v");
+	const codeDirectoryFlags = /flags=0x[0-9a-f]+\(([^)]*)\)/.exec(codeDirectory ?? "")?.[1]?.split(",") ?? [];
+	const adhoc = fields.get("Signature") === "adhoc" || codeDirectoryFlags.includes("adhoc");
+
+	const signature: CodeSignature = { status: adhoc ? "adhoc" : "signed" };
+	const identifier = fields.get("Identifier");
+	if (identifier) signature.identifier = identifier;
+	const teamId = fields.get("TeamIdentifier");
+	if (teamId && teamId !== "not set") signature.teamId = teamId;
+	if (authorities.length > 0) signature.authorities = authorities;
+	if (codeDirectory !== undefined) signature.hardenedRuntime = codeDirectoryFlags.includes("runtime");
+	return signature;
+}
+
+/** spctl sources with a verdict of their own; any other accepted source is Developer ID */
+const GATEKEEPER_SOURCES: Record<string, NotarizationStatus> = {
+	"Apple System": "apple",
+	Apple: "apple",
+	"Mac App Store": "app-store",
+	"Notarized Developer ID": "notarized",
+};
+
+/**
+ * Parse `spctl --assess -vv` output into a notarization verdict
+ * The first line is "<path>: accepted" or "<path>: rejected", followed by `source=`
+ * Output without a verdict (spctl failed) gives no fields.
+ */
+export function parseSpctlOutput(output: string): Pick<CodeSignature, "notarization" | "gatekeeperSource"> {
+	const verdict = /: (accepted|rejected)\b/m.exec(output)?.[1];
+	if (!verdict) return {};
+
+	const source = /^source=(.+)$/m.exec(output)?.[1]?.trim();
+	const notarization =
+		verdict === "rejected"
+			? "rejected"
+			: ((source ? GATEKEEPER_SOURCES[source] : undefined) ?? "developer-id");
+	return source ? { notarization, gatekeeperSource: source } : { notarization };
+}
+
+/**
+ * Read the code signature of an executable with `codesign -dvvv`, and for signed
+ * code ask Gatekeeper whether it is notarized
+ */
+export async function readCodeSignature(path: string): Promise<CodeSignature> {
+	const result = await execCommand("codesign", ["-dvvv", path]);
+	const signature = parseCodesignOutput(`${result.stdout}${result.stderr}`, result.exitCode);
+	if (signature.status !== "signed") return signature;
+
+	// The primary-signature context assesses a bare executable, which `--type execute` rejects as "not an app"
+	const assessment = await execCommand("spctl", [
+		"--assess",
+		"-vv",
+		"--type",
+		"open",
+		"--context",
+		"context:primary-signature",
+		path,
+	]);
+	return { ...signature, ...parseSpctlOutput(`${assessment.stdout}${assessment.stderr}`) };
+}
+
+/**
+ * One-line summary of a notarization verdict
+ */
+export function describeNotarization(notarization: NotarizationStatus | undefined): string {
+	switch (notarization) {
+		case "apple":
+			return "Apple";
+		case "app-store":
+			return "Mac App Store";
+		case "notarized":
+			return "notarized";
+		case "developer-id":
+			return "Developer ID, not notarized";
+		case "rejected":
+			return "rejected by Gatekeeper";
+		default:
+			return "not assessed";
+	}
+}
+
+/**
+ * Team ID a service is signed by: its program's, or the one systemextensionsctl reports
+ */
+export function signatureTeamId(
+	service: Service,
+	signature: CodeSignature | null | undefined,
+): string | undefined {
+	return signature?.teamId ?? (service as SystemExtension).teamId;
+}
+
+/**
+ * Whether a service passes the signing and team ID filters
+ * A service whose signature has not been read yet only passes when both are off.
+ */
+export function matchesSignatureFilter(
+	service: Service,
+	signature: CodeSignature | null | undefined,
+	filter: Pick<FilterOptions, "signing" | "teamId">,
+): boolean {
+	if (filter.teamId !== null && signatureTeamId(service, signature) !== filter.teamId) return false;
+
+	switch (filter.signing) {
+		case "all":
+			return true;
+		case "apple":
+			return signature?.notarization === "apple";
+		case "notarized":
+			return signature?.notarization === "notarized" || signature?.notarization === "app-store";
+		case "not-notarized":
+			return (
+				signature?.status === "signed" &&
+				signature.notarization !== "apple" &&
+				signature.notarization !== "notarized" &&
+				signature.notarization !== "app-store"
+			);
+		case "adhoc":
+			return signature?.status === "adhoc";
+		case "unsigned":
+			return signature?.status === "unsigned";
+	}
+}
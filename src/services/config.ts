@@ -0,0 +1,230 @@
+/**
+ * User configuration
+ * Reads config.json from the config directory: default filter and sort, auto-refresh,
+ * offline threshold, editor and confirmation policy. Unset settings keep their defaults;
+ * unknown keys and invalid values are reported together so startup can show them all.
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { AppConfig, ConfirmPolicy, FilterOptions, ServiceAction, SortOptions } from "../types";
+import { getConfigDir } from "../utils/paths";
+
+/** Config file name inside the config directory */
+const CONFIG_FILE = "config.json";
+
+/** Shortest auto-refresh interval accepted, so a typo cannot poll launchctl in a loop */
+const MIN_REFRESH_INTERVAL_MS = 1000;
+
+const FILTER_CHOICES = {
+	type: ["all", "LaunchDaemon", "LaunchAgent", "SystemExtension"],
+	domain: ["all", "system", "user", "gui"],
+	status: ["all", "running", "stopped", "disabled", "error", "not-loaded", "unknown"],
+	loaded: ["all", "loaded", "unloaded"],
+	signing: ["all", "apple", "notarized", "not-notarized", "adhoc", "unsigned"],
+} as const satisfies Partial<Record<keyof FilterOptions, readonly string[]>>;
+
+const SORT_CHOICES = {
+	field: ["label", "status", "type", "domain", "pid", "cpu", "memory", "uptime"],
+	direction: ["asc", "desc"],
+} as const satisfies Record<keyof SortOptions, readonly string[]>;
+
+const CONFIRM_POLICIES: readonly ConfirmPolicy[] = ["always", "destructive", "never"];
+
+/** Actions the "destructive" policy still asks about; reload is `kickstart -kp`, which kills the process */
+const DESTRUCTIVE_ACTIONS: readonly ServiceAction[] = ["stop", "reload", "disable", "unload"];
+
+/** A validated config, and every problem found in the file */
+export interface ConfigValidation {
+	config: AppConfig;
+	errors: string[];
+}
+
+/**
+ * Get the path of the config file
+ */
+export function getConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+	return join(getConfigDir(env), CONFIG_FILE);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** One object of the file; problems are recorded under their dotted key */
+interface Section {
+	values: Record<string, unknown>;
+	prefix: string;
+	errors: string[];
+}
+
+/** Report keys a section does not have */
+function allowKeys(section: Section, keys: readonly string[]): void {
+	for (const key of Object.keys(section.values)) {
+		if (!keys.includes(key)) section.errors.push(`Unknown setting "${section.prefix}${key}"`);
+	}
+}
+
+function readSection(parent: Section, key: string): Section {
+	const value = parent.values[key];
+	if (value !== undefined && !isRecord(value)) {
+		parent.errors.push(`${parent.prefix}${key} must be an object`);
+	}
+	return { values: isRecord(value) ? value : {}, prefix: `${parent.prefix}${key}.`, errors: parent.errors };
+}
+
+function readChoice<T extends string>(section: Section, key: string, choices: readonly T[], fallback: T): T {
+	const value = section.values[key];
+	if (value === undefined) return fallback;
+	const choice = choices.find((c) => c === value);
+	if (choice === undefined) {
+		section.errors.push(`${section.prefix}${key} must be one of: ${choices.join(", ")}`);
+		return fallback;
+	}
+	return choice;
+}
+
+function readBoolean(section: Section, key: string, fallback: boolean): boolean {
+	const value = section.values[key];
+	if (value === undefined) return fallback;
+	if (typeof value !== "boolean") {
+		section.errors.push(`${section.prefix}${key} must be true or false`);
+		return fallback;
+	}
+	return value;
+}
+
+function readInteger(section: Section, key: string, min: number, fallback: number): number {
+	const value = section.values[key];
+	if (value === undefined) return fallback;
+	if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+		section.errors.push(`${section.prefix}${key} must be a whole number of at least ${min}`);
+		return fallback;
+	}
+	return value;
+}
+
+/** A non-empty string, or null to unset it */
+function readString(section: Section, key: string, fallback: string | null): string | null {
+	const value = section.values[key];
+	if (value === undefined) return fallback;
+	if (value !== null && (typeof value !== "string" || value.trim() === "")) {
+		section.errors.push(`${section.prefix}${key} must be a non-empty string or null`);
+		return fallback;
+	}
+	return value === null ? null : value.trim();
+}
+
+/**
+ * Validate parsed config file contents against the defaults
+ * Invalid settings keep their default value and add an error.
+ */
+export function validateConfig(raw: unknown, defaults: AppConfig): ConfigValidation {
+	const errors: string[] = [];
+	if (!isRecord(raw)) {
+		return { config: defaults, errors: ["The config must be a JSON object"] };
+	}
+
+	const root: Section = { values: raw, prefix: "", errors };
+	allowKeys(root, ["filter", "sort", "autoRefresh", "offlineThreshold", "editor", "confirm"]);
+
+	const filter = readSection(root, "filter");
+	allowKeys(filter, [...Object.keys(FILTER_CHOICES), "teamId", "showAppleServices", "showProtected"]);
+	const sort = readSection(root, "sort");
+	allowKeys(sort, Object.keys(SORT_CHOICES));
+	const autoRefresh = readSection(root, "autoRefresh");
+	allowKeys(autoRefresh, ["enabled", "activeIntervalMs", "idleIntervalMs"]);
+
+	const config: AppConfig = {
+		filter: {
+			type: readChoice(filter, "type", FILTER_CHOICES.type, defaults.filter.type),
+			domain: readChoice(filter, "domain", FILTER_CHOICES.domain, defaults.filter.domain),
+			status: readChoice(filter, "status", FILTER_CHOICES.status, defaults.filter.status),
+			loaded: readChoice(filter, "loaded", FILTER_CHOICES.loaded, defaults.filter.loaded),
+			signing: readChoice(filter, "signing", FILTER_CHOICES.signing, defaults.filter.signing),
+			teamId: readString(filter, "teamId", defaults.filter.teamId),
+			showAppleServices: readBoolean(filter, "showAppleServices", defaults.filter.showAppleServices),
+			showProtected: readBoolean(filter, "showProtected", defaults.filter.showProtected),
+		},
+		sort: {
+			field: readChoice(sort, "field", SORT_CHOICES.field, defaults.sort.field),
+			direction: readChoice(sort, "direction", SORT_CHOICES.direction, defaults.sort.direction),
+		},
+		autoRefresh: {
+			enabled: readBoolean(autoRefresh, "enabled", defaults.autoRefresh.enabled),
+			activeIntervalMs: readInteger(
+				autoRefresh,
+				"activeIntervalMs",
+				MIN_REFRESH_INTERVAL_MS,
+				defaults.autoRefresh.activeIntervalMs,
+			),
+			idleIntervalMs: readInteger(
+				autoRefresh,
+				"idleIntervalMs",
+				MIN_REFRESH_INTERVAL_MS,
+				defaults.autoRefresh.idleIntervalMs,
+			),
+		},
+		offlineThreshold: readInteger(root, "offlineThreshold", 1, defaults.offlineThreshold),
+		editor: readString(root, "editor", defaults.editor),
+		confirm: readChoice(root, "confirm", CONFIRM_POLICIES, defaults.confirm),
+	};
+
+	if (config.autoRefresh.idleIntervalMs < config.autoRefresh.activeIntervalMs) {
+		errors.push("autoRefresh.idleIntervalMs must not be shorter than autoRefresh.activeIntervalMs");
+	}
+	return { config, errors };
+}
+
+/**
+ * Parse and validate config file text
+ */
+export function parseConfig(text: string, defaults: AppConfig): ConfigValidation {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : "parse error";
+		return { config: defaults, errors: [`Invalid JSON: ${reason}`] };
+	}
+	return validateConfig(raw, defaults);
+}
+
+/**
+ * Load the config file, or the defaults when there is none
+ * Throws with every problem listed when the file cannot be read or is invalid.
+ */
+export async function loadConfig(
+	defaults: AppConfig,
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<AppConfig> {
+	const path = getConfigPath(env);
+	let text: string;
+	try {
+		text = await readFile(path, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return defaults;
+		throw new Error(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	const { config, errors } = parseConfig(text, defaults);
+	if (errors.length > 0) {
+		throw new Error(`Invalid config ${path}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+	}
+	return config;
+}
+
+/**
+ * Whether an action asks for confirmation under a policy
+ * Start is `kickstart -k`, so it is destructive when it would restart a running process.
+ */
+export function requiresConfirmation(action: ServiceAction, policy: ConfirmPolicy, running = false): boolean {
+	switch (policy) {
+		case "always":
+			return true;
+		case "destructive":
+			return DESTRUCTIVE_ACTIONS.includes(action) || (action === "start" && running);
+		case "never":
+			return false;
+	}
+}
@@ -0,0 +1,173 @@
+/**
+ * File tailing for service output files (StandardOutPath / StandardErrorPath)
+ * Polls the file with stat() and follows appends, truncation and rotation
+ */
+
+import { stat } from "node:fs/promises";
+import type { FileChangeNotice } from "../types";
+
+/** Bytes read from the end of the file when tailing starts */
+const INITIAL_TAIL_BYTES = 64 * 1024;
+
+/** Snapshot of the followed file */
+export interface TailPosition {
+	/** Inode of the file being followed (changes on rotation) */
+	ino: number;
+	/** Bytes consumed so far */
+	offset: number;
+}
+
+/** What happened to the file since the last poll */
+export type FileChange = "unchanged" | "appended" | "truncated" | "rotated";
+
+/**
+ * Compare the followed position against the file's current stat
+ */
+export function detectFileChange(position: TailPosition, current: { ino: number; size: number }): FileChange {
+	if (current.ino !== position.ino) return "rotated";
+	if (current.size < position.offset) return "truncated";
+	if (current.size > position.offset) return "appended";
+	return "unchanged";
+}
+
+/**
+ * Split text into complete lines, carrying the trailing partial line
+ */
+export function splitLines(pending: string, chunk: string): { lines: string[]; rest: string } {
+	const text = pending + chunk;
+	const lastNewline = text.lastIndexOf("\n");
+	if (lastNewline === -1) {
+		return { lines: [], rest: text };
+	}
+
+	return {
+		lines: text.slice(0, lastNewline).split("\n"),
+		rest: text.slice(lastNewline + 1),
+	};
+}
+
+/**
+ * Find indices of lines containing the query (case-insensitive)
+ */
+export function searchLines(lines: string[], query: string): number[] {
+	if (!query) return [];
+	const needle = query.toLowerCase();
+	const matches: number[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i]?.toLowerCase().includes(needle)) matches.push(i);
+	}
+	return matches;
+}
+
+/**
+ * Expand a leading ~ to the user's home directory
+ */
+export function expandHomePath(path: string): string {
+	if (path === "~" || path.startsWith("~/")) {
+		return `${process.env.HOME ?? ""}${path.slice(1)}`;
+	}
+	return path;
+}
+
+/** Handle for a running tail */
+export interface FileTailHandle {
+	stop: () => void;
+}
+
+export interface FileTailOptions {
+	pollIntervalMs: number;
+	/**
+	 * Called with new complete lines
+	 * `reset` is set when the buffer should be replaced (truncation, rotation)
+	 */
+	onLines: (lines: string[], reset: FileChangeNotice | null) => void;
+	onError: (error: string | null) => void;
+}
+
+/**
+ * Read a byte range of a file
+ */
+async function readRange(path: string, start: number, end: number): Promise<Uint8Array> {
+	return new Uint8Array(await Bun.file(path).slice(start, end).arrayBuffer());
+}
+
+/**
+ * Follow a file, reporting new lines as they are appended
+ */
+export function tailFile(rawPath: string, options: FileTailOptions): FileTailHandle {
+	const { pollIntervalMs, onLines, onError } = options;
+	const path = expandHomePath(rawPath);
+
+	let position: TailPosition | null = null;
+	let pending = "";
+	// Streaming, so a character split across two appends decodes once both halves are read
+	let decoder = new TextDecoder();
+	let stopped = false;
+	let polling = false;
+	let lastError: string | null = null;
+
+	const reportError = (error: string | null) => {
+		if (error === lastError) return;
+		lastError = error;
+		onError(error);
+	};
+
+	const poll = async () => {
+		if (polling || stopped) return;
+		polling = true;
+
+		try {
+			const info = await stat(path);
+			const current = { ino: info.ino, size: info.size };
+			reportError(null);
+
+			if (!position) {
+				// First read: start near the end and drop the partial first line
+				const start = Math.max(0, current.size - INITIAL_TAIL_BYTES);
+				let text = decoder.decode(await readRange(path, start, current.size), { stream: true });
+				if (start > 0) text = text.slice(text.indexOf("\n") + 1);
+				const { lines, rest } = splitLines("", text);
+				pending = rest;
+				position = { ino: current.ino, offset: current.size };
+				if (!stopped) onLines(lines, null);
+				return;
+			}
+
+			const change = detectFileChange(position, current);
+			if (change === "unchanged") return;
+
+			const start = change === "appended" ? position.offset : 0;
+			if (change !== "appended") {
+				pending = "";
+				decoder = new TextDecoder();
+			}
+
+			const chunk = decoder.decode(await readRange(path, start, current.size), { stream: true });
+			const { lines, rest } = splitLines(pending, chunk);
+			pending = rest;
+			position = { ino: current.ino, offset: current.size };
+			if (!stopped) onLines(lines, change === "appended" ? null : change);
+		} catch (error) {
+			const code = (error as NodeJS.ErrnoException).code;
+			if (code === "ENOENT") {
+				// Rotated away and not yet recreated: pick it up from the start when it returns
+				if (position) position = { ino: -1, offset: 0 };
+				reportError(`Waiting for ${path} to be created`);
+			} else {
+				reportError(error instanceof Error ? error.message : `Failed to read ${path}`);
+			}
+		} finally {
+			polling = false;
+		}
+	};
+
+	poll();
+	const timer = setInterval(poll, pollIntervalMs);
+
+	return {
+		stop: () => {
+			stopped = true;
+			clearInterval(timer);
+		},
+	};
+}
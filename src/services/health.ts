@@ -0,0 +1,132 @@
+/**
+ * Crash and flapping detection from successive service lists
+ *
+ * `launchctl list` reports a job's PID and the exit status of its last run. A new
+ * PID means the job was (re)started and a PID that disappears means it exited;
+ * the exit status says how the previous run ended. A positive status or a crash
+ * signal (reported as a negative status) is a crash. A job seen with a new PID
+ * `threshold` times within `windowMs` is flapping, as a KeepAlive job does when
+ * launchd keeps respawning it.
+ */
+
+import type { ServiceAlert, ServiceChange, ServiceEvent, ServiceEventKind } from "../types";
+
+/** Signals that mean the process crashed rather than being asked to stop */
+const CRASH_SIGNALS: Record<number, string> = {
+	4: "SIGILL",
+	5: "SIGTRAP",
+	6: "SIGABRT",
+	8: "SIGFPE",
+	10: "SIGBUS",
+	11: "SIGSEGV",
+	12: "SIGSYS",
+};
+
+const OTHER_SIGNALS: Record<number, string> = {
+	1: "SIGHUP",
+	2: "SIGINT",
+	3: "SIGQUIT",
+	9: "SIGKILL",
+	15: "SIGTERM",
+};
+
+export interface FlapDetectionOptions {
+	/** New PIDs within the window that make a service flapping */
+	threshold: number;
+	windowMs: number;
+}
+
+export interface ServiceEventDetection {
+	/** New events, in service order */
+	events: ServiceEvent[];
+	/** Restart times per service, pruned to the window */
+	restarts: Record<string, number[]>;
+}
+
+/**
+ * Describe a `launchctl list` exit status, e.g. "exit status 1" or "SIGSEGV"
+ */
+export function describeExitStatus(status: number): string {
+	if (status >= 0) return `exit status ${status}`;
+	const signal = -status;
+	return CRASH_SIGNALS[signal] ?? OTHER_SIGNALS[signal] ?? `signal ${signal}`;
+}
+
+/**
+ * Whether an exit status means the run crashed
+ */
+export function isCrashExit(status: number | undefined): boolean {
+	if (status === undefined || status === 0) return false;
+	return status > 0 || CRASH_SIGNALS[-status] !== undefined;
+}
+
+/**
+ * Whether an event should raise a badge and a notification
+ */
+export function isAlertEvent(event: ServiceEvent): event is ServiceEvent & { kind: ServiceAlert } {
+	return event.kind === "crashed" || event.kind === "flapping";
+}
+
+function formatWindow(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	return seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+}
+
+/**
+ * Turn the changes between two refreshes into events, and track restarts for flapping
+ */
+export function detectServiceEvents(
+	changes: ServiceChange[],
+	restarts: Record<string, number[]>,
+	now: number,
+	options: FlapDetectionOptions,
+): ServiceEventDetection {
+	const events: ServiceEvent[] = [];
+	const nextRestarts: Record<string, number[]> = {};
+	for (const [serviceId, times] of Object.entries(restarts)) {
+		const recent = times.filter((time) => now - time < options.windowMs);
+		if (recent.length > 0) nextRestarts[serviceId] = recent;
+	}
+
+	for (const { previous, current } of changes) {
+		// A running job's exit status can only change along with its PID
+		const pidChanged = previous.pid !== current.pid;
+		if (!pidChanged && (current.pid !== undefined || previous.exitStatus === current.exitStatus)) continue;
+
+		const status = current.exitStatus;
+		const crashed = isCrashExit(status);
+		const ended = status !== undefined && status !== 0 ? ` after ${describeExitStatus(status)}` : "";
+		const add = (kind: ServiceEventKind, message: string) =>
+			events.push({
+				time: now,
+				serviceId: current.id,
+				label: current.label,
+				kind,
+				message,
+				...(current.pid !== undefined ? { pid: current.pid } : {}),
+				...(status !== undefined ? { exitStatus: status } : {}),
+			});
+
+		let ran = true;
+		if (current.pid !== undefined && previous.pid !== undefined) {
+			add(crashed ? "crashed" : "restarted", `Restarted as PID ${current.pid}${ended}`);
+		} else if (current.pid !== undefined) {
+			add("started", `Started as PID ${current.pid}`);
+		} else if (previous.pid !== undefined) {
+			ran = false;
+			add(crashed ? "crashed" : "exited", `PID ${previous.pid} exited${ended}`);
+		} else {
+			// Started and exited again between two refreshes
+			add(crashed ? "crashed" : "exited", `Ran and exited${ended}`);
+		}
+		if (!ran) continue;
+
+		const times = [...(nextRestarts[current.id] ?? []), now];
+		nextRestarts[current.id] = times;
+		if (times.length === options.threshold) {
+			add("flapping", `Restarted ${times.length} times in ${formatWindow(options.windowMs)}`);
+		}
+	}
+
+	return { events, restarts: nextRestarts };
+}
@@ -3,11 +3,127 @@
  * Combines launchctl and systemextensionsctl services
  */
 
-import type { ActionResult, FilterOptions, Service, ServiceAction, SortField, SortOptions } from "../types";
+import { join } from "node:path";
+import type {
+	ActionResult,
+	AuditSource,
+	CodeSignature,
+	FilterOptions,
+	InventoryFormat,
+	LogEntry,
+	LogLevelFilter,
+	LookupMatch,
+	OpenSocket,
+	PersistenceAssessment,
+	ProcessNode,
+	ProcessSample,
+	ProcessSignalRequest,
+	Service,
+	ServiceAction,
+	ServiceEvent,
+	ServiceHistory,
+	ServiceHistoryEntry,
+	ServiceInspection,
+	ServiceInventory,
+	ServiceSnapshot,
+	SnapshotService,
+	SortField,
+	SortOptions,
+} from "../types";
+import { mapWithConcurrency } from "../utils/concurrency";
 import { fuzzyMatchService } from "../utils/fuzzy";
-import { executeServiceAction, listServices as listLaunchServices } from "./launchctl/index";
-import { getMockServices } from "./mock";
+import { timestampedFileName } from "../utils/paths";
+import { type AuditRecordInput, appendAuditRecord, buildAuditRecord, readAuditRecords } from "./audit";
+import { matchesSignatureFilter, parseCodesignOutput, parseSpctlOutput, readCodeSignature } from "./codesign";
+import {
+	buildServiceInventory,
+	INVENTORY_EXTENSIONS,
+	type InventoryContext,
+	writeInventory,
+} from "./inventory";
+import {
+	type CreateServiceOptions,
+	type CreateServiceResult,
+	createService,
+	executeServiceAction,
+	fetchServiceMetadata,
+	findPlistPath,
+	formatActionCommand,
+	getPlistMetadata,
+	inspectService,
+	listServices as listLaunchServices,
+	parseServiceInspection,
+	requiresRoot,
+	type SaveServicePlistOptions,
+	saveServicePlist,
+	shouldUseSudo,
+	toPlistMetadata,
+} from "./launchctl/index";
+import { findServicesByLookup, type LookupContext, parseLookupQuery } from "./lookup";
+import {
+	getMockAuditFileSystem,
+	getMockCodesignResult,
+	getMockLogEntries,
+	getMockLogEntry,
+	getMockLsofOutput,
+	getMockPlist,
+	getMockPrintOutput,
+	getMockProcessList,
+	getMockProcessSamples,
+	getMockServices,
+	getMockSpctlResult,
+} from "./mock";
+import { getNewServiceDomain, getNewServicePlistPath, type NewServiceSpec } from "./newservice";
+import { sendDesktopNotification } from "./notify";
+import {
+	AUDIT_REPORT_EXTENSIONS,
+	type AuditReportFormat,
+	assessService,
+	auditedProgram,
+	buildAuditReport,
+	defaultAuditFileSystem,
+	getReportDir,
+	isAuditedService,
+	sortAssessments,
+	writeAuditReport,
+} from "./persistence";
+import {
+	mapToPlistData,
+	type PlistDict,
+	type PlistDocument,
+	type PlistFormat,
+	readPlistDocument,
+	serializePlist,
+	serializePlistXml,
+} from "./plist";
+import {
+	buildProcessTree,
+	buildSignalCommand,
+	flattenProcessTree,
+	listOpenSockets,
+	listPortSockets,
+	listProcesses,
+	parseLsofOutput,
+	processNeedsSudo,
+	sampleProcesses,
+	signalProcess,
+} from "./process/index";
+import {
+	addServiceHistory,
+	appendServiceHistoryEntries,
+	historyEntryFromAudit,
+	readServiceHistory,
+} from "./servicehistory";
+import { buildSnapshot, getSnapshotDir, writeSnapshot } from "./snapshot";
 import { listSystemExtensions } from "./systemextensions";
+import { hasSchedule } from "./timeline";
+import {
+	filterLogEntries,
+	type LogStreamHandle,
+	type LogStreamOptions,
+	showServiceLogs,
+	streamServiceLogs,
+} from "./unifiedlog/index";
 
 /**
  * Check if running on macOS
@@ -23,7 +139,6 @@ export function isMacOS(): boolean {
 export async function fetchAllServices(): Promise<Service[]> {
 	if (!isMacOS()) {
 		// Return mock data for non-macOS systems (development/testing)
-		console.log("Not running on macOS - using mock data");
 		return getMockServices();
 	}
 
@@ -53,6 +168,21 @@ export async function fetchAllServices(): Promise<Service[]> {
 	}
 }
 
+/**
+ * Find a service by its exact label, with plist metadata merged in
+ * Used where there is no lazy-loading store (e.g. the CLI)
+ */
+export async function findServiceByLabel(label: string): Promise<Service | undefined> {
+	const services = await fetchAllServices();
+	const service = services.find((s) => s.label === label);
+	if (!service || !isMacOS() || service.type === "SystemExtension") {
+		return service;
+	}
+
+	const metadata = await fetchServiceMetadata(service);
+	return { ...service, ...metadata };
+}
+
 /**
  * Result of fuzzy filtering with match metadata
  */
@@ -70,8 +200,13 @@ export interface FilteredService {
  * Filter services based on filter options with fuzzy search
  * Returns services sorted by match score when a search query is present
  */
-export function filterServices(services: Service[], filter: FilterOptions, searchQuery: string): Service[] {
-	const results = filterServicesWithScores(services, filter, searchQuery);
+export function filterServices(
+	services: Service[],
+	filter: FilterOptions,
+	searchQuery: string,
+	signatures: Record<string, CodeSignature | null> = {},
+): Service[] {
+	const results = filterServicesWithScores(services, filter, searchQuery, signatures);
 	return results.map((r) => r.service);
 }
 
@@ -83,6 +218,7 @@ export function filterServicesWithScores(
 	services: Service[],
 	filter: FilterOptions,
 	searchQuery: string,
+	signatures: Record<string, CodeSignature | null> = {},
 ): FilteredService[] {
 	const results: FilteredService[] = [];
 
@@ -102,6 +238,16 @@ export function filterServicesWithScores(
 			continue;
 		}
 
+		// Loaded state filter
+		if (filter.loaded !== "all" && (service.status !== "not-loaded") !== (filter.loaded === "loaded")) {
+			continue;
+		}
+
+		// Signing status and team ID filters (signatures are scanned while either is on)
+		if (!matchesSignatureFilter(service, signatures[service.id], filter)) {
+			continue;
+		}
+
 		// Apple services filter
 		if (!filter.showAppleServices && service.isAppleService) {
 			continue;
@@ -143,15 +289,43 @@ export function filterServicesWithScores(
 	return results;
 }
 
+/** Sort fields that need `ps` samples */
+const RESOURCE_SORT_FIELDS: Partial<Record<SortField, (sample: ProcessSample) => number>> = {
+	cpu: (sample) => sample.cpu,
+	memory: (sample) => sample.rss,
+	uptime: (sample) => sample.uptime,
+};
+
+/**
+ * Whether sorting by this field depends on process samples
+ */
+export function isResourceSortField(field: SortField): boolean {
+	return field in RESOURCE_SORT_FIELDS;
+}
+
 /**
  * Sort services based on sort options
+ * Resource fields (cpu, memory, uptime) use the given samples, keyed by PID; services
+ * without a sample always sort last
  */
-export function sortServices(services: Service[], sort: SortOptions): Service[] {
+export function sortServices(
+	services: Service[],
+	sort: SortOptions,
+	samples: Record<number, ProcessSample> = {},
+): Service[] {
 	const sorted = [...services];
+	const resourceValue = RESOURCE_SORT_FIELDS[sort.field];
 
 	sorted.sort((a, b) => {
 		let comparison = 0;
 
+		if (resourceValue) {
+			const sampleA = a.pid !== undefined ? samples[a.pid] : undefined;
+			const sampleB = b.pid !== undefined ? samples[b.pid] : undefined;
+			if (!sampleA || !sampleB) return (sampleA ? 0 : 1) - (sampleB ? 0 : 1);
+			comparison = resourceValue(sampleA) - resourceValue(sampleB);
+		}
+
 		switch (sort.field) {
 			case "label":
 				comparison = a.label.localeCompare(b.label);
@@ -183,7 +357,7 @@ export function sortServices(services: Service[], sort: SortOptions): Service[]
  * Get the next sort field in cycle
  */
 export function getNextSortField(current: SortField): SortField {
-	const fields: SortField[] = ["label", "status", "type", "domain", "pid"];
+	const fields: SortField[] = ["label", "status", "type", "domain", "pid", "cpu", "memory", "uptime"];
 	const currentIndex = fields.indexOf(current);
 	const nextIndex = (currentIndex + 1) % fields.length;
 	return fields[nextIndex] ?? "label";
@@ -230,11 +404,590 @@ export async function performServiceAction(
 	return executeServiceAction(action, service, { dryRun });
 }
 
+export interface RecordServiceActionOptions {
+	dryRun: boolean;
+	source: AuditSource;
+	/** Command that ran; defaults to the command built for the action */
+	command?: string;
+	/** Whether sudo was used; defaults to the service's root requirement */
+	sudo?: boolean;
+}
+
+/**
+ * Append the audit record for a result without failing the operation it records
+ * The CLI reports a failure on stderr; the TUI gets it back on the result to show in the footer.
+ */
+async function auditResult<T extends ActionResult>(
+	result: T,
+	input: Omit<AuditRecordInput, "result">,
+): Promise<T> {
+	try {
+		await appendAuditRecord(buildAuditRecord({ ...input, result }));
+		return result;
+	} catch (error) {
+		const auditError = `Failed to write audit log: ${error instanceof Error ? error.message : String(error)}`;
+		if (input.source === "cli") {
+			console.error(auditError);
+			return result;
+		}
+		return { ...result, auditError };
+	}
+}
+
+/**
+ * Append an audit record for a service action, returning the result as audited
+ */
+export async function recordServiceAction<T extends ActionResult & { command?: string }>(
+	action: ServiceAction,
+	service: Service,
+	result: T,
+	options: RecordServiceActionOptions,
+): Promise<T> {
+	return auditResult(result, {
+		action,
+		service,
+		command: options.command ?? result.command ?? formatActionCommand(action, service) ?? action,
+		sudo: options.sudo ?? shouldUseSudo(service.requiresRoot),
+		dryRun: options.dryRun,
+		source: options.source,
+	});
+}
+
+/**
+ * Create a new service from a wizard definition and record it in the audit log
+ */
+export async function createNewService(
+	spec: NewServiceSpec,
+	options: CreateServiceOptions & { source: AuditSource },
+): Promise<CreateServiceResult> {
+	const { dryRun = false, source } = options;
+	let result: CreateServiceResult;
+
+	if (!isMacOS()) {
+		// Mock response for development
+		const plistPath = getNewServicePlistPath(spec.scope, spec.label);
+		result = dryRun
+			? {
+					success: true,
+					message: `[DRY RUN] Would execute: write ${plistPath}`,
+					command: `write ${plistPath}`,
+					plistPath,
+				}
+			: { success: true, message: `[Mock] Would create ${spec.label} at ${plistPath}`, plistPath };
+	} else {
+		result = await createService(spec, options);
+	}
+
+	const domain = getNewServiceDomain(spec.scope);
+	return auditResult(result, {
+		action: "create",
+		service: { id: `${domain}-${spec.label}`, label: spec.label, domain },
+		command: result.command ?? `write ${result.plistPath}`,
+		sudo: spec.scope !== "userAgent",
+		dryRun,
+		source,
+	});
+}
+
+/**
+ * Inspect a loaded service with `launchctl print`
+ */
+export async function fetchServiceInspection(service: Service): Promise<ServiceInspection> {
+	if (!isMacOS()) {
+		// Parse mock output so development exercises the real parser
+		return parseServiceInspection(getMockPrintOutput(service));
+	}
+	if (service.type === "SystemExtension") {
+		throw new Error("System extensions are not managed by launchd");
+	}
+	return inspectService(service);
+}
+
+/**
+ * Sample CPU, memory and uptime for running service processes
+ */
+export async function fetchProcessSamples(pids: number[]): Promise<ProcessSample[]> {
+	if (!isMacOS()) {
+		return getMockProcessSamples(pids);
+	}
+	return sampleProcesses(pids);
+}
+
+/**
+ * Build the process tree below a running service's PID
+ * Returns null when the service has no process (or it has just exited)
+ */
+export async function fetchProcessTree(service: Service): Promise<ProcessNode | null> {
+	if (!service.pid) return null;
+	const processes = isMacOS() ? await listProcesses() : getMockProcessList(service);
+	return buildProcessTree(processes, service.pid);
+}
+
+/**
+ * List the sockets held by a running service's process and its descendants
+ * Returns an empty list when the service has no process
+ */
+export async function fetchServiceSockets(service: Service): Promise<OpenSocket[]> {
+	if (!service.pid) return [];
+	if (!isMacOS()) {
+		return parseLsofOutput(getMockLsofOutput(service));
+	}
+
+	const tree = buildProcessTree(await listProcesses(), service.pid);
+	const pids = tree ? flattenProcessTree(tree).map((row) => row.node.pid) : [service.pid];
+	return listOpenSockets(pids);
+}
+
+/** Plists read at once while scanning every service (reverse lookup, schedule timeline, snapshots) */
+const PLIST_SCAN_CONCURRENCY = 8;
+
+/**
+ * Attach plist metadata to a service that has none yet, without linting it
+ */
+async function withPlistMetadata(service: Service): Promise<Service> {
+	if (service.plistMetadata || service.type === "SystemExtension") return service;
+	if (!isMacOS()) {
+		return { ...service, plistMetadata: toPlistMetadata(mapToPlistData(getMockPlist(service))) };
+	}
+
+	const plistPath = service.plistPath ?? (await findPlistPath(service.label));
+	const { metadata } = await getPlistMetadata(plistPath);
+	return { ...service, plistPath, plistMetadata: metadata };
+}
+
+/**
+ * Resolve a reverse lookup (`:port 5432`, `:pid 1234`, `:path /usr/local/bin/foo`) to services
+ * Throws when the query is malformed or the process list cannot be read
+ */
+export async function lookupServices(services: Service[], queryText: string): Promise<LookupMatch[]> {
+	const query = parseLookupQuery(queryText);
+	const mock = !isMacOS();
+	const context: LookupContext = {};
+
+	if (query.kind !== "path") {
+		context.processes = mock ? services.flatMap(getMockProcessList) : await listProcesses();
+	}
+	if (query.kind === "port") {
+		context.sockets = mock
+			? services
+					.flatMap((service) => parseLsofOutput(getMockLsofOutput(service)))
+					.filter((socket) => socket.port === query.port)
+			: await listPortSockets(query.port);
+	}
+
+	// PIDs come from the service list; paths and declared sockets need each plist
+	const candidates =
+		query.kind === "pid"
+			? services
+			: await mapWithConcurrency(services, PLIST_SCAN_CONCURRENCY, withPlistMetadata);
+	return findServicesByLookup(candidates, query, context);
+}
+
+/**
+ * A service with its plist metadata and its plist as canonical XML, for a snapshot
+ * Canonical XML keeps a binary/XML conversion from showing up as a change. A plist
+ * that cannot be read is left out rather than failing the whole snapshot.
+ */
+async function withPlistContents(service: Service): Promise<SnapshotService> {
+	if (service.type === "SystemExtension") return service;
+
+	let withMetadata = service;
+	try {
+		withMetadata = await withPlistMetadata(service);
+	} catch {
+		// Keep what launchctl reported
+	}
+	try {
+		const document = await loadServicePlist(withMetadata);
+		return { ...withMetadata, plist: serializePlistXml(document.value) };
+	} catch {
+		return withMetadata;
+	}
+}
+
+/**
+ * Snapshot every service on the live system, reading each plist
+ */
+export async function captureSnapshot(): Promise<ServiceSnapshot> {
+	const services = await fetchAllServices();
+	return buildSnapshot(await mapWithConcurrency(services, PLIST_SCAN_CONCURRENCY, withPlistContents));
+}
+
+/**
+ * Snapshot the live system and save it, by default to a timestamped file in the snapshot directory
+ */
+export async function saveLiveSnapshot(path?: string): Promise<{ path: string; snapshot: ServiceSnapshot }> {
+	const snapshot = await captureSnapshot();
+	const target =
+		path ?? join(getSnapshotDir(), timestampedFileName("snapshot", new Date(snapshot.createdAt), "json"));
+	await writeSnapshot(snapshot, target);
+	return { path: target, snapshot };
+}
+
+/**
+ * Every service with a StartInterval or StartCalendarInterval schedule, with its plist metadata
+ */
+export async function fetchScheduledServices(services: Service[]): Promise<Service[]> {
+	const withMetadata = await mapWithConcurrency(services, PLIST_SCAN_CONCURRENCY, withPlistMetadata);
+	return withMetadata.filter(hasSchedule);
+}
+
+/**
+ * Score every third-party launchd job for persistence risk, reading each plist and
+ * checking each program's code signature
+ * A plist that cannot be read is audited with what launchctl reported.
+ */
+export async function runPersistenceAudit(services: Service[]): Promise<PersistenceAssessment[]> {
+	const fs = isMacOS() ? defaultAuditFileSystem : getMockAuditFileSystem();
+	const audited = await mapWithConcurrency(
+		services.filter(isAuditedService),
+		PLIST_SCAN_CONCURRENCY,
+		async (service) => {
+			try {
+				return await withPlistMetadata(service);
+			} catch {
+				return service;
+			}
+		},
+	);
+
+	const programs = [
+		...new Set(
+			audited.flatMap((service) => {
+				const program = auditedProgram(service);
+				return program?.startsWith("/") && fs.exists(program) ? [program] : [];
+			}),
+		),
+	];
+	const signatures = new Map(
+		await mapWithConcurrency(
+			programs,
+			PLIST_SCAN_CONCURRENCY,
+			async (program) => [program, await readProgramSignature(program)] as const,
+		),
+	);
+
+	return sortAssessments(audited.map((service) => assessService(service, { fs, signatures })));
+}
+
+/**
+ * Code signature and notarization of an executable
+ */
+async function readProgramSignature(program: string): Promise<CodeSignature> {
+	if (isMacOS()) return readCodeSignature(program);
+
+	// Parse mock output so development exercises the real parsers
+	const codesign = getMockCodesignResult(program);
+	const signature = parseCodesignOutput(codesign.stderr, codesign.exitCode);
+	if (signature.status !== "signed") return signature;
+	const spctl = getMockSpctlResult(program);
+	return { ...signature, ...parseSpctlOutput(spctl.stderr) };
+}
+
+/**
+ * Code signature of a service's Program or ProgramArguments[0], or null when there is
+ * no absolute program path to check
+ * System extensions have no plist; their team ID comes from systemextensionsctl.
+ */
+export async function fetchCodeSignature(service: Service): Promise<CodeSignature | null> {
+	if (service.type === "SystemExtension") return null;
+	const program = auditedProgram(await withPlistMetadata(service));
+	return program?.startsWith("/") ? readProgramSignature(program) : null;
+}
+
+/**
+ * Code signatures of many services, reading each plist and each distinct program once
+ * A service whose plist cannot be read gets status "unknown" with the error.
+ */
+export async function fetchCodeSignatures(
+	services: Service[],
+): Promise<Record<string, CodeSignature | null>> {
+	const programs = await mapWithConcurrency(services, PLIST_SCAN_CONCURRENCY, async (service) => {
+		if (service.type === "SystemExtension") return { service, program: null };
+		try {
+			const program = auditedProgram(await withPlistMetadata(service));
+			return { service, program: program?.startsWith("/") ? program : null };
+		} catch (error) {
+			return { service, program: null, error: error instanceof Error ? error.message : String(error) };
+		}
+	});
+
+	const paths = [...new Set(programs.flatMap(({ program }) => (program ? [program] : [])))];
+	const signatures = new Map(
+		await mapWithConcurrency(
+			paths,
+			PLIST_SCAN_CONCURRENCY,
+			async (path) => [path, await readProgramSignature(path)] as const,
+		),
+	);
+
+	const result: Record<string, CodeSignature | null> = {};
+	for (const { service, program, error } of programs) {
+		result[service.id] = error
+			? { status: "unknown", error }
+			: program
+				? (signatures.get(program) ?? null)
+				: null;
+	}
+	return result;
+}
+
+/**
+ * Export a persistence audit, by default to a timestamped file in the reports directory
+ */
+export async function exportPersistenceAudit(
+	assessments: PersistenceAssessment[],
+	auditedAt: Date,
+	format: AuditReportFormat,
+	path?: string,
+): Promise<string> {
+	const target =
+		path ??
+		join(
+			getReportDir(),
+			timestampedFileName("persistence-audit", auditedAt, AUDIT_REPORT_EXTENSIONS[format]),
+		);
+	await writeAuditReport(buildAuditReport(assessments, auditedAt), format, target);
+	return target;
+}
+
+/**
+ * Export of services already filtered and sorted as listed, with each plist's metadata
+ * A plist that cannot be read is exported with what launchctl reported.
+ */
+export async function fetchServiceInventory(
+	services: Service[],
+	context: InventoryContext,
+): Promise<ServiceInventory> {
+	const withMetadata = await mapWithConcurrency(services, PLIST_SCAN_CONCURRENCY, async (service) => {
+		try {
+			return await withPlistMetadata(service);
+		} catch {
+			return service;
+		}
+	});
+	return buildServiceInventory(withMetadata, context);
+}
+
+/**
+ * Export listed services, by default to a timestamped file in the reports directory
+ */
+export async function exportServiceInventory(
+	services: Service[],
+	context: InventoryContext,
+	format: InventoryFormat,
+	path?: string,
+): Promise<string> {
+	const inventory = await fetchServiceInventory(services, context);
+	const target =
+		path ??
+		join(
+			getReportDir(),
+			timestampedFileName("services", new Date(inventory.createdAt), INVENTORY_EXTENSIONS[format]),
+		);
+	await writeInventory(inventory, format, target);
+	return target;
+}
+
+export interface SignalServiceProcessOptions {
+	dryRun?: boolean;
+	password?: string;
+	source: AuditSource;
+}
+
+/**
+ * Send a signal to one of a service's processes and record it in the audit log
+ */
+export async function signalServiceProcess(
+	service: Service,
+	request: ProcessSignalRequest,
+	options: SignalServiceProcessOptions,
+): Promise<ActionResult & { command?: string }> {
+	const { dryRun = false, source } = options;
+	const { pid, uid, signal } = request;
+	const sudo = processNeedsSudo(uid);
+	let result: ActionResult & { command?: string };
+
+	if (!isMacOS()) {
+		// Mock response for development
+		const command = `${sudo ? "sudo " : ""}${buildSignalCommand(pid, signal).join(" ")}`;
+		result = dryRun
+			? { success: true, message: `[DRY RUN] Would execute: ${command}`, command }
+			: { success: true, message: `[Mock] Would send SIG${signal} to process ${pid}`, command };
+	} else {
+		result = await signalProcess(request, signal, { dryRun, password: options.password });
+	}
+
+	// A password prompt follows; the retry with the password is what gets audited
+	if (result.error === "NEEDS_PASSWORD") return result;
+
+	return auditResult(result, {
+		action: "signal",
+		service,
+		command: result.command ?? buildSignalCommand(pid, signal).join(" "),
+		sudo,
+		dryRun,
+		source,
+	});
+}
+
+/**
+ * Load a service's plist for the structured editor
+ */
+export async function loadServicePlist(service: Service): Promise<PlistDocument> {
+	if (!isMacOS()) {
+		// Mock plist for development
+		const value = getMockPlist(service);
+		return { value, format: "xml", text: serializePlistXml(value) };
+	}
+	if (!service.plistPath) {
+		throw new Error("No plist file for this service");
+	}
+	return readPlistDocument(service.plistPath);
+}
+
+/**
+ * Write an edited plist in its original format and record it in the audit log
+ */
+export async function saveEditedPlist(
+	service: Service,
+	plistPath: string,
+	value: PlistDict,
+	format: PlistFormat,
+	options: SaveServicePlistOptions & { source: AuditSource },
+): Promise<ActionResult & { command?: string }> {
+	const { dryRun = false, source } = options;
+	let result: ActionResult & { command?: string };
+
+	if (!isMacOS()) {
+		// Mock response for development
+		result = dryRun
+			? {
+					success: true,
+					message: `[DRY RUN] Would execute: write ${plistPath}`,
+					command: `write ${plistPath}`,
+				}
+			: { success: true, message: `[Mock] Would save ${plistPath}` };
+	} else {
+		const contents = format === "binary" ? serializePlist(value, "binary") : serializePlistXml(value);
+		result = await saveServicePlist(service, plistPath, contents, options);
+	}
+
+	return auditResult(result, {
+		action: "edit",
+		service,
+		command: result.command ?? `write ${plistPath}`,
+		sudo: shouldUseSudo(requiresRoot(service.domain, plistPath)),
+		dryRun,
+		source,
+	});
+}
+
+/** Interval between mock log entries when tailing on non-macOS */
+const MOCK_LOG_STREAM_INTERVAL_MS = 2000;
+
+/**
+ * Fetch recent unified log entries for a service
+ */
+export async function fetchServiceLogs(service: Service, level: LogLevelFilter): Promise<LogEntry[]> {
+	if (!isMacOS()) {
+		return filterLogEntries(getMockLogEntries(service), level);
+	}
+
+	return showServiceLogs(service, level);
+}
+
+/**
+ * Start a live tail of unified log entries for a service
+ */
+export function tailServiceLogs(service: Service, options: LogStreamOptions): LogStreamHandle {
+	if (!isMacOS()) {
+		let index = 0;
+		const timer = setInterval(() => {
+			options.onEntries(filterLogEntries([getMockLogEntry(service, index++)], options.level));
+		}, MOCK_LOG_STREAM_INTERVAL_MS);
+		return { stop: () => clearInterval(timer) };
+	}
+
+	return streamServiceLogs(service, options);
+}
+
+/** Crashes named one by one in a notification before they are summarized */
+const MAX_NOTIFIED_LABELS = 3;
+
+/**
+ * Post one desktop notification for a refresh's crash and flapping events
+ */
+export async function notifyServiceEvents(events: ServiceEvent[]): Promise<void> {
+	if (events.length === 0 || !isMacOS()) return;
+
+	const [first] = events;
+	if (events.length === 1 && first) {
+		await sendDesktopNotification(first.label, first.message);
+		return;
+	}
+	const labels = [...new Set(events.map((event) => event.label))];
+	const named = labels.slice(0, MAX_NOTIFIED_LABELS).join(", ");
+	const more = labels.length > MAX_NOTIFIED_LABELS ? ` and ${labels.length - MAX_NOTIFIED_LABELS} more` : "";
+	await sendDesktopNotification(`${labels.length} services crashed or are flapping`, `${named}${more}`);
+}
+
+/**
+ * Read every service's saved history, with the actions from the audit log merged in
+ * Dry runs changed nothing, so they are left out.
+ */
+export async function loadServiceHistory(limit: number): Promise<ServiceHistory> {
+	const [saved, records] = await Promise.all([readServiceHistory(limit), readAuditRecords()]);
+	const actions = records.filter((record) => !record.dryRun).map(historyEntryFromAudit);
+	return addServiceHistory(saved, actions, limit);
+}
+
+/**
+ * Save status, PID and exit entries to the service history file, keeping about `limit` per service
+ */
+export async function saveServiceHistory(entries: ServiceHistoryEntry[], limit: number): Promise<void> {
+	await appendServiceHistoryEntries(
+		entries.filter((entry) => entry.kind !== "action"),
+		limit,
+	);
+}
+
+export { filterAuditRecords, getAuditLogPath, readAuditRecords } from "./audit";
+export {
+	describeNotarization,
+	matchesSignatureFilter,
+	parseCodesignOutput,
+	parseSpctlOutput,
+	signatureTeamId,
+} from "./codesign";
+export {
+	type ConfigValidation,
+	getConfigPath,
+	loadConfig,
+	parseConfig,
+	requiresConfirmation,
+	validateConfig,
+} from "./config";
+export {
+	describeExitStatus,
+	detectServiceEvents,
+	type FlapDetectionOptions,
+	isAlertEvent,
+	isCrashExit,
+} from "./health";
+export {
+	buildServiceInventory,
+	describeInventoryFilters,
+	formatInventory,
+	type InventoryContext,
+} from "./inventory";
 // Re-export types and utilities
 export {
+	buildActionCommand,
 	executeServiceAction,
 	fetchServiceMetadata,
 	findPlistPath,
+	formatActionCommand,
 	getCurrentUid,
 	getMacOSVersion,
 	getPlistMetadata,
@@ -242,10 +995,102 @@ export {
 	isValidServiceLabel,
 	parseLaunchctlList,
 	parseLaunchctlPrint,
+	parseServiceInspection,
 	requiresRoot,
 	setRetryLogger,
 	shouldUseSudo,
 } from "./launchctl/index";
-export type { CalendarInterval, KeepAliveConfig, PlistData } from "./plist";
-export { describePlistConfig, readPlist } from "./plist";
+export { findServicesByLookup, isLookupQuery, type LookupQuery, parseLookupQuery } from "./lookup";
+export {
+	buildServicePlist,
+	getNewServicePlistPath,
+	type NewServiceSpec,
+	parseServiceWizard,
+} from "./newservice";
+export {
+	type AuditReportFormat,
+	buildAuditReport,
+	countByRisk,
+	describeSignature,
+	formatAuditReport,
+	getReportDir,
+	summarizeAudit,
+} from "./persistence";
+export type {
+	CalendarInterval,
+	KeepAliveConfig,
+	PlistData,
+	PlistDict,
+	PlistFormat,
+	PlistValue,
+} from "./plist";
+export {
+	addPlistEntry,
+	defaultPlistValue,
+	defaultValueForKey,
+	describePlistConfig,
+	findBoundSockets,
+	flattenPlistTree,
+	formatPlistScalar,
+	formatSocketDeclaration,
+	getPlistValueAt,
+	isEditableScalar,
+	type PlistDocument,
+	type PlistTreeRow,
+	parseMachServiceDeclarations,
+	parsePlist,
+	parsePlistScalarInput,
+	parseSocketDeclarations,
+	plistPathKey,
+	plistValueKind,
+	readPlist,
+	removePlistValueAt,
+	serializePlist,
+	serializePlistXml,
+	setPlistValueAt,
+	suggestLaunchdKeys,
+} from "./plist";
+export { type LintFileSystem, lintPlist, lintPlistFile, sortLintFindings } from "./plist/lint";
+export {
+	countProcesses,
+	flattenProcessTree,
+	type ProcessTreeRow,
+	parseElapsedTime,
+	parseLsofOutput,
+	parsePsOutput,
+	processNeedsSudo,
+} from "./process/index";
+export { describeCalendarSchedule, describeStartInterval, nextCalendarFireTimes } from "./schedule";
+export {
+	addServiceHistory,
+	getServiceHistoryPath,
+	historyEntriesFromChanges,
+	historyEntryForAction,
+} from "./servicehistory";
+export {
+	buildSnapshot,
+	diffSnapshots,
+	getSnapshotDir,
+	isEmptySnapshotDiff,
+	listSnapshots,
+	readSnapshot,
+	SNAPSHOT_VERSION,
+	type SnapshotDiffLine,
+	type SnapshotDiffLineKind,
+	snapshotDiffLines,
+	summarizeSnapshotDiff,
+	writeSnapshot,
+} from "./snapshot";
 export { listSystemExtensions } from "./systemextensions";
+export {
+	buildScheduleTimeline,
+	hasSchedule,
+	nextScheduledRun,
+	type ScheduleTimeline,
+	sortByNextRun,
+	type TimelineCollision,
+	type TimelineJob,
+	type TimelineRange,
+	timelineBucketHours,
+} from "./timeline";
+export { filterLogEntries, type LogStreamHandle } from "./unifiedlog/index";
@@ -0,0 +1,237 @@
+/**
+ * Service list export
+ * Writes the listed services, with their list columns and plist metadata, as CSV,
+ * JSON or a Markdown table for incident tickets and fleet audits
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname } from "node:path";
+import type {
+	FilterOptions,
+	InventoryFormat,
+	InventoryService,
+	ProcessSample,
+	Service,
+	ServiceAlert,
+	ServiceInventory,
+	SortOptions,
+} from "../types";
+import { markdownCell } from "../utils/format";
+import { describeCalendarSchedule, describeStartInterval } from "./schedule";
+
+/** What the list was narrowed and ordered by, and the live data shown in its columns */
+export interface InventoryContext {
+	filter: FilterOptions;
+	sort: SortOptions;
+	search: string;
+	/** Latest `ps` sample per PID */
+	samples?: Record<number, ProcessSample>;
+	/** Crash and flapping badges per service ID */
+	alerts?: Record<string, ServiceAlert>;
+}
+
+interface InventoryColumn {
+	header: string;
+	value: (service: InventoryService) => string;
+}
+
+const optional = (value: string | number | undefined) => (value === undefined ? "" : String(value));
+const yesNo = (value: boolean | undefined) => (value === undefined ? "" : value ? "yes" : "no");
+
+/** Columns of the CSV and Markdown exports, in list order, then the plist metadata */
+const INVENTORY_COLUMNS: InventoryColumn[] = [
+	{ header: "Status", value: (s) => s.status },
+	{ header: "Alert", value: (s) => optional(s.alert) },
+	{ header: "Protection", value: (s) => s.protection },
+	{ header: "Type", value: (s) => s.type },
+	{ header: "Domain", value: (s) => s.domain },
+	{ header: "Label", value: (s) => s.label },
+	{ header: "Name", value: (s) => s.name },
+	{ header: "CPU %", value: (s) => optional(s.cpu) },
+	{ header: "Memory KiB", value: (s) => optional(s.memory) },
+	{ header: "Threads", value: (s) => optional(s.threads) },
+	{ header: "Uptime s", value: (s) => optional(s.uptime) },
+	{ header: "PID", value: (s) => optional(s.pid) },
+	{ header: "Enabled", value: (s) => yesNo(s.enabled) },
+	{ header: "Exit Status", value: (s) => optional(s.exitStatus) },
+	{ header: "Plist", value: (s) => optional(s.plistPath) },
+	{ header: "Program", value: (s) => optional(s.program) },
+	{ header: "Arguments", value: (s) => s.programArguments?.join(" ") ?? "" },
+	{ header: "RunAtLoad", value: (s) => yesNo(s.runAtLoad) },
+	{
+		header: "KeepAlive",
+		value: (s) =>
+			typeof s.keepAlive === "object" ? `when ${Object.keys(s.keepAlive).join(", ")}` : yesNo(s.keepAlive),
+	},
+	{ header: "Schedule", value: (s) => optional(s.schedule) },
+	{ header: "Stdout", value: (s) => optional(s.standardOutPath) },
+	{ header: "Stderr", value: (s) => optional(s.standardErrorPath) },
+];
+
+/**
+ * Exported fields of a service (unset fields stay undefined, which JSON leaves out)
+ */
+export function toInventoryService(
+	service: Service,
+	sample?: ProcessSample,
+	alert?: ServiceAlert,
+): InventoryService {
+	const metadata = service.plistMetadata;
+	const schedule =
+		metadata?.startCalendarInterval !== undefined
+			? describeCalendarSchedule(metadata.startCalendarInterval)
+			: metadata?.startInterval !== undefined
+				? describeStartInterval(metadata.startInterval)
+				: undefined;
+
+	return {
+		label: service.label,
+		name: service.displayName,
+		status: service.status,
+		type: service.type,
+		domain: service.domain,
+		protection: service.protection,
+		enabled: service.enabled,
+		alert,
+		pid: service.pid,
+		cpu: sample?.cpu,
+		memory: sample?.rss,
+		threads: sample?.threads,
+		uptime: sample?.uptime,
+		exitStatus: service.exitStatus,
+		plistPath: service.plistPath,
+		program: metadata?.program,
+		programArguments: metadata?.programArguments,
+		runAtLoad: metadata?.runAtLoad,
+		keepAlive: metadata?.keepAlive,
+		schedule,
+		standardOutPath: metadata?.standardOutPath,
+		standardErrorPath: metadata?.standardErrorPath,
+	};
+}
+
+/**
+ * Build the export of services already filtered and sorted as listed
+ */
+export function buildServiceInventory(
+	services: Service[],
+	context: InventoryContext,
+	createdAt: Date = new Date(),
+	host: string = hostname(),
+): ServiceInventory {
+	return {
+		createdAt: createdAt.toISOString(),
+		hostname: host,
+		filter: context.filter,
+		sort: context.sort,
+		search: context.search,
+		services: services.map((service) =>
+			toInventoryService(
+				service,
+				service.pid !== undefined ? context.samples?.[service.pid] : undefined,
+				context.alerts?.[service.id],
+			),
+		),
+	};
+}
+
+/** Quote a CSV field when it holds a separator, quote or line break (RFC 4180) */
+function csvField(text: string): string {
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format an inventory as CSV with a header row; every export has the same columns
+ */
+export function formatInventoryCsv(inventory: ServiceInventory): string {
+	const rows = [
+		INVENTORY_COLUMNS.map((column) => column.header),
+		...inventory.services.map((service) => INVENTORY_COLUMNS.map((column) => column.value(service))),
+	];
+	return rows.map((row) => row.map(csvField).join(",")).join("\r\n");
+}
+
+/**
+ * Describe the filters an inventory was taken with, e.g. "type LaunchDaemon, search "docker""
+ */
+export function describeInventoryFilters(inventory: ServiceInventory): string {
+	const { filter, search } = inventory;
+	const parts = [
+		filter.type !== "all" ? `type ${filter.type}` : null,
+		filter.domain !== "all" ? `domain ${filter.domain}` : null,
+		filter.status !== "all" ? `status ${filter.status}` : null,
+		filter.loaded !== "all" ? filter.loaded : null,
+		filter.signing !== "all" ? `signing ${filter.signing}` : null,
+		filter.teamId !== null ? `team ${filter.teamId}` : null,
+		filter.showAppleServices ? "with Apple services" : "without Apple services",
+		filter.showProtected ? null : "without protected services",
+		search ? `search "${search}"` : null,
+	];
+	return parts.filter((part) => part !== null).join(", ");
+}
+
+/**
+ * Format an inventory as Markdown: a summary and a table without the columns no service fills
+ */
+export function formatInventoryMarkdown(inventory: ServiceInventory): string {
+	const lines = [
+		"# Services",
+		"",
+		`- Host: ${inventory.hostname || "unknown"}`,
+		`- Date: ${inventory.createdAt}`,
+		`- Filters: ${describeInventoryFilters(inventory)}`,
+		`- Sort: ${inventory.sort.field} (${inventory.sort.direction})`,
+		`- Services: ${inventory.services.length}`,
+		"",
+	];
+	if (inventory.services.length === 0) {
+		lines.push("No services.");
+		return lines.join("\n");
+	}
+
+	const columns = INVENTORY_COLUMNS.filter((column) =>
+		inventory.services.some((service) => column.value(service) !== ""),
+	);
+	lines.push(
+		`| ${columns.map((column) => column.header).join(" | ")} |`,
+		`| ${columns.map(() => "---").join(" | ")} |`,
+	);
+	for (const service of inventory.services) {
+		lines.push(`| ${columns.map((column) => markdownCell(column.value(service))).join(" | ")} |`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Format an inventory for export
+ */
+export function formatInventory(inventory: ServiceInventory, format: InventoryFormat): string {
+	switch (format) {
+		case "csv":
+			return formatInventoryCsv(inventory);
+		case "json":
+			return JSON.stringify(inventory, null, 2);
+		case "markdown":
+			return formatInventoryMarkdown(inventory);
+	}
+}
+
+/** File extension per export format */
+export const INVENTORY_EXTENSIONS: Record<InventoryFormat, string> = {
+	csv: "csv",
+	json: "json",
+	markdown: "md",
+};
+
+/**
+ * Write an inventory, creating the directory if needed
+ */
+export async function writeInventory(
+	inventory: ServiceInventory,
+	format: InventoryFormat,
+	path: string,
+): Promise<void> {
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, `${formatInventory(inventory, format)}\n`, { mode: 0o600 });
+}
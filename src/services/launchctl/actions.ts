@@ -14,6 +14,44 @@ export interface DryRunResult extends ActionResult {
 	command?: string;
 }
 
+/**
+ * Build the launchctl command for an action
+ * Returns null for unknown actions, or `load` without a plist path
+ */
+export function buildActionCommand(action: ServiceAction, service: Service): string[] | null {
+	const domainTarget = service.domain === "system" ? "system" : `gui/${process.getuid?.() || 501}`;
+	const target = `${domainTarget}/${service.label}`;
+
+	switch (action) {
+		case "start":
+			return ["launchctl", "kickstart", "-k", target];
+		case "stop":
+			return ["launchctl", "kill", "SIGTERM", target];
+		case "enable":
+			return ["launchctl", "enable", target];
+		case "disable":
+			return ["launchctl", "disable", target];
+		case "load":
+			// Bootstrapping needs the plist; services found only via `launchctl list` may not have one yet
+			return service.plistPath ? ["launchctl", "bootstrap", domainTarget, service.plistPath] : null;
+		case "unload":
+			return ["launchctl", "bootout", target];
+		case "reload":
+			return ["launchctl", "kickstart", "-kp", target];
+		default:
+			return null;
+	}
+}
+
+/**
+ * Format the command an action would run, including sudo when it escalates
+ */
+export function formatActionCommand(action: ServiceAction, service: Service): string | null {
+	const command = buildActionCommand(action, service);
+	if (!command) return null;
+	return shouldUseSudo(service.requiresRoot) ? `sudo ${command.join(" ")}` : command.join(" ");
+}
+
 /**
  * Execute a service action
  */
@@ -43,38 +81,20 @@ export async function executeServiceAction(
 		};
 	}
 
-	const target =
-		service.domain === "system"
-			? `system/${service.label}`
-			: `gui/${process.getuid?.() || 501}/${service.label}`;
-
-	let command: string[];
-
-	switch (action) {
-		case "start":
-			command = ["launchctl", "kickstart", "-k", target];
-			break;
-		case "stop":
-			command = ["launchctl", "kill", "SIGTERM", target];
-			break;
-		case "enable":
-			command = ["launchctl", "enable", target];
-			break;
-		case "disable":
-			command = ["launchctl", "disable", target];
-			break;
-		case "unload":
-			command = ["launchctl", "bootout", target];
-			break;
-		case "reload":
-			command = ["launchctl", "kickstart", "-kp", target];
-			break;
-		default:
-			return {
-				success: false,
-				message: `Unknown action: ${action}`,
-				error: "Invalid action specified",
-			};
+	const command = buildActionCommand(action, service);
+	if (!command && action === "load") {
+		return {
+			success: false,
+			message: "Cannot load service",
+			error: "No plist file found for this service",
+		};
+	}
+	if (!command) {
+		return {
+			success: false,
+			message: `Unknown action: ${action}`,
+			error: "Invalid action specified",
+		};
 	}
 
 	const needsSudo = shouldUseSudo(service.requiresRoot);
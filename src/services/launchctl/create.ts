@@ -0,0 +1,116 @@
+/**
+ * Install and bootstrap new launchd services
+ */
+
+import { buildServicePlist, getNewServicePlistPath, type NewServiceSpec } from "../newservice";
+import { serializePlistXml } from "../plist";
+import type { DryRunResult } from "./actions";
+import { parseErrorMessage } from "./errors";
+import { execCommand } from "./exec";
+import { describePrivilegedFailure, writePlistFile } from "./files";
+import { executePrivileged } from "./sudo";
+import { validateLabel } from "./validation";
+
+export interface CreateServiceOptions {
+	dryRun?: boolean;
+	/** Load the service with `launchctl bootstrap` after writing the plist */
+	bootstrap?: boolean;
+}
+
+export interface CreateServiceResult extends DryRunResult {
+	plistPath: string;
+}
+
+/**
+ * Build the launchctl command that loads a new service
+ */
+export function buildBootstrapCommand(spec: NewServiceSpec, plistPath: string): string[] {
+	const target = spec.scope === "systemDaemon" ? "system" : `gui/${process.getuid?.() || 501}`;
+	return ["launchctl", "bootstrap", target, plistPath];
+}
+
+/**
+ * Write a plist for a new service and optionally bootstrap it
+ * Files in /Library are installed root-owned through privilege escalation; existing plists are never overwritten
+ */
+export async function createService(
+	spec: NewServiceSpec,
+	options: CreateServiceOptions = {},
+): Promise<CreateServiceResult> {
+	const { dryRun = false, bootstrap = false } = options;
+	const plistPath = getNewServicePlistPath(spec.scope, spec.label);
+
+	try {
+		validateLabel(spec.label);
+	} catch (error) {
+		return {
+			success: false,
+			message: "Cannot create service",
+			error: error instanceof Error ? error.message : "Invalid service label",
+			plistPath,
+		};
+	}
+
+	if (await Bun.file(plistPath).exists()) {
+		return {
+			success: false,
+			message: "Cannot create service",
+			error: `${plistPath} already exists`,
+			plistPath,
+		};
+	}
+
+	const xml = serializePlistXml(buildServicePlist(spec));
+	const privileged = spec.scope !== "userAgent";
+	const bootstrapCommand = buildBootstrapCommand(spec, plistPath);
+	const bootstrapPrivileged = spec.scope === "systemDaemon";
+
+	if (dryRun) {
+		const steps = [`${privileged ? "sudo " : ""}write ${plistPath}`];
+		if (bootstrap) steps.push(`${bootstrapPrivileged ? "sudo " : ""}${bootstrapCommand.join(" ")}`);
+		const command = steps.join(" && ");
+		return {
+			success: true,
+			message: `[DRY RUN] Would execute: ${command}`,
+			command,
+			plistPath,
+		};
+	}
+
+	// Write the plist
+	const written = await writePlistFile(plistPath, xml, { privileged });
+	if (!written.success) {
+		return {
+			success: false,
+			message: `Failed to write ${plistPath}`,
+			error: written.error,
+			plistPath,
+		};
+	}
+
+	if (!bootstrap) {
+		return { success: true, message: `Created ${spec.label} at ${plistPath}`, plistPath };
+	}
+
+	// Load it
+	let failure: string | null = null;
+	if (bootstrapPrivileged) {
+		const result = await executePrivileged(bootstrapCommand);
+		if (!result.success) failure = describePrivilegedFailure(result);
+	} else {
+		const [cmd, ...args] = bootstrapCommand;
+		const result = await execCommand(cmd as string, args);
+		if (result.exitCode !== 0) failure = parseErrorMessage(result.stderr, result.exitCode).message;
+	}
+
+	if (failure) {
+		return {
+			success: false,
+			message: `Created ${plistPath} but failed to load it`,
+			error: failure,
+			plistPath,
+		};
+	}
+
+	return { success: true, message: `Created and loaded ${spec.label}`, plistPath };
+}
@@ -0,0 +1,192 @@
+/**
+ * Discover installed services that launchd has not loaded
+ * `launchctl list` only reports bootstrapped jobs, so plists sitting in the
+ * standard directories without being loaded are found by scanning them
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import type { Service, ServiceDomain } from "../../types";
+import { mapWithConcurrency } from "../../utils/concurrency";
+import { readPlist } from "../plist";
+import { execCommand } from "./exec";
+import { parseDomainServices } from "./parsers";
+import { getProtectionStatus, isAppleService, isRunningAsRoot, requiresRoot } from "./permissions";
+import { PLIST_DIRECTORIES } from "./types";
+import { isValidServiceLabel } from "./validation";
+
+/** Plists read at once when resolving Label keys */
+const LABEL_READ_CONCURRENCY = 8;
+
+/** A plist file found in one of the standard directories */
+export interface InstalledPlist {
+	path: string;
+	/** Label taken from the file name (launchd convention, checked against the plist later) */
+	label: string;
+	type: "LaunchDaemon" | "LaunchAgent";
+	domain: ServiceDomain;
+}
+
+/** A directory of job plists and the kind of job it holds */
+export interface PlistDirectory {
+	dir: string;
+	type: InstalledPlist["type"];
+	domain: ServiceDomain;
+}
+
+/**
+ * Standard plist directories with the type and domain of the jobs they hold
+ * LaunchAgents always run in the gui domain, even when installed in /Library/
+ */
+export function getPlistDirectories(home: string | undefined = process.env.HOME): PlistDirectory[] {
+	const dirs: PlistDirectory[] = [
+		{ dir: PLIST_DIRECTORIES.systemDaemons, type: "LaunchDaemon", domain: "system" },
+		{ dir: PLIST_DIRECTORIES.systemAgents, type: "LaunchAgent", domain: "gui" },
+		{ dir: PLIST_DIRECTORIES.appleDaemons, type: "LaunchDaemon", domain: "system" },
+		{ dir: PLIST_DIRECTORIES.appleAgents, type: "LaunchAgent", domain: "gui" },
+	];
+	if (home) {
+		dirs.push({
+			dir: PLIST_DIRECTORIES.userAgents.replace(/^~/, home),
+			type: "LaunchAgent",
+			domain: "gui",
+		});
+	}
+	return dirs;
+}
+
+/** Listing of one directory, reused while the directory's mtime is unchanged */
+interface DirectoryScan {
+	mtimeMs: number;
+	plists: InstalledPlist[];
+	/** Label keys read so far, by plist path */
+	labels: Map<string, string>;
+}
+
+/**
+ * Cached directory listings
+ * Adding, removing or renaming a plist (editors save by renaming) changes the directory's
+ * mtime, so refreshes only list and read the Apple directories again after an OS update.
+ */
+const directoryScans = new Map<string, DirectoryScan>();
+
+async function scanDirectory({ dir, type, domain }: PlistDirectory): Promise<DirectoryScan | null> {
+	try {
+		const { mtimeMs } = await stat(dir);
+		const cached = directoryScans.get(dir);
+		if (cached?.mtimeMs === mtimeMs) return cached;
+
+		const names = await readdir(dir);
+		const scan: DirectoryScan = {
+			mtimeMs,
+			plists: names
+				.filter((name) => name.endsWith(".plist"))
+				.sort()
+				.map((name) => ({ path: join(dir, name), label: basename(name, ".plist"), type, domain })),
+			labels: new Map(),
+		};
+		directoryScans.set(dir, scan);
+		return scan;
+	} catch {
+		directoryScans.delete(dir);
+		return null;
+	}
+}
+
+/**
+ * List the plist files in every standard directory
+ * Missing or unreadable directories are skipped
+ */
+export async function scanPlistDirectories(
+	dirs: PlistDirectory[] = getPlistDirectories(),
+): Promise<InstalledPlist[]> {
+	const scans = await Promise.all(dirs.map(scanDirectory));
+	return scans.flatMap((scan) => scan?.plists ?? []);
+}
+
+/**
+ * Read the Label key of plists, using the labels cached with their directory listing
+ * The file name usually matches the Label, but launchd only goes by the Label key.
+ */
+async function readPlistLabels(plists: InstalledPlist[]): Promise<Map<string, string>> {
+	const labels = new Map<string, string>();
+	await mapWithConcurrency(plists, LABEL_READ_CONCURRENCY, async (plist) => {
+		const cache = directoryScans.get(dirname(plist.path));
+		const cached = cache?.labels.get(plist.path);
+		if (cached !== undefined) {
+			labels.set(plist.path, cached);
+			return;
+		}
+		const label = (await readPlist(plist.path))?.label ?? plist.label;
+		cache?.labels.set(plist.path, label);
+		labels.set(plist.path, label);
+	});
+	return labels;
+}
+
+/**
+ * Build the service entry for a plist that is installed but not loaded
+ */
+export function buildUnloadedService(plist: InstalledPlist): Service {
+	const { label, path, type, domain } = plist;
+	return {
+		id: `${domain}-${label}`,
+		label,
+		displayName: label.split(".").pop() || label,
+		type,
+		domain,
+		status: "not-loaded",
+		protection: getProtectionStatus(label, path),
+		plistPath: path,
+		enabled: true,
+		isAppleService: isAppleService(label, path),
+		requiresRoot: requiresRoot(domain, path),
+	};
+}
+
+/**
+ * Labels loaded in the system domain
+ * `launchctl list` only shows them when running as root; otherwise they come from
+ * `launchctl print system`. Returns null when the system domain cannot be read.
+ */
+async function listSystemDomainLabels(): Promise<Set<string> | null> {
+	if (isRunningAsRoot()) return new Set();
+
+	const result = await execCommand("launchctl", ["print", "system"]);
+	if (result.exitCode !== 0) return null;
+	return new Set(parseDomainServices(result.stdout).map((entry) => entry.label));
+}
+
+/**
+ * Find installed plists whose job is not loaded
+ * @param loadedLabels Labels reported by `launchctl list`
+ */
+export async function listUnloadedServices(loadedLabels: Set<string>): Promise<Service[]> {
+	const installed = await scanPlistDirectories();
+	// `launchctl print system` is only needed while some daemon is missing from `launchctl list`
+	const systemLabels = installed.some((plist) => plist.domain === "system" && !loadedLabels.has(plist.label))
+		? await listSystemDomainLabels()
+		: new Set<string>();
+
+	const isLoaded = (plist: InstalledPlist, label: string) =>
+		loadedLabels.has(label) || (plist.domain === "system" && systemLabels?.has(label) === true);
+
+	// Without the system domain there is no telling which daemons are loaded
+	const candidates = installed.filter(
+		(plist) => !(plist.domain === "system" && systemLabels === null) && !isLoaded(plist, plist.label),
+	);
+	const labels = await readPlistLabels(candidates);
+
+	const services: Service[] = [];
+	const seen = new Set<string>();
+
+	for (const plist of candidates) {
+		const label = labels.get(plist.path) ?? plist.label;
+		if (!isValidServiceLabel(label) || isLoaded(plist, label) || seen.has(label)) continue;
+		seen.add(label);
+
+		services.push(buildUnloadedService({ ...plist, label }));
+	}
+
+	return services;
+}
@@ -0,0 +1,104 @@
+/**
+ * Save edited plists and reload their services
+ */
+
+import type { Service } from "../../types";
+import type { DryRunResult } from "./actions";
+import { parseErrorMessage } from "./errors";
+import { execCommand } from "./exec";
+import { describePrivilegedFailure, writePlistFile } from "./files";
+import { requiresRoot, shouldUseSudo } from "./permissions";
+import { executePrivileged } from "./sudo";
+import { validateLabel } from "./validation";
+
+export interface SaveServicePlistOptions {
+	dryRun?: boolean;
+	/** Bootout and bootstrap the service so launchd picks up the new definition */
+	reload?: boolean;
+}
+
+/**
+ * Build the bootout and bootstrap commands that reload a service from its plist
+ */
+export function buildReloadCommands(service: Service, plistPath: string): string[][] {
+	const domainTarget = service.domain === "system" ? "system" : `gui/${process.getuid?.() || 501}`;
+	return [
+		["launchctl", "bootout", `${domainTarget}/${service.label}`],
+		["launchctl", "bootstrap", domainTarget, plistPath],
+	];
+}
+
+async function runLaunchctl(command: string[], privileged: boolean): Promise<string | null> {
+	if (privileged) {
+		const result = await executePrivileged(command);
+		return result.success ? null : describePrivilegedFailure(result);
+	}
+	const [cmd, ...args] = command;
+	const result = await execCommand(cmd as string, args);
+	return result.exitCode === 0 ? null : parseErrorMessage(result.stderr, result.exitCode).message;
+}
+
+/**
+ * Overwrite a service's plist and optionally reload the service
+ * Root-owned plists are written through privilege escalation; SIP-protected ones are refused
+ */
+export async function saveServicePlist(
+	service: Service,
+	plistPath: string,
+	contents: string | Uint8Array,
+	options: SaveServicePlistOptions = {},
+): Promise<DryRunResult> {
+	const { dryRun = false, reload = false } = options;
+
+	try {
+		validateLabel(service.label);
+	} catch (error) {
+		return {
+			success: false,
+			message: "Cannot save plist",
+			error: error instanceof Error ? error.message : "Invalid service label",
+		};
+	}
+
+	if (service.protection === "sip-protected" || service.protection === "immutable") {
+		return {
+			success: false,
+			message: "Cannot save plist",
+			error: "Service is protected by System Integrity Protection",
+			sipProtected: true,
+		};
+	}
+
+	const privilegedWrite = shouldUseSudo(requiresRoot(service.domain, plistPath));
+	const privilegedReload = shouldUseSudo(service.requiresRoot);
+	const reloadCommands = buildReloadCommands(service, plistPath);
+
+	const steps = [`${privilegedWrite ? "sudo " : ""}write ${plistPath}`];
+	if (reload) {
+		steps.push(...reloadCommands.map((command) => `${privilegedReload ? "sudo " : ""}${command.join(" ")}`));
+	}
+	const command = steps.join(" && ");
+
+	if (dryRun) {
+		return { success: true, message: `[DRY RUN] Would execute: ${command}`, command };
+	}
+
+	const written = await writePlistFile(plistPath, contents, { privileged: privilegedWrite });
+	if (!written.success) {
+		return { success: false, message: `Failed to write ${plistPath}`, error: written.error, command };
+	}
+
+	if (!reload) {
+		return { success: true, message: `Saved ${plistPath}`, command };
+	}
+
+	const [bootout, bootstrap] = reloadCommands as [string[], string[]];
+	// Bootout fails when the service is not loaded, which is fine before a bootstrap
+	await runLaunchctl(bootout, privilegedReload);
+	const failure = await runLaunchctl(bootstrap, privilegedReload);
+	if (failure) {
+		return { success: false, message: `Saved ${plistPath} but failed to reload it`, error: failure, command };
+	}
+
+	return { success: true, message: `Saved and reloaded ${service.label}`, command };
+}
@@ -0,0 +1,63 @@
+/**
+ * Writing plist files, escalating for root-owned locations
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { parseErrorMessage } from "./errors";
+import { executePrivileged, type PrivilegedResult } from "./sudo";
+
+/**
+ * Build the command that installs a root-owned plist from a temporary file
+ */
+function buildInstallCommand(source: string, plistPath: string): string[] {
+	return ["install", "-m", "644", "-o", "root", "-g", "wheel", source, plistPath];
+}
+
+/**
+ * Turn a failed privileged command into a user-facing message
+ */
+export function describePrivilegedFailure(result: PrivilegedResult & { needsPassword?: boolean }): string {
+	if (result.needsPassword) return "Administrator password required - run `sudo -v` in a terminal first";
+	if (result.authCancelled) return "Authentication cancelled";
+	if (result.authFailed) return "Authentication failed";
+	return parseErrorMessage(result.stderr, result.exitCode).message;
+}
+
+/**
+ * Write a plist file
+ * Privileged writes go through a temporary file installed as root:wheel with mode 644. The file is
+ * staged in a fresh private directory so another user cannot plant or swap it before `install` runs.
+ */
+export async function writePlistFile(
+	plistPath: string,
+	contents: string | Uint8Array,
+	options: { privileged: boolean },
+): Promise<{ success: true } | { success: false; error: string }> {
+	if (options.privileged) {
+		let tempDir: string | null = null;
+		try {
+			// mkdtemp creates the directory with mode 0700; "wx" refuses to follow anything already there
+			tempDir = await mkdtemp(join(tmpdir(), "msm-"));
+			const tempPath = join(tempDir, basename(plistPath));
+			await writeFile(tempPath, contents, { flag: "wx", mode: 0o600 });
+			const result = await executePrivileged(buildInstallCommand(tempPath, plistPath));
+			return result.success
+				? { success: true }
+				: { success: false, error: describePrivilegedFailure(result) };
+		} catch (error) {
+			return { success: false, error: error instanceof Error ? error.message : String(error) };
+		} finally {
+			if (tempDir) await rm(tempDir, { recursive: true, force: true });
+		}
+	}
+
+	try {
+		await mkdir(dirname(plistPath), { recursive: true });
+		await Bun.write(plistPath, contents);
+		return { success: true };
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) };
+	}
+}
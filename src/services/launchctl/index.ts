@@ -5,30 +5,80 @@
  * - macOS 10.14 Mojave through macOS 15 Sequoia
  */
 
-import type { PlistMetadata, ProtectionStatus, Service, ServiceDomain } from "../../types";
-import { describePlistConfig, readPlist } from "../plist";
+import type {
+	PlistLintFinding,
+	PlistMetadata,
+	ProtectionStatus,
+	Service,
+	ServiceDomain,
+	ServiceInspection,
+} from "../../types";
+import {
+	describePlistConfig,
+	type PlistData,
+	parseMachServiceDeclarations,
+	parseSocketDeclarations,
+	readPlist,
+} from "../plist";
+import { lintPlistFile, sortLintFindings } from "../plist/lint";
+import { listUnloadedServices } from "./discover";
+import { parseErrorMessage } from "./errors";
 import { execCommand, setRetryLogger } from "./exec";
-import { normalizePrintKey, parseLaunchctlList, parseLaunchctlPrint } from "./parsers";
+import {
+	normalizePrintKey,
+	parseDomainServices,
+	parseLaunchctlList,
+	parseLaunchctlPrint,
+	parsePrintDisabled,
+	parseServiceInspection,
+} from "./parsers";
 import {
 	getCurrentUid,
 	getProtectionStatus,
 	getServiceStatus,
 	isAppleService,
 	isRunningAsRoot,
+	isServiceDisabled,
 	requiresRoot,
 	shouldUseSudo,
 } from "./permissions";
-import type { MacOSVersion, ParsedListEntry } from "./types";
+import type { DisabledOverrides, DomainDisabledOverrides, MacOSVersion, ParsedListEntry } from "./types";
 import { PLIST_DIRECTORIES } from "./types";
 import { isValidServiceLabel, validateLabel } from "./validation";
 import { getMacOSVersion } from "./version";
 
 // Re-export actions
-export { type DryRunResult, type ExecuteServiceActionOptions, executeServiceAction } from "./actions";
+export {
+	buildActionCommand,
+	type DryRunResult,
+	type ExecuteServiceActionOptions,
+	executeServiceAction,
+	formatActionCommand,
+} from "./actions";
+
+export {
+	buildBootstrapCommand,
+	type CreateServiceOptions,
+	type CreateServiceResult,
+	createService,
+} from "./create";
+
+export {
+	buildUnloadedService,
+	getPlistDirectories,
+	type InstalledPlist,
+	listUnloadedServices,
+	type PlistDirectory,
+	scanPlistDirectories,
+} from "./discover";
+
+export { buildReloadCommands, type SaveServicePlistOptions, saveServicePlist } from "./edit";
 
 // Re-export everything
 export {
 	// Types
+	type DisabledOverrides,
+	type DomainDisabledOverrides,
 	type MacOSVersion,
 	type ParsedListEntry,
 	PLIST_DIRECTORIES,
@@ -42,6 +92,9 @@ export {
 	// Parsers
 	parseLaunchctlList,
 	parseLaunchctlPrint,
+	parseDomainServices,
+	parsePrintDisabled,
+	parseServiceInspection,
 	normalizePrintKey,
 	// Permissions
 	isAppleService,
@@ -51,6 +104,7 @@ export {
 	requiresRoot,
 	shouldUseSudo,
 	getServiceStatus,
+	isServiceDisabled,
 };
 
 // ============================================================================
@@ -96,6 +150,36 @@ export async function findPlistPath(label: string): Promise<string | undefined>
 	return undefined;
 }
 
+/**
+ * Pick the details panel metadata out of parsed plist data
+ */
+export function toPlistMetadata(plist: PlistData): PlistMetadata {
+	return {
+		program: plist.program,
+		programArguments: plist.programArguments,
+		runAtLoad: plist.runAtLoad,
+		keepAlive:
+			typeof plist.keepAlive === "boolean"
+				? plist.keepAlive
+				: plist.keepAlive
+					? (plist.keepAlive as Record<string, unknown>)
+					: undefined,
+		workingDirectory: plist.workingDirectory,
+		environmentVariables: plist.environmentVariables,
+		standardOutPath: plist.standardOutPath,
+		standardErrorPath: plist.standardErrorPath,
+		startInterval: plist.startInterval,
+		startCalendarInterval: plist.startCalendarInterval,
+		processType: plist.processType,
+		watchPaths: plist.watchPaths,
+		queueDirectories: plist.queueDirectories,
+		hasSockets: plist.sockets ? Object.keys(plist.sockets).length > 0 : false,
+		hasMachServices: plist.machServices ? Object.keys(plist.machServices).length > 0 : false,
+		sockets: parseSocketDeclarations(plist.sockets),
+		machServices: parseMachServiceDeclarations(plist.machServices),
+	};
+}
+
 /**
  * Read plist metadata for a service
  */
@@ -109,31 +193,7 @@ export async function getPlistMetadata(plistPath: string | undefined): Promise<{
 		const plistData = await readPlist(plistPath);
 		if (!plistData) return { metadata: undefined, description: undefined };
 
-		const metadata: PlistMetadata = {
-			program: plistData.program,
-			programArguments: plistData.programArguments,
-			runAtLoad: plistData.runAtLoad,
-			keepAlive:
-				typeof plistData.keepAlive === "boolean"
-					? plistData.keepAlive
-					: plistData.keepAlive
-						? (plistData.keepAlive as Record<string, unknown>)
-						: undefined,
-			workingDirectory: plistData.workingDirectory,
-			environmentVariables: plistData.environmentVariables,
-			standardOutPath: plistData.standardOutPath,
-			standardErrorPath: plistData.standardErrorPath,
-			startInterval: plistData.startInterval,
-			startCalendarInterval: plistData.startCalendarInterval as
-				| Record<string, number>
-				| Record<string, number>[]
-				| undefined,
-			processType: plistData.processType,
-			watchPaths: plistData.watchPaths,
-			queueDirectories: plistData.queueDirectories,
-			hasSockets: plistData.sockets ? Object.keys(plistData.sockets).length > 0 : false,
-			hasMachServices: plistData.machServices ? Object.keys(plistData.machServices).length > 0 : false,
-		};
+		const metadata = toPlistMetadata(plistData);
 
 		const description = describePlistConfig(plistData);
 		return { metadata, description: description || undefined };
@@ -143,14 +203,32 @@ export async function getPlistMetadata(plistPath: string | undefined): Promise<{
 }
 
 /**
- * List all services
+ * Read the enable/disable overrides of the system domain and the current user's gui domain
+ * A domain that cannot be read contributes no overrides
+ */
+export async function fetchDisabledOverrides(): Promise<DomainDisabledOverrides> {
+	const [system, gui] = await Promise.all([
+		execCommand("launchctl", ["print-disabled", "system"]),
+		execCommand("launchctl", ["print-disabled", `gui/${getCurrentUid()}`]),
+	]);
+	return {
+		system: system.exitCode === 0 ? parsePrintDisabled(system.stdout) : {},
+		gui: gui.exitCode === 0 ? parsePrintDisabled(gui.stdout) : {},
+	};
+}
+
+/**
+ * List all services, including installed plists that are not loaded
  * Note: This does NOT eagerly load plist metadata. Use fetchServiceMetadata() for that.
  */
 export async function listServices(): Promise<Service[]> {
 	const services: Service[] = [];
 	const seenLabels = new Set<string>();
 
-	const listResult = await execCommand("launchctl", ["list"]);
+	const [listResult, overrides] = await Promise.all([
+		execCommand("launchctl", ["list"]),
+		fetchDisabledOverrides(),
+	]);
 
 	// Throw if launchctl list fails - this is a critical failure
 	if (listResult.exitCode !== 0) {
@@ -176,6 +254,7 @@ export async function listServices(): Promise<Service[]> {
 		// Conservative: assume root required for daemons, not for agents
 		// This will be refined when plist metadata is loaded
 		const needsRoot = isDaemon;
+		const enabled = !isServiceDisabled(overrides, label, domain);
 
 		services.push({
 			id: `${domain}-${label}`,
@@ -183,17 +262,30 @@ export async function listServices(): Promise<Service[]> {
 			displayName: label.split(".").pop() || label,
 			type,
 			domain,
-			status: getServiceStatus(pid, exitStatus),
+			status: getServiceStatus(pid, exitStatus, enabled),
 			pid,
 			exitStatus,
 			protection,
 			// plistPath, description, plistMetadata will be loaded lazily
-			enabled: true,
+			enabled,
 			isAppleService: apple,
 			requiresRoot: needsRoot,
 		});
 	}
 
+	// Scanning plist directories is best-effort; the loaded list is still useful without it
+	try {
+		const unloaded = await listUnloadedServices(seenLabels);
+		services.push(
+			...unloaded.map((service) => ({
+				...service,
+				enabled: !isServiceDisabled(overrides, service.label, service.domain),
+			})),
+		);
+	} catch {
+		// Ignore unreadable directories or a failed `launchctl print system`
+	}
+
 	return services;
 }
 
@@ -205,6 +297,7 @@ export async function fetchServiceMetadata(service: Service): Promise<{
 	plistPath?: string;
 	plistMetadata?: PlistMetadata;
 	description?: string;
+	plistLint?: PlistLintFinding[];
 	protection?: ProtectionStatus;
 	isAppleService?: boolean;
 	requiresRoot?: boolean;
@@ -216,8 +309,12 @@ export async function fetchServiceMetadata(service: Service): Promise<{
 		return {};
 	}
 
-	const plistPath = await findPlistPath(service.label);
-	const { metadata: plistMetadata, description } = await getPlistMetadata(plistPath);
+	// Unloaded services were found by their plist, whose name may not match the label
+	const plistPath = service.plistPath ?? (await findPlistPath(service.label));
+	const [{ metadata: plistMetadata, description }, plistLint] = await Promise.all([
+		getPlistMetadata(plistPath),
+		plistPath ? lintPlistFile(plistPath).then(sortLintFindings) : undefined,
+	]);
 
 	// Refine protection and Apple status with plist path
 	const protection = getProtectionStatus(service.label, plistPath);
@@ -243,6 +340,7 @@ export async function fetchServiceMetadata(service: Service): Promise<{
 		plistPath,
 		plistMetadata,
 		description,
+		plistLint,
 		protection,
 		isAppleService: apple,
 		requiresRoot: needsRoot,
@@ -250,3 +348,20 @@ export async function fetchServiceMetadata(service: Service): Promise<{
 		domain,
 	};
 }
+
+/**
+ * Inspect a loaded service with `launchctl print <domain>/<label>`
+ * Throws when the service is not loaded or cannot be read
+ */
+export async function inspectService(service: Service): Promise<ServiceInspection> {
+	validateLabel(service.label);
+
+	const target =
+		service.domain === "system" ? `system/${service.label}` : `gui/${getCurrentUid()}/${service.label}`;
+	const result = await execCommand("launchctl", ["print", target]);
+	if (result.exitCode !== 0) {
+		throw new Error(parseErrorMessage(result.stderr || result.stdout, result.exitCode).message);
+	}
+
+	return parseServiceInspection(result.stdout);
+}
@@ -2,7 +2,8 @@
  * Parsers for launchctl output
  */
 
-import type { ParsedListEntry } from "./types";
+import type { ServiceInspection } from "../../types";
+import type { DisabledOverrides, ParsedListEntry } from "./types";
 
 // ============================================================================
 // Helper Functions
@@ -107,6 +108,67 @@ export function parseLaunchctlList(output: string): ParsedListEntry[] {
 	return services;
 }
 
+/**
+ * Parse the `services = { ... }` block of `launchctl print <domain>`
+ * Each line has the same "PID status label" columns as `launchctl list`
+ */
+export function parseDomainServices(output: string): ParsedListEntry[] {
+	if (!output || output.trim() === "") return [];
+
+	const services: ParsedListEntry[] = [];
+	let inServices = false;
+
+	for (const line of output.split("\n")) {
+		const trimmed = line.trim();
+		if (!inServices) {
+			if (/^services\s*=\s*\{$/.test(trimmed)) inServices = true;
+			continue;
+		}
+		if (trimmed === "}") break;
+
+		const parsed = parseListLine(trimmed);
+		if (parsed) services.push(parsed);
+	}
+
+	return services;
+}
+
+// ============================================================================
+// launchctl print-disabled parsing
+// ============================================================================
+
+/**
+ * Parse `launchctl print-disabled <domain>` into label -> disabled
+ * macOS 11+ prints "=> disabled"/"=> enabled"; older versions print "=> true"/"=> false"
+ * Only the `disabled services` block is read (later blocks list login items)
+ */
+export function parsePrintDisabled(output: string): DisabledOverrides {
+	const overrides: DisabledOverrides = {};
+	if (!output || output.trim() === "") return overrides;
+
+	let inBlock = false;
+	for (const line of output.split("\n")) {
+		const trimmed = line.trim();
+		if (!inBlock) {
+			if (/^disabled services\s*=\s*\{$/.test(trimmed)) inBlock = true;
+			continue;
+		}
+		if (trimmed === "}") break;
+
+		const match = trimmed.match(/^"([^"]+)"\s*=>\s*(\w+)$/);
+		if (!match?.[1] || !match[2]) continue;
+
+		const value = match[2].toLowerCase();
+		if (value === "disabled" || value === "true") {
+			overrides[match[1]] = true;
+		} else if (value === "enabled" || value === "false") {
+			overrides[match[1]] = false;
+		}
+	}
+
+	return overrides;
+}
+
 // ============================================================================
 // launchctl print parsing
 // ============================================================================
@@ -259,3 +321,81 @@ export function parseLaunchctlPrint(output: string): Record<string, string> {
 
 	return info;
 }
+
+/** Strip the ` = {` (or ` {`) that opens a block, and quotes around its name */
+function blockName(line: string): string {
+	return line
+		.replace(/\s*=?\s*\{$/, "")
+		.trim()
+		.replace(/^"(.*)"$/, "$1");
+}
+
+/**
+ * Parse `launchctl print <domain>/<label>` into the fields shown when inspecting a service
+ * Unlike parseLaunchctlPrint(), this tracks nesting so values inside blocks
+ * (endpoints, environment, arguments) never shadow top-level keys
+ */
+export function parseServiceInspection(output: string): ServiceInspection {
+	const fields: Record<string, string> = {};
+	// Entries directly inside each top-level block, e.g. endpoint names
+	const blocks: Record<string, string[]> = {};
+	let depth = 0;
+	let block: string[] | null = null;
+
+	for (const line of output.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed || isErrorOrWarningLine(trimmed)) continue;
+
+		if (trimmed === "}") {
+			depth = Math.max(0, depth - 1);
+			if (depth < 2) block = null;
+			continue;
+		}
+
+		const opens = trimmed.endsWith("{");
+		if (depth === 0 && opens) {
+			// "gui/501/com.example.agent = {"
+			depth = 1;
+			continue;
+		}
+
+		if (depth <= 1) {
+			if (opens) {
+				block = [];
+				blocks[normalizePrintKey(blockName(trimmed))] = block;
+				depth = 2;
+				continue;
+			}
+			const parsed = parseEqualsFormat(trimmed) || parseColonFormat(trimmed);
+			if (parsed) {
+				const key = normalizePrintKey(parsed.key);
+				if (!(key in fields)) fields[key] = parsed.value;
+			}
+			continue;
+		}
+
+		if (depth === 2 && block) block.push(opens ? blockName(trimmed) : trimmed);
+		if (opens) depth++;
+	}
+
+	const number = (value: string | undefined) =>
+		value === undefined ? undefined : parseOptionalNumber(value);
+
+	return {
+		fields,
+		state: fields.state,
+		pid: number(fields.pid),
+		runs: number(fields.runs),
+		spawnType: fields.spawn_type,
+		lastExitCode: fields.last_exit_code,
+		lastExitReason: fields.last_exit_reason,
+		lastTerminatingSignal: fields.last_terminating_signal,
+		immediateReason: fields.immediate_reason,
+		endpoints: blocks.endpoints ?? [],
+		properties: (fields.properties ?? "")
+			.split("|")
+			.map((property) => property.trim())
+			.filter(Boolean),
+		raw: output,
+	};
+}
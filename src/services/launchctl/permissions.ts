@@ -3,6 +3,7 @@
  */
 
 import type { ProtectionStatus, ServiceDomain } from "../../types";
+import type { DomainDisabledOverrides } from "./types";
 
 /**
  * Check if a service is Apple/system owned
@@ -91,3 +92,18 @@ export function getServiceStatus(
 	if (exitStatus !== undefined && exitStatus !== 0) return "error";
 	return "stopped";
 }
+
+/**
+ * Check whether a service is disabled by a `launchctl disable` override
+ * System services are looked up in the system domain first, everything else in the gui domain.
+ * Services listed by `launchctl list` only have a placeholder domain, so the other domain is the fallback.
+ */
+export function isServiceDisabled(
+	overrides: DomainDisabledOverrides,
+	label: string,
+	domain: ServiceDomain,
+): boolean {
+	const [primary, fallback] =
+		domain === "system" ? [overrides.system, overrides.gui] : [overrides.gui, overrides.system];
+	return primary[label] ?? fallback[label] ?? false;
+}
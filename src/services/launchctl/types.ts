@@ -23,6 +23,15 @@ export interface ParsedListEntry {
 	label: string;
 }
 
+/** Enable/disable overrides from `launchctl print-disabled`: label -> disabled */
+export type DisabledOverrides = Record<string, boolean>;
+
+/** Overrides of the domains a listed service can belong to */
+export interface DomainDisabledOverrides {
+	system: DisabledOverrides;
+	gui: DisabledOverrides;
+}
+
 /** macOS version information */
 export interface MacOSVersion {
 	/** Major version number (e.g., 14 for Sonoma) */
@@ -0,0 +1,174 @@
+/**
+ * Reverse lookup: find the services behind a port, PID or path
+ *
+ * Lookups are typed into the search bar as `:port 5432`, `:pid 1234` or
+ * `:path /usr/local/bin/foo`. Matching is pure; the process list and the sockets
+ * holding a port are gathered by the caller.
+ */
+
+import type { LookupMatch, OpenSocket, ProcessInfo, Service } from "../types";
+import { formatSocketDeclaration } from "./plist";
+
+export type LookupQuery =
+	| { kind: "port"; port: number }
+	| { kind: "pid"; pid: number }
+	| { kind: "path"; path: string };
+
+/** What a lookup can match against besides the services themselves */
+export interface LookupContext {
+	/** Full process list, to find the service a child process belongs to */
+	processes?: ProcessInfo[];
+	/** Sockets bound to the looked-up port */
+	sockets?: OpenSocket[];
+}
+
+/**
+ * Whether a search query is a reverse lookup rather than a fuzzy search
+ */
+export function isLookupQuery(query: string): boolean {
+	return query.trimStart().startsWith(":");
+}
+
+/**
+ * Parse `:port <n>`, `:pid <n>` or `:path <path>`
+ * Throws with a usage hint when the query is not a valid lookup
+ */
+export function parseLookupQuery(query: string): LookupQuery {
+	const match = query.trim().match(/^:(\w+)\s*(.*)$/);
+	const kind = match?.[1]?.toLowerCase();
+	const value = match?.[2]?.trim() ?? "";
+
+	if (kind === "port" || kind === "pid") {
+		const number = /^\d+$/.test(value) ? Number.parseInt(value, 10) : Number.NaN;
+		if (kind === "port" && (Number.isNaN(number) || number < 1 || number > 65535)) {
+			throw new Error("Usage: :port <1-65535>");
+		}
+		if (kind === "pid" && (Number.isNaN(number) || number < 1)) {
+			throw new Error("Usage: :pid <process id>");
+		}
+		return kind === "port" ? { kind, port: number } : { kind, pid: number };
+	}
+	if (kind === "path") {
+		if (!value) throw new Error("Usage: :path <file or directory>");
+		// Keep "/" itself, but drop the trailing slash of a directory
+		return { kind, path: value.length > 1 ? value.replace(/\/+$/, "") : value };
+	}
+
+	throw new Error("Unknown lookup (use :port, :pid or :path)");
+}
+
+/**
+ * Whether a configured path is the looked-up path or lies inside it
+ */
+function pathMatches(value: string, path: string): boolean {
+	if (value === path) return true;
+	return value.startsWith(path.endsWith("/") ? path : `${path}/`);
+}
+
+/**
+ * Why a service matches a path, or null
+ */
+function matchPath(service: Service, path: string): string | null {
+	const metadata = service.plistMetadata;
+	const fields: [reason: string, values: (string | undefined)[] | undefined][] = [
+		["Program", [metadata?.program]],
+		// Arguments also match in `--flag=<path>` form
+		[
+			"ProgramArguments",
+			metadata?.programArguments?.flatMap((arg) => [arg, arg.slice(arg.indexOf("=") + 1)]),
+		],
+		["WatchPaths", metadata?.watchPaths],
+		["QueueDirectories", metadata?.queueDirectories],
+		["StandardOutPath", [metadata?.standardOutPath]],
+		["StandardErrorPath", [metadata?.standardErrorPath]],
+		["WorkingDirectory", [metadata?.workingDirectory]],
+		...(metadata?.sockets ?? []).map((socket): [string, (string | undefined)[]] => [
+			`Sockets ${socket.name}`,
+			[socket.pathName],
+		]),
+		["plist", [service.plistPath]],
+	];
+
+	for (const [reason, values] of fields) {
+		if (values?.some((value) => value !== undefined && pathMatches(value, path))) return reason;
+	}
+	return null;
+}
+
+/**
+ * Map a PID to the service whose process is that PID or one of its ancestors
+ * launchd (PID 1) is everyone's ancestor, so it only matches itself
+ */
+function ownerOfPid(
+	pid: number,
+	byPid: Map<number, Service>,
+	parents: Map<number, number>,
+): { service: Service; direct: boolean } | null {
+	const direct = byPid.get(pid);
+	if (direct) return { service: direct, direct: true };
+
+	const seen = new Set<number>([pid]);
+	let current = parents.get(pid);
+	while (current !== undefined && current > 1 && !seen.has(current)) {
+		const service = byPid.get(current);
+		if (service) return { service, direct: false };
+		seen.add(current);
+		current = parents.get(current);
+	}
+	return null;
+}
+
+/**
+ * Find the services a lookup resolves to, each with the reason it matched
+ * Services are listed in input order, once each
+ */
+export function findServicesByLookup(
+	services: Service[],
+	query: LookupQuery,
+	context: LookupContext = {},
+): LookupMatch[] {
+	const reasons = new Map<string, string>();
+	const addMatch = (service: Service, reason: string) => {
+		if (!reasons.has(service.id)) reasons.set(service.id, reason);
+	};
+
+	if (query.kind === "path") {
+		for (const service of services) {
+			const reason = matchPath(service, query.path);
+			if (reason) addMatch(service, reason);
+		}
+	} else {
+		const byPid = new Map<number, Service>();
+		for (const service of services) {
+			if (service.pid) byPid.set(service.pid, service);
+		}
+		const parents = new Map<number, number>();
+		for (const info of context.processes ?? []) parents.set(info.pid, info.ppid);
+
+		const addOwner = (pid: number, describe: (direct: boolean) => string) => {
+			const owner = ownerOfPid(pid, byPid, parents);
+			if (owner) addMatch(owner.service, describe(owner.direct));
+		};
+
+		if (query.kind === "pid") {
+			addOwner(query.pid, (direct) => (direct ? `PID ${query.pid}` : `parent of PID ${query.pid}`));
+		} else {
+			for (const socket of context.sockets ?? []) {
+				if (socket.port !== query.port) continue;
+				addOwner(
+					socket.pid,
+					() => `${socket.protocol ?? socket.family} ${socket.address}:${socket.port} (PID ${socket.pid})`,
+				);
+			}
+			for (const service of services) {
+				const socket = service.plistMetadata?.sockets?.find((s) => s.serviceName === String(query.port));
+				if (socket) addMatch(service, `Sockets ${socket.name} ${formatSocketDeclaration(socket)}`);
+			}
+		}
+	}
+
+	return services.flatMap((service) => {
+		const reason = reasons.get(service.id);
+		return reason ? [{ serviceId: service.id, label: service.label, reason }] : [];
+	});
+}
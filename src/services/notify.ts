@@ -0,0 +1,30 @@
+/**
+ * Desktop notifications through Notification Center
+ */
+
+import { execCommand } from "./launchctl/exec";
+
+/**
+ * Quote a string as an AppleScript string literal
+ */
+function appleScriptString(value: string): string {
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build the `osascript` script that posts a notification
+ */
+export function buildNotificationScript(title: string, message: string): string {
+	return `display notification ${appleScriptString(message)} with title ${appleScriptString(title)}`;
+}
+
+/**
+ * Post a notification with `osascript`
+ * Throws when osascript fails, e.g. outside a GUI session
+ */
+export async function sendDesktopNotification(title: string, message: string): Promise<void> {
+	const result = await execCommand("osascript", ["-e", buildNotificationScript(title, message)]);
+	if (result.exitCode !== 0) {
+		throw new Error(result.stderr.trim() || "osascript failed");
+	}
+}
@@ -0,0 +1,422 @@
+/**
+ * Persistence audit
+ * Scores third-party launch items for the traits of unwanted persistence: programs
+ * in temporary, hidden or user-writable locations, missing or unsigned programs,
+ * interpreter one-liners and plists anyone can rewrite. The score ranks what to
+ * look at first; it is not a verdict.
+ */
+
+import { statSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { basename, dirname, join } from "node:path";
+import type {
+	CodeSignature,
+	PersistenceAssessment,
+	PersistenceAuditReport,
+	PersistenceFinding,
+	PersistenceRisk,
+	PersistenceSignal,
+	Service,
+} from "../types";
+import { markdownCell } from "../utils/format";
+import { getConfigDir } from "../utils/paths";
+
+/** File system checks used by the audit (injectable for tests) */
+export interface AuditFileSystem {
+	exists(path: string): boolean;
+	/** Owner UID and mode bits, or null when the path cannot be read */
+	stat(path: string): { uid: number; mode: number } | null;
+}
+
+export const defaultAuditFileSystem: AuditFileSystem = {
+	exists: (path) => {
+		try {
+			statSync(path);
+			return true;
+		} catch {
+			return false;
+		}
+	},
+	stat: (path) => {
+		try {
+			const stats = statSync(path);
+			return { uid: stats.uid, mode: stats.mode };
+		} catch {
+			return null;
+		}
+	},
+};
+
+export interface PersistenceAuditContext {
+	fs?: AuditFileSystem;
+	/** Code signatures by program path */
+	signatures?: ReadonlyMap<string, CodeSignature>;
+}
+
+export type AuditReportFormat = "json" | "markdown";
+
+/** Points each signal adds to a service's score */
+export const SIGNAL_SCORES: Record<PersistenceSignal, number> = {
+	"temp-location": 40,
+	"world-writable-plist": 40,
+	"interpreter-one-liner": 35,
+	unsigned: 30,
+	"user-writable": 25,
+	"hidden-path": 20,
+	"adhoc-signed": 15,
+	"keepalive-unknown-vendor": 15,
+	"program-missing": 10,
+};
+
+/** Lowest score of a high-risk service */
+const HIGH_RISK_SCORE = 50;
+
+/** Lowest score of a medium-risk service */
+const MEDIUM_RISK_SCORE = 25;
+
+/** Directories anyone can write to or that are cleaned up behind the job's back */
+const TEMP_PREFIXES = [
+	"/tmp/",
+	"/private/tmp/",
+	"/var/tmp/",
+	"/private/var/tmp/",
+	"/var/folders/",
+	"/private/var/folders/",
+	"/Users/Shared/",
+];
+
+/** Inline code longer than this is cut short in messages */
+const MAX_CODE_LENGTH = 60;
+
+/** Reports directory name inside the config directory */
+const REPORT_DIR = "reports";
+
+/** Mode bit for "writable by others" */
+const WORLD_WRITABLE = 0o002;
+
+const RISK_ORDER: PersistenceRisk[] = ["high", "medium", "low", "none"];
+
+/**
+ * Whether a service is audited: third-party launchd jobs (system extensions have no plist)
+ */
+export function isAuditedService(service: Service): boolean {
+	return !service.isAppleService && service.type !== "SystemExtension";
+}
+
+/**
+ * The executable launchd runs for a service: Program, or else ProgramArguments[0]
+ */
+export function auditedProgram(service: Service): string | undefined {
+	return service.plistMetadata?.program ?? service.plistMetadata?.programArguments?.[0];
+}
+
+/**
+ * Flag that passes inline code to an interpreter, e.g. `sh -c`, `python3 -c`, `osascript -e`
+ * Returns null for programs that are not interpreters.
+ */
+function inlineCodeFlag(interpreter: string): RegExp | null {
+	// Shells accept the flag combined with others, e.g. `bash -lc`
+	if (/^(sh|bash|zsh|dash|ksh|csh|tcsh|fish)$/.test(interpreter)) return /^-[a-zA-Z]*c$/;
+	if (/^python[\d.]*$/.test(interpreter)) return /^-c$/;
+	if (interpreter === "perl" || interpreter === "ruby") return /^-[eE]$/;
+	if (interpreter === "node") return /^(-e|-p|--eval|--print)$/;
+	if (interpreter === "php") return /^-r$/;
+	if (interpreter === "osascript") return /^-e$/;
+	return null;
+}
+
+/**
+ * Drop a leading `/usr/bin/env` with its options and VAR=value assignments
+ */
+function withoutEnv(args: string[]): string[] {
+	if (!args[0] || basename(args[0]) !== "env") return args;
+	const index = args.findIndex((arg, i) => i > 0 && !arg.startsWith("-") && !arg.includes("="));
+	return index === -1 ? [] : args.slice(index);
+}
+
+/**
+ * Find inline code passed to an interpreter, e.g. `/bin/sh -c "curl … | sh"`
+ */
+export function findInterpreterOneLiner(args: string[]): { interpreter: string; code: string } | null {
+	const [first, ...params] = withoutEnv(args);
+	if (!first) return null;
+	const interpreter = basename(first);
+	const flag = inlineCodeFlag(interpreter);
+	if (!flag) return null;
+	const index = params.findIndex((arg) => flag.test(arg));
+	const code = index === -1 ? undefined : params[index + 1];
+	return code === undefined ? null : { interpreter, code };
+}
+
+/**
+ * The script an interpreter runs, e.g. `/Users/Shared/run.sh` in `/bin/bash /Users/Shared/run.sh`
+ */
+function interpreterScript(args: string[]): string | undefined {
+	const [first, ...params] = withoutEnv(args);
+	if (!first || !inlineCodeFlag(basename(first))) return undefined;
+	return params.find((arg) => arg.startsWith("/"));
+}
+
+function isTempLocation(path: string): boolean {
+	return TEMP_PREFIXES.some((prefix) => path.startsWith(prefix));
+}
+
+function hasHiddenComponent(path: string): boolean {
+	return path.split("/").some((part) => part.startsWith(".") && part !== "." && part !== "..");
+}
+
+/** Owned by someone other than root, or writable by everyone */
+function isUserWritable(path: string, fs: AuditFileSystem): boolean {
+	const stats = fs.stat(path);
+	return stats !== null && (stats.uid !== 0 || (stats.mode & WORLD_WRITABLE) !== 0);
+}
+
+function truncateCode(code: string): string {
+	const oneLine = code.replace(/\s+/g, " ").trim();
+	return oneLine.length > MAX_CODE_LENGTH ? `${oneLine.slice(0, MAX_CODE_LENGTH - 1)}…` : oneLine;
+}
+
+/**
+ * Checks on where an executable (the program, or the script an interpreter runs) lives
+ */
+function locationFindings(
+	service: Service,
+	role: "Program" | "Script",
+	path: string,
+	fs: AuditFileSystem,
+): Array<[PersistenceSignal, string]> {
+	if (!path.startsWith("/")) return [];
+
+	const findings: Array<[PersistenceSignal, string]> = [];
+	if (isTempLocation(path)) {
+		findings.push(["temp-location", `${role} ${path} is in a temporary or shared directory`]);
+	}
+	if (hasHiddenComponent(path)) {
+		findings.push(["hidden-path", `${role} ${path} is hidden`]);
+	}
+	if (!fs.exists(path)) {
+		findings.push(["program-missing", `${role} ${path} no longer exists`]);
+		return findings;
+	}
+	// Only a concern when the job runs as root; agents run as the user anyway
+	if (service.type === "LaunchDaemon" && (isUserWritable(path, fs) || isUserWritable(dirname(path), fs))) {
+		findings.push(["user-writable", `Runs as root, but a non-root user can replace ${path}`]);
+	}
+	return findings;
+}
+
+/**
+ * Risk level for a score
+ */
+export function riskForScore(score: number): PersistenceRisk {
+	if (score >= HIGH_RISK_SCORE) return "high";
+	if (score >= MEDIUM_RISK_SCORE) return "medium";
+	return score > 0 ? "low" : "none";
+}
+
+/**
+ * Score a service (with plist metadata) for persistence risk
+ * Each signal counts once, however many paths trigger it.
+ */
+export function assessService(
+	service: Service,
+	context: PersistenceAuditContext = {},
+): PersistenceAssessment {
+	const fs = context.fs ?? defaultAuditFileSystem;
+	const metadata = service.plistMetadata;
+	const args = metadata?.programArguments ?? [];
+	// With Program set, ProgramArguments[0] is only the process name
+	const argv = metadata?.program ? [metadata.program, ...args.slice(1)] : args;
+	const program = auditedProgram(service);
+	const signature = program ? context.signatures?.get(program) : undefined;
+	const candidates: Array<[PersistenceSignal, string]> = [];
+
+	if (program) {
+		candidates.push(...locationFindings(service, "Program", program, fs));
+	}
+	const script = interpreterScript(argv);
+	if (script) {
+		candidates.push(...locationFindings(service, "Script", script, fs));
+	}
+	if (service.plistPath && hasHiddenComponent(service.plistPath)) {
+		candidates.push(["hidden-path", `Plist ${service.plistPath} is hidden`]);
+	}
+
+	const oneLiner = findInterpreterOneLiner(argv);
+	if (oneLiner) {
+		candidates.push([
+			"interpreter-one-liner",
+			`Runs inline ${oneLiner.interpreter} code: ${truncateCode(oneLiner.code)}`,
+		]);
+	}
+
+	if (signature?.status === "unsigned") {
+		candidates.push(["unsigned", `${program} is not code signed`]);
+	} else if (signature?.status === "adhoc") {
+		candidates.push(["adhoc-signed", `${program} is ad-hoc signed (no developer identity)`]);
+	}
+
+	const keptAlive = metadata?.keepAlive !== undefined && metadata.keepAlive !== false;
+	if (
+		keptAlive &&
+		metadata?.runAtLoad === true &&
+		signature &&
+		signature.status !== "unknown" &&
+		!signature.teamId
+	) {
+		candidates.push([
+			"keepalive-unknown-vendor",
+			"Starts at load and is kept alive, but its program has no developer team ID",
+		]);
+	}
+
+	if (service.plistPath) {
+		const stats = fs.stat(service.plistPath);
+		if (stats && (stats.mode & WORLD_WRITABLE) !== 0) {
+			candidates.push(["world-writable-plist", `Anyone can modify ${service.plistPath}`]);
+		}
+	}
+
+	const findings: PersistenceFinding[] = [];
+	for (const [signal, message] of candidates) {
+		if (findings.some((finding) => finding.signal === signal)) continue;
+		findings.push({ signal, score: SIGNAL_SCORES[signal], message });
+	}
+	const score = findings.reduce((total, finding) => total + finding.score, 0);
+
+	const assessment: PersistenceAssessment = {
+		serviceId: service.id,
+		label: service.label,
+		type: service.type,
+		domain: service.domain,
+		score,
+		risk: riskForScore(score),
+		findings,
+	};
+	if (service.plistPath) assessment.plistPath = service.plistPath;
+	if (program) assessment.program = program;
+	if (signature) assessment.signature = signature;
+	return assessment;
+}
+
+/**
+ * Sort assessments with the highest score first, then by label
+ */
+export function sortAssessments(assessments: PersistenceAssessment[]): PersistenceAssessment[] {
+	return [...assessments].sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+}
+
+/**
+ * Count services per risk level
+ */
+export function countByRisk(assessments: PersistenceAssessment[]): Record<PersistenceRisk, number> {
+	const counts: Record<PersistenceRisk, number> = { high: 0, medium: 0, low: 0, none: 0 };
+	for (const assessment of assessments) counts[assessment.risk]++;
+	return counts;
+}
+
+/**
+ * One-line summary, e.g. "2 high, 1 medium, 4 low, 9 clean"
+ */
+export function summarizeAudit(summary: Record<PersistenceRisk, number>): string {
+	return RISK_ORDER.map((risk) => `${summary[risk]} ${risk === "none" ? "clean" : risk}`).join(", ");
+}
+
+/**
+ * Describe a code signature in a few words, e.g. "signed (team 9BNSXJN65R)"
+ */
+export function describeSignature(signature: CodeSignature): string {
+	switch (signature.status) {
+		case "signed":
+			return signature.teamId ? `signed (team ${signature.teamId})` : "signed (no team ID)";
+		case "adhoc":
+			return "ad-hoc signed";
+		case "unsigned":
+			return "unsigned";
+		case "unknown":
+			return "signature unreadable";
+	}
+}
+
+/**
+ * Build the JSON report of an audit
+ */
+export function buildAuditReport(
+	assessments: PersistenceAssessment[],
+	createdAt: Date = new Date(),
+	host: string = hostname(),
+): PersistenceAuditReport {
+	return {
+		createdAt: createdAt.toISOString(),
+		hostname: host,
+		summary: countByRisk(assessments),
+		services: sortAssessments(assessments),
+	};
+}
+
+/**
+ * Format a report as Markdown: a summary and a table of the services with findings
+ */
+export function formatAuditMarkdown(report: PersistenceAuditReport): string {
+	const flagged = report.services.filter((service) => service.risk !== "none");
+	const lines = [
+		"# Persistence audit",
+		"",
+		`- Host: ${report.hostname || "unknown"}`,
+		`- Date: ${report.createdAt}`,
+		`- Third-party services: ${report.services.length} (${summarizeAudit(report.summary)})`,
+		"",
+	];
+	if (flagged.length === 0) {
+		lines.push("No findings.");
+		return lines.join("\n");
+	}
+
+	lines.push(
+		"| Risk | Score | Label | Type | Program | Signature | Findings |",
+		"| --- | ---: | --- | --- | --- | --- | --- |",
+	);
+	for (const service of flagged) {
+		const cells = [
+			service.risk,
+			String(service.score),
+			markdownCell(service.label),
+			service.type,
+			service.program ? `\`${markdownCell(service.program)}\`` : "-",
+			service.signature ? describeSignature(service.signature) : "-",
+			service.findings.map((finding) => markdownCell(finding.message)).join("<br>"),
+		];
+		lines.push(`| ${cells.join(" | ")} |`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Format a report for export
+ */
+export function formatAuditReport(report: PersistenceAuditReport, format: AuditReportFormat): string {
+	return format === "json" ? JSON.stringify(report, null, 2) : formatAuditMarkdown(report);
+}
+
+/**
+ * Get the directory audit reports are exported to
+ */
+export function getReportDir(env: NodeJS.ProcessEnv = process.env): string {
+	return join(getConfigDir(env), REPORT_DIR);
+}
+
+/** File extension per audit report format */
+export const AUDIT_REPORT_EXTENSIONS: Record<AuditReportFormat, string> = { json: "json", markdown: "md" };
+
+/**
+ * Write an audit report, creating the directory if needed
+ */
+export async function writeAuditReport(
+	report: PersistenceAuditReport,
+	format: AuditReportFormat,
+	path: string,
+): Promise<void> {
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, `${formatAuditReport(report, format)}\n`, { mode: 0o600 });
+}
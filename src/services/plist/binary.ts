@@ -0,0 +1,371 @@
+/**
+ * Binary property list (bplist00) reader and writer
+ *
+ * Layout: "bplist00" header, object data, offset table, 32-byte trailer.
+ * Each object starts with a marker byte: the high nibble is the type and
+ * the low nibble is a size or length (0xF = length follows as an integer object).
+ */
+
+import { type PlistDict, PlistReal, type PlistValue, setDictEntry, toPlistReal } from "./types";
+
+const BPLIST_MAGIC = "bplist00";
+const TRAILER_SIZE = 32;
+/** Seconds between the Unix epoch and the Core Data epoch (2001-01-01T00:00:00Z) */
+const APPLE_EPOCH_SECONDS = 978307200;
+
+// Marker types (high nibble)
+const TYPE_SIMPLE = 0x0;
+const TYPE_INT = 0x1;
+const TYPE_REAL = 0x2;
+const TYPE_DATE = 0x3;
+const TYPE_DATA = 0x4;
+const TYPE_ASCII = 0x5;
+const TYPE_UTF16 = 0x6;
+const TYPE_UID = 0x8;
+const TYPE_ARRAY = 0xa;
+const TYPE_SET = 0xc;
+const TYPE_DICT = 0xd;
+
+const MARKER_FALSE = 0x08;
+const MARKER_TRUE = 0x09;
+
+const INT64_MIN = -(2n ** 63n);
+const UINT64_MAX = 2n ** 64n - 1n;
+
+/**
+ * Check whether bytes start with the binary plist header
+ */
+export function isBinaryPlist(bytes: Uint8Array): boolean {
+	if (bytes.length < BPLIST_MAGIC.length) return false;
+	for (let i = 0; i < BPLIST_MAGIC.length; i++) {
+		if (bytes[i] !== BPLIST_MAGIC.charCodeAt(i)) return false;
+	}
+	return true;
+}
+
+/** Narrow a bigint to a number when no precision is lost */
+function toPlistInteger(value: bigint): number | bigint {
+	return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+		? Number(value)
+		: value;
+}
+
+/**
+ * Parse a binary property list
+ * Throws when the data is truncated, references are out of range or objects form a cycle
+ */
+export function parsePlistBinary(bytes: Uint8Array): PlistValue {
+	const fail = (message: string): never => {
+		throw new Error(`Invalid binary plist: ${message}`);
+	};
+
+	if (!isBinaryPlist(bytes) || bytes.length < BPLIST_MAGIC.length + TRAILER_SIZE) {
+		fail("missing bplist00 header or trailer");
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	const readUInt = (offset: number, size: number): number => {
+		if (offset + size > bytes.length) fail("unexpected end of data");
+		let value = 0;
+		for (let i = 0; i < size; i++) {
+			value = value * 256 + (bytes[offset + i] as number);
+		}
+		if (!Number.isSafeInteger(value)) fail("size or offset too large");
+		return value;
+	};
+
+	const trailer = bytes.length - TRAILER_SIZE;
+	const offsetSize = bytes[trailer + 6] as number;
+	const refSize = bytes[trailer + 7] as number;
+	const numObjects = readUInt(trailer + 8, 8);
+	const topObject = readUInt(trailer + 16, 8);
+	const tableOffset = readUInt(trailer + 24, 8);
+
+	if (offsetSize < 1 || offsetSize > 8 || refSize < 1 || refSize > 8) fail("invalid trailer");
+	if (tableOffset < BPLIST_MAGIC.length || tableOffset + numObjects * offsetSize > trailer) {
+		fail("offset table out of range");
+	}
+	if (topObject >= numObjects) fail("top object out of range");
+
+	const objectOffset = (ref: number): number => {
+		if (ref >= numObjects) fail(`object reference ${ref} out of range`);
+		const offset = readUInt(tableOffset + ref * offsetSize, offsetSize);
+		if (offset < BPLIST_MAGIC.length || offset >= tableOffset) fail(`object offset ${offset} out of range`);
+		return offset;
+	};
+
+	const ensureRange = (start: number, length: number) => {
+		if (start + length > tableOffset) fail("object data out of range");
+	};
+
+	// Length from the marker nibble, or from a following integer object when the nibble is 0xF
+	const readLength = (offset: number, info: number): { length: number; start: number } => {
+		if (info !== 0xf) return { length: info, start: offset + 1 };
+		const marker = bytes[offset + 1] as number;
+		if (marker >> 4 !== TYPE_INT) fail("invalid length marker");
+		const size = 1 << (marker & 0xf);
+		return { length: readUInt(offset + 2, size), start: offset + 2 + size };
+	};
+
+	const readInt = (offset: number, size: number): number | bigint => {
+		ensureRange(offset, size);
+		switch (size) {
+			case 1:
+			case 2:
+			case 4:
+				return readUInt(offset, size);
+			case 8:
+				return toPlistInteger(view.getBigInt64(offset));
+			case 16:
+				// Unsigned 64-bit values are stored as 128-bit integers; the high half is zero
+				return toPlistInteger(view.getBigUint64(offset + 8));
+			default:
+				return fail(`unsupported integer size ${size}`);
+		}
+	};
+
+	const visiting = new Set<number>();
+
+	const readRefs = (start: number, count: number): number[] => {
+		ensureRange(start, count * refSize);
+		return Array.from({ length: count }, (_, i) => readUInt(start + i * refSize, refSize));
+	};
+
+	const parseObject = (ref: number): PlistValue => {
+		const offset = objectOffset(ref);
+		const marker = bytes[offset] as number;
+		const type = marker >> 4;
+		const info = marker & 0xf;
+
+		switch (type) {
+			case TYPE_SIMPLE:
+				if (marker === MARKER_TRUE) return true;
+				if (marker === MARKER_FALSE) return false;
+				return fail(`unsupported marker 0x${marker.toString(16)}`);
+			case TYPE_INT:
+				return readInt(offset + 1, 1 << info);
+			case TYPE_REAL: {
+				const size = 1 << info;
+				ensureRange(offset + 1, size);
+				if (size === 4) return toPlistReal(view.getFloat32(offset + 1));
+				if (size === 8) return toPlistReal(view.getFloat64(offset + 1));
+				return fail(`unsupported real size ${size}`);
+			}
+			case TYPE_DATE:
+				if (info !== 3) fail("invalid date");
+				ensureRange(offset + 1, 8);
+				return new Date((view.getFloat64(offset + 1) + APPLE_EPOCH_SECONDS) * 1000);
+			case TYPE_DATA: {
+				const { length, start } = readLength(offset, info);
+				ensureRange(start, length);
+				return bytes.slice(start, start + length);
+			}
+			case TYPE_ASCII: {
+				const { length, start } = readLength(offset, info);
+				ensureRange(start, length);
+				return new TextDecoder("latin1").decode(bytes.subarray(start, start + length));
+			}
+			case TYPE_UTF16: {
+				const { length, start } = readLength(offset, info);
+				ensureRange(start, length * 2);
+				const units = Array.from({ length }, (_, i) => view.getUint16(start + i * 2));
+				let text = "";
+				// Chunk to stay within the argument limit of fromCharCode
+				for (let i = 0; i < units.length; i += 8192) {
+					text += String.fromCharCode(...units.slice(i, i + 8192));
+				}
+				return text;
+			}
+			case TYPE_UID:
+				return readUInt(offset + 1, info + 1);
+			case TYPE_ARRAY:
+			case TYPE_SET:
+			case TYPE_DICT: {
+				if (visiting.has(ref)) fail("object graph contains a cycle");
+				visiting.add(ref);
+				const { length, start } = readLength(offset, info);
+				let result: PlistValue;
+				if (type === TYPE_DICT) {
+					const keyRefs = readRefs(start, length);
+					const valueRefs = readRefs(start + length * refSize, length);
+					const dict: PlistDict = {};
+					keyRefs.forEach((keyRef, i) => {
+						const key = parseObject(keyRef);
+						if (typeof key !== "string") fail("dictionary key is not a string");
+						setDictEntry(dict, key as string, parseObject(valueRefs[i] as number));
+					});
+					result = dict;
+				} else {
+					result = readRefs(start, length).map(parseObject);
+				}
+				visiting.delete(ref);
+				return result;
+			}
+			default:
+				return fail(`unsupported marker 0x${marker.toString(16)}`);
+		}
+	};
+
+	return parseObject(topObject);
+}
+
+function isAscii(text: string): boolean {
+	for (let i = 0; i < text.length; i++) {
+		if (text.charCodeAt(i) > 0x7f) return false;
+	}
+	return true;
+}
+
+/** Smallest byte width (1, 2, 4 or 8) that can hold an unsigned value */
+function byteWidth(value: number): number {
+	if (value <= 0xff) return 1;
+	if (value <= 0xffff) return 2;
+	if (value <= 0xffffffff) return 4;
+	return 8;
+}
+
+function pushUInt(out: number[], value: number, size: number) {
+	for (let i = size - 1; i >= 0; i--) {
+		out.push(Math.floor(value / 256 ** i) % 256);
+	}
+}
+
+function pushBigInt(out: number[], value: bigint, size: number) {
+	const unsigned = BigInt.asUintN(size * 8, value);
+	for (let i = size - 1; i >= 0; i--) {
+		out.push(Number((unsigned >> BigInt(i * 8)) & 0xffn));
+	}
+}
+
+function pushFloat64(out: number[], value: number) {
+	const view = new DataView(new ArrayBuffer(8));
+	view.setFloat64(0, value);
+	for (let i = 0; i < 8; i++) out.push(view.getUint8(i));
+}
+
+function pushInteger(out: number[], value: bigint) {
+	if (value < INT64_MIN || value > UINT64_MAX) {
+		throw new Error(`Integer ${value} does not fit in 64 bits`);
+	}
+	if (value > 2n ** 63n - 1n) {
+		out.push((TYPE_INT << 4) | 4);
+		pushBigInt(out, 0n, 8);
+		pushBigInt(out, value, 8);
+	} else if (value < 0n || value > 0xffffffffn) {
+		out.push((TYPE_INT << 4) | 3);
+		pushBigInt(out, value, 8);
+	} else {
+		const size = byteWidth(Number(value));
+		out.push((TYPE_INT << 4) | Math.log2(size));
+		pushUInt(out, Number(value), size);
+	}
+}
+
+function pushHeader(out: number[], type: number, length: number) {
+	if (length < 0xf) {
+		out.push((type << 4) | length);
+	} else {
+		out.push((type << 4) | 0xf);
+		pushInteger(out, BigInt(length));
+	}
+}
+
+/**
+ * Serialize a value as a binary property list
+ * Strings are stored once and shared by every reference to them
+ */
+export function serializePlistBinary(value: PlistValue): Uint8Array {
+	// Flatten into an object table; containers hold references to their children
+	const objects: PlistValue[] = [];
+	const childRefs: number[][] = [];
+	const stringRefs = new Map<string, number>();
+
+	const addObject = (item: PlistValue): number => {
+		if (typeof item === "string") {
+			const existing = stringRefs.get(item);
+			if (existing !== undefined) return existing;
+			stringRefs.set(item, objects.length);
+		}
+
+		const index = objects.length;
+		objects.push(item);
+		childRefs.push([]);
+
+		if (Array.isArray(item)) {
+			childRefs[index] = item.map(addObject);
+		} else if (
+			typeof item === "object" &&
+			item !== null &&
+			!(item instanceof Date) &&
+			!(item instanceof Uint8Array) &&
+			!(item instanceof PlistReal)
+		) {
+			const keys = Object.keys(item);
+			const keyRefs = keys.map((key) => addObject(key));
+			const valueRefs = keys.map((key) => addObject(item[key] as PlistValue));
+			childRefs[index] = [...keyRefs, ...valueRefs];
+		}
+		return index;
+	};
+	addObject(value);
+
+	const refSize = byteWidth(objects.length - 1);
+	const out: number[] = [...BPLIST_MAGIC].map((c) => c.charCodeAt(0));
+	const offsets: number[] = [];
+
+	objects.forEach((item, index) => {
+		offsets.push(out.length);
+		const refs = childRefs[index] ?? [];
+
+		if (typeof item === "boolean") {
+			out.push(item ? MARKER_TRUE : MARKER_FALSE);
+		} else if (typeof item === "bigint") {
+			pushInteger(out, item);
+		} else if (typeof item === "number") {
+			if (Number.isInteger(item)) {
+				pushInteger(out, BigInt(item));
+			} else {
+				out.push((TYPE_REAL << 4) | 3);
+				pushFloat64(out, item);
+			}
+		} else if (item instanceof PlistReal) {
+			out.push((TYPE_REAL << 4) | 3);
+			pushFloat64(out, item.value);
+		} else if (typeof item === "string") {
+			if (isAscii(item)) {
+				pushHeader(out, TYPE_ASCII, item.length);
+				for (let i = 0; i < item.length; i++) out.push(item.charCodeAt(i));
+			} else {
+				pushHeader(out, TYPE_UTF16, item.length);
+				for (let i = 0; i < item.length; i++) pushUInt(out, item.charCodeAt(i), 2);
+			}
+		} else if (item instanceof Date) {
+			out.push((TYPE_DATE << 4) | 3);
+			pushFloat64(out, item.getTime() / 1000 - APPLE_EPOCH_SECONDS);
+		} else if (item instanceof Uint8Array) {
+			pushHeader(out, TYPE_DATA, item.length);
+			for (const byte of item) out.push(byte);
+		} else if (Array.isArray(item)) {
+			pushHeader(out, TYPE_ARRAY, refs.length);
+			for (const ref of refs) pushUInt(out, ref, refSize);
+		} else if (typeof item === "object" && item !== null) {
+			pushHeader(out, TYPE_DICT, refs.length / 2);
+			for (const ref of refs) pushUInt(out, ref, refSize);
+		} else {
+			throw new Error(`Cannot write ${item === null ? "null" : typeof item} to a plist`);
+		}
+	});
+
+	const tableOffset = out.length;
+	const offsetSize = byteWidth(tableOffset);
+	for (const offset of offsets) pushUInt(out, offset, offsetSize);
+
+	// Trailer: 6 unused bytes, offset size, reference size, object count, top object, table offset
+	out.push(0, 0, 0, 0, 0, 0, offsetSize, refSize);
+	pushUInt(out, objects.length, 8);
+	pushUInt(out, 0, 8);
+	pushUInt(out, tableOffset, 8);
+
+	return new Uint8Array(out);
+}
@@ -0,0 +1,254 @@
+/**
+ * Pure operations behind the structured plist editor
+ * Values are never mutated; every change returns a new root dictionary
+ */
+
+import type { PlistKeyPath } from "../../types";
+import { LAUNCHD_KEY_KINDS, type PlistValueKind, plistValueKind } from "./schema";
+import { isPlistDict, type PlistDict, PlistReal, type PlistValue, setDictEntry, toPlistReal } from "./types";
+import { parsePlistInteger } from "./xml";
+
+/** One visible line of the editor tree */
+export interface PlistTreeRow {
+	path: PlistKeyPath;
+	depth: number;
+	/** Dictionary key, or "[index]" for array items */
+	name: string;
+	kind: PlistValueKind;
+	value: PlistValue;
+	/** Containers only: whether children are shown */
+	expanded: boolean;
+}
+
+/**
+ * Stable string key for a path (used to remember expanded containers)
+ */
+export function plistPathKey(path: PlistKeyPath): string {
+	return JSON.stringify(path);
+}
+
+/**
+ * Flatten a plist into rows, descending only into expanded containers
+ */
+export function flattenPlistTree(root: PlistDict, expanded: Record<string, true>): PlistTreeRow[] {
+	const rows: PlistTreeRow[] = [];
+
+	const visit = (value: PlistValue, path: PlistKeyPath, depth: number) => {
+		const entries: Array<[string | number, PlistValue]> = Array.isArray(value)
+			? value.map((item, i) => [i, item])
+			: Object.entries(value as PlistDict);
+
+		for (const [segment, child] of entries) {
+			const childPath = [...path, segment];
+			const kind = plistValueKind(child);
+			const isOpen = (kind === "array" || kind === "dict") && plistPathKey(childPath) in expanded;
+			rows.push({
+				path: childPath,
+				depth,
+				name: typeof segment === "number" ? `[${segment}]` : segment,
+				kind,
+				value: child,
+				expanded: isOpen,
+			});
+			if (isOpen) visit(child, childPath, depth + 1);
+		}
+	};
+
+	visit(root, [], 0);
+	return rows;
+}
+
+/**
+ * Look up the value at a path
+ */
+export function getPlistValueAt(root: PlistDict, path: PlistKeyPath): PlistValue | undefined {
+	let current: PlistValue | undefined = root;
+	for (const segment of path) {
+		if (Array.isArray(current) && typeof segment === "number") {
+			current = current[segment];
+		} else if (isPlistDict(current) && typeof segment === "string" && Object.hasOwn(current, segment)) {
+			current = current[segment];
+		} else {
+			return undefined;
+		}
+	}
+	return current;
+}
+
+/**
+ * Replace the container at `path` with the result of `update`, copying every container on the way
+ */
+function updateContainer(
+	value: PlistValue,
+	path: PlistKeyPath,
+	update: (container: PlistValue[] | PlistDict) => PlistValue[] | PlistDict,
+): PlistValue {
+	if (!Array.isArray(value) && !isPlistDict(value)) {
+		throw new Error("Path does not point into a container");
+	}
+	const [segment, ...rest] = path;
+	if (segment === undefined) return update(value);
+
+	if (Array.isArray(value)) {
+		const item = typeof segment === "number" ? value[segment] : undefined;
+		if (item === undefined) throw new Error(`No item at [${String(segment)}]`);
+		const copy = [...value];
+		copy[segment as number] = updateContainer(item, rest, update);
+		return copy;
+	}
+
+	if (typeof segment !== "string" || !Object.hasOwn(value, segment)) {
+		throw new Error(`No key "${String(segment)}"`);
+	}
+	const copy = { ...value };
+	setDictEntry(copy, segment, updateContainer(value[segment] as PlistValue, rest, update));
+	return copy;
+}
+
+function splitPath(path: PlistKeyPath): [PlistKeyPath, string | number] {
+	const last = path[path.length - 1];
+	if (last === undefined) throw new Error("Cannot change the root dictionary");
+	return [path.slice(0, -1), last];
+}
+
+/**
+ * Replace an existing value, keeping its position in the parent
+ */
+export function setPlistValueAt(root: PlistDict, path: PlistKeyPath, value: PlistValue): PlistDict {
+	const [parentPath, last] = splitPath(path);
+	return updateContainer(root, parentPath, (container) => {
+		if (Array.isArray(container)) {
+			if (typeof last !== "number" || last >= container.length) throw new Error(`No item at [${last}]`);
+			const copy = [...container];
+			copy[last] = value;
+			return copy;
+		}
+		if (typeof last !== "string" || !Object.hasOwn(container, last)) throw new Error(`No key "${last}"`);
+		const copy = { ...container };
+		setDictEntry(copy, last, value);
+		return copy;
+	}) as PlistDict;
+}
+
+/**
+ * Remove a dictionary entry or array item
+ */
+export function removePlistValueAt(root: PlistDict, path: PlistKeyPath): PlistDict {
+	const [parentPath, last] = splitPath(path);
+	return updateContainer(root, parentPath, (container) => {
+		if (Array.isArray(container)) return container.filter((_, i) => i !== last);
+		const copy: PlistDict = {};
+		for (const [key, item] of Object.entries(container)) {
+			if (key !== last) setDictEntry(copy, key, item);
+		}
+		return copy;
+	}) as PlistDict;
+}
+
+/**
+ * Add an entry to the dictionary or array at `containerPath`
+ * Dictionary entries need a key that is not already present; array items are appended
+ */
+export function addPlistEntry(
+	root: PlistDict,
+	containerPath: PlistKeyPath,
+	value: PlistValue,
+	key?: string,
+): PlistDict {
+	return updateContainer(root, containerPath, (container) => {
+		if (Array.isArray(container)) return [...container, value];
+		if (!key) throw new Error("Key is required");
+		if (Object.hasOwn(container, key)) throw new Error(`Key "${key}" already exists`);
+		const copy = { ...container };
+		setDictEntry(copy, key, value);
+		return copy;
+	}) as PlistDict;
+}
+
+/**
+ * Empty value of a kind
+ */
+export function defaultPlistValue(kind: PlistValueKind): PlistValue {
+	switch (kind) {
+		case "boolean":
+			return false;
+		case "integer":
+			return 0;
+		case "number":
+			return new PlistReal(0);
+		case "array":
+			return [];
+		case "dict":
+			return {};
+		case "date":
+			return new Date(0);
+		case "data":
+			return new Uint8Array();
+		default:
+			return "";
+	}
+}
+
+/**
+ * Initial value for a new top-level key, typed from the launchd schema (strings for unknown keys)
+ */
+export function defaultValueForKey(key: string): PlistValue {
+	return defaultPlistValue(LAUNCHD_KEY_KINDS[key]?.[0] ?? "string");
+}
+
+/**
+ * Documented launchd keys starting with a prefix that are not already in the dictionary
+ */
+export function suggestLaunchdKeys(prefix: string, existing: PlistDict): string[] {
+	const lower = prefix.toLowerCase();
+	return Object.keys(LAUNCHD_KEY_KINDS).filter(
+		(key) => key.toLowerCase().startsWith(lower) && !Object.hasOwn(existing, key),
+	);
+}
+
+/**
+ * Whether a value can be edited as text (dates and data are shown read-only)
+ */
+export function isEditableScalar(kind: PlistValueKind): boolean {
+	return kind === "string" || kind === "integer" || kind === "number";
+}
+
+/**
+ * Render a scalar for display or as the initial edit buffer
+ */
+export function formatPlistScalar(value: PlistValue): string {
+	if (value instanceof Date) return value.toISOString().replace(/\.\d{3}Z$/, "Z");
+	if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+	if (value instanceof PlistReal) return String(value.value);
+	if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+	if (isPlistDict(value)) {
+		const count = Object.keys(value).length;
+		return `${count} key${count === 1 ? "" : "s"}`;
+	}
+	return String(value);
+}
+
+/**
+ * Parse edited text back into a value of the same kind
+ */
+export function parsePlistScalarInput(
+	kind: PlistValueKind,
+	text: string,
+): { value: PlistValue; error?: undefined } | { value?: undefined; error: string } {
+	switch (kind) {
+		case "string":
+			return { value: text };
+		case "integer": {
+			const value = parsePlistInteger(text);
+			return value === null ? { error: "Enter a whole number" } : { value };
+		}
+		case "number": {
+			const value = Number(text.trim());
+			return text.trim() === "" || !Number.isFinite(value)
+				? { error: "Enter a number" }
+				: { value: toPlistReal(value) };
+		}
+		default:
+			return { error: `${kind} values cannot be edited as text` };
+	}
+}
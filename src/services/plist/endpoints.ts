@@ -0,0 +1,125 @@
+/**
+ * Network and IPC endpoints declared in a launchd plist
+ *
+ * `Sockets` maps a name to one socket dictionary, or to an array of them when the
+ * name covers several sockets (e.g. IPv4 and IPv6). `MachServices` maps a service
+ * name to `true` or to a dictionary of options.
+ */
+
+import type { MachServiceDeclaration, OpenSocket, SocketDeclaration } from "../../types";
+
+/** Keys of a socket dictionary and the declaration fields they fill */
+const SOCKET_STRING_KEYS = {
+	SockServiceName: "serviceName",
+	SockNodeName: "nodeName",
+	SockFamily: "family",
+	SockType: "type",
+	SockProtocol: "protocol",
+	SockPathName: "pathName",
+} as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseSocketDictionary(name: string, dict: Record<string, unknown>): SocketDeclaration {
+	const socket: SocketDeclaration = { name };
+
+	for (const [key, field] of Object.entries(SOCKET_STRING_KEYS)) {
+		const value = dict[key];
+		// SockServiceName is often written as an integer
+		if (typeof value === "string" || typeof value === "number") {
+			socket[field] = String(value);
+		}
+	}
+
+	if (typeof dict.SockPassive === "boolean") {
+		socket.passive = dict.SockPassive;
+	}
+
+	const bonjour = dict.Bonjour;
+	if (typeof bonjour === "boolean") {
+		socket.bonjour = bonjour;
+	} else if (typeof bonjour === "string") {
+		socket.bonjour = [bonjour];
+	} else if (Array.isArray(bonjour)) {
+		socket.bonjour = bonjour.filter((type): type is string => typeof type === "string");
+	}
+
+	return socket;
+}
+
+/**
+ * Parse the plist `Sockets` dictionary, one declaration per socket
+ * Entries that are neither a dictionary nor an array of dictionaries are skipped
+ */
+export function parseSocketDeclarations(sockets: Record<string, unknown> | undefined): SocketDeclaration[] {
+	if (!sockets) return [];
+
+	const declarations: SocketDeclaration[] = [];
+	for (const [name, value] of Object.entries(sockets)) {
+		const dicts = Array.isArray(value) ? value : [value];
+		for (const dict of dicts) {
+			if (isRecord(dict)) declarations.push(parseSocketDictionary(name, dict));
+		}
+	}
+	return declarations;
+}
+
+/**
+ * Parse the plist `MachServices` dictionary
+ * Services set to `false` are not registered and are skipped
+ */
+export function parseMachServiceDeclarations(
+	machServices: Record<string, unknown> | undefined,
+): MachServiceDeclaration[] {
+	if (!machServices) return [];
+
+	const declarations: MachServiceDeclaration[] = [];
+	for (const [name, value] of Object.entries(machServices)) {
+		if (value === true) {
+			declarations.push({ name });
+		} else if (isRecord(value)) {
+			const declaration: MachServiceDeclaration = { name };
+			if (typeof value.HideUntilCheckIn === "boolean") declaration.hideUntilCheckIn = value.HideUntilCheckIn;
+			if (typeof value.ResetAtClose === "boolean") declaration.resetAtClose = value.ResetAtClose;
+			declarations.push(declaration);
+		}
+	}
+	return declarations;
+}
+
+/**
+ * Describe where a declared socket listens, e.g. "tcp *:8080", "udp 127.0.0.1:53" or "unix /var/run/x.sock"
+ */
+export function formatSocketDeclaration(socket: SocketDeclaration): string {
+	if (socket.pathName || socket.family?.toLowerCase() === "unix") {
+		return `unix ${socket.pathName ?? "?"}`;
+	}
+	const protocol = socket.type === "dgram" ? "udp" : "tcp";
+	return `${protocol} ${socket.nodeName ?? "*"}:${socket.serviceName ?? "?"}`;
+}
+
+/**
+ * Open sockets that match a declared socket
+ * Network sockets match on port and protocol (listening TCP sockets only), Unix sockets on path.
+ * Ports given as service names (e.g. "http") are not resolved and never match.
+ */
+export function findBoundSockets(socket: SocketDeclaration, open: OpenSocket[]): OpenSocket[] {
+	if (socket.pathName) {
+		return open.filter((entry) => entry.family === "unix" && entry.address === socket.pathName);
+	}
+
+	if (!socket.serviceName || !/^\d+$/.test(socket.serviceName)) return [];
+	const port = Number.parseInt(socket.serviceName, 10);
+	const protocol = socket.type === "dgram" ? "UDP" : "TCP";
+
+	return open.filter(
+		(entry) =>
+			entry.port === port &&
+			entry.protocol === protocol &&
+			(protocol === "UDP" || entry.state === "LISTEN") &&
+			(socket.family === "IPv4" ? entry.family === "IPv4" : true) &&
+			(socket.family === "IPv6" ? entry.family === "IPv6" : true),
+	);
+}
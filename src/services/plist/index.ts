@@ -1,9 +1,41 @@
 /**
  * Plist file parsing for macOS service metadata
- * Uses plutil to convert both XML and binary plists to JSON
+ * XML and binary plists are decoded in-process, so no plutil is needed
  */
 
-import { spawn } from "bun";
+import { describeCalendarSchedule, describeStartInterval } from "../schedule";
+import { isBinaryPlist, parsePlistBinary, serializePlistBinary } from "./binary";
+import { isPlistDict, type PlistDict, type PlistValue } from "./types";
+import { parsePlistXml, serializePlistXml } from "./xml";
+
+export { isBinaryPlist, parsePlistBinary, serializePlistBinary } from "./binary";
+export {
+	addPlistEntry,
+	defaultPlistValue,
+	defaultValueForKey,
+	flattenPlistTree,
+	formatPlistScalar,
+	getPlistValueAt,
+	isEditableScalar,
+	type PlistTreeRow,
+	parsePlistScalarInput,
+	plistPathKey,
+	removePlistValueAt,
+	setPlistValueAt,
+	suggestLaunchdKeys,
+} from "./edit";
+export {
+	findBoundSockets,
+	formatSocketDeclaration,
+	parseMachServiceDeclarations,
+	parseSocketDeclarations,
+} from "./endpoints";
+export { LAUNCHD_KEY_KINDS, type PlistValueKind, plistValueKind } from "./schema";
+export { isPlistDict, type PlistDict, PlistReal, type PlistValue } from "./types";
+export { parsePlistXml, serializePlistXml } from "./xml";
+
+/** Property list encodings */
+export type PlistFormat = "xml" | "binary";
 
 /**
  * Parsed plist data structure for launchd services
@@ -59,9 +91,53 @@ export interface CalendarInterval {
 	month?: number;
 }
 
+/** StartCalendarInterval plist keys and the CalendarInterval fields they fill */
+const CALENDAR_KEYS = {
+	Minute: "minute",
+	Hour: "hour",
+	Day: "day",
+	Weekday: "weekday",
+	Month: "month",
+} as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read one StartCalendarInterval dictionary; keys that are missing or not integers stay wildcards
+ */
+function toCalendarInterval(dict: Record<string, unknown>): CalendarInterval {
+	const interval: CalendarInterval = {};
+	for (const [key, field] of Object.entries(CALENDAR_KEYS)) {
+		const value = dict[key];
+		if (typeof value === "number" && Number.isInteger(value)) interval[field] = value;
+	}
+	return interval;
+}
+
+/**
+ * Parse a property list in either XML or binary format
+ * Throws when the contents are not a valid plist
+ */
+export function parsePlist(contents: Uint8Array | string): PlistValue {
+	if (typeof contents === "string") return parsePlistXml(contents);
+	if (isBinaryPlist(contents)) return parsePlistBinary(contents);
+	return parsePlistXml(new TextDecoder().decode(contents));
+}
+
+/**
+ * Serialize a value as a property list
+ */
+export function serializePlist(value: PlistValue, format: PlistFormat = "xml"): Uint8Array {
+	return format === "binary"
+		? serializePlistBinary(value)
+		: new TextEncoder().encode(serializePlistXml(value));
+}
+
 /**
  * Read and parse a plist file
- * Uses plutil to convert any plist format (binary or XML) to JSON
+ * Returns null when the file is missing, unreadable or not a dictionary plist
  */
 export async function readPlist(path: string): Promise<PlistData | null> {
 	try {
@@ -70,31 +146,44 @@ export async function readPlist(path: string): Promise<PlistData | null> {
 			return null;
 		}
 
-		// plutil handles both binary and XML plists natively
-		const proc = spawn(["plutil", "-convert", "json", "-o", "-", path], {
-			stdout: "pipe",
-			stderr: "pipe",
-		});
-
-		const stdout = await new Response(proc.stdout).text();
-		const exitCode = await proc.exited;
-
-		if (exitCode !== 0 || !stdout.trim()) {
-			return null;
-		}
-
-		const raw = JSON.parse(stdout) as Record<string, unknown>;
-		return mapToPlistData(raw);
+		const raw = parsePlist(new Uint8Array(await file.arrayBuffer()));
+		return isPlistDict(raw) ? mapToPlistData(raw) : null;
 	} catch {
-		// plutil not available (non-macOS) or invalid plist
+		// Unreadable or invalid plist
 		return null;
 	}
 }
 
+/** A plist file loaded for editing */
+export interface PlistDocument {
+	value: PlistDict;
+	format: PlistFormat;
+	/** Contents as XML (binary files are converted) */
+	text: string;
+}
+
+/**
+ * Read a plist file for editing, keeping its format
+ * Throws when the file is unreadable, malformed or not a dictionary
+ */
+export async function readPlistDocument(path: string): Promise<PlistDocument> {
+	const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+	const value = parsePlist(bytes);
+	if (!isPlistDict(value)) {
+		throw new Error("Top-level plist value must be a dictionary");
+	}
+	const format = isBinaryPlist(bytes) ? "binary" : "xml";
+	return {
+		value,
+		format,
+		text: format === "xml" ? new TextDecoder().decode(bytes) : serializePlistXml(value),
+	};
+}
+
 /**
  * Map raw parsed data to our PlistData structure
  */
-function mapToPlistData(raw: Record<string, unknown>): PlistData {
+export function mapToPlistData(raw: Record<string, unknown>): PlistData {
 	const data: PlistData = {};
 
 	if (typeof raw.Label === "string") {
@@ -139,12 +228,10 @@ function mapToPlistData(raw: Record<string, unknown>): PlistData {
 		data.startInterval = raw.StartInterval;
 	}
 
-	if (raw.StartCalendarInterval) {
-		if (Array.isArray(raw.StartCalendarInterval)) {
-			data.startCalendarInterval = raw.StartCalendarInterval as CalendarInterval[];
-		} else {
-			data.startCalendarInterval = raw.StartCalendarInterval as CalendarInterval;
-		}
+	if (Array.isArray(raw.StartCalendarInterval)) {
+		data.startCalendarInterval = raw.StartCalendarInterval.filter(isRecord).map(toCalendarInterval);
+	} else if (isRecord(raw.StartCalendarInterval)) {
+		data.startCalendarInterval = toCalendarInterval(raw.StartCalendarInterval);
 	}
 
 	if (typeof raw.ProcessType === "string") {
@@ -227,18 +314,11 @@ export function describePlistConfig(plist: PlistData): string {
 	}
 
 	if (plist.startInterval) {
-		const interval = plist.startInterval;
-		if (interval < 60) {
-			parts.push(`Runs every ${interval}s`);
-		} else if (interval < 3600) {
-			parts.push(`Runs every ${Math.round(interval / 60)}m`);
-		} else {
-			parts.push(`Runs every ${Math.round(interval / 3600)}h`);
-		}
+		parts.push(describeStartInterval(plist.startInterval));
 	}
 
 	if (plist.startCalendarInterval) {
-		parts.push("Scheduled");
+		parts.push(describeCalendarSchedule(plist.startCalendarInterval));
 	}
 
 	if (plist.watchPaths?.length) {
@@ -0,0 +1,271 @@
+/**
+ * launchd plist linter
+ * Checks a job definition for the mistakes that make `launchctl bootstrap` fail
+ * or leave a loaded job that never runs
+ */
+
+import { accessSync, constants, statSync } from "node:fs";
+import { basename, dirname } from "node:path";
+import type { PlistLintFinding } from "../../types";
+import { isValidServiceLabel } from "../launchctl/validation";
+import { mapToPlistData, parsePlist } from "./index";
+import { LAUNCHD_KEY_KINDS, plistValueKind } from "./schema";
+import { isPlistDict, type PlistDict, type PlistValue } from "./types";
+
+/** File system checks used by the linter (injectable for tests) */
+export interface LintFileSystem {
+	exists(path: string): boolean;
+	isExecutable(path: string): boolean;
+	isDirectory(path: string): boolean;
+}
+
+export const defaultLintFileSystem: LintFileSystem = {
+	exists: (path) => {
+		try {
+			statSync(path);
+			return true;
+		} catch {
+			return false;
+		}
+	},
+	isExecutable: (path) => {
+		try {
+			accessSync(path, constants.X_OK);
+			return statSync(path).isFile();
+		} catch {
+			return false;
+		}
+	},
+	isDirectory: (path) => {
+		try {
+			return statSync(path).isDirectory();
+		} catch {
+			return false;
+		}
+	},
+};
+
+export interface LintOptions {
+	/** Plist file path, used to check that the Label matches the file name */
+	path?: string;
+	fs?: LintFileSystem;
+}
+
+/** Keys whose arrays or dictionaries must contain only strings */
+const STRING_CONTAINER_KEYS = [
+	"ProgramArguments",
+	"WatchPaths",
+	"QueueDirectories",
+	"LimitLoadToHosts",
+	"LimitLoadFromHosts",
+	"EnvironmentVariables",
+];
+
+/** Directories launchd searches for a relative program path */
+const LAUNCHD_DEFAULT_PATH = "/usr/bin:/bin:/usr/sbin:/sbin";
+
+/**
+ * Check value types of known keys and flag keys launchd does not document
+ */
+function lintKeys(raw: PlistDict): PlistLintFinding[] {
+	const findings: PlistLintFinding[] = [];
+
+	for (const [key, value] of Object.entries(raw)) {
+		const expected = LAUNCHD_KEY_KINDS[key];
+		if (!expected) {
+			// Private keys used by Apple's own plists are prefixed with "_"
+			if (!key.startsWith("_")) {
+				findings.push({
+					rule: "unknown-key",
+					severity: "info",
+					key,
+					message: `Unknown key "${key}" (ignored by launchd, possibly a typo)`,
+				});
+			}
+			continue;
+		}
+
+		const kind = plistValueKind(value);
+		if (!expected.includes(kind)) {
+			findings.push({
+				rule: "wrong-type",
+				severity: "error",
+				key,
+				message: `${key} must be ${expected.join(" or ")}, not ${kind}`,
+			});
+			continue;
+		}
+
+		if (STRING_CONTAINER_KEYS.includes(key)) {
+			const items = Array.isArray(value) ? value : Object.values(value as PlistDict);
+			const bad = items.find((item) => typeof item !== "string");
+			if (bad !== undefined) {
+				findings.push({
+					rule: "wrong-type",
+					severity: "error",
+					key,
+					message: `${key} must contain only strings, found ${plistValueKind(bad)}`,
+				});
+			}
+		}
+	}
+
+	return findings;
+}
+
+/**
+ * Lint a parsed plist dictionary
+ */
+export function lintPlist(raw: PlistDict, options: LintOptions = {}): PlistLintFinding[] {
+	const fs = options.fs ?? defaultLintFileSystem;
+	const data = mapToPlistData(raw);
+	const findings: PlistLintFinding[] = [];
+
+	// Label
+	if (data.label === undefined) {
+		if (!("Label" in raw)) {
+			findings.push({ rule: "missing-label", severity: "error", key: "Label", message: "Label is required" });
+		}
+	} else {
+		if (!isValidServiceLabel(data.label)) {
+			findings.push({
+				rule: "invalid-label",
+				severity: "warning",
+				key: "Label",
+				message: "Label contains characters this tool cannot pass to launchctl",
+			});
+		}
+		if (options.path) {
+			const fileLabel = basename(options.path).replace(/\.plist$/, "");
+			if (fileLabel !== data.label) {
+				findings.push({
+					rule: "label-filename",
+					severity: "warning",
+					key: "Label",
+					message: `Label "${data.label}" does not match file name "${basename(options.path)}"`,
+				});
+			}
+		}
+	}
+
+	// Program
+	const hasProgram = "Program" in raw;
+	const hasArguments = "ProgramArguments" in raw;
+	if (hasProgram && hasArguments) {
+		findings.push({
+			rule: "program-and-arguments",
+			severity: "warning",
+			key: "Program",
+			message: "Both Program and ProgramArguments are set; ProgramArguments[0] is ignored as the executable",
+		});
+	}
+	if (!hasProgram && !hasArguments && !("BundleProgram" in raw)) {
+		findings.push({
+			rule: "missing-program",
+			severity: "error",
+			key: "ProgramArguments",
+			message: "Neither Program nor ProgramArguments is set",
+		});
+	} else if (hasArguments && !hasProgram && data.programArguments?.length === 0) {
+		findings.push({
+			rule: "missing-program",
+			severity: "error",
+			key: "ProgramArguments",
+			message: "ProgramArguments is empty",
+		});
+	}
+
+	const program = data.program ?? data.programArguments?.[0];
+	const programKey = data.program !== undefined ? "Program" : "ProgramArguments";
+	if (program) {
+		if (!program.startsWith("/")) {
+			findings.push({
+				rule: "relative-program",
+				severity: "warning",
+				key: programKey,
+				message: `"${program}" is not an absolute path; launchd only searches ${LAUNCHD_DEFAULT_PATH}`,
+			});
+		} else if (!fs.exists(program)) {
+			findings.push({
+				rule: "program-missing",
+				severity: "error",
+				key: programKey,
+				message: `${program} does not exist`,
+			});
+		} else if (!fs.isExecutable(program)) {
+			findings.push({
+				rule: "program-not-executable",
+				severity: "error",
+				key: programKey,
+				message: `${program} is not an executable file`,
+			});
+		}
+	}
+
+	// Scheduling
+	if (data.startInterval !== undefined && data.keepAlive === true) {
+		findings.push({
+			rule: "interval-keepalive",
+			severity: "warning",
+			key: "StartInterval",
+			message: "StartInterval has no effect while KeepAlive is true (the job is restarted continuously)",
+		});
+	}
+
+	// Log files: launchd opens them but does not create their directories
+	for (const [key, path] of [
+		["StandardOutPath", data.standardOutPath],
+		["StandardErrorPath", data.standardErrorPath],
+	] as const) {
+		if (path?.startsWith("/") && !fs.isDirectory(dirname(path))) {
+			findings.push({
+				rule: "log-dir-missing",
+				severity: "error",
+				key,
+				message: `Directory ${dirname(path)} does not exist (launchd will not create it)`,
+			});
+		}
+	}
+
+	findings.push(...lintKeys(raw));
+	return findings;
+}
+
+/**
+ * Read and lint a plist file
+ * Unreadable or malformed files produce a single error finding
+ */
+export async function lintPlistFile(
+	path: string,
+	fs: LintFileSystem = defaultLintFileSystem,
+): Promise<PlistLintFinding[]> {
+	let raw: PlistValue;
+	try {
+		raw = parsePlist(new Uint8Array(await Bun.file(path).arrayBuffer()));
+	} catch (error) {
+		return [
+			{
+				rule: "parse-error",
+				severity: "error",
+				message: error instanceof Error ? error.message : String(error),
+			},
+		];
+	}
+
+	if (!isPlistDict(raw)) {
+		return [
+			{ rule: "not-a-dictionary", severity: "error", message: "Top-level plist value must be a dictionary" },
+		];
+	}
+	return lintPlist(raw, { path, fs });
+}
+
+/** Severity order, most severe first */
+const SEVERITY_ORDER: Record<PlistLintFinding["severity"], number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Sort findings with the most severe first, keeping rule order within a severity
+ */
+export function sortLintFindings(findings: PlistLintFinding[]): PlistLintFinding[] {
+	return [...findings].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
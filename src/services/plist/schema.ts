@@ -0,0 +1,83 @@
+/**
+ * launchd job keys and their value types
+ */
+
+import { PlistReal, type PlistValue } from "./types";
+
+/** Plist value types as launchd.plist(5) documents them ("number" is a real) */
+export type PlistValueKind = "string" | "boolean" | "integer" | "number" | "array" | "dict" | "date" | "data";
+
+/** Expected value kinds for documented launchd.plist(5) keys */
+export const LAUNCHD_KEY_KINDS: Record<string, readonly PlistValueKind[]> = {
+	Label: ["string"],
+	Disabled: ["boolean"],
+	UserName: ["string"],
+	GroupName: ["string"],
+	inetdCompatibility: ["dict"],
+	LimitLoadToHosts: ["array"],
+	LimitLoadFromHosts: ["array"],
+	LimitLoadToSessionType: ["string", "array"],
+	LimitLoadToHardware: ["dict"],
+	LimitLoadFromHardware: ["dict"],
+	Program: ["string"],
+	BundleProgram: ["string"],
+	ProgramArguments: ["array"],
+	EnableGlobbing: ["boolean"],
+	EnableTransactions: ["boolean"],
+	EnablePressuredExit: ["boolean"],
+	OnDemand: ["boolean"],
+	ServiceIPC: ["boolean"],
+	KeepAlive: ["boolean", "dict"],
+	RunAtLoad: ["boolean"],
+	RootDirectory: ["string"],
+	WorkingDirectory: ["string"],
+	EnvironmentVariables: ["dict"],
+	Umask: ["integer", "string"],
+	TimeOut: ["integer"],
+	ExitTimeOut: ["integer"],
+	ThrottleInterval: ["integer"],
+	InitGroups: ["boolean"],
+	WatchPaths: ["array"],
+	QueueDirectories: ["array"],
+	StartOnMount: ["boolean"],
+	StartInterval: ["integer"],
+	StartCalendarInterval: ["dict", "array"],
+	StandardInPath: ["string"],
+	StandardOutPath: ["string"],
+	StandardErrorPath: ["string"],
+	Debug: ["boolean"],
+	WaitForDebugger: ["boolean"],
+	SoftResourceLimits: ["dict"],
+	HardResourceLimits: ["dict"],
+	Nice: ["integer"],
+	ProcessType: ["string"],
+	AbandonProcessGroup: ["boolean"],
+	LowPriorityIO: ["boolean"],
+	LowPriorityBackgroundIO: ["boolean"],
+	MaterializeDatalessFiles: ["boolean"],
+	LaunchOnlyOnce: ["boolean"],
+	MachServices: ["dict"],
+	Sockets: ["dict"],
+	LaunchEvents: ["dict"],
+	SessionCreate: ["boolean"],
+	LegacyTimers: ["boolean"],
+	AssociatedBundleIdentifiers: ["string", "array"],
+	HopefullyExitsFirst: ["boolean"],
+	HopefullyExitsLast: ["boolean"],
+	POSIXSpawnType: ["string"],
+};
+
+/**
+ * Classify a plist value
+ */
+export function plistValueKind(value: PlistValue): PlistValueKind {
+	if (typeof value === "string") return "string";
+	if (typeof value === "boolean") return "boolean";
+	if (typeof value === "bigint") return "integer";
+	if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+	if (value instanceof Date) return "date";
+	if (value instanceof Uint8Array) return "data";
+	if (value instanceof PlistReal) return "number";
+	if (Array.isArray(value)) return "array";
+	return "dict";
+}
@@ -0,0 +1,65 @@
+/**
+ * Property list value types
+ */
+
+/**
+ * Dictionary value in a property list
+ */
+export interface PlistDict {
+	[key: string]: PlistValue;
+}
+
+/**
+ * Any value that can appear in a property list
+ *
+ * - integer: number, or bigint when outside the safe integer range
+ * - real: number with a fractional part (or NaN/infinity), or PlistReal for a whole number
+ * - date: Date
+ * - data: Uint8Array
+ */
+export type PlistValue =
+	| string
+	| number
+	| bigint
+	| boolean
+	| Date
+	| Uint8Array
+	| PlistReal
+	| PlistValue[]
+	| PlistDict;
+
+/**
+ * A real whose value is a whole number, e.g. <real>2.0</real>
+ * A plain number 2 is written back as an integer, so this keeps the type through a round trip.
+ */
+export class PlistReal {
+	constructor(readonly value: number) {}
+}
+
+/**
+ * Read a real as a number, wrapping whole numbers so they are not written back as integers
+ */
+export function toPlistReal(value: number): number | PlistReal {
+	return Number.isInteger(value) ? new PlistReal(value) : value;
+}
+
+/**
+ * Check whether a plist value is a dictionary
+ */
+export function isPlistDict(value: PlistValue | undefined): value is PlistDict {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!(value instanceof Date) &&
+		!(value instanceof Uint8Array) &&
+		!(value instanceof PlistReal)
+	);
+}
+
+/**
+ * Set a dictionary entry, including keys such as "__proto__" that plain assignment would not store
+ */
+export function setDictEntry(dict: PlistDict, key: string, value: PlistValue): void {
+	Object.defineProperty(dict, key, { value, enumerable: true, writable: true, configurable: true });
+}
@@ -0,0 +1,254 @@
+/**
+ * XML property list reader and writer
+ */
+
+import { type PlistDict, PlistReal, type PlistValue, setDictEntry, toPlistReal } from "./types";
+
+const XML_PLIST_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">`;
+
+const NAMED_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (entity, name: string) => {
+		if (name.startsWith("#x")) return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+		if (name.startsWith("#")) return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+		return NAMED_ENTITIES[name] ?? entity;
+	});
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Parse an integer, keeping precision beyond the safe integer range as a bigint
+ */
+export function parsePlistInteger(text: string): number | bigint | null {
+	const match = /^([+-]?)(0x[0-9a-fA-F]+|\d+)$/.exec(text.trim());
+	if (!match) return null;
+	const magnitude = BigInt(match[2] as string);
+	const value = match[1] === "-" ? -magnitude : magnitude;
+	return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+		? Number(value)
+		: value;
+}
+
+function parseReal(text: string): number | null {
+	const lower = text.trim().toLowerCase();
+	if (lower === "nan") return Number.NaN;
+	if (/^\+?inf(inity)?$/.test(lower)) return Number.POSITIVE_INFINITY;
+	if (/^-inf(inity)?$/.test(lower)) return Number.NEGATIVE_INFINITY;
+	const value = Number(lower);
+	return lower !== "" && !Number.isNaN(value) ? value : null;
+}
+
+/**
+ * Parse an XML property list document
+ * Throws when the document is not a well-formed plist
+ */
+export function parsePlistXml(text: string): PlistValue {
+	let pos = 0;
+
+	const fail = (message: string): never => {
+		throw new Error(`Invalid XML plist at offset ${pos}: ${message}`);
+	};
+
+	const skipPast = (terminator: string, what: string) => {
+		const end = text.indexOf(terminator, pos);
+		if (end === -1) fail(`unterminated ${what}`);
+		pos = end + terminator.length;
+	};
+
+	// Whitespace, comments, processing instructions and the doctype
+	const skipMisc = () => {
+		for (;;) {
+			while (pos < text.length && /\s/.test(text.charAt(pos))) pos++;
+			if (text.startsWith("<!--", pos)) {
+				skipPast("-->", "comment");
+			} else if (text.startsWith("<?", pos)) {
+				skipPast("?>", "processing instruction");
+			} else if (text.startsWith("<!DOCTYPE", pos)) {
+				const bracket = text.indexOf("[", pos);
+				const close = text.indexOf(">", pos);
+				skipPast(bracket !== -1 && bracket < close ? "]>" : ">", "doctype");
+			} else {
+				return;
+			}
+		}
+	};
+
+	const readTag = (): { name: string; closing: boolean; selfClosing: boolean } => {
+		if (text.charAt(pos) !== "<") fail("expected a tag");
+		const end = text.indexOf(">", pos);
+		if (end === -1) fail("unterminated tag");
+		const raw = text.slice(pos + 1, end).trim();
+		pos = end + 1;
+		const closing = raw.startsWith("/");
+		const selfClosing = !closing && raw.endsWith("/");
+		const name = raw.replace(/^\//, "").replace(/\/$/, "").trim().split(/\s/)[0] ?? "";
+		return { name, closing, selfClosing };
+	};
+
+	// Character content up to the matching close tag
+	const readText = (name: string): string => {
+		let result = "";
+		for (;;) {
+			const lt = text.indexOf("<", pos);
+			if (lt === -1) fail(`unterminated <${name}>`);
+			result += decodeEntities(text.slice(pos, lt));
+			pos = lt;
+			if (text.startsWith("<![CDATA[", pos)) {
+				const end = text.indexOf("]]>", pos);
+				if (end === -1) fail("unterminated CDATA section");
+				result += text.slice(pos + 9, end);
+				pos = end + 3;
+			} else if (text.startsWith("<!--", pos)) {
+				skipPast("-->", "comment");
+			} else {
+				const tag = readTag();
+				if (!tag.closing || tag.name !== name) fail(`expected </${name}>`);
+				return result;
+			}
+		}
+	};
+
+	const parseNext = (): PlistValue => {
+		skipMisc();
+		const tag = readTag();
+		if (tag.closing) fail(`unexpected </${tag.name}>`);
+		return parseElement(tag.name, tag.selfClosing);
+	};
+
+	const parseElement = (name: string, selfClosing: boolean): PlistValue => {
+		switch (name) {
+			case "dict": {
+				const dict: PlistDict = {};
+				if (selfClosing) return dict;
+				for (;;) {
+					skipMisc();
+					const tag = readTag();
+					if (tag.closing && tag.name === "dict") return dict;
+					if (tag.closing || tag.name !== "key") fail("expected <key> in <dict>");
+					const key = tag.selfClosing ? "" : readText("key");
+					setDictEntry(dict, key, parseNext());
+				}
+			}
+			case "array": {
+				const array: PlistValue[] = [];
+				if (selfClosing) return array;
+				for (;;) {
+					skipMisc();
+					if (text.startsWith("</", pos)) {
+						const tag = readTag();
+						if (tag.name !== "array") fail(`expected </array>, found </${tag.name}>`);
+						return array;
+					}
+					array.push(parseNext());
+				}
+			}
+			case "string":
+				return selfClosing ? "" : readText("string");
+			case "true":
+			case "false":
+				if (!selfClosing) readText(name);
+				return name === "true";
+			case "integer": {
+				const value = parsePlistInteger(selfClosing ? "" : readText("integer"));
+				return value ?? fail("invalid <integer>");
+			}
+			case "real": {
+				const value = parseReal(selfClosing ? "" : readText("real"));
+				return value === null ? fail("invalid <real>") : toPlistReal(value);
+			}
+			case "date": {
+				const raw = selfClosing ? "" : readText("date").trim();
+				const date = new Date(raw);
+				if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(raw) || Number.isNaN(date.getTime())) {
+					fail("invalid <date>");
+				}
+				return date;
+			}
+			case "data": {
+				const raw = selfClosing ? "" : readText("data").replace(/\s+/g, "");
+				if (!/^[A-Za-z0-9+/]*={0,2}$/.test(raw)) fail("invalid base64 in <data>");
+				return new Uint8Array(Buffer.from(raw, "base64"));
+			}
+			default:
+				return fail(`unknown element <${name}>`);
+		}
+	};
+
+	skipMisc();
+	const root = readTag();
+	if (root.closing) fail(`unexpected </${root.name}>`);
+	if (root.name !== "plist") {
+		// Be lenient about a bare value without the <plist> wrapper
+		return parseElement(root.name, root.selfClosing);
+	}
+	if (root.selfClosing) fail("empty <plist>");
+
+	const value = parseNext();
+	skipMisc();
+	const close = readTag();
+	if (!close.closing || close.name !== "plist") fail("expected </plist>");
+	skipMisc();
+	if (pos < text.length) fail("unexpected content after </plist>");
+	return value;
+}
+
+function formatReal(value: number): string {
+	if (Number.isNaN(value)) return "nan";
+	if (value === Number.POSITIVE_INFINITY) return "+infinity";
+	if (value === Number.NEGATIVE_INFINITY) return "-infinity";
+	return String(value);
+}
+
+function serializeValue(value: PlistValue, indent: string): string[] {
+	if (typeof value === "string") return [`${indent}<string>${escapeXml(value)}</string>`];
+	if (typeof value === "boolean") return [`${indent}<${value}/>`];
+	if (typeof value === "bigint") return [`${indent}<integer>${value}</integer>`];
+	if (typeof value === "number") {
+		return Number.isInteger(value)
+			? [`${indent}<integer>${value}</integer>`]
+			: [`${indent}<real>${formatReal(value)}</real>`];
+	}
+	if (value instanceof PlistReal) return [`${indent}<real>${formatReal(value.value)}</real>`];
+	if (value instanceof Date) {
+		return [`${indent}<date>${value.toISOString().replace(/\.\d{3}Z$/, "Z")}</date>`];
+	}
+	if (value instanceof Uint8Array) {
+		return [`${indent}<data>${Buffer.from(value).toString("base64")}</data>`];
+	}
+	if (Array.isArray(value)) {
+		if (value.length === 0) return [`${indent}<array/>`];
+		return [
+			`${indent}<array>`,
+			...value.flatMap((item) => serializeValue(item, `${indent}\t`)),
+			`${indent}</array>`,
+		];
+	}
+	if (typeof value !== "object" || value === null) {
+		throw new Error(`Cannot write ${value === null ? "null" : typeof value} to a plist`);
+	}
+
+	const entries = Object.entries(value);
+	if (entries.length === 0) return [`${indent}<dict/>`];
+	return [
+		`${indent}<dict>`,
+		...entries.flatMap(([key, item]) => [
+			`${indent}\t<key>${escapeXml(key)}</key>`,
+			...serializeValue(item, `${indent}\t`),
+		]),
+		`${indent}</dict>`,
+	];
+}
+
+/**
+ * Serialize a value as an XML property list document
+ * Dictionary keys are written in insertion order; dates are written with second precision
+ */
+export function serializePlistXml(value: PlistValue): string {
+	return [XML_PLIST_HEADER, ...serializeValue(value, ""), "</plist>", ""].join("\n");
+}
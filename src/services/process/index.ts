@@ -0,0 +1,205 @@
+/**
+ * Process inspection for running services
+ * Wraps `ps` (resource samples, process tree), `lsof` (open sockets) and `kill`
+ */
+
+import type { ActionResult, OpenSocket, ProcessInfo, ProcessSample, ProcessSignal } from "../../types";
+import { execCommand } from "../launchctl/exec";
+import { isRunningAsRoot } from "../launchctl/permissions";
+import { executePrivileged } from "../launchctl/sudo";
+import { parseLsofOutput, parsePsOutput, parsePsProcessList, parsePsThreadCounts } from "./parsers";
+
+export {
+	parseElapsedTime,
+	parseLsofAddress,
+	parseLsofOutput,
+	parsePsLine,
+	parsePsOutput,
+	parsePsProcessList,
+	parsePsThreadCounts,
+} from "./parsers";
+export { buildProcessTree, countProcesses, flattenProcessTree, type ProcessTreeRow } from "./tree";
+
+/** PIDs passed to a single `ps` invocation, to keep the argument list short */
+const PS_BATCH_SIZE = 200;
+
+/**
+ * Sample CPU, memory, uptime and thread count for the given processes
+ * Processes that have exited are simply missing from the result. Throws if `ps` fails outright
+ */
+export async function sampleProcesses(pids: number[]): Promise<ProcessSample[]> {
+	const unique = [...new Set(pids)].filter((pid) => Number.isInteger(pid) && pid > 0);
+	const samples: ProcessSample[] = [];
+
+	for (let i = 0; i < unique.length; i += PS_BATCH_SIZE) {
+		const batch = unique.slice(i, i + PS_BATCH_SIZE);
+		const [result, threadResult] = await Promise.all([
+			execCommand("ps", ["-o", "pid=,%cpu=,rss=,etime=", "-p", batch.join(",")]),
+			execCommand("ps", ["-M", "-p", batch.join(",")]),
+		]);
+		const parsed = parsePsOutput(result.stdout);
+		// ps exits with 1 when none of the PIDs exist, which is not an error here
+		if (result.exitCode !== 0 && parsed.length === 0 && result.stderr.trim()) {
+			throw new Error(result.stderr.trim());
+		}
+		const threads = parsePsThreadCounts(threadResult.stdout);
+		samples.push(...parsed.map((sample) => ({ ...sample, threads: threads[sample.pid] })));
+	}
+
+	return samples;
+}
+
+/**
+ * List every process with its parent, owner and command line
+ */
+export async function listProcesses(): Promise<ProcessInfo[]> {
+	const result = await execCommand("ps", ["-axo", "pid=,ppid=,uid=,command="]);
+	if (result.exitCode !== 0) {
+		throw new Error(result.stderr.trim() || `ps failed (exit code ${result.exitCode})`);
+	}
+	return parsePsProcessList(result.stdout);
+}
+
+/**
+ * List the sockets the given processes hold
+ * Without root, processes of other users show no sockets rather than an error
+ */
+export async function listOpenSockets(pids: number[]): Promise<OpenSocket[]> {
+	const unique = [...new Set(pids)].filter((pid) => Number.isInteger(pid) && pid > 0);
+	if (unique.length === 0) return [];
+
+	const result = await execCommand("lsof", ["-nP", "-F", "pftPnT", "-p", unique.join(",")]);
+	const sockets = parseLsofOutput(result.stdout);
+	// lsof exits with 1 when it finds no open files, which is not an error here
+	if (result.exitCode !== 0 && !result.stdout.trim() && result.stderr.trim()) {
+		throw new Error(result.stderr.trim());
+	}
+	return sockets;
+}
+
+/**
+ * List the sockets bound to a local port by any process
+ * Connections to that port on remote hosts are left out
+ */
+export async function listPortSockets(port: number): Promise<OpenSocket[]> {
+	const result = await execCommand("lsof", ["-nP", "-F", "pftPnT", "-i", `:${port}`]);
+	if (result.exitCode !== 0 && !result.stdout.trim() && result.stderr.trim()) {
+		throw new Error(result.stderr.trim());
+	}
+	return parseLsofOutput(result.stdout).filter((socket) => socket.port === port);
+}
+
+/**
+ * Build the `kill` command for a signal
+ */
+export function buildSignalCommand(pid: number, signal: ProcessSignal): string[] {
+	return ["kill", `-${signal}`, String(pid)];
+}
+
+/**
+ * Describe how a process differs from what the tree showed, or null if it is the same process
+ * A different parent, owner or command line means the PID was reused.
+ */
+export function describeProcessChange(expected: ProcessInfo, current: ProcessInfo | null): string | null {
+	if (!current) return `Process ${expected.pid} has exited`;
+	if (
+		current.ppid !== expected.ppid ||
+		current.uid !== expected.uid ||
+		current.command !== expected.command
+	) {
+		return `Process ${expected.pid} is now ${current.command}`;
+	}
+	return null;
+}
+
+/**
+ * Read one process's parent, owner and command line, or null when it no longer exists
+ */
+export async function readProcess(pid: number): Promise<ProcessInfo | null> {
+	const result = await execCommand("ps", ["-o", "pid=,ppid=,uid=,command=", "-p", String(pid)]);
+	return parsePsProcessList(result.stdout).find((info) => info.pid === pid) ?? null;
+}
+
+/**
+ * Whether signalling a process owned by `uid` needs sudo
+ */
+export function processNeedsSudo(uid: number): boolean {
+	if (isRunningAsRoot()) return false;
+	return uid !== process.getuid?.();
+}
+
+export interface SignalProcessOptions {
+	dryRun?: boolean;
+	password?: string;
+}
+
+/**
+ * Send a signal to a process, escalating through sudo when it belongs to another user
+ * The process is read again first, and left alone if it exited or its PID now belongs to another process.
+ */
+export async function signalProcess(
+	target: ProcessInfo,
+	signal: ProcessSignal,
+	options: SignalProcessOptions = {},
+): Promise<ActionResult & { command: string }> {
+	const { pid, uid } = target;
+	const command = buildSignalCommand(pid, signal);
+	const needsSudo = processNeedsSudo(uid);
+	const commandString = needsSudo ? `sudo ${command.join(" ")}` : command.join(" ");
+
+	if (options.dryRun) {
+		return { success: true, message: `[DRY RUN] Would execute: ${commandString}`, command: commandString };
+	}
+
+	const change = describeProcessChange(target, await readProcess(pid));
+	if (change) {
+		return {
+			success: false,
+			message: `Did not send SIG${signal} to process ${pid}`,
+			error: change,
+			command: commandString,
+		};
+	}
+
+	if (needsSudo) {
+		const result = await executePrivileged(command, options.password);
+		if (result.needsPassword) {
+			return {
+				success: false,
+				message: "Administrator password required",
+				error: "NEEDS_PASSWORD",
+				command: commandString,
+			};
+		}
+		if (result.authCancelled) {
+			return { success: false, message: "Authentication cancelled", command: commandString };
+		}
+		if (result.authFailed) {
+			return {
+				success: false,
+				message: "Authentication failed",
+				error: "AUTH_FAILED",
+				command: commandString,
+			};
+		}
+		return result.success
+			? { success: true, message: `Sent SIG${signal} to process ${pid}`, command: commandString }
+			: {
+					success: false,
+					message: `Failed to send SIG${signal} to process ${pid}`,
+					error: result.stderr.trim() || undefined,
+					command: commandString,
+				};
+	}
+
+	const [cmd, ...args] = command;
+	const result = await execCommand(cmd as string, args);
+	return result.exitCode === 0
+		? { success: true, message: `Sent SIG${signal} to process ${pid}`, command: commandString }
+		: {
+				success: false,
+				message: `Failed to send SIG${signal} to process ${pid}`,
+				error: result.stderr.trim() || undefined,
+				command: commandString,
+			};
+}
@@ -0,0 +1,195 @@
+/**
+ * Parsers for `ps` and `lsof` output
+ *
+ * Samples are taken with `ps -o pid=,%cpu=,rss=,etime= -p <pids>` and the process
+ * list with `ps -axo pid=,ppid=,uid=,command=`. Both print one whitespace-separated
+ * line per process without a header. Thread counts come from `ps -M -p <pids>`, which
+ * has no thread-count column but prints a row per thread: the first with the user, PID,
+ * terminal and command, the rest with only the PID and per-thread columns.
+ *
+ * Open sockets come from `lsof -nP -F pftPnT -p <pids>`, which prints one field per
+ * line, each prefixed with its field letter.
+ */
+
+import type { OpenSocket, ProcessInfo, ProcessSample } from "../../types";
+
+/**
+ * Parse a `ps` elapsed time (`[[dd-]hh:]mm:ss`) into seconds
+ * Returns undefined for anything else
+ */
+export function parseElapsedTime(value: string): number | undefined {
+	const match = value.trim().match(/^(?:(?:(\d+)-)?(\d+):)?(\d+):(\d+)$/);
+	if (!match) return undefined;
+
+	const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+	return (
+		Number.parseInt(days, 10) * 86_400 +
+		Number.parseInt(hours, 10) * 3_600 +
+		Number.parseInt(minutes, 10) * 60 +
+		Number.parseInt(seconds, 10)
+	);
+}
+
+/**
+ * Parse one line of `ps -o pid=,%cpu=,rss=,etime=` output
+ */
+export function parsePsLine(line: string): ProcessSample | null {
+	const parts = line.trim().split(/\s+/);
+	if (parts.length < 4) return null;
+
+	const [pidText = "", cpuText = "", rssText = "", etimeText = ""] = parts;
+	if (!/^\d+$/.test(pidText) || !/^\d+$/.test(rssText)) return null;
+
+	// Some locales print the CPU percentage with a decimal comma
+	const cpu = Number.parseFloat(cpuText.replace(",", "."));
+	const uptime = parseElapsedTime(etimeText);
+	if (Number.isNaN(cpu) || uptime === undefined) return null;
+
+	return {
+		pid: Number.parseInt(pidText, 10),
+		cpu,
+		rss: Number.parseInt(rssText, 10),
+		uptime,
+	};
+}
+
+/**
+ * Parse `ps -o pid=,%cpu=,rss=,etime=` output
+ * Header lines and malformed lines are skipped
+ */
+export function parsePsOutput(output: string): ProcessSample[] {
+	const samples: ProcessSample[] = [];
+	for (const line of output.split("\n")) {
+		const sample = parsePsLine(line);
+		if (sample) samples.push(sample);
+	}
+	return samples;
+}
+
+/**
+ * Count the rows per PID in `ps -M` output, one row per thread
+ * The header and malformed lines are skipped
+ */
+export function parsePsThreadCounts(output: string): Record<number, number> {
+	const counts: Record<number, number> = {};
+	for (const line of output.split("\n")) {
+		const parts = line.trim().split(/\s+/);
+		// Process rows start with the user and end with the command; thread rows start with the PID
+		const pidText = parts.length >= 9 ? parts[1] : parts[0];
+		if (parts.length < 6 || !pidText || !/^\d+$/.test(pidText)) continue;
+		const pid = Number.parseInt(pidText, 10);
+		counts[pid] = (counts[pid] ?? 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Parse `ps -axo pid=,ppid=,uid=,command=` output
+ * The command is the rest of the line and may contain spaces
+ */
+export function parsePsProcessList(output: string): ProcessInfo[] {
+	const processes: ProcessInfo[] = [];
+	for (const line of output.split("\n")) {
+		const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)\s+(.+?)\s*$/);
+		if (!match) continue;
+
+		const [, pid = "", ppid = "", uid = "", command = ""] = match;
+		processes.push({
+			pid: Number.parseInt(pid, 10),
+			ppid: Number.parseInt(ppid, 10),
+			uid: Number.parseInt(uid, 10),
+			command,
+		});
+	}
+	return processes;
+}
+
+/** `lsof` file types that are sockets */
+const SOCKET_FILE_TYPES = new Set(["IPv4", "IPv6", "unix"]);
+
+interface LsofFile {
+	fd?: string;
+	type?: string;
+	protocol?: string;
+	name?: string;
+	state?: string;
+}
+
+/**
+ * Split an `lsof` network name such as "*:8080", "[::1]:5432" or
+ * "10.0.0.2:51000->17.1.1.1:443" into its local address, port and remote end
+ */
+export function parseLsofAddress(name: string): Pick<OpenSocket, "address" | "port" | "remote"> {
+	const [local = "", remote] = name.split("->");
+	const match = local.match(/^(.*):(\d+|\*)$/);
+	if (!match) return { address: local, remote };
+
+	const [, address = "", port = ""] = match;
+	return { address, port: port === "*" ? undefined : Number.parseInt(port, 10), remote };
+}
+
+function toOpenSocket(pid: number, file: LsofFile): OpenSocket | null {
+	if (!file.fd || !file.type || !SOCKET_FILE_TYPES.has(file.type) || file.name === undefined) return null;
+
+	if (file.type === "unix") {
+		return { pid, fd: file.fd, family: "unix", address: file.name };
+	}
+	return {
+		pid,
+		fd: file.fd,
+		family: file.type,
+		protocol: file.protocol,
+		...parseLsofAddress(file.name),
+		state: file.state,
+	};
+}
+
+/**
+ * Parse `lsof -F pftPnT` output into the sockets each process holds
+ * Files other than IPv4, IPv6 and Unix sockets are skipped
+ */
+export function parseLsofOutput(output: string): OpenSocket[] {
+	const sockets: OpenSocket[] = [];
+	let pid: number | null = null;
+	let file: LsofFile | null = null;
+
+	const flush = () => {
+		if (pid !== null && file) {
+			const socket = toOpenSocket(pid, file);
+			if (socket) sockets.push(socket);
+		}
+		file = null;
+	};
+
+	for (const line of output.split("\n")) {
+		const field = line.charAt(0);
+		const value = line.slice(1).trimEnd();
+
+		switch (field) {
+			case "p":
+				flush();
+				pid = /^\d+$/.test(value) ? Number.parseInt(value, 10) : null;
+				break;
+			case "f":
+				flush();
+				file = { fd: value };
+				break;
+			case "t":
+				if (file) file.type = value;
+				break;
+			case "P":
+				if (file) file.protocol = value;
+				break;
+			case "n":
+				if (file) file.name = value;
+				break;
+			case "T":
+				// TCP/TPI info: ST=<state>, QR=<receive queue>, QS=<send queue>
+				if (file && value.startsWith("ST=")) file.state = value.slice(3);
+				break;
+		}
+	}
+	flush();
+
+	return sockets;
+}
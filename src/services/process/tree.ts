@@ -0,0 +1,75 @@
+/**
+ * Process trees built from the `ps` process list
+ */
+
+import type { ProcessInfo, ProcessNode } from "../../types";
+
+/** A visible row of a flattened process tree */
+export interface ProcessTreeRow {
+	node: ProcessNode;
+	depth: number;
+	expanded: boolean;
+}
+
+/**
+ * Build the tree of descendants below a process
+ * Returns null when the process is not in the list (e.g. it has exited)
+ */
+export function buildProcessTree(processes: ProcessInfo[], rootPid: number): ProcessNode | null {
+	const byParent = new Map<number, ProcessInfo[]>();
+	let root: ProcessInfo | undefined;
+
+	for (const info of processes) {
+		if (info.pid === rootPid) root = info;
+		// launchd (PID 1) is its own parent on some systems; never treat a process as its own child
+		if (info.pid === info.ppid) continue;
+		const siblings = byParent.get(info.ppid);
+		if (siblings) {
+			siblings.push(info);
+		} else {
+			byParent.set(info.ppid, [info]);
+		}
+	}
+	if (!root) return null;
+
+	// PIDs already in the tree, so a malformed list cannot loop forever
+	const seen = new Set<number>();
+	const build = (info: ProcessInfo): ProcessNode => {
+		seen.add(info.pid);
+		const children = (byParent.get(info.pid) ?? [])
+			.filter((child) => !seen.has(child.pid))
+			.sort((a, b) => a.pid - b.pid)
+			.map(build);
+		return { ...info, children };
+	};
+
+	return build(root);
+}
+
+/**
+ * Flatten a process tree into visible rows, depth first
+ * @param collapsed PIDs whose children are hidden
+ */
+export function flattenProcessTree(
+	root: ProcessNode | null,
+	collapsed: Record<number, boolean> = {},
+): ProcessTreeRow[] {
+	const rows: ProcessTreeRow[] = [];
+	const visit = (node: ProcessNode, depth: number) => {
+		const expanded = !collapsed[node.pid];
+		rows.push({ node, depth, expanded });
+		if (expanded) {
+			for (const child of node.children) visit(child, depth + 1);
+		}
+	};
+	if (root) visit(root, 0);
+	return rows;
+}
+
+/**
+ * Count the processes in a tree
+ */
+export function countProcesses(root: ProcessNode | null): number {
+	if (!root) return 0;
+	return 1 + root.children.reduce((total, child) => total + countProcesses(child), 0);
+}
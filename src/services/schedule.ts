@@ -0,0 +1,228 @@
+/**
+ * launchd schedules: upcoming fire times and plain-English descriptions
+ *
+ * StartCalendarInterval follows crontab(5): missing keys are wildcards, Weekday 0
+ * and 7 are both Sunday, and when both Day and Weekday are set a day matching
+ * either one fires. Times are local.
+ */
+
+import { formatUptime } from "../utils/format";
+import type { CalendarInterval } from "./plist";
+
+/** Days searched for the next fire time: long enough for a February 29 schedule */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
+/** Allowed range of each field; a value outside it never fires */
+const FIELD_RANGES: Record<keyof CalendarInterval, [number, number]> = {
+	minute: [0, 59],
+	hour: [0, 23],
+	day: [1, 31],
+	weekday: [0, 7],
+	month: [1, 12],
+};
+
+function isValidInterval(interval: CalendarInterval): boolean {
+	return Object.entries(FIELD_RANGES).every(([field, [min, max]]) => {
+		const value = interval[field as keyof CalendarInterval];
+		return value === undefined || (value >= min && value <= max);
+	});
+}
+
+function range(min: number, max: number): number[] {
+	return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+/**
+ * Whether a calendar day matches the interval's Month, Day and Weekday
+ */
+function matchesDay(interval: CalendarInterval, date: Date): boolean {
+	if (interval.month !== undefined && date.getMonth() + 1 !== interval.month) return false;
+
+	const dayMatches = date.getDate() === interval.day;
+	const weekdayMatches = interval.weekday !== undefined && date.getDay() === interval.weekday % 7;
+	if (interval.day !== undefined && interval.weekday !== undefined) return dayMatches || weekdayMatches;
+	if (interval.day !== undefined) return dayMatches;
+	if (interval.weekday !== undefined) return weekdayMatches;
+	return true;
+}
+
+function intervalFireTimes(interval: CalendarInterval, from: Date, count: number, until?: Date): Date[] {
+	if (!isValidInterval(interval)) return [];
+
+	const hours = interval.hour === undefined ? range(0, 23) : [interval.hour];
+	const minutes = interval.minute === undefined ? range(0, 59) : [interval.minute];
+	const times: Date[] = [];
+
+	for (let offset = 0; offset < MAX_SEARCH_DAYS && times.length < count; offset++) {
+		const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+		if (until && date >= until) break;
+		if (!matchesDay(interval, date)) continue;
+
+		for (const hour of hours) {
+			for (const minute of minutes) {
+				const time = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+				if (time > from && (!until || time < until) && times.length < count) times.push(time);
+			}
+		}
+	}
+
+	return times;
+}
+
+/**
+ * The next times a StartCalendarInterval schedule fires after `from` (and before `until`), earliest first
+ * Intervals in an array are merged; a time several intervals share is listed once
+ */
+export function nextCalendarFireTimes(
+	schedule: CalendarInterval | CalendarInterval[],
+	from: Date = new Date(),
+	count = 5,
+	until?: Date,
+): Date[] {
+	const intervals = Array.isArray(schedule) ? schedule : [schedule];
+	const times = new Map<number, Date>();
+	for (const interval of intervals) {
+		for (const time of intervalFireTimes(interval, from, count, until)) times.set(time.getTime(), time);
+	}
+	return [...times.values()].sort((a, b) => a.getTime() - b.getTime()).slice(0, count);
+}
+
+/**
+ * English ordinal, e.g. "1st", "12th", "22nd"
+ */
+function ordinal(n: number): string {
+	const tens = n % 100;
+	if (tens >= 11 && tens <= 13) return `${n}th`;
+	return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
+
+function monthName(month: number): string {
+	return MONTH_NAMES[month - 1] ?? `month ${month}`;
+}
+
+function describeWeekdays(weekdays: number[]): string {
+	const days = [...new Set(weekdays.map((day) => day % 7))].sort((a, b) => a - b);
+	const key = days.join(",");
+	if (key === "1,2,3,4,5") return "Weekdays";
+	if (key === "0,6") return "Weekends";
+	if (days.length === 7) return "Daily";
+	if (days.length === 1) return `${WEEKDAY_NAMES[days[0] ?? 0]}s`;
+	return days.map((day) => WEEKDAY_NAMES[day]?.slice(0, 3)).join(", ");
+}
+
+/**
+ * Which days an interval fires on, e.g. "Weekdays", "On the 1st of every month" or "" for every day
+ */
+function describeDays(interval: CalendarInterval, weekdays: number[] | undefined): string {
+	const { day, month, hour } = interval;
+	const weekdayText = weekdays ? describeWeekdays(weekdays) : undefined;
+
+	if (day !== undefined) {
+		const dayText =
+			month !== undefined
+				? `On ${monthName(month)} ${ordinal(day)}`
+				: `On the ${ordinal(day)} of every month`;
+		return weekdayText ? `${dayText} and ${weekdayText}` : dayText;
+	}
+	if (weekdayText) {
+		return month !== undefined ? `${weekdayText} in ${monthName(month)}` : weekdayText;
+	}
+	if (month !== undefined) return `Daily in ${monthName(month)}`;
+	// Without a fixed hour the time already says how often it fires
+	return hour !== undefined ? "Daily" : "";
+}
+
+/**
+ * When during a matching day an interval fires, e.g. "at 09:30" or "every hour at :15"
+ * An Hour without a Minute fires every minute of that hour, which is rarely intended
+ */
+function describeTime(interval: CalendarInterval): string {
+	const { hour, minute } = interval;
+	if (hour !== undefined && minute !== undefined) return `at ${pad(hour)}:${pad(minute)}`;
+	if (hour !== undefined) return `every minute from ${pad(hour)}:00 to ${pad(hour)}:59`;
+	if (minute !== undefined) return `every hour at :${pad(minute)}`;
+	return "every minute";
+}
+
+function joinList(items: string[]): string {
+	if (items.length <= 1) return items.join("");
+	return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Describe a StartCalendarInterval schedule, e.g. "Weekdays at 09:30" or "Daily at 03:00 and 15:00"
+ * Intervals that differ only in Weekday are described together
+ */
+export function describeCalendarSchedule(schedule: CalendarInterval | CalendarInterval[]): string {
+	const intervals = Array.isArray(schedule) ? schedule : [schedule];
+	if (intervals.length === 0) return "Never";
+
+	// Collect the weekdays of intervals that are otherwise identical
+	const groups = new Map<string, { interval: CalendarInterval; weekdays?: number[] }>();
+	for (const interval of intervals) {
+		const { minute, hour, day, month, weekday } = interval;
+		const key = [minute, hour, day, month, weekday === undefined ? "*" : "w"].join("|");
+		const group = groups.get(key);
+		if (group?.weekdays && weekday !== undefined) {
+			group.weekdays.push(weekday);
+		} else if (!group) {
+			groups.set(key, { interval, weekdays: weekday === undefined ? undefined : [weekday] });
+		}
+	}
+
+	// Then list the times of groups that fire on the same days
+	const byDays = new Map<string, string[]>();
+	for (const { interval, weekdays } of groups.values()) {
+		const days = describeDays(interval, weekdays);
+		const times = byDays.get(days) ?? [];
+		times.push(describeTime(interval));
+		byDays.set(days, times);
+	}
+
+	const phrases = [...byDays].map(([days, times]) => {
+		const clockTimes = times.every((time) => time.startsWith("at "));
+		const time = clockTimes ? `at ${joinList(times.map((t) => t.slice(3)))}` : times.join(" and ");
+		const phrase = days ? `${days} ${time}` : time;
+		return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+	});
+	return phrases.join("; ");
+}
+
+/**
+ * Describe a StartInterval, e.g. "Every 30 seconds", "Every hour" or "Every 3700s (~1h01m)"
+ */
+export function describeStartInterval(seconds: number): string {
+	const units: [number, string][] = [
+		[86_400, "day"],
+		[3_600, "hour"],
+		[60, "minute"],
+	];
+	for (const [size, unit] of units) {
+		if (seconds >= size && seconds % size === 0) {
+			const count = seconds / size;
+			return count === 1 ? `Every ${unit}` : `Every ${count} ${unit}s`;
+		}
+	}
+	if (seconds < 60) return seconds === 1 ? "Every second" : `Every ${seconds} seconds`;
+	return `Every ${seconds}s (~${formatUptime(seconds)})`;
+}
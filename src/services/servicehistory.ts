@@ -0,0 +1,238 @@
+/**
+ * Per-service history
+ * Status, PID and exit changes noticed across refreshes are appended to
+ * service-history.jsonl in the user's config directory. Actions are not stored
+ * twice: they are read back from the audit log and merged in.
+ */
+
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type {
+	ActionResult,
+	AuditAction,
+	AuditRecord,
+	AuditSource,
+	ServiceChange,
+	ServiceEvent,
+	ServiceHistory,
+	ServiceHistoryEntry,
+} from "../types";
+import { getConfigDir } from "../utils/paths";
+
+/** Service history file name inside the config directory */
+const SERVICE_HISTORY_FILE = "service-history.jsonl";
+
+/** File size past which the file is compacted to the newest entries per service */
+const SERVICE_HISTORY_MAX_BYTES = 1024 * 1024;
+
+const HISTORY_KINDS = new Set(["status", "pid", "exit", "action"]);
+
+/** Pending writes per file; appends and compactions run one at a time so none is lost */
+const writeQueues = new Map<string, Promise<void>>();
+
+/** Size of each file after its last compaction, so a file that stays large is not compacted on every append */
+const compactedSizes = new Map<string, number>();
+
+/**
+ * Get the service history path
+ */
+export function getServiceHistoryPath(env: NodeJS.ProcessEnv = process.env): string {
+	return join(getConfigDir(env), SERVICE_HISTORY_FILE);
+}
+
+/**
+ * History entries for the changes between two refreshes
+ * Status and enabled changes come from the changes; PID and exit changes from the
+ * events detected in them.
+ */
+export function historyEntriesFromChanges(
+	changes: ServiceChange[],
+	events: ServiceEvent[],
+	now: number,
+): ServiceHistoryEntry[] {
+	const entries: ServiceHistoryEntry[] = [];
+	for (const { previous, current } of changes) {
+		if (previous.status !== current.status) {
+			entries.push({
+				time: now,
+				serviceId: current.id,
+				kind: "status",
+				message: `${previous.status} → ${current.status}`,
+			});
+		}
+		if (previous.enabled !== current.enabled) {
+			entries.push({
+				time: now,
+				serviceId: current.id,
+				kind: "status",
+				message: current.enabled ? "Enabled" : "Disabled",
+			});
+		}
+	}
+	for (const event of events) {
+		const entry: ServiceHistoryEntry = {
+			time: event.time,
+			serviceId: event.serviceId,
+			kind: event.pid === undefined ? "exit" : "pid",
+			message: event.message,
+		};
+		if (event.kind === "crashed" || event.kind === "flapping") entry.failed = true;
+		entries.push(entry);
+	}
+	return entries;
+}
+
+function actionEntry(
+	action: AuditAction,
+	serviceId: string,
+	result: Pick<ActionResult, "success" | "message">,
+	source: AuditSource,
+	time: number,
+): ServiceHistoryEntry {
+	const entry: ServiceHistoryEntry = {
+		time,
+		serviceId,
+		kind: "action",
+		message: `${action}${source === "cli" ? " (cli)" : ""}: ${result.message}`,
+	};
+	if (!result.success) entry.failed = true;
+	return entry;
+}
+
+/**
+ * History entry for an action run from the TUI
+ */
+export function historyEntryForAction(
+	action: AuditAction,
+	serviceId: string,
+	result: ActionResult,
+	now: number,
+): ServiceHistoryEntry {
+	return actionEntry(action, serviceId, result, "tui", now);
+}
+
+/**
+ * History entry for an audited action
+ */
+export function historyEntryFromAudit(record: AuditRecord): ServiceHistoryEntry {
+	return actionEntry(record.action, record.serviceId, record, record.source, Date.parse(record.timestamp));
+}
+
+/**
+ * Add entries to a history, keeping the newest `limit` per service
+ * Entries may arrive in any order; each service's list stays newest first.
+ */
+export function addServiceHistory(
+	history: ServiceHistory,
+	entries: ServiceHistoryEntry[],
+	limit: number,
+): ServiceHistory {
+	if (entries.length === 0) return history;
+
+	const next = { ...history };
+	const added = new Map<string, ServiceHistoryEntry[]>();
+	for (const entry of entries) {
+		added.set(entry.serviceId, [...(added.get(entry.serviceId) ?? []), entry]);
+	}
+	for (const [serviceId, serviceEntries] of added) {
+		// Stable sort keeps same-time entries in the order they were added
+		next[serviceId] = [...serviceEntries.reverse(), ...(history[serviceId] ?? [])]
+			.sort((a, b) => b.time - a.time)
+			.slice(0, limit);
+	}
+	return next;
+}
+
+/**
+ * Parse service history file contents, oldest first
+ * Lines that are not valid entries (e.g. a torn final write) are skipped
+ */
+export function parseServiceHistory(text: string): ServiceHistoryEntry[] {
+	const entries: ServiceHistoryEntry[] = [];
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		try {
+			const parsed = JSON.parse(trimmed) as Partial<ServiceHistoryEntry>;
+			if (
+				typeof parsed.time === "number" &&
+				typeof parsed.serviceId === "string" &&
+				typeof parsed.message === "string" &&
+				HISTORY_KINDS.has(parsed.kind ?? "")
+			) {
+				entries.push(parsed as ServiceHistoryEntry);
+			}
+		} catch {
+			// Skip malformed lines
+		}
+	}
+	return entries;
+}
+
+function formatEntries(entries: ServiceHistoryEntry[]): string {
+	return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+/**
+ * Rewrite the file with the newest `limit` entries per service
+ * The new contents are renamed into place, so readers never see a partial file.
+ */
+async function compactServiceHistory(path: string, limit: number): Promise<void> {
+	const history = addServiceHistory({}, parseServiceHistory(await readFile(path, "utf8")), limit);
+	const oldestFirst = Object.values(history)
+		.flat()
+		.sort((a, b) => a.time - b.time);
+	const contents = formatEntries(oldestFirst);
+	await writeFile(`${path}.tmp`, contents, { mode: 0o600 });
+	await rename(`${path}.tmp`, path);
+	compactedSizes.set(path, Buffer.byteLength(contents));
+}
+
+/**
+ * Append entries to the service history file, creating the directory if needed
+ * Once the file passes `maxBytes` (or twice its size after the last compaction, if that
+ * is larger) it is compacted to the newest `limit` entries per service.
+ */
+export function appendServiceHistoryEntries(
+	entries: ServiceHistoryEntry[],
+	limit: number,
+	path: string = getServiceHistoryPath(),
+	maxBytes: number = SERVICE_HISTORY_MAX_BYTES,
+): Promise<void> {
+	if (entries.length === 0) return Promise.resolve();
+
+	const write = async () => {
+		await mkdir(dirname(path), { recursive: true });
+		await appendFile(path, formatEntries(entries), { mode: 0o600 });
+		const { size } = await stat(path);
+		if (size > Math.max(maxBytes, 2 * (compactedSizes.get(path) ?? 0))) {
+			await compactServiceHistory(path, limit);
+		}
+	};
+	// Run after the previous write, whether or not it failed
+	const next = (writeQueues.get(path) ?? Promise.resolve()).then(write, write);
+	writeQueues.set(
+		path,
+		next.catch(() => {}),
+	);
+	return next;
+}
+
+/**
+ * Read the service history file, keeping the newest `limit` entries per service
+ * The file is only read; appends keep it bounded. A missing file is an empty history.
+ */
+export async function readServiceHistory(
+	limit: number,
+	path: string = getServiceHistoryPath(),
+): Promise<ServiceHistory> {
+	let text: string;
+	try {
+		text = await readFile(path, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+		throw error;
+	}
+
+	return addServiceHistory({}, parseServiceHistory(text), limit);
+}
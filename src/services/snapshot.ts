@@ -0,0 +1,266 @@
+/**
+ * Inventory snapshots
+ * A snapshot is every service with its plist metadata, enabled state and plist
+ * contents, saved as versioned JSON. Diffing two snapshots (or a snapshot and the
+ * live system) shows persistence added or changed by an OS upgrade or an installer.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname, join } from "node:path";
+import type {
+	Service,
+	ServiceSnapshot,
+	SnapshotDiff,
+	SnapshotFieldChange,
+	SnapshotService,
+	SnapshotServiceSummary,
+} from "../types";
+import { formatUnifiedDiff } from "../utils/diff";
+import { getConfigDir } from "../utils/paths";
+
+/** Current snapshot format version; older versions are still read */
+export const SNAPSHOT_VERSION = 1;
+
+/** Snapshot directory name inside the config directory */
+const SNAPSHOT_DIR = "snapshots";
+
+/** Unchanged plist lines shown around each change */
+const PLIST_DIFF_CONTEXT = 1;
+
+/**
+ * Get the directory snapshots are saved to by default
+ */
+export function getSnapshotDir(env: NodeJS.ProcessEnv = process.env): string {
+	return join(getConfigDir(env), SNAPSHOT_DIR);
+}
+
+/**
+ * Build a snapshot of services
+ */
+export function buildSnapshot(
+	services: SnapshotService[],
+	createdAt: Date = new Date(),
+	host: string = hostname(),
+): ServiceSnapshot {
+	return {
+		version: SNAPSHOT_VERSION,
+		createdAt: createdAt.toISOString(),
+		hostname: host,
+		services: [...services].sort((a, b) => a.id.localeCompare(b.id)),
+	};
+}
+
+/**
+ * Parse snapshot file contents
+ * Throws when the text is not a snapshot or was written by a newer version
+ */
+export function parseSnapshot(text: string): ServiceSnapshot {
+	let parsed: Partial<ServiceSnapshot>;
+	try {
+		parsed = JSON.parse(text) as Partial<ServiceSnapshot>;
+	} catch {
+		throw new Error("Not a service snapshot: invalid JSON");
+	}
+	if (
+		typeof parsed !== "object" ||
+		parsed === null ||
+		typeof parsed.version !== "number" ||
+		!Array.isArray(parsed.services)
+	) {
+		throw new Error("Not a service snapshot");
+	}
+	if (parsed.version > SNAPSHOT_VERSION) {
+		throw new Error(`Snapshot version ${parsed.version} is newer than this version of msm supports`);
+	}
+	return {
+		version: parsed.version,
+		createdAt: parsed.createdAt ?? "",
+		hostname: parsed.hostname ?? "",
+		services: parsed.services,
+	};
+}
+
+function summarize(service: SnapshotService): SnapshotServiceSummary {
+	const summary: SnapshotServiceSummary = {
+		id: service.id,
+		label: service.label,
+		type: service.type,
+		domain: service.domain,
+		enabled: service.enabled,
+	};
+	if (service.plistPath) summary.plistPath = service.plistPath;
+	const program = service.plistMetadata?.program ?? service.plistMetadata?.programArguments?.[0];
+	if (program) summary.program = program;
+	return summary;
+}
+
+/** Fields compared between snapshots; run state (PID, running/stopped) is not persistence */
+const COMPARED_FIELDS: Array<[string, (service: Service) => string | undefined]> = [
+	["enabled", (s) => (s.enabled ? "yes" : "no")],
+	["loaded", (s) => (s.status === "not-loaded" ? "no" : "yes")],
+	["type", (s) => s.type],
+	["plist path", (s) => s.plistPath],
+	["protection", (s) => s.protection],
+];
+
+/**
+ * Compare two snapshots by service ID
+ * Plist contents are compared only when both snapshots could read the plist.
+ */
+export function diffSnapshots(before: ServiceSnapshot, after: ServiceSnapshot): SnapshotDiff {
+	const beforeById = new Map(before.services.map((service) => [service.id, service]));
+	const afterIds = new Set(after.services.map((service) => service.id));
+	const byLabel = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+
+	const diff: SnapshotDiff = {
+		before: { createdAt: before.createdAt, hostname: before.hostname },
+		after: { createdAt: after.createdAt, hostname: after.hostname },
+		added: [],
+		removed: before.services
+			.filter((service) => !afterIds.has(service.id))
+			.map(summarize)
+			.sort(byLabel),
+		changed: [],
+	};
+
+	for (const current of after.services) {
+		const previous = beforeById.get(current.id);
+		if (!previous) {
+			diff.added.push(summarize(current));
+			continue;
+		}
+
+		const fields: SnapshotFieldChange[] = [];
+		for (const [field, value] of COMPARED_FIELDS) {
+			const was = value(previous) ?? "-";
+			const now = value(current) ?? "-";
+			if (was !== now) fields.push({ field, before: was, after: now });
+		}
+		const plistDiff =
+			previous.plist !== undefined && current.plist !== undefined
+				? formatUnifiedDiff(previous.plist, current.plist, {
+						oldLabel: "before",
+						newLabel: "after",
+						context: PLIST_DIFF_CONTEXT,
+					})
+				: [];
+		if (fields.length > 0 || plistDiff.length > 0) {
+			diff.changed.push({ id: current.id, label: current.label, fields, plistDiff });
+		}
+	}
+
+	diff.added.sort(byLabel);
+	diff.changed.sort(byLabel);
+	return diff;
+}
+
+/**
+ * Whether a diff found any difference
+ */
+export function isEmptySnapshotDiff(diff: SnapshotDiff): boolean {
+	return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+export type SnapshotDiffLineKind = "heading" | "added" | "removed" | "changed" | "field" | "plist";
+
+export interface SnapshotDiffLine {
+	kind: SnapshotDiffLineKind;
+	text: string;
+	/** Service the line belongs to (not set for headings) */
+	serviceId?: string;
+}
+
+function describeSummary(service: SnapshotServiceSummary): string {
+	const details = [service.type, service.domain, service.enabled ? "" : "disabled"].filter(Boolean);
+	const program = service.program ? ` → ${service.program}` : "";
+	return `${service.label} (${details.join(", ")})${program}`;
+}
+
+/**
+ * Lay a diff out as lines, shared by the CLI and the TUI
+ * Sections (added, removed, changed) are left out when empty.
+ */
+export function snapshotDiffLines(diff: SnapshotDiff): SnapshotDiffLine[] {
+	const lines: SnapshotDiffLine[] = [];
+
+	if (diff.added.length > 0) {
+		lines.push({ kind: "heading", text: `Added (${diff.added.length})` });
+		for (const service of diff.added) {
+			lines.push({ kind: "added", text: `+ ${describeSummary(service)}`, serviceId: service.id });
+			if (service.plistPath) {
+				lines.push({ kind: "field", text: `    ${service.plistPath}`, serviceId: service.id });
+			}
+		}
+	}
+
+	if (diff.removed.length > 0) {
+		lines.push({ kind: "heading", text: `Removed (${diff.removed.length})` });
+		for (const service of diff.removed) {
+			lines.push({ kind: "removed", text: `- ${describeSummary(service)}`, serviceId: service.id });
+		}
+	}
+
+	if (diff.changed.length > 0) {
+		lines.push({ kind: "heading", text: `Changed (${diff.changed.length})` });
+		for (const change of diff.changed) {
+			lines.push({ kind: "changed", text: `~ ${change.label}`, serviceId: change.id });
+			for (const field of change.fields) {
+				lines.push({
+					kind: "field",
+					text: `    ${field.field}: ${field.before} → ${field.after}`,
+					serviceId: change.id,
+				});
+			}
+			// Skip the ---/+++ header; the service line already names the file
+			for (const line of change.plistDiff.slice(2)) {
+				lines.push({ kind: "plist", text: `    ${line}`, serviceId: change.id });
+			}
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * One-line summary of a diff, e.g. "2 added, 0 removed, 1 changed (1 enable/disable)"
+ */
+export function summarizeSnapshotDiff(diff: SnapshotDiff): string {
+	const toggled = diff.changed.filter((change) => change.fields.some((f) => f.field === "enabled")).length;
+	const counts = `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`;
+	return toggled > 0 ? `${counts} (${toggled} enable/disable)` : counts;
+}
+
+/**
+ * Write a snapshot, creating the directory if needed
+ */
+export async function writeSnapshot(snapshot: ServiceSnapshot, path: string): Promise<void> {
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, `${JSON.stringify(snapshot, null, 2)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Read a snapshot file
+ * Throws when it is missing or not a snapshot
+ */
+export async function readSnapshot(path: string): Promise<ServiceSnapshot> {
+	return parseSnapshot(await readFile(path, "utf8"));
+}
+
+/**
+ * Saved snapshots in a directory, newest first
+ * A missing directory has no snapshots.
+ */
+export async function listSnapshots(dir: string = getSnapshotDir()): Promise<string[]> {
+	try {
+		const names = await readdir(dir);
+		return names
+			.filter((name) => name.endsWith(".json"))
+			.sort()
+			.reverse()
+			.map((name) => join(dir, name));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+		throw error;
+	}
+}
@@ -93,6 +93,7 @@ function isMoreActiveStatus(newStatus: ServiceStatus, oldStatus: ServiceStatus):
 		stopped: 4,
 		disabled: 3,
 		error: 2,
+		"not-loaded": 1,
 		unknown: 1,
 	};
 	return (priority[newStatus] ?? 0) > (priority[oldStatus] ?? 0);
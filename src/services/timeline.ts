@@ -0,0 +1,208 @@
+/**
+ * Timeline of upcoming runs of every scheduled job
+ *
+ * Runs are counted per bucket of one or more hours. A collision is a minute in
+ * which two or more StartCalendarInterval jobs fire. StartInterval jobs are
+ * counted from now, since launchd's timer phase is not visible, and take no part
+ * in collisions. Jobs that are disabled or not loaded are listed but not counted.
+ */
+
+import type { Service } from "../types";
+import { describeCalendarSchedule, describeStartInterval, nextCalendarFireTimes } from "./schedule";
+
+export type TimelineRange = "day" | "week";
+
+/** Bucket sizes in hours; each divides a day, so buckets line up with midnight */
+const BUCKET_HOURS = [1, 2, 3, 4, 6, 8, 12, 24];
+
+const RANGE_HOURS: Record<TimelineRange, number> = { day: 24, week: 24 * 7 };
+
+const MINUTE_MS = 60_000;
+
+export interface TimelineJob {
+	serviceId: string;
+	label: string;
+	/** e.g. "Weekdays at 09:30" or "Every hour" */
+	description: string;
+	/** StartInterval job: runs are counted from now */
+	approximate: boolean;
+	/** Disabled or not loaded, so it will not run */
+	inactive: boolean;
+	/** Runs in each bucket */
+	counts: number[];
+	/** Buckets in which this job collides with another */
+	collides: boolean[];
+	nextRun: Date | null;
+}
+
+export interface TimelineCollision {
+	time: Date;
+	labels: string[];
+}
+
+export interface ScheduleTimeline {
+	start: Date;
+	end: Date;
+	bucketHours: number;
+	/** Start of each bucket */
+	buckets: Date[];
+	/** One per scheduled service, in input order */
+	jobs: TimelineJob[];
+	/** Runs of active jobs in each bucket */
+	totals: number[];
+	/** Collisions in each bucket */
+	collisionCounts: number[];
+	/** Every collision, earliest first */
+	collisions: TimelineCollision[];
+}
+
+/**
+ * Whether a service has a StartInterval or StartCalendarInterval schedule
+ */
+export function hasSchedule(service: Service): boolean {
+	const metadata = service.plistMetadata;
+	return Boolean(metadata?.startCalendarInterval || (metadata?.startInterval ?? 0) > 0);
+}
+
+/**
+ * Whether a service will not run on its schedule
+ */
+function isInactive(service: Service): boolean {
+	return !service.enabled || service.status === "not-loaded";
+}
+
+/**
+ * The next run of a scheduled service after `now`, or null when it never fires
+ * StartInterval runs are counted from `now`.
+ */
+export function nextScheduledRun(service: Service, now: Date = new Date()): Date | null {
+	const metadata = service.plistMetadata;
+	if (metadata?.startCalendarInterval)
+		return nextCalendarFireTimes(metadata.startCalendarInterval, now, 1)[0] ?? null;
+	const seconds = metadata?.startInterval ?? 0;
+	return seconds > 0 ? new Date(now.getTime() + seconds * 1000) : null;
+}
+
+/**
+ * Order scheduled services by their next run, services that will not run last
+ */
+export function sortByNextRun(services: Service[], now: Date = new Date()): Service[] {
+	const nextRuns = new Map(
+		services.map((service) => [service.id, nextScheduledRun(service, now)?.getTime()]),
+	);
+	return [...services].sort((a, b) => {
+		if (isInactive(a) !== isInactive(b)) return isInactive(a) ? 1 : -1;
+		const aTime = nextRuns.get(a.id) ?? Number.POSITIVE_INFINITY;
+		const bTime = nextRuns.get(b.id) ?? Number.POSITIVE_INFINITY;
+		return aTime - bTime || a.label.localeCompare(b.label);
+	});
+}
+
+/**
+ * Smallest bucket size that fits the range into `columns` buckets
+ */
+export function timelineBucketHours(range: TimelineRange, columns: number): number {
+	const hours = RANGE_HOURS[range];
+	return BUCKET_HOURS.find((size) => hours / size <= columns) ?? 24;
+}
+
+/**
+ * Number of StartInterval runs, counted from `now`, strictly before `time`
+ */
+function intervalRunsBefore(now: number, intervalMs: number, time: number): number {
+	return time <= now ? 0 : Math.max(0, Math.ceil((time - now) / intervalMs) - 1);
+}
+
+/**
+ * Lay out the runs of every scheduled service between `now` and the end of the range
+ * The first bucket starts at the bucket boundary at or before `now`.
+ */
+export function buildScheduleTimeline(
+	services: Service[],
+	range: TimelineRange,
+	bucketHours: number,
+	now: Date = new Date(),
+): ScheduleTimeline {
+	const bucketCount = Math.ceil(RANGE_HOURS[range] / bucketHours);
+	const firstHour = Math.floor(now.getHours() / bucketHours) * bucketHours;
+	// Local wall-clock boundaries, so buckets stay aligned across DST changes
+	const boundaries = Array.from(
+		{ length: bucketCount + 1 },
+		(_, i) => new Date(now.getFullYear(), now.getMonth(), now.getDate(), firstHour + i * bucketHours),
+	);
+	const buckets = boundaries.slice(0, -1);
+	const start = boundaries[0] ?? now;
+	const end = boundaries[bucketCount] ?? now;
+	const bucketOf = (time: number) =>
+		boundaries.findIndex((boundary, i) => i > 0 && time < boundary.getTime()) - 1;
+
+	const jobs: TimelineJob[] = [];
+	// Minute -> active calendar jobs firing in it
+	const minutes = new Map<number, TimelineJob[]>();
+
+	for (const service of services) {
+		const metadata = service.plistMetadata;
+		if (!metadata || !hasSchedule(service)) continue;
+
+		const calendar = metadata.startCalendarInterval;
+		const seconds = metadata.startInterval ?? 0;
+		const job: TimelineJob = {
+			serviceId: service.id,
+			label: service.label,
+			description: calendar ? describeCalendarSchedule(calendar) : describeStartInterval(seconds),
+			approximate: !calendar,
+			inactive: isInactive(service),
+			counts: new Array<number>(bucketCount).fill(0),
+			collides: new Array<boolean>(bucketCount).fill(false),
+			nextRun: null,
+		};
+		jobs.push(job);
+
+		if (calendar) {
+			const maxRuns = Math.ceil((end.getTime() - now.getTime()) / MINUTE_MS) + 1;
+			const runs = nextCalendarFireTimes(calendar, now, maxRuns, end);
+			job.nextRun = runs[0] ?? null;
+			for (const run of runs) {
+				const bucket = bucketOf(run.getTime());
+				job.counts[bucket] = (job.counts[bucket] ?? 0) + 1;
+				if (!job.inactive) minutes.set(run.getTime(), [...(minutes.get(run.getTime()) ?? []), job]);
+			}
+		} else {
+			const intervalMs = seconds * 1000;
+			const nextRun = new Date(now.getTime() + intervalMs);
+			job.nextRun = nextRun < end ? nextRun : null;
+			for (let i = 0; i < bucketCount; i++) {
+				const from = boundaries[i]?.getTime() ?? 0;
+				const to = boundaries[i + 1]?.getTime() ?? 0;
+				job.counts[i] =
+					intervalRunsBefore(now.getTime(), intervalMs, to) -
+					intervalRunsBefore(now.getTime(), intervalMs, from);
+			}
+		}
+	}
+
+	const collisions: TimelineCollision[] = [];
+	const collisionCounts = new Array<number>(bucketCount).fill(0);
+	for (const [time, firing] of [...minutes].sort(([a], [b]) => a - b)) {
+		if (firing.length < 2) continue;
+		const bucket = bucketOf(time);
+		collisions.push({ time: new Date(time), labels: firing.map((job) => job.label) });
+		collisionCounts[bucket] = (collisionCounts[bucket] ?? 0) + 1;
+		for (const job of firing) job.collides[bucket] = true;
+	}
+
+	const totals = buckets.map((_, i) =>
+		jobs.reduce((sum, job) => sum + (job.inactive ? 0 : (job.counts[i] ?? 0)), 0),
+	);
+
+	return {
+		start,
+		end,
+		bucketHours,
+		buckets,
+		jobs,
+		totals,
+		collisionCounts,
+		collisions,
+	};
+}
@@ -0,0 +1,144 @@
+/**
+ * Unified log access for services
+ * Wraps `log show` (history) and `log stream` (live tail)
+ */
+
+import { spawn } from "bun";
+import type { LogEntry, LogLevelFilter, Service } from "../../types";
+import { execCommand } from "../launchctl/exec";
+import {
+	buildLogPredicate,
+	filterLogEntries,
+	getLogLevelFlags,
+	parseLogChunk,
+	parseLogOutput,
+} from "./parsers";
+
+export {
+	buildLogPredicate,
+	filterLogEntries,
+	getLogLevelFlags,
+	type LogPredicateSource,
+	parseLogChunk,
+	parseLogLine,
+	parseLogOutput,
+} from "./parsers";
+
+/** How far back `log show` looks */
+const LOG_SHOW_WINDOW = "1h";
+
+/** `log show` can be slow on busy systems */
+const LOG_SHOW_TIMEOUT_MS = 60_000;
+
+/** Handle for a running log stream */
+export interface LogStreamHandle {
+	stop: () => void;
+}
+
+export interface LogStreamOptions {
+	level: LogLevelFilter;
+	onEntries: (entries: LogEntry[]) => void;
+	onError: (error: string) => void;
+}
+
+/**
+ * Build the predicate for a service from its label, PID and program
+ */
+function getServicePredicate(service: Service): string {
+	return buildLogPredicate({
+		label: service.label,
+		pid: service.pid,
+		program: service.plistMetadata?.program ?? service.plistMetadata?.programArguments?.[0],
+	});
+}
+
+/**
+ * Fetch recent log entries for a service via `log show`
+ * Entries below the requested level are dropped. Throws if the command fails
+ */
+export async function showServiceLogs(service: Service, level: LogLevelFilter): Promise<LogEntry[]> {
+	const args = [
+		"show",
+		"--style",
+		"ndjson",
+		"--last",
+		LOG_SHOW_WINDOW,
+		...getLogLevelFlags(level),
+		"--predicate",
+		getServicePredicate(service),
+	];
+
+	const result = await execCommand("log", args, LOG_SHOW_TIMEOUT_MS);
+	if (result.exitCode !== 0) {
+		throw new Error(result.stderr.trim() || `log show failed (exit code ${result.exitCode})`);
+	}
+
+	return filterLogEntries(parseLogOutput(result.stdout), level);
+}
+
+/**
+ * Start a live tail for a service via `log stream`
+ * Entries are delivered in batches as chunks arrive
+ */
+export function streamServiceLogs(service: Service, options: LogStreamOptions): LogStreamHandle {
+	const { level, onEntries, onError } = options;
+	let stopped = false;
+
+	const proc = spawn(
+		[
+			"log",
+			"stream",
+			"--style",
+			"ndjson",
+			...getLogLevelFlags(level),
+			"--predicate",
+			getServicePredicate(service),
+		],
+		{
+			stdout: "pipe",
+			stderr: "pipe",
+		},
+	);
+
+	// Drain stderr while streaming so `log stream` never blocks on a full pipe
+	const stderr = new Response(proc.stderr).text().catch(() => "");
+
+	const read = async () => {
+		const reader = proc.stdout.getReader();
+		const decoder = new TextDecoder();
+		let pending = "";
+
+		try {
+			while (!stopped) {
+				const { done, value } = await reader.read();
+				if (done) break;
+
+				const { entries: parsed, rest } = parseLogChunk(pending, decoder.decode(value, { stream: true }));
+				pending = rest;
+				const entries = filterLogEntries(parsed, level);
+				if (entries.length > 0 && !stopped) onEntries(entries);
+			}
+		} catch (error) {
+			if (!stopped) onError(error instanceof Error ? error.message : "Log stream failed");
+			return;
+		}
+
+		if (stopped) return;
+
+		const exitCode = await proc.exited;
+		if (exitCode !== 0) {
+			onError((await stderr).trim() || `log stream exited with code ${exitCode}`);
+		}
+	};
+
+	read().catch((error) => {
+		if (!stopped) onError(error instanceof Error ? error.message : "Log stream failed");
+	});
+
+	return {
+		stop: () => {
+			stopped = true;
+			proc.kill();
+		},
+	};
+}
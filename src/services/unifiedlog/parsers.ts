@@ -0,0 +1,197 @@
+/**
+ * Parsers for unified log output (`log show` / `log stream`)
+ *
+ * The primary format is `--style ndjson` (one JSON object per line).
+ * The `--style compact` format is accepted as a fallback so that
+ * captured output from either style can be loaded.
+ */
+
+import type { LogEntry, LogLevel, LogLevelFilter } from "../../types";
+
+// ============================================================================
+// Level helpers
+// ============================================================================
+
+/** Severity order, lowest first */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	default: 2,
+	error: 3,
+	fault: 4,
+};
+
+/** Map ndjson `messageType` values to log levels */
+const MESSAGE_TYPE_LEVELS: Record<string, LogLevel> = {
+	debug: "debug",
+	info: "info",
+	default: "default",
+	error: "error",
+	fault: "fault",
+};
+
+/** Map compact-style level codes to log levels */
+const COMPACT_LEVEL_CODES: Record<string, LogLevel> = {
+	Db: "debug",
+	I: "info",
+	Df: "default",
+	E: "error",
+	F: "fault",
+};
+
+/**
+ * Filter entries to those at or above the minimum level
+ */
+export function filterLogEntries(entries: LogEntry[], minLevel: LogLevelFilter): LogEntry[] {
+	const threshold = LEVEL_SEVERITY[minLevel];
+	if (threshold === 0) return entries;
+	return entries.filter((entry) => LEVEL_SEVERITY[entry.level] >= threshold);
+}
+
+/**
+ * Get the `log` command flags needed to include a minimum level
+ * (`log` omits info and debug messages unless asked)
+ */
+export function getLogLevelFlags(minLevel: LogLevelFilter): string[] {
+	if (minLevel === "debug") return ["--info", "--debug"];
+	if (minLevel === "info") return ["--info"];
+	return [];
+}
+
+// ============================================================================
+// Predicate building
+// ============================================================================
+
+/** Escape a string for use inside a double-quoted NSPredicate literal */
+function escapePredicateString(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/** Sources used to build a log predicate for a service */
+export interface LogPredicateSource {
+	label: string;
+	pid?: number;
+	program?: string;
+}
+
+/**
+ * Build an NSPredicate matching log entries for a service
+ * Matches the subsystem (label), the running PID and the program's process name
+ */
+export function buildLogPredicate({ label, pid, program }: LogPredicateSource): string {
+	const clauses = [`subsystem == "${escapePredicateString(label)}"`];
+
+	if (pid !== undefined && pid > 0) {
+		clauses.push(`processID == ${pid}`);
+	}
+
+	const processName = program?.split("/").pop();
+	if (processName) {
+		clauses.push(`process == "${escapePredicateString(processName)}"`);
+	}
+
+	return clauses.join(" OR ");
+}
+
+// ============================================================================
+// Line parsing
+// ============================================================================
+
+/** Parse an ndjson log line */
+function parseNdjsonLine(line: string): LogEntry | null {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(line);
+	} catch {
+		return null;
+	}
+	if (typeof raw !== "object" || raw === null) return null;
+
+	const record = raw as Record<string, unknown>;
+	// Skip the trailing `{"count":N,"finished":1}` summary and non-message events
+	if (typeof record.timestamp !== "string" || typeof record.eventMessage !== "string") {
+		return null;
+	}
+
+	const messageType = typeof record.messageType === "string" ? record.messageType.toLowerCase() : "default";
+	const imagePath = typeof record.processImagePath === "string" ? record.processImagePath : "";
+
+	return {
+		timestamp: record.timestamp,
+		level: MESSAGE_TYPE_LEVELS[messageType] ?? "default",
+		process: imagePath.split("/").pop() || "unknown",
+		pid: typeof record.processID === "number" ? record.processID : undefined,
+		subsystem: typeof record.subsystem === "string" && record.subsystem ? record.subsystem : undefined,
+		category: typeof record.category === "string" && record.category ? record.category : undefined,
+		message: record.eventMessage,
+	};
+}
+
+/** Compact style: `2024-01-15 10:23:45.123 Df myservice[1234:5678] [sub:cat] message` */
+const COMPACT_LINE_PATTERN =
+	/^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?)\s+(Db|Df|I|E|F)\s+([^[\s][^[]*)\[(\d+)(?::\w+)?\]\s*(?:\[([^:\]]+):([^\]]*)\]\s*)?(.*)$/;
+
+/** Parse a compact-style log line */
+function parseCompactLine(line: string): LogEntry | null {
+	const match = line.match(COMPACT_LINE_PATTERN);
+	if (!match) return null;
+
+	const [, timestamp, code, process, pid, subsystem, category, message] = match;
+	if (!timestamp || !code || !process || !pid) return null;
+
+	return {
+		timestamp,
+		level: COMPACT_LEVEL_CODES[code] ?? "default",
+		process: process.trim(),
+		pid: Number.parseInt(pid, 10),
+		subsystem: subsystem || undefined,
+		category: category || undefined,
+		message: message ?? "",
+	};
+}
+
+/**
+ * Parse a single line of `log` output
+ * Returns null for headers ("Filtering the log data using..."), summaries and blank lines
+ */
+export function parseLogLine(line: string): LogEntry | null {
+	const trimmed = line.trim();
+	if (!trimmed) return null;
+
+	if (trimmed.startsWith("{")) {
+		return parseNdjsonLine(trimmed);
+	}
+
+	return parseCompactLine(trimmed);
+}
+
+/**
+ * Parse complete `log show` / `log stream` output
+ */
+export function parseLogOutput(output: string): LogEntry[] {
+	if (!output || output.trim() === "") return [];
+
+	const entries: LogEntry[] = [];
+	for (const line of output.split("\n")) {
+		const entry = parseLogLine(line);
+		if (entry) entries.push(entry);
+	}
+	return entries;
+}
+
+/**
+ * Split a streamed chunk into complete lines
+ * Returns parsed entries and the trailing partial line to carry into the next chunk
+ */
+export function parseLogChunk(pending: string, chunk: string): { entries: LogEntry[]; rest: string } {
+	const text = pending + chunk;
+	const lastNewline = text.lastIndexOf("\n");
+	if (lastNewline === -1) {
+		return { entries: [], rest: text };
+	}
+
+	return {
+		entries: parseLogOutput(text.slice(0, lastNewline)),
+		rest: text.slice(lastNewline + 1),
+	};
+}
@@ -4,7 +4,7 @@
 
 import { describe, expect, test } from "bun:test";
 import type { Service } from "../../types";
-import { hasServiceChanged, mergeServices } from "../utils";
+import { appendResourceHistory, diffServices, hasServiceChanged, mergeServices } from "../utils";
 
 // ============================================================================
 // Factory helper
@@ -73,6 +73,26 @@ describe("hasServiceChanged", () => {
 	});
 });
 
+// ============================================================================
+// diffServices
+// ============================================================================
+
+describe("diffServices", () => {
+	test("pairs changed services with their previous state", () => {
+		const previous = createMockService({ id: "b", pid: 200 });
+		const current = createMockService({ id: "b", pid: 300 });
+		const old = [createMockService({ id: "a", pid: 100 }), previous];
+		const updated = [createMockService({ id: "a", pid: 100 }), current];
+		expect(diffServices(old, updated)).toEqual([{ previous, current }]);
+	});
+
+	test("ignores added and removed services", () => {
+		const old = [createMockService({ id: "a" })];
+		const updated = [createMockService({ id: "b", pid: 1 })];
+		expect(diffServices(old, updated)).toEqual([]);
+	});
+});
+
 // ============================================================================
 // mergeServices
 // ============================================================================
@@ -144,3 +164,40 @@ describe("mergeServices", () => {
 		expect(mergeServices([], [])).toBeNull();
 	});
 });
+
+// ============================================================================
+// appendResourceHistory
+// ============================================================================
+
+describe("appendResourceHistory", () => {
+	const sample = (pid: number, cpu: number, rss: number) => ({ pid, cpu, rss, uptime: 60 });
+
+	test("starts history for newly sampled services", () => {
+		const services = [createMockService({ pid: 100 })];
+		expect(appendResourceHistory({}, services, { 100: sample(100, 1.5, 2048) }, 3)).toEqual({
+			"test-1": { pid: 100, cpu: [1.5], rss: [2048] },
+		});
+	});
+
+	test("appends and keeps only the last samples", () => {
+		const services = [createMockService({ pid: 100 })];
+		const history = { "test-1": { pid: 100, cpu: [1, 2, 3], rss: [10, 20, 30] } };
+		expect(appendResourceHistory(history, services, { 100: sample(100, 4, 40) }, 3)).toEqual({
+			"test-1": { pid: 100, cpu: [2, 3, 4], rss: [20, 30, 40] },
+		});
+	});
+
+	test("restarts when the PID changes", () => {
+		const services = [createMockService({ pid: 200 })];
+		const history = { "test-1": { pid: 100, cpu: [1, 2], rss: [10, 20] } };
+		expect(appendResourceHistory(history, services, { 200: sample(200, 5, 50) }, 3)).toEqual({
+			"test-1": { pid: 200, cpu: [5], rss: [50] },
+		});
+	});
+
+	test("drops services without a sample", () => {
+		const services = [createMockService({ pid: 100 }), createMockService({ id: "test-2", pid: undefined })];
+		const history = { "test-1": { pid: 100, cpu: [1], rss: [10] } };
+		expect(appendResourceHistory(history, services, {}, 3)).toEqual({});
+	});
+});
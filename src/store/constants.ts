@@ -20,3 +20,38 @@ export const SEARCH_DEBOUNCE_MS = 250;
 
 // Reconnect interval when offline (30 seconds)
 export const OFFLINE_RECONNECT_INTERVAL = 30000;
+
+// Maximum number of log entries kept in the log viewer scrollback
+export const MAX_LOG_ENTRIES = 2000;
+
+// Maximum number of lines kept per output file in the output viewer
+export const MAX_OUTPUT_LINES = 2000;
+
+// Poll interval for following StandardOutPath/StandardErrorPath files (1 second)
+export const FILE_TAIL_POLL_INTERVAL = 1000;
+
+// Maximum number of services acted on at once in a batch action
+export const BATCH_CONCURRENCY = 4;
+
+// Delay before inspecting the selected service, so scrolling through the list does not run `launchctl print` per row
+export const INSPECTION_DEBOUNCE_MS = 200;
+
+// Interval between `ps` samples of running services (3 seconds)
+export const RESOURCE_SAMPLE_INTERVAL = 3000;
+
+// Number of samples kept per service for the details panel sparklines
+export const RESOURCE_HISTORY_LENGTH = 30;
+
+// Delay before re-reading the process tree after a signal, so the process has time to exit
+export const PROCESS_SIGNAL_SETTLE_MS = 500;
+
+// New PIDs within FLAP_WINDOW_MS that mark a service as flapping
+export const FLAP_RESTART_THRESHOLD = 3;
+// Window for counting restarts (5 minutes)
+export const FLAP_WINDOW_MS = 300000;
+
+// Maximum number of crash and restart events kept in the events panel
+export const MAX_SERVICE_EVENTS = 500;
+
+// Maximum number of history entries kept per service, in memory and in service-history.jsonl
+export const MAX_SERVICE_HISTORY_ENTRIES = 50;
@@ -4,4 +4,10 @@
 
 export { useAppEffects } from "./useAppEffects";
 export { useAppStore } from "./useAppStore";
-export { useDebouncedSearch, useFilteredServices, useSelectedService } from "./useDerivedState";
+export {
+	useDebouncedSearch,
+	useFilteredServices,
+	useMarkedServices,
+	usePlistEditorDiff,
+	useSelectedService,
+} from "./useDerivedState";
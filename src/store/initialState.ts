@@ -2,8 +2,54 @@
  * Initial application state
  */
 
-import type { AppState, OfflineState } from "../types";
-import { ACTIVE_AUTO_REFRESH_INTERVAL } from "./constants";
+import type {
+	AppConfig,
+	AppState,
+	CodeSignatureState,
+	EndpointViewerState,
+	HistoryViewerState,
+	InspectionViewerState,
+	LogViewerState,
+	LookupState,
+	OfflineState,
+	OutputBuffer,
+	OutputViewerState,
+	PersistenceAuditState,
+	ProcessTreeState,
+	ResourceMonitorState,
+	ScheduleTimelineState,
+	ServiceHealthState,
+	ServiceHistoryState,
+	ServiceWizardState,
+	SnapshotViewerState,
+} from "../types";
+import { ACTIVE_AUTO_REFRESH_INTERVAL, IDLE_AUTO_REFRESH_INTERVAL, OFFLINE_THRESHOLD } from "./constants";
+
+/** Settings used when config.json does not set them */
+export const defaultConfig: AppConfig = {
+	filter: {
+		type: "all",
+		domain: "all",
+		status: "all",
+		loaded: "all",
+		signing: "all",
+		teamId: null,
+		showAppleServices: false,
+		showProtected: true,
+	},
+	sort: {
+		field: "label",
+		direction: "asc",
+	},
+	autoRefresh: {
+		enabled: false,
+		activeIntervalMs: ACTIVE_AUTO_REFRESH_INTERVAL,
+		idleIntervalMs: IDLE_AUTO_REFRESH_INTERVAL,
+	},
+	offlineThreshold: OFFLINE_THRESHOLD,
+	editor: null,
+	confirm: "always",
+};
 
 const initialOfflineState: OfflineState = {
 	isOffline: false,
@@ -13,23 +59,168 @@ const initialOfflineState: OfflineState = {
 	lastError: null,
 };
 
+export const initialLogViewerState: LogViewerState = {
+	serviceId: null,
+	entries: [],
+	level: "default",
+	follow: false,
+	scrollOffset: 0,
+	loading: false,
+	error: null,
+};
+
+const emptyOutputBuffer: OutputBuffer = {
+	path: null,
+	lines: [],
+	notice: null,
+	error: null,
+};
+
+export const initialOutputViewerState: OutputViewerState = {
+	serviceId: null,
+	tab: "stdout",
+	buffers: {
+		stdout: emptyOutputBuffer,
+		stderr: emptyOutputBuffer,
+	},
+	scrollOffset: 0,
+	searchEditing: false,
+	searchQuery: "",
+	matchLine: null,
+};
+
+export const initialHistoryViewerState: HistoryViewerState = {
+	records: [],
+	loading: false,
+	error: null,
+	selectedIndex: 0,
+	filterQuery: "",
+	filterEditing: false,
+};
+
+export const initialInspectionState: InspectionViewerState = {
+	serviceId: null,
+	data: null,
+	loading: false,
+	error: null,
+	showRaw: false,
+	rawScroll: 0,
+};
+
+export const initialResourceState: ResourceMonitorState = {
+	samples: {},
+	history: {},
+};
+
+export const initialProcessTreeState: ProcessTreeState = {
+	serviceId: null,
+	root: null,
+	collapsed: {},
+	cursor: 0,
+	loading: false,
+	error: null,
+	pendingSignal: null,
+};
+
+export const initialEndpointState: EndpointViewerState = {
+	serviceId: null,
+	sockets: [],
+	loading: false,
+	error: null,
+};
+
+export const initialCodeSignatureState: CodeSignatureState = {
+	byService: {},
+	loading: false,
+	error: null,
+};
+
+export const initialLookupState: LookupState = {
+	query: "",
+	matches: [],
+	index: 0,
+	loading: false,
+	error: null,
+};
+
+export const initialHealthState: ServiceHealthState = {
+	events: [],
+	restarts: {},
+	alerts: {},
+	notify: false,
+	selectedIndex: 0,
+};
+
+export const initialServiceHistoryState: ServiceHistoryState = {
+	entries: {},
+	loaded: false,
+	error: null,
+	serviceId: null,
+	scroll: 0,
+};
+
+export const initialSnapshotState: SnapshotViewerState = {
+	paths: [],
+	pathIndex: 0,
+	targetIndex: null,
+	live: null,
+	diff: null,
+	loading: false,
+	saving: false,
+	error: null,
+	message: null,
+	selectedIndex: 0,
+	revision: 0,
+};
+
+export const initialAuditState: PersistenceAuditState = {
+	assessments: [],
+	auditedAt: null,
+	selectedIndex: 0,
+	loading: false,
+	exporting: false,
+	error: null,
+	message: null,
+};
+
+export const initialTimelineState: ScheduleTimelineState = {
+	services: [],
+	range: "day",
+	selectedIndex: 0,
+	loadedAt: null,
+	loading: false,
+	error: null,
+};
+
+export const initialWizardState: ServiceWizardState = {
+	step: 0,
+	field: 0,
+	values: {
+		scope: "userAgent",
+		label: "",
+		command: "",
+		runAtLoad: true,
+		keepAlive: false,
+		schedule: "none",
+		scheduleValue: "",
+		standardOutPath: "",
+		standardErrorPath: "",
+		environment: "",
+		bootstrap: true,
+	},
+	errors: {},
+	submitting: false,
+	error: null,
+};
+
 export const initialState: AppState = {
 	services: [],
 	loading: true,
 	error: null,
 	selectedIndex: 0,
 	searchQuery: "",
-	filter: {
-		type: "all",
-		domain: "all",
-		status: "all",
-		showAppleServices: false,
-		showProtected: true,
-	},
-	sort: {
-		field: "label",
-		direction: "asc",
-	},
+	filter: defaultConfig.filter,
+	sort: defaultConfig.sort,
 	focusedPanel: "list",
 	showHelp: false,
 	showConfirm: false,
@@ -38,16 +229,46 @@ export const initialState: AppState = {
 	lastActionResult: null,
 	executingAction: false,
 	autoRefresh: {
-		enabled: false,
-		intervalMs: ACTIVE_AUTO_REFRESH_INTERVAL,
+		enabled: defaultConfig.autoRefresh.enabled,
+		intervalMs: defaultConfig.autoRefresh.activeIntervalMs,
 	},
+	config: defaultConfig,
 	dryRun: false,
 	dryRunCommand: null,
 	offline: initialOfflineState,
 	serviceMetadata: {},
 	metadataLoading: {},
+	inspection: initialInspectionState,
+	resources: initialResourceState,
+	showProcessTree: false,
+	processTree: initialProcessTreeState,
+	endpoints: initialEndpointState,
+	signatures: initialCodeSignatureState,
+	lookup: initialLookupState,
 	showPasswordDialog: false,
 	passwordDialogError: null,
 	pendingPrivilegedAction: null,
 	passwordInput: "",
+	showLogs: false,
+	logs: initialLogViewerState,
+	showOutput: false,
+	output: initialOutputViewerState,
+	markedServiceIds: {},
+	batch: null,
+	showHistory: false,
+	history: initialHistoryViewerState,
+	showEvents: false,
+	health: initialHealthState,
+	showServiceHistory: false,
+	serviceHistory: initialServiceHistoryState,
+	showSnapshots: false,
+	snapshots: initialSnapshotState,
+	showAudit: false,
+	audit: initialAuditState,
+	showExport: false,
+	exportingServices: false,
+	showTimeline: false,
+	timeline: initialTimelineState,
+	wizard: null,
+	plistEditor: null,
 };
@@ -1,18 +1,41 @@
 /**
  * Side effects for Zustand store
- * Handles auto-refresh, offline reconnect, and metadata prefetching
+ * Handles auto-refresh, offline reconnect, metadata prefetching, service inspection, resource sampling,
+ * process trees, open sockets, log loading, output tailing, history loading, the schedule timeline,
+ * per-service history, snapshot diffs, the persistence audit and code signatures
  */
 
 import { useEffect, useRef } from "react";
-import { fetchServiceMetadata } from "../services";
 import {
-	ACTIVE_AUTO_REFRESH_INTERVAL,
-	IDLE_AUTO_REFRESH_INTERVAL,
+	captureSnapshot,
+	diffSnapshots,
+	fetchProcessSamples,
+	fetchScheduledServices,
+	fetchServiceInspection,
+	fetchServiceLogs,
+	fetchServiceMetadata,
+	filterServices,
+	listSnapshots,
+	loadServiceHistory,
+	readAuditRecords,
+	readSnapshot,
+	runPersistenceAudit,
+	tailServiceLogs,
+} from "../services";
+import { tailFile } from "../services/filetail";
+import type { OutputStream } from "../types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+	BATCH_CONCURRENCY,
+	FILE_TAIL_POLL_INTERVAL,
 	IDLE_THRESHOLD_MS,
+	INSPECTION_DEBOUNCE_MS,
+	MAX_SERVICE_HISTORY_ENTRIES,
 	OFFLINE_RECONNECT_INTERVAL,
+	RESOURCE_SAMPLE_INTERVAL,
 } from "./constants";
 import { useAppStore } from "./useAppStore";
-import { useFilteredServices, useSelectedService } from "./useDerivedState";
+import { useFilteredServices, useMarkedServices, useSelectedService } from "./useDerivedState";
 
 /**
  * Hook for managing side effects with Zustand store
@@ -32,14 +55,93 @@ export function useAppEffects() {
 	const filterStatus = useAppStore((s) => s.filter.status);
 	const serviceMetadata = useAppStore((s) => s.serviceMetadata);
 	const metadataLoading = useAppStore((s) => s.metadataLoading);
+	const showLogs = useAppStore((s) => s.showLogs);
+	const logLevel = useAppStore((s) => s.logs.level);
+	const logFollow = useAppStore((s) => s.logs.follow);
+	const showOutput = useAppStore((s) => s.showOutput);
+	const showConfirm = useAppStore((s) => s.showConfirm);
+	const showHistory = useAppStore((s) => s.showHistory);
+	const showTimeline = useAppStore((s) => s.showTimeline);
+	const showServiceHistory = useAppStore((s) => s.showServiceHistory);
+	const showSnapshots = useAppStore((s) => s.showSnapshots);
+	const showAudit = useAppStore((s) => s.showAudit);
+	const snapshotIndex = useAppStore((s) => s.snapshots.pathIndex);
+	const snapshotTarget = useAppStore((s) => s.snapshots.targetIndex);
+	const snapshotRevision = useAppStore((s) => s.snapshots.revision);
+	const serviceHistoryLoaded = useAppStore((s) => s.serviceHistory.loaded);
+	const showProcessTree = useAppStore((s) => s.showProcessTree);
+	const services = useAppStore((s) => s.services);
+	const filter = useAppStore((s) => s.filter);
+	const signatureCache = useAppStore((s) => s.signatures.byService);
+	const signaturesLoading = useAppStore((s) => s.signatures.loading);
+	// Running PIDs, so sampling restarts only when processes come and go
+	const runningPids = useAppStore((s) =>
+		s.services
+			.flatMap((service) => (service.pid ? [service.pid] : []))
+			.sort((a, b) => a - b)
+			.join(","),
+	);
 
 	const { filteredServices } = useFilteredServices();
 	const selectedService = useSelectedService(filteredServices);
+	const markedServices = useMarkedServices();
 
 	const autoRefreshIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 	const offlineReconnectRef = useRef<ReturnType<typeof setInterval> | null>(null);
 	const lastInteractionRef = useRef<number>(Date.now());
 
+	// Log target: reload when the service, its PID or its program changes
+	const logTarget = showLogs ? selectedService : null;
+	const logTargetKey = logTarget
+		? `${logTarget.id}|${logTarget.pid ?? ""}|${logTarget.plistMetadata?.program ?? ""}`
+		: null;
+	const logTargetRef = useRef(logTarget);
+	logTargetRef.current = logTarget;
+
+	// Inspection target: re-inspect when the service's state changes, and once its metadata has
+	// refined the domain (services from `launchctl list` start with a placeholder domain)
+	const inspectable =
+		selectedService && selectedService.type !== "SystemExtension" && selectedService.status !== "not-loaded"
+			? selectedService
+			: null;
+	const inspectionKey =
+		inspectable && inspectable.id in serviceMetadata
+			? `${inspectable.id}|${inspectable.domain}|${inspectable.status}|${inspectable.pid ?? ""}`
+			: null;
+	const inspectableRef = useRef(inspectable);
+	inspectableRef.current = inspectable;
+
+	// Process tree target: reload when the service or its PID changes
+	const treeService = showProcessTree ? selectedService : null;
+	const treeServiceKey = treeService ? `${treeService.id}|${treeService.pid ?? ""}` : null;
+	const treeServiceRef = useRef(treeService);
+	treeServiceRef.current = treeService;
+
+	// Socket target: list open sockets when a running service is selected or its PID changes
+	const socketService =
+		selectedService?.pid && selectedService.type !== "SystemExtension" && !isOffline ? selectedService : null;
+	const socketServiceKey = socketService ? `${socketService.id}|${socketService.pid}` : null;
+	const socketServiceRef = useRef(socketService);
+	socketServiceRef.current = socketService;
+
+	// Signature target: read the selected service's code signature until it is cached
+	const signatureService =
+		selectedService && selectedService.type !== "SystemExtension" && !(selectedService.id in signatureCache)
+			? selectedService
+			: null;
+	const signatureServiceId = signatureService?.id ?? null;
+	const signatureServiceRef = useRef(signatureService);
+	signatureServiceRef.current = signatureService;
+
+	// Signing and team filters need the signature of every service they look at
+	const signatureScan = filter.signing !== "all" || filter.teamId !== null;
+
+	// Output target: restart tails when the service or its configured paths change
+	const outputService = showOutput ? selectedService : null;
+	const stdoutPath = outputService?.plistMetadata?.standardOutPath ?? null;
+	const stderrPath = outputService?.plistMetadata?.standardErrorPath ?? null;
+	const outputServiceId = outputService?.id ?? null;
+
 	// Auto-refresh effect with adaptive intervals
 	useEffect(() => {
 		if (autoRefreshIntervalRef.current) {
@@ -50,10 +152,8 @@ export function useAppEffects() {
 		if (autoRefreshEnabled && !isOffline) {
 			const setupInterval = () => {
 				const timeSinceInteraction = Date.now() - lastInteractionRef.current;
-				const adaptiveInterval =
-					timeSinceInteraction > IDLE_THRESHOLD_MS
-						? IDLE_AUTO_REFRESH_INTERVAL
-						: ACTIVE_AUTO_REFRESH_INTERVAL;
+				const { activeIntervalMs, idleIntervalMs } = useAppStore.getState().config.autoRefresh;
+				const adaptiveInterval = timeSinceInteraction > IDLE_THRESHOLD_MS ? idleIntervalMs : activeIntervalMs;
 
 				if (autoRefreshIntervalRef.current) {
 					clearInterval(autoRefreshIntervalRef.current);
@@ -142,6 +242,330 @@ export function useAppEffects() {
 			});
 	}, [selectedService, serviceMetadata, metadataLoading]);
 
+	// Inspect the selected service with `launchctl print`
+	useEffect(() => {
+		const service = inspectableRef.current;
+		if (!inspectionKey || !service) return;
+
+		let cancelled = false;
+		const timer = setTimeout(() => {
+			useAppStore.getState().beginInspection(service.id);
+			fetchServiceInspection(service)
+				.then((data) => {
+					if (!cancelled) useAppStore.getState().setInspection(service.id, data);
+				})
+				.catch((error) => {
+					if (!cancelled) {
+						useAppStore
+							.getState()
+							.setInspectionError(
+								service.id,
+								error instanceof Error ? error.message : "Failed to inspect service",
+							);
+					}
+				});
+		}, INSPECTION_DEBOUNCE_MS);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+		};
+	}, [inspectionKey]);
+
+	// Load the process tree of the selected service
+	// biome-ignore lint/correctness/useExhaustiveDependencies: treeServiceKey captures the relevant service fields
+	useEffect(() => {
+		const service = treeServiceRef.current;
+		if (service) useAppStore.getState().loadProcessTree(service);
+	}, [treeServiceKey]);
+
+	// List the sockets held by the selected service's processes
+	useEffect(() => {
+		const service = socketServiceRef.current;
+		if (!socketServiceKey || !service) return;
+
+		// Debounced like inspection, so scrolling through the list does not run lsof for every row
+		const timer = setTimeout(() => useAppStore.getState().loadEndpoints(service), INSPECTION_DEBOUNCE_MS);
+		return () => clearTimeout(timer);
+	}, [socketServiceKey]);
+
+	// Read the selected service's code signature
+	useEffect(() => {
+		const service = signatureServiceRef.current;
+		if (!signatureServiceId || !service) return;
+
+		// Debounced like inspection, so scrolling through the list does not run codesign for every row
+		const timer = setTimeout(() => useAppStore.getState().loadCodeSignature(service), INSPECTION_DEBOUNCE_MS);
+		return () => clearTimeout(timer);
+	}, [signatureServiceId]);
+
+	// Scan the code signatures of the services the other filters keep
+	// biome-ignore lint/correctness/useExhaustiveDependencies: signatureCache re-runs the scan after a refresh clears it
+	useEffect(() => {
+		if (!signatureScan || signaturesLoading) return;
+		const candidates = filterServices(services, { ...filter, signing: "all", teamId: null }, "");
+		useAppStore.getState().scanCodeSignatures(candidates);
+	}, [signatureScan, signaturesLoading, services, filter, signatureCache]);
+
+	// Sample CPU, memory and uptime of running services
+	useEffect(() => {
+		if (isOffline) return;
+
+		const pids = runningPids ? runningPids.split(",").map(Number) : [];
+		if (pids.length === 0) {
+			useAppStore.getState().setProcessSamples([]);
+			return;
+		}
+
+		let cancelled = false;
+		let sampling = false;
+		const sample = async () => {
+			if (sampling) return;
+			sampling = true;
+			try {
+				const samples = await fetchProcessSamples(pids);
+				if (!cancelled) useAppStore.getState().setProcessSamples(samples);
+			} catch {
+				// Keep the previous samples; the next tick tries again
+			} finally {
+				sampling = false;
+			}
+		};
+
+		sample();
+		const interval = setInterval(sample, RESOURCE_SAMPLE_INTERVAL);
+		return () => {
+			cancelled = true;
+			clearInterval(interval);
+		};
+	}, [runningPids, isOffline]);
+
+	// Load metadata for marked services so a batch confirmation shows the real commands
+	useEffect(() => {
+		if (!showConfirm || markedServices.length === 0) return;
+
+		const {
+			serviceMetadata: cached,
+			metadataLoading: loadingStates,
+			setMetadataLoading,
+		} = useAppStore.getState();
+		const missing = markedServices.filter(
+			(service) =>
+				service.type !== "SystemExtension" && !(service.id in cached) && !loadingStates[service.id]?.loading,
+		);
+		if (missing.length === 0) return;
+
+		for (const service of missing) setMetadataLoading(service.id, true);
+
+		mapWithConcurrency(missing, BATCH_CONCURRENCY, async (service) => {
+			try {
+				const metadata = await fetchServiceMetadata(service);
+				useAppStore.getState().setServiceMetadata(service.id, metadata);
+				useAppStore.getState().setMetadataLoading(service.id, false);
+			} catch (error) {
+				useAppStore
+					.getState()
+					.setMetadataLoading(
+						service.id,
+						false,
+						error instanceof Error ? error.message : "Failed to load metadata",
+					);
+			}
+		});
+	}, [showConfirm, markedServices]);
+
+	// Load log history for the selected service
+	// biome-ignore lint/correctness/useExhaustiveDependencies: logTargetKey captures the relevant service fields
+	useEffect(() => {
+		const service = logTargetRef.current;
+		if (!service) return;
+
+		let cancelled = false;
+		useAppStore.getState().beginLogLoad(service.id);
+
+		fetchServiceLogs(service, logLevel)
+			.then((entries) => {
+				if (!cancelled) useAppStore.getState().setLogEntries(service.id, entries);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore.getState().setLogsError(error instanceof Error ? error.message : "Failed to load logs");
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [logTargetKey, logLevel]);
+
+	// Live tail via log stream while follow mode is on
+	// biome-ignore lint/correctness/useExhaustiveDependencies: logTargetKey captures the relevant service fields
+	useEffect(() => {
+		const service = logTargetRef.current;
+		if (!service || !logFollow) return;
+
+		const handle = tailServiceLogs(service, {
+			level: logLevel,
+			onEntries: (entries) => useAppStore.getState().appendLogEntries(service.id, entries),
+			onError: (error) => useAppStore.getState().setLogsError(error),
+		});
+
+		return () => handle.stop();
+	}, [logTargetKey, logLevel, logFollow]);
+
+	// Follow StandardOutPath / StandardErrorPath while the output viewer is open
+	useEffect(() => {
+		if (!outputServiceId) return;
+
+		const paths: Record<OutputStream, string | null> = { stdout: stdoutPath, stderr: stderrPath };
+		useAppStore.getState().resetOutput(outputServiceId, paths);
+
+		const handles = (Object.keys(paths) as OutputStream[]).flatMap((stream) => {
+			const path = paths[stream];
+			if (!path) return [];
+			return [
+				tailFile(path, {
+					pollIntervalMs: FILE_TAIL_POLL_INTERVAL,
+					onLines: (lines, reset) =>
+						useAppStore.getState().appendOutputLines(outputServiceId, stream, lines, reset),
+					onError: (error) => useAppStore.getState().setOutputError(outputServiceId, stream, error),
+				}),
+			];
+		});
+
+		return () => {
+			for (const handle of handles) handle.stop();
+		};
+	}, [outputServiceId, stdoutPath, stderrPath]);
+
+	// Load the audit log when the history panel opens
+	useEffect(() => {
+		if (!showHistory) return;
+
+		let cancelled = false;
+		readAuditRecords()
+			.then((records) => {
+				if (!cancelled) useAppStore.getState().setHistoryRecords(records);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore
+						.getState()
+						.setHistoryError(error instanceof Error ? error.message : "Failed to read audit log");
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [showHistory]);
+
+	// Read every plist for its schedule when the timeline opens
+	useEffect(() => {
+		if (!showTimeline) return;
+
+		let cancelled = false;
+		fetchScheduledServices(useAppStore.getState().services)
+			.then((services) => {
+				if (!cancelled) useAppStore.getState().setTimelineServices(services);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore
+						.getState()
+						.setTimelineError(error instanceof Error ? error.message : "Failed to read schedules");
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [showTimeline]);
+
+	// Read the saved service history the first time it is shown
+	useEffect(() => {
+		if (!showServiceHistory || serviceHistoryLoaded) return;
+
+		let cancelled = false;
+		loadServiceHistory(MAX_SERVICE_HISTORY_ENTRIES)
+			.then((entries) => {
+				if (!cancelled) useAppStore.getState().setServiceHistory(entries);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore
+						.getState()
+						.setServiceHistoryError(
+							error instanceof Error ? error.message : "Failed to read service history",
+						);
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [showServiceHistory, serviceHistoryLoaded]);
+
+	// Read every third-party plist and code signature when the audit opens
+	useEffect(() => {
+		if (!showAudit) return;
+
+		let cancelled = false;
+		runPersistenceAudit(useAppStore.getState().services)
+			.then((assessments) => {
+				if (!cancelled) useAppStore.getState().setAuditResults(assessments);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore
+						.getState()
+						.setAuditError(error instanceof Error ? error.message : "Failed to audit services");
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [showAudit]);
+
+	// Compare the selected saved snapshot with the live system or another saved snapshot
+	// The live system is captured once per panel open, not on every selection
+	// biome-ignore lint/correctness/useExhaustiveDependencies: snapshotRevision re-runs the comparison after a save
+	useEffect(() => {
+		if (!showSnapshots) return;
+
+		let cancelled = false;
+		const compare = async () => {
+			const { live } = useAppStore.getState().snapshots;
+			const paths = await listSnapshots();
+			const path = paths[Math.min(snapshotIndex, paths.length - 1)];
+			if (!path) return { paths, diff: null, live };
+			const targetPath =
+				snapshotTarget === null ? undefined : paths[Math.min(snapshotTarget, paths.length - 1)];
+			if (targetPath) {
+				const [before, after] = await Promise.all([readSnapshot(path), readSnapshot(targetPath)]);
+				return { paths, diff: diffSnapshots(before, after), live };
+			}
+			const [saved, current] = await Promise.all([readSnapshot(path), live ?? captureSnapshot()]);
+			return { paths, diff: diffSnapshots(saved, current), live: current };
+		};
+		compare()
+			.then(({ paths, diff, live }) => {
+				if (!cancelled) useAppStore.getState().setSnapshotDiff(paths, diff, live);
+			})
+			.catch((error) => {
+				if (!cancelled) {
+					useAppStore
+						.getState()
+						.setSnapshotError(error instanceof Error ? error.message : "Failed to compare snapshots");
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [showSnapshots, snapshotIndex, snapshotTarget, snapshotRevision]);
+
 	// Clear metadata cache on refresh
 	useEffect(() => {
 		if (loading) {
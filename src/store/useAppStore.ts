@@ -4,12 +4,121 @@
  */
 
 import { create } from "zustand";
-import { fetchAllServices, getNextSortField, performServiceAction } from "../services";
+import { WIZARD_STEPS } from "../constants";
+import {
+	type AuditReportFormat,
+	addPlistEntry,
+	addServiceHistory,
+	buildActionCommand,
+	createNewService,
+	defaultPlistValue,
+	defaultValueForKey,
+	detectServiceEvents,
+	exportPersistenceAudit,
+	exportServiceInventory,
+	fetchAllServices,
+	fetchCodeSignature,
+	fetchCodeSignatures,
+	fetchProcessTree,
+	fetchServiceMetadata,
+	fetchServiceSockets,
+	filterAuditRecords,
+	filterServices,
+	flattenPlistTree,
+	flattenProcessTree,
+	formatPlistScalar,
+	getNextSortField,
+	getPlistValueAt,
+	historyEntriesFromChanges,
+	historyEntryForAction,
+	isAlertEvent,
+	isEditableScalar,
+	isLookupQuery,
+	isResourceSortField,
+	loadServicePlist,
+	lookupServices,
+	notifyServiceEvents,
+	type PlistTreeRow,
+	parsePlistScalarInput,
+	parseServiceWizard,
+	performServiceAction,
+	plistPathKey,
+	plistValueKind,
+	processNeedsSudo,
+	recordServiceAction,
+	removePlistValueAt,
+	saveEditedPlist,
+	saveLiveSnapshot,
+	saveServiceHistory,
+	setPlistValueAt,
+	signalServiceProcess,
+	signatureTeamId,
+	snapshotDiffLines,
+	sortByNextRun,
+	sortServices,
+	suggestLaunchdKeys,
+} from "../services";
+import { searchLines } from "../services/filetail";
 import { executePrivileged, isGuiContext, isSudoCached } from "../services/launchctl/sudo";
-import type { ActionResult, AppState, Service, ServiceAction } from "../types";
-import { MAX_METADATA_CACHE_SIZE, OFFLINE_THRESHOLD } from "./constants";
-import { initialState } from "./initialState";
-import { mergeServices } from "./utils";
+import type {
+	ActionResult,
+	AppConfig,
+	AppState,
+	AuditAction,
+	AuditRecord,
+	BatchItemResult,
+	CodeSignature,
+	FileChangeNotice,
+	InventoryFormat,
+	LogEntry,
+	LogLevelFilter,
+	OutputStream,
+	OutputViewerState,
+	PendingPrivilegedAction,
+	PersistenceAssessment,
+	PlistEditorState,
+	PlistKeyPath,
+	ProcessSample,
+	ProcessSignal,
+	ProcessSignalRequest,
+	ProcessTreeState,
+	Service,
+	ServiceAction,
+	ServiceAlert,
+	ServiceHistory,
+	ServiceHistoryEntry,
+	ServiceInspection,
+	ServiceSnapshot,
+	ServiceWizardValues,
+	SnapshotDiff,
+} from "../types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+	BATCH_CONCURRENCY,
+	FLAP_RESTART_THRESHOLD,
+	FLAP_WINDOW_MS,
+	MAX_LOG_ENTRIES,
+	MAX_METADATA_CACHE_SIZE,
+	MAX_OUTPUT_LINES,
+	MAX_SERVICE_EVENTS,
+	MAX_SERVICE_HISTORY_ENTRIES,
+	PROCESS_SIGNAL_SETTLE_MS,
+	RESOURCE_HISTORY_LENGTH,
+} from "./constants";
+import {
+	initialAuditState,
+	initialEndpointState,
+	initialHistoryViewerState,
+	initialLogViewerState,
+	initialLookupState,
+	initialOutputViewerState,
+	initialProcessTreeState,
+	initialSnapshotState,
+	initialState,
+	initialTimelineState,
+	initialWizardState,
+} from "./initialState";
+import { appendResourceHistory, diffServices, getPlistEditorDiff, mergeServices } from "./utils";
 
 /**
  * Store actions interface
@@ -28,7 +137,9 @@ interface AppStoreActions {
 
 	// Search and filter
 	setSearch: (query: string) => void;
+	runLookup: (query: string) => Promise<void>;
 	setFilter: (filter: Partial<AppState["filter"]>) => void;
+	toggleTeamFilter: (service: Service) => void;
 	setSort: (sort: AppState["sort"]) => void;
 	toggleSortDirection: () => void;
 	cycleSortField: () => void;
@@ -57,6 +168,109 @@ interface AppStoreActions {
 		options?: { dryRun?: boolean },
 	) => Promise<ActionResult>;
 
+	// Multi-select and batch actions
+	toggleMark: (serviceId: string) => void;
+	markAll: (serviceIds: string[]) => void;
+	invertMarks: (serviceIds: string[]) => void;
+	clearMarks: () => void;
+	executeBatchAction: (
+		action: ServiceAction,
+		services: Service[],
+		options?: { dryRun?: boolean },
+	) => Promise<BatchItemResult[]>;
+	dismissBatchResults: () => void;
+
+	// Action history
+	toggleHistory: () => void;
+	setHistoryRecords: (records: AuditRecord[]) => void;
+	setHistoryError: (error: string) => void;
+	moveHistorySelection: (delta: number) => void;
+	startHistoryFilter: () => void;
+	setHistoryFilter: (query: string) => void;
+	commitHistoryFilter: () => void;
+	cancelHistoryFilter: () => void;
+
+	// Crash and flapping events
+	toggleEvents: () => void;
+	moveEventSelection: (delta: number) => void;
+	clearServiceEvents: () => void;
+	toggleEventNotifications: () => void;
+	openEventService: () => void;
+
+	// Per-service history
+	toggleServiceHistory: () => void;
+	setServiceHistory: (entries: ServiceHistory) => void;
+	setServiceHistoryError: (error: string) => void;
+	addServiceHistoryEntries: (entries: ServiceHistoryEntry[]) => void;
+	recordActionHistory: (
+		action: AuditAction,
+		serviceId: string,
+		result: ActionResult,
+		dryRun: boolean,
+	) => void;
+	scrollServiceHistory: (serviceId: string, delta: number) => void;
+
+	// Inventory snapshot diff
+	toggleSnapshots: () => void;
+	setSnapshotDiff: (paths: string[], diff: SnapshotDiff | null, live: ServiceSnapshot | null) => void;
+	setSnapshotError: (error: string) => void;
+	selectSnapshot: (delta: number) => void;
+	selectSnapshotTarget: (delta: number) => void;
+	moveSnapshotSelection: (delta: number) => void;
+	saveSnapshot: () => Promise<void>;
+	openSnapshotService: () => void;
+
+	// Persistence audit
+	toggleAudit: () => void;
+	setAuditResults: (assessments: PersistenceAssessment[]) => void;
+	setAuditError: (error: string) => void;
+	moveAuditSelection: (delta: number) => void;
+	exportAudit: (format: AuditReportFormat) => Promise<void>;
+	openAuditService: () => void;
+
+	// Service list export
+	toggleExport: () => void;
+	exportServices: (format: InventoryFormat) => Promise<void>;
+
+	// Scheduled-jobs timeline
+	toggleTimeline: () => void;
+	setTimelineServices: (services: Service[]) => void;
+	setTimelineError: (error: string) => void;
+	moveTimelineSelection: (delta: number) => void;
+	toggleTimelineRange: () => void;
+	openTimelineService: () => void;
+
+	// Create-service wizard
+	openWizard: () => void;
+	closeWizard: () => void;
+	setWizardValue: <K extends keyof ServiceWizardValues>(key: K, value: ServiceWizardValues[K]) => void;
+	moveWizardField: (delta: number) => void;
+	nextWizardStep: () => void;
+	prevWizardStep: () => void;
+	submitWizard: () => Promise<void>;
+
+	// Plist editor actions
+	openPlistEditor: (service: Service) => Promise<void>;
+	closePlistEditor: () => void;
+	movePlistEditorCursor: (delta: number) => void;
+	activatePlistEditorRow: () => void;
+	expandPlistEditorRow: () => void;
+	collapsePlistEditorRow: () => void;
+	startPlistEditorAdd: () => void;
+	deletePlistEditorRow: () => void;
+	setPlistEditorInput: (buffer: string) => void;
+	completePlistEditorKey: () => void;
+	commitPlistEditorInput: () => void;
+	cancelPlistEditorInput: () => void;
+	showPlistEditorDiff: () => void;
+	hidePlistEditorDiff: () => void;
+	scrollPlistEditorDiff: (delta: number) => void;
+	togglePlistEditorReload: () => void;
+	savePlistEditor: () => Promise<void>;
+
+	// Configuration
+	applyConfig: (config: AppConfig) => void;
+
 	// Auto-refresh
 	toggleAutoRefresh: () => void;
 	setAutoRefreshInterval: (intervalMs: number) => void;
@@ -76,14 +290,144 @@ interface AppStoreActions {
 	setMetadataLoading: (serviceId: string, loading: boolean, error?: string | null) => void;
 	clearMetadataCache: () => void;
 
+	// `launchctl print` inspection
+	beginInspection: (serviceId: string) => void;
+	setInspection: (serviceId: string, data: ServiceInspection) => void;
+	setInspectionError: (serviceId: string, error: string) => void;
+	toggleInspectionRaw: () => void;
+	scrollInspectionRaw: (delta: number) => void;
+
+	// Resource monitor
+	setProcessSamples: (samples: ProcessSample[]) => void;
+
+	// Network endpoints
+	loadEndpoints: (service: Service) => Promise<void>;
+
+	// Code signatures
+	loadCodeSignature: (service: Service) => Promise<void>;
+	scanCodeSignatures: (services: Service[]) => Promise<void>;
+
+	// Process tree
+	toggleProcessTree: () => void;
+	loadProcessTree: (service: Service) => Promise<void>;
+	reloadProcessTree: () => Promise<void>;
+	moveProcessTreeCursor: (delta: number) => void;
+	expandProcessTreeRow: () => void;
+	collapseProcessTreeRow: () => void;
+	requestProcessSignal: (signal: ProcessSignal) => void;
+	cancelProcessSignal: () => void;
+	sendProcessSignal: () => Promise<void>;
+
 	// Password dialog actions
-	showPasswordPrompt: (action: ServiceAction, service: Service) => void;
+	showPasswordPrompt: (
+		action: PendingPrivilegedAction["action"],
+		service: Service,
+		signal?: ProcessSignalRequest,
+	) => void;
 	hidePasswordDialog: () => void;
 	setPasswordInput: (password: string) => void;
 	setPasswordError: (error: string | null) => void;
 	submitPassword: () => Promise<void>;
+
+	// Log viewer
+	toggleLogs: () => void;
+	setLogEntries: (serviceId: string, entries: LogEntry[]) => void;
+	appendLogEntries: (serviceId: string, entries: LogEntry[]) => void;
+	beginLogLoad: (serviceId: string) => void;
+	setLogsError: (error: string | null) => void;
+	cycleLogLevel: () => void;
+	toggleLogFollow: () => void;
+	scrollLogs: (delta: number) => void;
+	scrollLogsTo: (offset: number) => void;
+
+	// Output file viewer
+	toggleOutput: () => void;
+	resetOutput: (serviceId: string, paths: Record<OutputStream, string | null>) => void;
+	appendOutputLines: (
+		serviceId: string,
+		stream: OutputStream,
+		lines: string[],
+		reset: FileChangeNotice | null,
+	) => void;
+	setOutputError: (serviceId: string, stream: OutputStream, error: string | null) => void;
+	switchOutputTab: () => void;
+	scrollOutput: (delta: number) => void;
+	scrollOutputTo: (offset: number) => void;
+	startOutputSearch: () => void;
+	setOutputSearchQuery: (query: string) => void;
+	commitOutputSearch: () => void;
+	cancelOutputSearch: () => void;
+	jumpToOutputMatch: (direction: 1 | -1) => void;
+}
+
+/**
+ * Find the next search match in the active output buffer and scroll it into view
+ * Searches backwards (older lines) for direction -1
+ */
+function findOutputMatch(output: OutputViewerState, direction: 1 | -1): Partial<OutputViewerState> {
+	const { lines } = output.buffers[output.tab];
+	const matches = searchLines(lines, output.searchQuery);
+	if (matches.length === 0) return { matchLine: null };
+
+	// Start from the newest line when there is no current match
+	const current = output.matchLine ?? (direction === 1 ? -1 : lines.length);
+	const next =
+		direction === 1
+			? (matches.find((i) => i > current) ?? matches[0])
+			: (matches.findLast((i) => i < current) ?? matches[matches.length - 1]);
+	if (next === undefined) return { matchLine: null };
+
+	return { matchLine: next, scrollOffset: lines.length - 1 - next };
+}
+
+const PLIST_READ_ONLY_MESSAGE = "Protected plist - read-only";
+
+/** Visible rows of the plist editor tree */
+function plistEditorRows(editor: PlistEditorState): PlistTreeRow[] {
+	return flattenPlistTree(editor.value, editor.expanded);
+}
+
+/** Row index of a path, or the nearest valid index when it is not visible */
+function plistEditorCursorFor(editor: PlistEditorState, path: PlistKeyPath): number {
+	const rows = plistEditorRows(editor);
+	const key = plistPathKey(path);
+	const index = rows.findIndex((row) => plistPathKey(row.path) === key);
+	return index !== -1 ? index : Math.min(editor.cursor, Math.max(0, rows.length - 1));
+}
+
+/**
+ * Apply an update to the open plist editor
+ * Any update clears the status message and a pending discard confirmation
+ */
+function updatePlistEditor(
+	state: AppState,
+	update: (editor: PlistEditorState) => Partial<PlistEditorState>,
+): Partial<AppState> {
+	if (!state.plistEditor) return {};
+	const editor = { ...state.plistEditor, confirmDiscard: false, error: null };
+	return { plistEditor: { ...editor, ...update(editor) } };
+}
+
+/**
+ * Replace the edited value, expand `expand` and move the cursor to `focus`
+ */
+function applyPlistEdit(
+	editor: PlistEditorState,
+	value: PlistEditorState["value"],
+	focus: PlistKeyPath,
+	expand: PlistKeyPath[] = [],
+): Partial<PlistEditorState> {
+	const expanded = { ...editor.expanded };
+	for (const path of expand) {
+		if (path.length > 0) expanded[plistPathKey(path)] = true;
+	}
+	const next = { ...editor, value, expanded, dirty: true };
+	return { value, expanded, dirty: true, cursor: plistEditorCursorFor(next, focus) };
 }
 
+/** Log level filter cycle order */
+const LOG_LEVEL_CYCLE: LogLevelFilter[] = ["default", "info", "debug", "error"];
+
 /**
  * Create Zustand store
  */
@@ -127,7 +471,58 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 	selectPrev: () => set((state) => ({ selectedIndex: Math.max(0, state.selectedIndex - 1) })),
 
 	// Search and filter
-	setSearch: (query) => set({ searchQuery: query, selectedIndex: 0 }),
+	// A reverse lookup does not filter the list, so typing it keeps the selection
+	setSearch: (query) =>
+		set((state) => ({ searchQuery: query, selectedIndex: isLookupQuery(query) ? state.selectedIndex : 0 })),
+
+	runLookup: async (query) => {
+		const jumpTo = (index: number) => {
+			const match = get().lookup.matches[index];
+			if (!match) return;
+			const position = visibleIndexOf(get(), match.serviceId);
+			set((state) => ({
+				lookup: {
+					...state.lookup,
+					index,
+					error: position < 0 ? `${match.label} is hidden by the current filters` : null,
+				},
+				...(position >= 0 ? { selectedIndex: position } : {}),
+			}));
+		};
+
+		// Submitting a resolved lookup again moves on to the next match
+		const { lookup } = get();
+		if (lookup.query === query && !lookup.loading && lookup.matches.length > 0) {
+			jumpTo((lookup.index + 1) % lookup.matches.length);
+			return;
+		}
+
+		set({ lookup: { ...initialLookupState, query, loading: true } });
+		try {
+			const matches = await lookupServices(get().services, query);
+			// Ignore results for a query that has since been replaced
+			if (get().lookup.query !== query) return;
+			set({
+				lookup: {
+					query,
+					matches,
+					index: 0,
+					loading: false,
+					error: matches.length === 0 ? "No matching service" : null,
+				},
+			});
+			jumpTo(0);
+		} catch (error) {
+			if (get().lookup.query !== query) return;
+			set({
+				lookup: {
+					...initialLookupState,
+					query,
+					error: error instanceof Error ? error.message : "Lookup failed",
+				},
+			});
+		}
+	},
 
 	setFilter: (filter) =>
 		set((state) => ({
@@ -135,6 +530,31 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 			selectedIndex: 0,
 		})),
 
+	toggleTeamFilter: (service) => {
+		const { filter, signatures, setFilter } = get();
+		if (filter.teamId !== null) {
+			setFilter({ teamId: null });
+			return;
+		}
+
+		const signature = signatures.byService[service.id];
+		const teamId = signatureTeamId(service, signature);
+		if (!teamId) {
+			set({
+				lastActionResult: {
+					success: false,
+					message: `${service.label} has no developer team ID`,
+					error:
+						signature === undefined && service.type !== "SystemExtension"
+							? "Its code signature is still being read"
+							: "Apple, ad-hoc and unsigned programs are not signed by a team",
+				},
+			});
+			return;
+		}
+		setFilter({ teamId });
+	},
+
 	setSort: (sort) => set({ sort, selectedIndex: 0 }),
 
 	toggleSortDirection: () =>
@@ -226,7 +646,9 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 
 		get().setExecuting(true);
 		try {
-			const result = await performServiceAction(action, service, { dryRun });
+			const performed = await performServiceAction(action, service, { dryRun });
+			const result = await recordServiceAction(action, service, performed, { dryRun, source: "tui" });
+			get().recordActionHistory(action, service.id, result, dryRun);
 
 			// In dry-run mode, store the command and show it
 			if (dryRun && "command" in result) {
@@ -246,6 +668,913 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 		}
 	},
 
+	// Multi-select and batch actions
+	toggleMark: (serviceId) =>
+		set((state) => {
+			const markedServiceIds = { ...state.markedServiceIds };
+			if (markedServiceIds[serviceId]) {
+				delete markedServiceIds[serviceId];
+			} else {
+				markedServiceIds[serviceId] = true;
+			}
+			return { markedServiceIds };
+		}),
+
+	markAll: (serviceIds) =>
+		set((state) => {
+			const markedServiceIds = { ...state.markedServiceIds };
+			// Marking an already fully marked list clears it instead
+			const allMarked = serviceIds.length > 0 && serviceIds.every((id) => markedServiceIds[id]);
+			for (const id of serviceIds) {
+				if (allMarked) {
+					delete markedServiceIds[id];
+				} else {
+					markedServiceIds[id] = true;
+				}
+			}
+			return { markedServiceIds };
+		}),
+
+	invertMarks: (serviceIds) =>
+		set((state) => {
+			const markedServiceIds = { ...state.markedServiceIds };
+			for (const id of serviceIds) {
+				if (markedServiceIds[id]) {
+					delete markedServiceIds[id];
+				} else {
+					markedServiceIds[id] = true;
+				}
+			}
+			return { markedServiceIds };
+		}),
+
+	clearMarks: () => set({ markedServiceIds: {} }),
+
+	executeBatchAction: async (action, services, options = {}) => {
+		const { dryRun = false } = options;
+
+		set({
+			pendingAction: null,
+			batch: { action, dryRun, results: services.map(() => null), running: true },
+		});
+
+		const runItem = async (service: Service): Promise<BatchItemResult> => {
+			const item = (result: BatchItemResult["result"]) => ({
+				serviceId: service.id,
+				label: service.label,
+				result,
+			});
+
+			if (service.type === "SystemExtension") {
+				return item({ success: false, message: "System extensions cannot be controlled directly" });
+			}
+			if (service.protection !== "normal") {
+				return item({ success: false, message: "Skipped protected service", sipProtected: true });
+			}
+
+			try {
+				// Targets outside the selection may not have their plist metadata (domain, path) yet
+				let target = service;
+				if (!get().serviceMetadata[service.id]) {
+					const metadata = await fetchServiceMetadata(service);
+					get().setServiceMetadata(service.id, metadata);
+					target = { ...service, ...metadata };
+				}
+
+				const performed = await performServiceAction(action, target, { dryRun });
+				// Nothing ran without credentials, so there is nothing to audit
+				if (performed.error === "NEEDS_PASSWORD") {
+					return item({ ...performed, error: "Run `sudo -v` to cache credentials, then retry" });
+				}
+				const result = await recordServiceAction(action, target, performed, { dryRun, source: "tui" });
+				get().recordActionHistory(action, target.id, result, dryRun);
+				return item(result);
+			} catch (error) {
+				return item({
+					success: false,
+					message: `Failed to ${action} service`,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		};
+
+		const record = (result: BatchItemResult, index: number) =>
+			set((state) => {
+				if (!state.batch) return {};
+				const results = [...state.batch.results];
+				results[index] = result;
+				return { batch: { ...state.batch, results } };
+			});
+
+		// Privileged actions may show an auth prompt, so they run one at a time after
+		// the rest; the first prompt caches credentials for the others
+		const targets = services.map((service, index) => ({ service, index }));
+		const unprivileged = targets.filter((t) => dryRun || !t.service.requiresRoot);
+		const privileged = targets.filter((t) => !dryRun && t.service.requiresRoot);
+
+		// Results are stored in the order the services were given, not the order they finished
+		const results: BatchItemResult[] = [];
+		for (const [group, limit] of [
+			[unprivileged, BATCH_CONCURRENCY],
+			[privileged, 1],
+		] as const) {
+			await mapWithConcurrency(
+				group,
+				limit,
+				({ service }) => runItem(service),
+				(result, i) => {
+					const index = group[i]?.index ?? i;
+					results[index] = result;
+					record(result, index);
+				},
+			);
+		}
+
+		set((state) => (state.batch ? { batch: { ...state.batch, running: false } } : {}));
+		const auditError = results.find((r) => r.result.auditError)?.result.auditError;
+		if (auditError) {
+			get().setActionResult({ success: false, message: auditError });
+		}
+
+		if (!dryRun && results.some((r) => r.result.success)) {
+			await get().refresh();
+		}
+
+		return results;
+	},
+
+	dismissBatchResults: () => set({ batch: null }),
+
+	// Action history (records are loaded by an effect when the panel opens)
+	toggleHistory: () =>
+		set((state) => ({
+			showHistory: !state.showHistory,
+			history: state.showHistory
+				? initialHistoryViewerState
+				: { ...initialHistoryViewerState, loading: true },
+		})),
+
+	setHistoryRecords: (records) =>
+		set((state) => ({ history: { ...state.history, records, loading: false, error: null } })),
+
+	setHistoryError: (error) => set((state) => ({ history: { ...state.history, loading: false, error } })),
+
+	moveHistorySelection: (delta) =>
+		set((state) => {
+			const count = filterAuditRecords(state.history.records, state.history.filterQuery).length;
+			const selectedIndex = Math.min(
+				Math.max(0, count - 1),
+				Math.max(0, state.history.selectedIndex + delta),
+			);
+			return { history: { ...state.history, selectedIndex } };
+		}),
+
+	startHistoryFilter: () => set((state) => ({ history: { ...state.history, filterEditing: true } })),
+
+	setHistoryFilter: (query) =>
+		set((state) => ({ history: { ...state.history, filterQuery: query, selectedIndex: 0 } })),
+
+	commitHistoryFilter: () => set((state) => ({ history: { ...state.history, filterEditing: false } })),
+
+	cancelHistoryFilter: () =>
+		set((state) => ({
+			history: { ...state.history, filterQuery: "", filterEditing: false, selectedIndex: 0 },
+		})),
+
+	// Crash and flapping events (detected in fetchSuccess)
+	toggleEvents: () =>
+		set((state) => ({ showEvents: !state.showEvents, health: { ...state.health, selectedIndex: 0 } })),
+
+	moveEventSelection: (delta) =>
+		set((state) => {
+			const count = state.health.events.length;
+			const selectedIndex = Math.min(Math.max(0, count - 1), Math.max(0, state.health.selectedIndex + delta));
+			return { health: { ...state.health, selectedIndex } };
+		}),
+
+	// Restart counts are kept so flapping detection carries on
+	clearServiceEvents: () =>
+		set((state) => ({ health: { ...state.health, events: [], alerts: {}, selectedIndex: 0 } })),
+
+	toggleEventNotifications: () =>
+		set((state) => ({ health: { ...state.health, notify: !state.health.notify } })),
+
+	openEventService: () => {
+		const { health } = get();
+		const event = health.events[health.selectedIndex];
+		if (!event) return;
+
+		const position = visibleIndexOf(get(), event.serviceId);
+		if (position < 0) {
+			set({
+				lastActionResult: {
+					success: false,
+					message: `${event.label} is hidden by the current filters`,
+					error: "Change the filters and try again",
+				},
+			});
+			return;
+		}
+		set({ showEvents: false, searchQuery: "", selectedIndex: position, focusedPanel: "list" });
+	},
+
+	// Per-service history (loaded once by an effect; status changes are added in fetchSuccess)
+	toggleServiceHistory: () => set((state) => ({ showServiceHistory: !state.showServiceHistory })),
+
+	// Replaces the in-memory entries: everything recorded so far was also written to disk
+	setServiceHistory: (entries) =>
+		set((state) => ({ serviceHistory: { ...state.serviceHistory, entries, loaded: true, error: null } })),
+
+	setServiceHistoryError: (error) =>
+		set((state) => ({ serviceHistory: { ...state.serviceHistory, loaded: true, error } })),
+
+	addServiceHistoryEntries: (entries) =>
+		set((state) => ({
+			serviceHistory: {
+				...state.serviceHistory,
+				entries: addServiceHistory(state.serviceHistory.entries, entries, MAX_SERVICE_HISTORY_ENTRIES),
+			},
+		})),
+
+	// Actions are saved in the audit log, so only the in-memory history is updated
+	recordActionHistory: (action, serviceId, result, dryRun) => {
+		if (dryRun || result.error === "NEEDS_PASSWORD") return;
+		get().addServiceHistoryEntries([historyEntryForAction(action, serviceId, result, Date.now())]);
+	},
+
+	scrollServiceHistory: (serviceId, delta) =>
+		set((state) => {
+			const { serviceHistory } = state;
+			const count = serviceHistory.entries[serviceId]?.length ?? 0;
+			const from = serviceHistory.serviceId === serviceId ? serviceHistory.scroll : 0;
+			const scroll = Math.min(Math.max(0, count - 1), Math.max(0, from + delta));
+			return { serviceHistory: { ...serviceHistory, serviceId, scroll } };
+		}),
+
+	// Inventory snapshot diff (compared by an effect; the live system is captured once per open)
+	toggleSnapshots: () =>
+		set((state) => ({
+			showSnapshots: !state.showSnapshots,
+			snapshots: state.showSnapshots ? initialSnapshotState : { ...initialSnapshotState, loading: true },
+		})),
+
+	setSnapshotDiff: (paths, diff, live) =>
+		set((state) => ({
+			snapshots: {
+				...state.snapshots,
+				paths,
+				pathIndex: Math.min(state.snapshots.pathIndex, Math.max(0, paths.length - 1)),
+				targetIndex:
+					state.snapshots.targetIndex === null
+						? null
+						: Math.min(state.snapshots.targetIndex, Math.max(0, paths.length - 1)),
+				live,
+				diff,
+				loading: false,
+				error: null,
+			},
+		})),
+
+	setSnapshotError: (error) => set((state) => ({ snapshots: { ...state.snapshots, loading: false, error } })),
+
+	// Older snapshots have higher indexes
+	selectSnapshot: (delta) =>
+		set((state) => {
+			const { snapshots } = state;
+			const pathIndex = Math.min(
+				Math.max(0, snapshots.paths.length - 1),
+				Math.max(0, snapshots.pathIndex + delta),
+			);
+			if (pathIndex === snapshots.pathIndex) return {};
+			return { snapshots: { ...snapshots, pathIndex, loading: true, selectedIndex: 0, message: null } };
+		}),
+
+	// Newer than the newest snapshot is the live system
+	selectSnapshotTarget: (delta) =>
+		set((state) => {
+			const { snapshots } = state;
+			const position = Math.min(
+				snapshots.paths.length,
+				Math.max(0, (snapshots.targetIndex ?? -1) + 1 + delta),
+			);
+			const targetIndex = position === 0 ? null : position - 1;
+			if (targetIndex === snapshots.targetIndex) return {};
+			return { snapshots: { ...snapshots, targetIndex, loading: true, selectedIndex: 0, message: null } };
+		}),
+
+	moveSnapshotSelection: (delta) =>
+		set((state) => {
+			const { snapshots } = state;
+			const count = snapshots.diff ? snapshotDiffLines(snapshots.diff).length : 0;
+			const selectedIndex = Math.min(Math.max(0, count - 1), Math.max(0, snapshots.selectedIndex + delta));
+			return { snapshots: { ...snapshots, selectedIndex } };
+		}),
+
+	// The new snapshot matches the live system, so the comparison stays on the previous ones
+	// and the capture becomes the live side of the diff
+	saveSnapshot: async () => {
+		if (get().snapshots.saving) return;
+		set((state) => ({ snapshots: { ...state.snapshots, saving: true, error: null, message: null } }));
+		try {
+			const { path, snapshot } = await saveLiveSnapshot();
+			set((state) => ({
+				snapshots: {
+					...state.snapshots,
+					saving: false,
+					message: `Saved ${path}`,
+					pathIndex: state.snapshots.paths.length > 0 ? state.snapshots.pathIndex + 1 : 0,
+					targetIndex: state.snapshots.targetIndex === null ? null : state.snapshots.targetIndex + 1,
+					live: snapshot,
+					loading: true,
+					revision: state.snapshots.revision + 1,
+				},
+			}));
+		} catch (error) {
+			set((state) => ({
+				snapshots: {
+					...state.snapshots,
+					saving: false,
+					error: error instanceof Error ? error.message : "Failed to save snapshot",
+				},
+			}));
+		}
+	},
+
+	openSnapshotService: () => {
+		const { snapshots } = get();
+		const line = snapshots.diff ? snapshotDiffLines(snapshots.diff)[snapshots.selectedIndex] : undefined;
+		if (!line?.serviceId) return;
+
+		const position = visibleIndexOf(get(), line.serviceId);
+		if (position < 0) {
+			set({
+				lastActionResult: {
+					success: false,
+					message: "Service is not on the live system or is hidden by the current filters",
+					error: "Removed services are only in the snapshot",
+				},
+			});
+			return;
+		}
+		set({ showSnapshots: false, searchQuery: "", selectedIndex: position, focusedPanel: "list" });
+	},
+
+	// Persistence audit (the audit runs in an effect when the panel opens)
+	toggleAudit: () =>
+		set((state) => ({
+			showAudit: !state.showAudit,
+			audit: state.showAudit ? initialAuditState : { ...initialAuditState, loading: true },
+		})),
+
+	setAuditResults: (assessments) =>
+		set((state) => ({
+			audit: { ...state.audit, assessments, auditedAt: Date.now(), loading: false, error: null },
+		})),
+
+	setAuditError: (error) => set((state) => ({ audit: { ...state.audit, loading: false, error } })),
+
+	moveAuditSelection: (delta) =>
+		set((state) => {
+			const count = state.audit.assessments.length;
+			const selectedIndex = Math.min(Math.max(0, count - 1), Math.max(0, state.audit.selectedIndex + delta));
+			return { audit: { ...state.audit, selectedIndex } };
+		}),
+
+	exportAudit: async (format) => {
+		const { audit } = get();
+		if (audit.exporting || audit.auditedAt === null) return;
+		set({ audit: { ...audit, exporting: true, error: null, message: null } });
+		try {
+			const path = await exportPersistenceAudit(audit.assessments, new Date(audit.auditedAt), format);
+			set((state) => ({ audit: { ...state.audit, exporting: false, message: `Exported ${path}` } }));
+		} catch (error) {
+			set((state) => ({
+				audit: {
+					...state.audit,
+					exporting: false,
+					error: error instanceof Error ? error.message : "Failed to export audit",
+				},
+			}));
+		}
+	},
+
+	// Leaves the search, since a fuzzy query could hide the service
+	openAuditService: () => {
+		const { audit } = get();
+		const assessment = audit.assessments[audit.selectedIndex];
+		if (!assessment) return;
+
+		const position = visibleIndexOf(get(), assessment.serviceId);
+		if (position < 0) {
+			set({
+				lastActionResult: {
+					success: false,
+					message: `${assessment.label} is hidden by the current filters`,
+					error: "Change the filters and try again",
+				},
+			});
+			return;
+		}
+		set({
+			showAudit: false,
+			audit: initialAuditState,
+			searchQuery: "",
+			selectedIndex: position,
+			focusedPanel: "list",
+		});
+	},
+
+	// Service list export
+	toggleExport: () => set((state) => ({ showExport: !state.showExport })),
+
+	exportServices: async (format) => {
+		const state = get();
+		if (state.exportingServices) return;
+
+		// Reverse lookups do not narrow the list, so they are not part of the export either
+		const search = isLookupQuery(state.searchQuery) ? "" : state.searchQuery;
+		const services = listedServices(state, search);
+		if (services.length === 0) {
+			set({
+				showExport: false,
+				lastActionResult: {
+					success: false,
+					message: "No services to export",
+					error: "Change the filters and try again",
+				},
+			});
+			return;
+		}
+
+		set({ exportingServices: true });
+		try {
+			const path = await exportServiceInventory(
+				services,
+				{
+					filter: state.filter,
+					sort: state.sort,
+					search,
+					samples: state.resources.samples,
+					alerts: state.health.alerts,
+				},
+				format,
+			);
+			set({
+				showExport: false,
+				exportingServices: false,
+				lastActionResult: { success: true, message: `Exported ${services.length} services to ${path}` },
+			});
+		} catch (error) {
+			set({
+				showExport: false,
+				exportingServices: false,
+				lastActionResult: {
+					success: false,
+					message: "Failed to export services",
+					error: error instanceof Error ? error.message : String(error),
+				},
+			});
+		}
+	},
+
+	// Scheduled-jobs timeline (services are loaded by an effect when the view opens)
+	toggleTimeline: () =>
+		set((state) => ({
+			showTimeline: !state.showTimeline,
+			timeline: state.showTimeline ? initialTimelineState : { ...initialTimelineState, loading: true },
+		})),
+
+	setTimelineServices: (services) => {
+		const now = new Date();
+		set((state) => ({
+			timeline: {
+				...state.timeline,
+				services: sortByNextRun(services, now),
+				loadedAt: now.getTime(),
+				loading: false,
+				error: null,
+			},
+		}));
+	},
+
+	setTimelineError: (error) => set((state) => ({ timeline: { ...state.timeline, loading: false, error } })),
+
+	moveTimelineSelection: (delta) =>
+		set((state) => {
+			const count = state.timeline.services.length;
+			const selectedIndex = Math.min(
+				Math.max(0, count - 1),
+				Math.max(0, state.timeline.selectedIndex + delta),
+			);
+			return { timeline: { ...state.timeline, selectedIndex } };
+		}),
+
+	toggleTimelineRange: () =>
+		set((state) => ({
+			timeline: { ...state.timeline, range: state.timeline.range === "day" ? "week" : "day" },
+		})),
+
+	// Leaves the search, since a fuzzy query could hide the service
+	openTimelineService: () => {
+		const { timeline } = get();
+		const service = timeline.services[timeline.selectedIndex];
+		if (!service) return;
+
+		const position = visibleIndexOf(get(), service.id);
+		if (position < 0) {
+			set({
+				lastActionResult: {
+					success: false,
+					message: `${service.label} is hidden by the current filters`,
+					error: "Change the filters and try again",
+				},
+			});
+			return;
+		}
+		set({
+			showTimeline: false,
+			timeline: initialTimelineState,
+			searchQuery: "",
+			selectedIndex: position,
+			focusedPanel: "list",
+		});
+	},
+
+	// Create-service wizard
+	openWizard: () => set({ wizard: initialWizardState }),
+
+	closeWizard: () => set({ wizard: null }),
+
+	setWizardValue: (key, value) =>
+		set((state) => {
+			if (!state.wizard) return {};
+			const { [key]: _cleared, ...errors } = state.wizard.errors;
+			return {
+				wizard: { ...state.wizard, values: { ...state.wizard.values, [key]: value }, errors, error: null },
+			};
+		}),
+
+	moveWizardField: (delta) =>
+		set((state) => {
+			if (!state.wizard) return {};
+			const count = WIZARD_STEPS[state.wizard.step]?.fields.length ?? 1;
+			const field = Math.min(count - 1, Math.max(0, state.wizard.field + delta));
+			return { wizard: { ...state.wizard, field } };
+		}),
+
+	nextWizardStep: () =>
+		set((state) => {
+			if (!state.wizard) return {};
+			const fields = WIZARD_STEPS[state.wizard.step]?.fields ?? [];
+			const { errors } = parseServiceWizard(state.wizard.values);
+			// Only this step's fields block moving on
+			const invalidField = fields.findIndex((field) => errors[field]);
+			if (invalidField !== -1) {
+				return { wizard: { ...state.wizard, errors, field: invalidField } };
+			}
+			const step = Math.min(WIZARD_STEPS.length - 1, state.wizard.step + 1);
+			return { wizard: { ...state.wizard, step, field: 0, errors: {} } };
+		}),
+
+	prevWizardStep: () =>
+		set((state) => {
+			if (!state.wizard) return {};
+			if (state.wizard.step === 0) return { wizard: null };
+			return { wizard: { ...state.wizard, step: state.wizard.step - 1, field: 0, errors: {}, error: null } };
+		}),
+
+	submitWizard: async () => {
+		const { wizard, dryRun } = get();
+		if (!wizard || wizard.submitting) return;
+
+		const { spec, errors } = parseServiceWizard(wizard.values);
+		if (!spec) {
+			// Send the user back to the first step with a problem
+			const step = Math.max(
+				0,
+				WIZARD_STEPS.findIndex((s) => s.fields.some((field) => errors[field])),
+			);
+			const field = WIZARD_STEPS[step]?.fields.findIndex((f) => errors[f]) ?? 0;
+			set({ wizard: { ...wizard, step, field: Math.max(0, field), errors } });
+			return;
+		}
+
+		set({ wizard: { ...wizard, submitting: true, error: null } });
+		const result = await createNewService(spec, {
+			dryRun,
+			bootstrap: wizard.values.bootstrap,
+			source: "tui",
+		});
+
+		if (!result.success) {
+			set((state) => ({
+				wizard: state.wizard && {
+					...state.wizard,
+					submitting: false,
+					error: result.error ? `${result.message}: ${result.error}` : result.message,
+				},
+			}));
+			return;
+		}
+
+		if (dryRun) {
+			get().setDryRunCommand(result.command ?? null);
+		}
+		set({ wizard: null });
+		get().setActionResult(result);
+		if (!dryRun) {
+			await get().refresh();
+		}
+	},
+
+	// Plist editor actions
+	openPlistEditor: async (service) => {
+		const plistPath = service.plistPath;
+		if (!plistPath) {
+			get().setActionResult({ success: false, message: "No plist file for this service" });
+			return;
+		}
+
+		try {
+			const document = await loadServicePlist(service);
+			set({
+				plistEditor: {
+					serviceId: service.id,
+					label: service.label,
+					plistPath,
+					readOnly: service.protection === "sip-protected" || service.protection === "immutable",
+					format: document.format,
+					originalText: document.text,
+					value: document.value,
+					expanded: {},
+					cursor: 0,
+					input: null,
+					view: "tree",
+					diffScroll: 0,
+					dirty: false,
+					reload: false,
+					saving: false,
+					confirmDiscard: false,
+					error: null,
+				},
+			});
+		} catch (error) {
+			get().setActionResult({
+				success: false,
+				message: `Cannot open ${plistPath}`,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	},
+
+	closePlistEditor: () =>
+		set((state) => {
+			const editor = state.plistEditor;
+			if (!editor) return {};
+			if (editor.dirty && !editor.confirmDiscard) {
+				return {
+					plistEditor: {
+						...editor,
+						confirmDiscard: true,
+						error: "Unsaved changes - press Esc again to discard",
+					},
+				};
+			}
+			return { plistEditor: null };
+		}),
+
+	movePlistEditorCursor: (delta) =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const count = plistEditorRows(editor).length;
+				return { cursor: Math.min(Math.max(0, count - 1), Math.max(0, editor.cursor + delta)) };
+			}),
+		),
+
+	activatePlistEditorRow: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const row = plistEditorRows(editor)[editor.cursor];
+				if (!row) return {};
+
+				if (row.kind === "array" || row.kind === "dict") {
+					const { [plistPathKey(row.path)]: _collapsed, ...collapsed } = editor.expanded;
+					return {
+						expanded: row.expanded ? collapsed : { ...editor.expanded, [plistPathKey(row.path)]: true },
+					};
+				}
+				if (editor.readOnly) return { error: PLIST_READ_ONLY_MESSAGE };
+				if (row.kind === "boolean") {
+					return applyPlistEdit(editor, setPlistValueAt(editor.value, row.path, !row.value), row.path);
+				}
+				if (!isEditableScalar(row.kind)) {
+					return { error: `${row.kind} values can only be changed in $EDITOR (E)` };
+				}
+				return {
+					input: { kind: "value", target: row.path, buffer: formatPlistScalar(row.value), error: null },
+				};
+			}),
+		),
+
+	expandPlistEditorRow: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const row = plistEditorRows(editor)[editor.cursor];
+				if (!row || row.expanded || (row.kind !== "array" && row.kind !== "dict")) return {};
+				return { expanded: { ...editor.expanded, [plistPathKey(row.path)]: true } };
+			}),
+		),
+
+	collapsePlistEditorRow: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const row = plistEditorRows(editor)[editor.cursor];
+				if (!row) return {};
+				if (row.expanded) {
+					const { [plistPathKey(row.path)]: _collapsed, ...expanded } = editor.expanded;
+					return { expanded };
+				}
+				// Jump to the parent container
+				return row.path.length > 1 ? { cursor: plistEditorCursorFor(editor, row.path.slice(0, -1)) } : {};
+			}),
+		),
+
+	startPlistEditorAdd: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				if (editor.readOnly) return { error: PLIST_READ_ONLY_MESSAGE };
+
+				// Add inside an open container, otherwise next to the selected row
+				const row = plistEditorRows(editor)[editor.cursor];
+				const containerPath = row?.expanded ? row.path : (row?.path.slice(0, -1) ?? []);
+				const container = getPlistValueAt(editor.value, containerPath);
+
+				if (Array.isArray(container)) {
+					// New items match the type of the existing ones
+					const first = container[0];
+					const item = first === undefined ? "" : defaultPlistValue(plistValueKind(first));
+					const path = [...containerPath, container.length];
+					const edit = applyPlistEdit(editor, addPlistEntry(editor.value, containerPath, item), path, [
+						containerPath,
+					]);
+					return isEditableScalar(plistValueKind(item))
+						? { ...edit, input: { kind: "value", target: path, buffer: "", error: null } }
+						: edit;
+				}
+
+				return { input: { kind: "key", target: containerPath, buffer: "", error: null } };
+			}),
+		),
+
+	deletePlistEditorRow: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				if (editor.readOnly) return { error: PLIST_READ_ONLY_MESSAGE };
+				const row = plistEditorRows(editor)[editor.cursor];
+				if (!row) return {};
+				return applyPlistEdit(editor, removePlistValueAt(editor.value, row.path), row.path);
+			}),
+		),
+
+	setPlistEditorInput: (buffer) =>
+		set((state) => {
+			const editor = state.plistEditor;
+			if (!editor?.input) return {};
+			return { plistEditor: { ...editor, input: { ...editor.input, buffer, error: null } } };
+		}),
+
+	completePlistEditorKey: () =>
+		set((state) => {
+			const editor = state.plistEditor;
+			const input = editor?.input;
+			// Only top-level keys have a schema
+			if (!editor || input?.kind !== "key" || input.target.length > 0) return {};
+			const [match] = suggestLaunchdKeys(input.buffer, editor.value);
+			return match ? { plistEditor: { ...editor, input: { ...input, buffer: match, error: null } } } : {};
+		}),
+
+	commitPlistEditorInput: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const input = editor.input;
+				if (!input) return {};
+
+				if (input.kind === "key") {
+					const key = input.buffer.trim();
+					if (!key) return { input: { ...input, error: "Enter a key name" } };
+					const container = getPlistValueAt(editor.value, input.target);
+					if (container && typeof container === "object" && Object.hasOwn(container, key)) {
+						return { input: { ...input, error: `"${key}" already exists` } };
+					}
+
+					// Top-level keys get the type launchd expects
+					const value = input.target.length === 0 ? defaultValueForKey(key) : "";
+					const path = [...input.target, key];
+					const kind = plistValueKind(value);
+					const edit = applyPlistEdit(editor, addPlistEntry(editor.value, input.target, value, key), path, [
+						input.target,
+						...(kind === "array" || kind === "dict" ? [path] : []),
+					]);
+					return {
+						...edit,
+						input: isEditableScalar(kind) ? { kind: "value", target: path, buffer: "", error: null } : null,
+					};
+				}
+
+				const current = getPlistValueAt(editor.value, input.target);
+				if (current === undefined) return { input: null };
+				const parsed = parsePlistScalarInput(plistValueKind(current), input.buffer);
+				if (parsed.error !== undefined) return { input: { ...input, error: parsed.error } };
+				return {
+					...applyPlistEdit(editor, setPlistValueAt(editor.value, input.target, parsed.value), input.target),
+					input: null,
+				};
+			}),
+		),
+
+	cancelPlistEditorInput: () => set((state) => updatePlistEditor(state, () => ({ input: null }))),
+
+	showPlistEditorDiff: () =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				if (editor.readOnly) return { error: PLIST_READ_ONLY_MESSAGE };
+				if (!editor.dirty) return { error: "No changes to save" };
+				return { view: "diff", diffScroll: 0 };
+			}),
+		),
+
+	hidePlistEditorDiff: () => set((state) => updatePlistEditor(state, () => ({ view: "tree" }))),
+
+	scrollPlistEditorDiff: (delta) =>
+		set((state) =>
+			updatePlistEditor(state, (editor) => {
+				const lines = getPlistEditorDiff(editor).length;
+				return { diffScroll: Math.min(Math.max(0, lines - 1), Math.max(0, editor.diffScroll + delta)) };
+			}),
+		),
+
+	togglePlistEditorReload: () =>
+		set((state) => updatePlistEditor(state, (editor) => ({ reload: !editor.reload }))),
+
+	savePlistEditor: async () => {
+		const { plistEditor: editor, dryRun, services, serviceMetadata } = get();
+		if (!editor || editor.saving || editor.readOnly) return;
+
+		const listed = services.find((s) => s.id === editor.serviceId);
+		if (!listed) {
+			set({ plistEditor: { ...editor, error: "Service is no longer listed" } });
+			return;
+		}
+		const service = { ...listed, ...serviceMetadata[listed.id] };
+
+		set({ plistEditor: { ...editor, saving: true, error: null } });
+		const result = await saveEditedPlist(service, editor.plistPath, editor.value, editor.format, {
+			dryRun,
+			reload: editor.reload,
+			source: "tui",
+		});
+		get().recordActionHistory("edit", service.id, result, dryRun);
+
+		if (!result.success) {
+			set((state) => ({
+				plistEditor: state.plistEditor && {
+					...state.plistEditor,
+					saving: false,
+					error: result.error ? `${result.message}: ${result.error}` : result.message,
+				},
+			}));
+			return;
+		}
+
+		if (dryRun) {
+			get().setDryRunCommand(result.command ?? null);
+			set({ plistEditor: null });
+		} else {
+			// Drop cached metadata so the details panel re-reads the plist
+			set((state) => {
+				const { [service.id]: _metadata, ...serviceMetadata } = state.serviceMetadata;
+				const { [service.id]: _loading, ...metadataLoading } = state.metadataLoading;
+				return { plistEditor: null, serviceMetadata, metadataLoading };
+			});
+		}
+		get().setActionResult(result);
+		if (!dryRun) {
+			await get().refresh();
+		}
+	},
+
+	// Configuration
+	applyConfig: (config) =>
+		set({
+			config,
+			filter: config.filter,
+			sort: config.sort,
+			autoRefresh: {
+				enabled: config.autoRefresh.enabled,
+				intervalMs: config.autoRefresh.activeIntervalMs,
+			},
+		}),
+
 	// Auto-refresh
 	toggleAutoRefresh: () =>
 		set((state) => ({
@@ -273,7 +1602,17 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 	setDryRunCommand: (command) => set({ dryRunCommand: command }),
 
 	// Offline handling
-	fetchSuccess: (services) =>
+	fetchSuccess: (services) => {
+		const { services: previous, health } = get();
+		const now = Date.now();
+		const changes = diffServices(previous, services);
+		const detected = detectServiceEvents(changes, health.restarts, now, {
+			threshold: FLAP_RESTART_THRESHOLD,
+			windowMs: FLAP_WINDOW_MS,
+		});
+		const alerts = detected.events.filter(isAlertEvent);
+		const historyEntries = historyEntriesFromChanges(changes, detected.events, now);
+
 		set((state) => ({
 			services,
 			loading: false,
@@ -286,12 +1625,36 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 				cachedServices: services,
 				lastError: null,
 			},
-		})),
+			health: {
+				...state.health,
+				events: [...detected.events.reverse(), ...state.health.events].slice(0, MAX_SERVICE_EVENTS),
+				restarts: detected.restarts,
+				alerts: mergeAlerts(state.health.alerts, alerts),
+			},
+			serviceHistory: {
+				...state.serviceHistory,
+				entries: addServiceHistory(state.serviceHistory.entries, historyEntries, MAX_SERVICE_HISTORY_ENTRIES),
+			},
+		}));
+		saveServiceHistory(historyEntries, MAX_SERVICE_HISTORY_ENTRIES).catch((error) => {
+			get().setActionResult({
+				success: false,
+				message: "Failed to write service history",
+				error: error instanceof Error ? error.message : String(error),
+			});
+		});
+
+		if (health.notify && alerts.length > 0) {
+			notifyServiceEvents(alerts).catch(() => {
+				// Notifications are best effort
+			});
+		}
+	},
 
 	fetchFailure: (error) =>
 		set((state) => {
 			const newFailureCount = state.offline.consecutiveFailures + 1;
-			const shouldGoOffline = newFailureCount >= OFFLINE_THRESHOLD;
+			const shouldGoOffline = newFailureCount >= state.config.offlineThreshold;
 			const hasCachedData = state.offline.cachedServices.length > 0;
 
 			return {
@@ -352,16 +1715,144 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 		})),
 
 	clearMetadataCache: () =>
-		set({
+		set((state) => ({
 			serviceMetadata: {},
 			metadataLoading: {},
+			// Programs are re-read from the refreshed plists
+			signatures: { ...state.signatures, byService: {} },
+		})),
+
+	// Process tree
+	toggleProcessTree: () =>
+		set((state) => ({
+			showProcessTree: !state.showProcessTree,
+			processTree: initialProcessTreeState,
+			// The tree takes over the details panel's arrow keys
+			focusedPanel: state.showProcessTree
+				? state.focusedPanel === "details"
+					? "list"
+					: state.focusedPanel
+				: "details",
+			inspection: { ...state.inspection, showRaw: false },
+		})),
+
+	loadProcessTree: async (service) => {
+		set((state) => ({
+			processTree:
+				state.processTree.serviceId === service.id
+					? { ...state.processTree, loading: true, error: null }
+					: { ...initialProcessTreeState, serviceId: service.id, loading: true },
+		}));
+		try {
+			const root = await fetchProcessTree(service);
+			set((state) => {
+				// Ignore results for a service that is no longer selected
+				if (state.processTree.serviceId !== service.id) return {};
+				const tree = { ...state.processTree, root, loading: false };
+				return { processTree: { ...tree, cursor: clampProcessTreeCursor(tree, tree.cursor) } };
+			});
+		} catch (error) {
+			set((state) => {
+				if (state.processTree.serviceId !== service.id) return {};
+				return {
+					processTree: {
+						...state.processTree,
+						root: null,
+						loading: false,
+						error: error instanceof Error ? error.message : "Failed to list processes",
+					},
+				};
+			});
+		}
+	},
+
+	reloadProcessTree: async () => {
+		const { processTree, services, showProcessTree } = get();
+		const service = services.find((s) => s.id === processTree.serviceId);
+		if (showProcessTree && service) {
+			await get().loadProcessTree(service);
+		}
+	},
+
+	moveProcessTreeCursor: (delta) =>
+		set((state) => ({
+			processTree: {
+				...state.processTree,
+				cursor: clampProcessTreeCursor(state.processTree, state.processTree.cursor + delta),
+			},
+		})),
+
+	expandProcessTreeRow: () =>
+		set((state) => {
+			const tree = state.processTree;
+			const row = flattenProcessTree(tree.root, tree.collapsed)[tree.cursor];
+			if (!row || row.expanded) return {};
+			const { [row.node.pid]: _collapsed, ...collapsed } = tree.collapsed;
+			return { processTree: { ...tree, collapsed } };
+		}),
+
+	collapseProcessTreeRow: () =>
+		set((state) => {
+			const tree = state.processTree;
+			const rows = flattenProcessTree(tree.root, tree.collapsed);
+			const row = rows[tree.cursor];
+			if (!row) return {};
+			if (row.expanded && row.node.children.length > 0) {
+				return { processTree: { ...tree, collapsed: { ...tree.collapsed, [row.node.pid]: true } } };
+			}
+			// Jump to the parent process
+			const parent = rows.findIndex((candidate) => candidate.node.pid === row.node.ppid);
+			return parent >= 0 && row.depth > 0 ? { processTree: { ...tree, cursor: parent } } : {};
+		}),
+
+	requestProcessSignal: (signal) =>
+		set((state) => {
+			const tree = state.processTree;
+			const row = flattenProcessTree(tree.root, tree.collapsed)[tree.cursor];
+			if (!row) return {};
+			const { pid, ppid, uid, command } = row.node;
+			return { processTree: { ...tree, pendingSignal: { pid, ppid, uid, command, signal } } };
 		}),
 
+	cancelProcessSignal: () => set((state) => ({ processTree: { ...state.processTree, pendingSignal: null } })),
+
+	sendProcessSignal: async () => {
+		const { processTree, services, serviceMetadata, dryRun } = get();
+		const request = processTree.pendingSignal;
+		const listed = services.find((s) => s.id === processTree.serviceId);
+		set((state) => ({ processTree: { ...state.processTree, pendingSignal: null } }));
+		if (!request || !listed) return;
+		const service = { ...listed, ...serviceMetadata[listed.id] };
+
+		// Same escalation as service actions: headless sessions without cached sudo need the password dialog
+		if (!dryRun && processNeedsSudo(request.uid) && !(await isSudoCached()) && !isGuiContext()) {
+			get().showPasswordPrompt("signal", service, request);
+			return;
+		}
+
+		get().setExecuting(true);
+		try {
+			const result = await signalServiceProcess(service, request, { dryRun, source: "tui" });
+			get().recordActionHistory("signal", service.id, result, dryRun);
+			if (dryRun) {
+				get().setDryRunCommand(result.command ?? null);
+			}
+			get().setActionResult(result);
+			if (result.success && !dryRun) {
+				await new Promise((resolve) => setTimeout(resolve, PROCESS_SIGNAL_SETTLE_MS));
+				await get().silentRefresh();
+				await get().reloadProcessTree();
+			}
+		} finally {
+			get().setExecuting(false);
+		}
+	},
+
 	// Password dialog actions
-	showPasswordPrompt: (action, service) =>
+	showPasswordPrompt: (action, service, signal) =>
 		set({
 			showPasswordDialog: true,
-			pendingPrivilegedAction: { action, service },
+			pendingPrivilegedAction: { action, service, signal },
 			passwordDialogError: null,
 			passwordInput: "",
 		}),
@@ -386,13 +1877,63 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 			return;
 		}
 
+		if (pendingPrivilegedAction.action === "signal") {
+			const { service, signal } = pendingPrivilegedAction;
+			if (!signal) {
+				get().hidePasswordDialog();
+				return;
+			}
+			const result = await signalServiceProcess(service, signal, { password: passwordInput, source: "tui" });
+			if (result.error === "AUTH_FAILED") {
+				set({ passwordDialogError: "Incorrect password. Please try again." });
+				return;
+			}
+			get().hidePasswordDialog();
+			get().recordActionHistory("signal", service.id, result, false);
+			get().setActionResult(result);
+			if (result.success) {
+				await new Promise((resolve) => setTimeout(resolve, PROCESS_SIGNAL_SETTLE_MS));
+				await get().silentRefresh();
+				await get().reloadProcessTree();
+			}
+			return;
+		}
+
 		const { action, service } = pendingPrivilegedAction;
 
-		// Build the command for the privileged action
-		const command = buildPrivilegedCommand(action, service);
+		// The same command the unprivileged path runs, so a `load` without a plist is refused here too
+		const command = buildActionCommand(action, service);
+		if (!command) {
+			get().hidePasswordDialog();
+			get().setActionResult({
+				success: false,
+				message: `Cannot ${action} service`,
+				error: action === "load" ? "No plist file found for this service" : `Unknown action: ${action}`,
+			});
+			return;
+		}
 
 		const result = await executePrivileged(command, passwordInput);
 
+		// Every attempt that reached sudo is audited, including wrong passwords
+		let auditError: string | undefined;
+		if (!result.authCancelled) {
+			({ auditError } = await recordServiceAction<ActionResult>(
+				action,
+				service,
+				{
+					success: result.success,
+					message: result.authFailed
+						? "Authentication failed"
+						: result.success
+							? `Successfully executed ${action} on ${service.label}`
+							: `Failed to ${action} ${service.label}`,
+					error: result.success ? undefined : result.stderr || undefined,
+				},
+				{ dryRun: false, source: "tui", command: `sudo ${command.join(" ")}`, sudo: true },
+			));
+		}
+
 		if (result.authFailed) {
 			// Wrong password - keep dialog open with error
 			set({ passwordDialogError: "Incorrect password. Please try again." });
@@ -414,8 +1955,10 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 				? `Successfully executed ${action} on ${service.label}`
 				: `Failed to ${action} ${service.label}`,
 			error: result.success ? undefined : result.stderr,
+			auditError,
 		};
 
+		get().recordActionHistory(action, service.id, actionResult, false);
 		get().setActionResult(actionResult);
 
 		// Refresh services if successful
@@ -423,34 +1966,357 @@ export const useAppStore = create<AppState & AppStoreActions>((set, get) => ({
 			await get().refresh();
 		}
 	},
+
+	// `launchctl print` inspection
+	beginInspection: (serviceId) =>
+		set((state) => ({
+			inspection: {
+				...state.inspection,
+				serviceId,
+				// Keep the previous result while refreshing the same service
+				data: state.inspection.serviceId === serviceId ? state.inspection.data : null,
+				rawScroll: state.inspection.serviceId === serviceId ? state.inspection.rawScroll : 0,
+				loading: true,
+				error: null,
+			},
+		})),
+
+	setInspection: (serviceId, data) =>
+		set((state) => {
+			// Ignore results for a service that is no longer selected
+			if (state.inspection.serviceId !== serviceId) return {};
+			return { inspection: { ...state.inspection, data, loading: false, error: null } };
+		}),
+
+	setInspectionError: (serviceId, error) =>
+		set((state) => {
+			if (state.inspection.serviceId !== serviceId) return {};
+			return { inspection: { ...state.inspection, data: null, loading: false, error } };
+		}),
+
+	toggleInspectionRaw: () =>
+		set((state) => ({
+			inspection: { ...state.inspection, showRaw: !state.inspection.showRaw, rawScroll: 0 },
+			// Only one expanded section at a time scrolls with the arrow keys
+			showProcessTree: state.inspection.showRaw ? state.showProcessTree : false,
+		})),
+
+	scrollInspectionRaw: (delta) =>
+		set((state) => {
+			const lineCount = state.inspection.data?.raw.split("\n").length ?? 0;
+			const rawScroll = Math.min(Math.max(0, lineCount - 1), Math.max(0, state.inspection.rawScroll + delta));
+			return { inspection: { ...state.inspection, rawScroll } };
+		}),
+
+	// Resource monitor
+	setProcessSamples: (samples) =>
+		set((state) => {
+			const byPid: Record<number, ProcessSample> = {};
+			for (const sample of samples) byPid[sample.pid] = sample;
+			return {
+				resources: {
+					samples: byPid,
+					history: appendResourceHistory(
+						state.resources.history,
+						state.services,
+						byPid,
+						RESOURCE_HISTORY_LENGTH,
+					),
+				},
+			};
+		}),
+
+	// Network endpoints
+	loadEndpoints: async (service) => {
+		set((state) => ({
+			endpoints:
+				state.endpoints.serviceId === service.id
+					? { ...state.endpoints, loading: true, error: null }
+					: { ...initialEndpointState, serviceId: service.id, loading: true },
+		}));
+		try {
+			const sockets = await fetchServiceSockets(service);
+			set((state) => {
+				// Ignore results for a service that is no longer selected
+				if (state.endpoints.serviceId !== service.id) return {};
+				return { endpoints: { ...state.endpoints, sockets, loading: false } };
+			});
+		} catch (error) {
+			set((state) => {
+				if (state.endpoints.serviceId !== service.id) return {};
+				return {
+					endpoints: {
+						...state.endpoints,
+						sockets: [],
+						loading: false,
+						error: error instanceof Error ? error.message : "Failed to list sockets",
+					},
+				};
+			});
+		}
+	},
+
+	// Code signatures
+	loadCodeSignature: async (service) => {
+		let signature: CodeSignature | null;
+		try {
+			signature = await fetchCodeSignature(service);
+		} catch (error) {
+			signature = {
+				status: "unknown",
+				error: error instanceof Error ? error.message : "Failed to read the code signature",
+			};
+		}
+		set((state) => ({
+			signatures: {
+				...state.signatures,
+				byService: { ...state.signatures.byService, [service.id]: signature },
+			},
+		}));
+	},
+
+	scanCodeSignatures: async (services) => {
+		const { signatures } = get();
+		const pending = services.filter((service) => !(service.id in signatures.byService));
+		if (signatures.loading || pending.length === 0) return;
+
+		set({ signatures: { ...signatures, loading: true, error: null } });
+		try {
+			const scanned = await fetchCodeSignatures(pending);
+			set((state) => ({
+				signatures: { byService: { ...state.signatures.byService, ...scanned }, loading: false, error: null },
+			}));
+		} catch (error) {
+			set((state) => ({
+				signatures: {
+					...state.signatures,
+					loading: false,
+					error: error instanceof Error ? error.message : "Failed to read code signatures",
+				},
+			}));
+		}
+	},
+
+	// Log viewer
+	toggleLogs: () =>
+		set((state) => ({
+			showLogs: !state.showLogs,
+			logs: state.showLogs ? initialLogViewerState : state.logs,
+			// The log and output viewers share a panel slot
+			showOutput: state.showLogs ? state.showOutput : false,
+			output: state.showLogs ? state.output : initialOutputViewerState,
+			focusedPanel:
+				state.focusedPanel === "logs" || state.focusedPanel === "output" ? "list" : state.focusedPanel,
+		})),
+
+	setLogEntries: (serviceId, entries) =>
+		set((state) => ({
+			logs: {
+				...state.logs,
+				serviceId,
+				entries: entries.slice(-MAX_LOG_ENTRIES),
+				scrollOffset: 0,
+				loading: false,
+				error: null,
+			},
+		})),
+
+	appendLogEntries: (serviceId, entries) =>
+		set((state) => {
+			// Drop entries from a stream that belongs to a previously selected service
+			if (state.logs.serviceId !== serviceId) return {};
+
+			const combined = [...state.logs.entries, ...entries];
+			const trimmed = combined.length > MAX_LOG_ENTRIES ? combined.slice(-MAX_LOG_ENTRIES) : combined;
+			// Keep the viewport anchored when scrolled back
+			const scrollOffset =
+				state.logs.scrollOffset > 0
+					? Math.min(state.logs.scrollOffset + entries.length, Math.max(0, trimmed.length - 1))
+					: 0;
+
+			return { logs: { ...state.logs, entries: trimmed, scrollOffset } };
+		}),
+
+	beginLogLoad: (serviceId) =>
+		set((state) => ({
+			logs: {
+				...state.logs,
+				serviceId,
+				// Keep the buffer when reloading the same service (e.g. level change)
+				entries: state.logs.serviceId === serviceId ? state.logs.entries : [],
+				scrollOffset: state.logs.serviceId === serviceId ? state.logs.scrollOffset : 0,
+				loading: true,
+				error: null,
+			},
+		})),
+
+	setLogsError: (error) => set((state) => ({ logs: { ...state.logs, error, loading: false } })),
+
+	cycleLogLevel: () =>
+		set((state) => {
+			const idx = LOG_LEVEL_CYCLE.indexOf(state.logs.level);
+			const level = LOG_LEVEL_CYCLE[(idx + 1) % LOG_LEVEL_CYCLE.length] ?? "default";
+			return { logs: { ...state.logs, level, scrollOffset: 0 } };
+		}),
+
+	toggleLogFollow: () =>
+		set((state) => ({
+			logs: { ...state.logs, follow: !state.logs.follow, scrollOffset: 0 },
+		})),
+
+	scrollLogs: (delta) =>
+		set((state) => {
+			const maxOffset = Math.max(0, state.logs.entries.length - 1);
+			const scrollOffset = Math.min(maxOffset, Math.max(0, state.logs.scrollOffset + delta));
+			return { logs: { ...state.logs, scrollOffset } };
+		}),
+
+	scrollLogsTo: (offset) =>
+		set((state) => {
+			const maxOffset = Math.max(0, state.logs.entries.length - 1);
+			return { logs: { ...state.logs, scrollOffset: Math.min(maxOffset, Math.max(0, offset)) } };
+		}),
+
+	// Output file viewer (shares the panel slot with the log viewer)
+	toggleOutput: () =>
+		set((state) => ({
+			showOutput: !state.showOutput,
+			output: initialOutputViewerState,
+			showLogs: state.showOutput ? state.showLogs : false,
+			logs: state.showOutput ? state.logs : initialLogViewerState,
+			focusedPanel:
+				state.focusedPanel === "output" || state.focusedPanel === "logs" ? "list" : state.focusedPanel,
+		})),
+
+	resetOutput: (serviceId, paths) =>
+		set((state) => ({
+			output: {
+				...initialOutputViewerState,
+				tab: state.output.tab,
+				serviceId,
+				buffers: {
+					stdout: { ...initialOutputViewerState.buffers.stdout, path: paths.stdout },
+					stderr: { ...initialOutputViewerState.buffers.stderr, path: paths.stderr },
+				},
+			},
+		})),
+
+	appendOutputLines: (serviceId, stream, lines, reset) =>
+		set((state) => {
+			if (state.output.serviceId !== serviceId) return {};
+
+			const buffer = state.output.buffers[stream];
+			const combined = reset ? lines : [...buffer.lines, ...lines];
+			const trimmed = combined.length > MAX_OUTPUT_LINES ? combined.slice(-MAX_OUTPUT_LINES) : combined;
+			const notice = reset ? `File ${reset} at ${new Date().toLocaleTimeString()}` : buffer.notice;
+
+			// Keep the viewport anchored when scrolled back in the active tab
+			const isActive = state.output.tab === stream;
+			const scrollOffset =
+				isActive && !reset && state.output.scrollOffset > 0
+					? Math.min(state.output.scrollOffset + lines.length, Math.max(0, trimmed.length - 1))
+					: isActive && reset
+						? 0
+						: state.output.scrollOffset;
+
+			return {
+				output: {
+					...state.output,
+					scrollOffset,
+					matchLine: isActive && reset ? null : state.output.matchLine,
+					buffers: { ...state.output.buffers, [stream]: { ...buffer, lines: trimmed, notice } },
+				},
+			};
+		}),
+
+	setOutputError: (serviceId, stream, error) =>
+		set((state) => {
+			if (state.output.serviceId !== serviceId) return {};
+			const buffer = state.output.buffers[stream];
+			return {
+				output: { ...state.output, buffers: { ...state.output.buffers, [stream]: { ...buffer, error } } },
+			};
+		}),
+
+	switchOutputTab: () =>
+		set((state) => ({
+			output: {
+				...state.output,
+				tab: state.output.tab === "stdout" ? "stderr" : "stdout",
+				scrollOffset: 0,
+				matchLine: null,
+			},
+		})),
+
+	scrollOutput: (delta) =>
+		set((state) => {
+			const maxOffset = Math.max(0, state.output.buffers[state.output.tab].lines.length - 1);
+			const scrollOffset = Math.min(maxOffset, Math.max(0, state.output.scrollOffset + delta));
+			return { output: { ...state.output, scrollOffset } };
+		}),
+
+	scrollOutputTo: (offset) =>
+		set((state) => {
+			const maxOffset = Math.max(0, state.output.buffers[state.output.tab].lines.length - 1);
+			return { output: { ...state.output, scrollOffset: Math.min(maxOffset, Math.max(0, offset)) } };
+		}),
+
+	startOutputSearch: () =>
+		set((state) => ({ output: { ...state.output, searchEditing: true, searchQuery: "", matchLine: null } })),
+
+	setOutputSearchQuery: (query) => set((state) => ({ output: { ...state.output, searchQuery: query } })),
+
+	commitOutputSearch: () =>
+		set((state) => {
+			const output = { ...state.output, searchEditing: false, matchLine: null };
+			// Newest match first, like searching backwards in a pager
+			return { output: { ...output, ...findOutputMatch(output, -1) } };
+		}),
+
+	cancelOutputSearch: () =>
+		set((state) => ({ output: { ...state.output, searchEditing: false, searchQuery: "", matchLine: null } })),
+
+	jumpToOutputMatch: (direction) =>
+		set((state) => ({ output: { ...state.output, ...findOutputMatch(state.output, direction) } })),
 }));
 
 /**
- * Build the launchctl command for a privileged action
+ * Services as listed for a fuzzy search query: filtered, then in match order or sorted
+ * Mirrors useFilteredServices
  */
-function buildPrivilegedCommand(action: ServiceAction, service: Service): string[] {
-	const target =
-		service.domain === "system"
-			? `system/${service.label}`
-			: `gui/${process.getuid?.() ?? 501}/${service.label}`;
-
-	switch (action) {
-		case "start":
-			return ["launchctl", "kickstart", "-k", target];
-		case "stop":
-			return ["launchctl", "kill", "SIGTERM", target];
-		case "enable":
-			return ["launchctl", "enable", target];
-		case "disable":
-			return ["launchctl", "disable", target];
-		case "unload":
-			if (service.plistPath) {
-				return ["launchctl", "bootout", target.split("/")[0] ?? "system", service.plistPath];
-			}
-			return ["launchctl", "bootout", target];
-		case "reload":
-			return ["launchctl", "kickstart", "-k", target];
-		default:
-			return ["launchctl", "print", target];
+function listedServices(state: AppState, searchQuery: string): Service[] {
+	const samples = isResourceSortField(state.sort.field) ? state.resources.samples : undefined;
+	const filtered = filterServices(state.services, state.filter, searchQuery, state.signatures.byService);
+	return searchQuery ? filtered : sortServices(filtered, state.sort, samples);
+}
+
+/**
+ * Position of a service in the list as shown: filtered and sorted, without fuzzy search
+ * Mirrors useFilteredServices for reverse lookup queries, which do not filter the list
+ */
+function visibleIndexOf(state: AppState, serviceId: string): number {
+	return listedServices(state, "").findIndex((service) => service.id === serviceId);
+}
+
+/**
+ * Record the alerts of new events; flapping outranks a crash
+ */
+function mergeAlerts(
+	alerts: Record<string, ServiceAlert>,
+	events: { serviceId: string; kind: ServiceAlert }[],
+): Record<string, ServiceAlert> {
+	if (events.length === 0) return alerts;
+	const next = { ...alerts };
+	for (const event of events) {
+		if (next[event.serviceId] !== "flapping") next[event.serviceId] = event.kind;
 	}
+	return next;
+}
+
+/**
+ * Keep the process tree cursor on a visible row
+ */
+function clampProcessTreeCursor(tree: ProcessTreeState, cursor: number): number {
+	const count = flattenProcessTree(tree.root, tree.collapsed).length;
+	return Math.min(Math.max(0, count - 1), Math.max(0, cursor));
 }
@@ -4,10 +4,11 @@
  */
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import { filterServicesWithScores, sortServices } from "../services";
+import { filterServicesWithScores, isLookupQuery, isResourceSortField, sortServices } from "../services";
 import type { Service, ServiceMatchInfo } from "../types";
 import { SEARCH_DEBOUNCE_MS } from "./constants";
 import { useAppStore } from "./useAppStore";
+import { getPlistEditorDiff } from "./utils";
 
 /**
  * Hook for debouncing search query
@@ -46,11 +47,18 @@ export function useFilteredServices(): {
 	const filter = useAppStore((state) => state.filter);
 	const sort = useAppStore((state) => state.sort);
 	const searchQuery = useAppStore((state) => state.searchQuery);
+	const signatures = useAppStore((state) => state.signatures.byService);
+	// Only re-sort on every `ps` sample when sorting by a resource column
+	const samples = useAppStore((state) =>
+		isResourceSortField(state.sort.field) ? state.resources.samples : undefined,
+	);
 
 	const debouncedSearchQuery = useDebouncedSearch(searchQuery);
+	// Reverse lookups (`:port 5432`) jump to their match instead of filtering the list
+	const fuzzyQuery = isLookupQuery(debouncedSearchQuery) ? "" : debouncedSearchQuery;
 
 	return useMemo(() => {
-		const filtered = filterServicesWithScores(services, filter, debouncedSearchQuery);
+		const filtered = filterServicesWithScores(services, filter, fuzzyQuery, signatures);
 
 		// Build match info map
 		const matchInfo = new Map<string, ServiceMatchInfo>();
@@ -67,12 +75,12 @@ export function useFilteredServices(): {
 
 		// When searching, fuzzy match order takes priority
 		// When not searching, apply normal sort
-		if (!debouncedSearchQuery) {
-			filteredServices = sortServices(filteredServices, sort);
+		if (!fuzzyQuery) {
+			filteredServices = sortServices(filteredServices, sort, samples);
 		}
 
 		return { filteredServices, serviceMatchInfo: matchInfo };
-	}, [services, filter, debouncedSearchQuery, sort]);
+	}, [services, filter, fuzzyQuery, sort, samples, signatures]);
 }
 
 /**
@@ -96,3 +104,37 @@ export function useSelectedService(filteredServices: Service[]): Service | null
 		return service;
 	}, [filteredServices, selectedIndex, serviceMetadata]);
 }
+
+/**
+ * Hook to get the marked services (in list order) with metadata merged
+ */
+export function useMarkedServices(): Service[] {
+	const services = useAppStore((state) => state.services);
+	const markedServiceIds = useAppStore((state) => state.markedServiceIds);
+	const serviceMetadata = useAppStore((state) => state.serviceMetadata);
+
+	return useMemo(
+		() =>
+			services
+				.filter((service) => markedServiceIds[service.id])
+				.map((service) => ({ ...service, ...serviceMetadata[service.id] })),
+		[services, markedServiceIds, serviceMetadata],
+	);
+}
+
+/**
+ * Hook to get the plist editor's pending changes as unified diff lines
+ */
+export function usePlistEditorDiff(): string[] {
+	const originalText = useAppStore((state) => state.plistEditor?.originalText);
+	const value = useAppStore((state) => state.plistEditor?.value);
+	const plistPath = useAppStore((state) => state.plistEditor?.plistPath);
+
+	return useMemo(
+		() =>
+			originalText !== undefined && value && plistPath
+				? getPlistEditorDiff({ originalText, value, plistPath })
+				: [],
+		[originalText, value, plistPath],
+	);
+}
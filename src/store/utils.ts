@@ -2,7 +2,9 @@
  * Utility functions for state management
  */
 
-import type { Service } from "../types";
+import { serializePlistXml } from "../services";
+import type { PlistEditorState, ProcessSample, ResourceHistory, Service, ServiceChange } from "../types";
+import { formatUnifiedDiff } from "../utils/diff";
 
 /**
  * Check if a service has changed (for smart updates)
@@ -17,14 +19,22 @@ export function hasServiceChanged(oldService: Service, newService: Service): boo
 	);
 }
 
+/**
+ * Services present in both lists that changed, paired with their previous state
+ */
+export function diffServices(oldServices: Service[], newServices: Service[]): ServiceChange[] {
+	const oldServiceMap = new Map(oldServices.map((s) => [s.id, s]));
+	return newServices.flatMap((current) => {
+		const previous = oldServiceMap.get(current.id);
+		return previous && hasServiceChanged(previous, current) ? [{ previous, current }] : [];
+	});
+}
+
 /**
  * Merge services, only updating those that changed
  * Returns null if nothing changed, otherwise returns the updated array
  */
 export function mergeServices(oldServices: Service[], newServices: Service[]): Service[] | null {
-	// Build a map of new services by id
-	const newServiceMap = new Map(newServices.map((s) => [s.id, s]));
-
 	// Check if the service set has changed
 	const oldIds = new Set(oldServices.map((s) => s.id));
 	const newIds = new Set(newServices.map((s) => s.id));
@@ -38,16 +48,48 @@ export function mergeServices(oldServices: Service[], newServices: Service[]): S
 		return newServices;
 	}
 
-	// Check if any services changed
-	let hasChanges = false;
-	const mergedServices = oldServices.map((oldService) => {
-		const newService = newServiceMap.get(oldService.id);
-		if (newService && hasServiceChanged(oldService, newService)) {
-			hasChanges = true;
-			return newService;
-		}
-		return oldService;
+	// Replace only the services that changed
+	const changed = new Map(diffServices(oldServices, newServices).map(({ current }) => [current.id, current]));
+	if (changed.size === 0) return null;
+	return oldServices.map((oldService) => changed.get(oldService.id) ?? oldService);
+}
+
+/**
+ * Unified diff between the plist on disk and the editor's value
+ */
+export function getPlistEditorDiff(
+	editor: Pick<PlistEditorState, "originalText" | "value" | "plistPath">,
+): string[] {
+	return formatUnifiedDiff(editor.originalText, serializePlistXml(editor.value), {
+		oldLabel: editor.plistPath,
+		newLabel: `${editor.plistPath} (edited)`,
 	});
+}
+
+/**
+ * Append the latest samples to each running service's history
+ * History restarts when a service's PID changes and is dropped for services without a sample
+ */
+export function appendResourceHistory(
+	history: Record<string, ResourceHistory>,
+	services: Service[],
+	samples: Record<number, ProcessSample>,
+	limit: number,
+): Record<string, ResourceHistory> {
+	const next: Record<string, ResourceHistory> = {};
+
+	for (const service of services) {
+		const sample = service.pid !== undefined ? samples[service.pid] : undefined;
+		if (!sample) continue;
+
+		const previous = history[service.id];
+		const kept = previous?.pid === sample.pid ? previous : { pid: sample.pid, cpu: [], rss: [] };
+		next[service.id] = {
+			pid: sample.pid,
+			cpu: [...kept.cpu, sample.cpu].slice(-limit),
+			rss: [...kept.rss, sample.rss].slice(-limit),
+		};
+	}
 
-	return hasChanges ? mergedServices : null;
+	return next;
 }
@@ -2,6 +2,10 @@
  * macOS Service Manager - Type Definitions
  */
 
+import type { CalendarInterval } from "../services/plist";
+import type { PlistDict } from "../services/plist/types";
+import type { TimelineRange } from "../services/timeline";
+
 // Domain types for macOS services
 export type ServiceDomain = "system" | "user" | "gui";
 
@@ -9,13 +13,13 @@ export type ServiceDomain = "system" | "user" | "gui";
 export type ServiceType = "LaunchDaemon" | "LaunchAgent" | "SystemExtension";
 
 // Service status
-export type ServiceStatus = "running" | "stopped" | "disabled" | "error" | "unknown";
+export type ServiceStatus = "running" | "stopped" | "disabled" | "error" | "not-loaded" | "unknown";
 
 // Protection status
 export type ProtectionStatus = "normal" | "sip-protected" | "system-owned" | "immutable";
 
 // Service action types
-export type ServiceAction = "start" | "stop" | "enable" | "disable" | "unload" | "reload";
+export type ServiceAction = "start" | "stop" | "enable" | "disable" | "load" | "unload" | "reload";
 
 // Plist metadata extracted from service plist files
 export interface PlistMetadata {
@@ -28,12 +32,58 @@ export interface PlistMetadata {
 	standardOutPath?: string;
 	standardErrorPath?: string;
 	startInterval?: number;
-	startCalendarInterval?: Record<string, number> | Record<string, number>[];
+	startCalendarInterval?: CalendarInterval | CalendarInterval[];
 	processType?: string;
 	watchPaths?: string[];
 	queueDirectories?: string[];
 	hasSockets?: boolean;
 	hasMachServices?: boolean;
+	/** Entries of the `Sockets` dictionary */
+	sockets?: SocketDeclaration[];
+	/** Entries of the `MachServices` dictionary */
+	machServices?: MachServiceDeclaration[];
+}
+
+// A socket launchd creates for the job, from the plist `Sockets` dictionary
+export interface SocketDeclaration {
+	/** Key in the Sockets dictionary (the name passed to launch_activate_socket) */
+	name: string;
+	/** SockServiceName: a port number or a service name from /etc/services */
+	serviceName?: string;
+	/** SockNodeName: host or address to bind */
+	nodeName?: string;
+	/** SockFamily: IPv4, IPv6, IPv4v6 or Unix */
+	family?: string;
+	/** SockType: stream, dgram or seqpacket */
+	type?: string;
+	/** SockProtocol, e.g. TCP */
+	protocol?: string;
+	/** SockPathName of a Unix domain socket */
+	pathName?: string;
+	/** SockPassive: false for sockets that connect instead of listen */
+	passive?: boolean;
+	/** Bonjour: true to advertise under serviceName, or the service types to advertise */
+	bonjour?: boolean | string[];
+}
+
+// A Mach service the job registers, from the plist `MachServices` dictionary
+export interface MachServiceDeclaration {
+	name: string;
+	hideUntilCheckIn?: boolean;
+	resetAtClose?: boolean;
+}
+
+// Severity of a plist lint finding
+export type PlistLintSeverity = "error" | "warning" | "info";
+
+// Problem found in a service plist
+export interface PlistLintFinding {
+	/** Stable rule identifier, e.g. "program-missing" */
+	rule: string;
+	severity: PlistLintSeverity;
+	/** Plist key the finding is about */
+	key?: string;
+	message: string;
 }
 
 // Core service interface
@@ -55,6 +105,7 @@ export interface Service {
 	isAppleService: boolean;
 	requiresRoot: boolean;
 	plistMetadata?: PlistMetadata;
+	plistLint?: PlistLintFinding[];
 }
 
 // System extension specific info
@@ -70,12 +121,21 @@ export interface FilterOptions {
 	type: ServiceType | "all";
 	domain: ServiceDomain | "all";
 	status: ServiceStatus | "all";
+	/** Whether the job is bootstrapped in launchd ("unloaded" = plist installed but not loaded) */
+	loaded: "all" | "loaded" | "unloaded";
+	/** How the program is signed; needs a code signature scan */
+	signing: SigningFilter;
+	/** Developer team ID the program is signed by */
+	teamId: string | null;
 	showAppleServices: boolean;
 	showProtected: boolean;
 }
 
+// Signing filter: Gatekeeper verdicts for signed programs, otherwise the signature status
+export type SigningFilter = "all" | "apple" | "notarized" | "not-notarized" | "adhoc" | "unsigned";
+
 // Sort options
-export type SortField = "label" | "status" | "type" | "domain" | "pid";
+export type SortField = "label" | "status" | "type" | "domain" | "pid" | "cpu" | "memory" | "uptime";
 export type SortDirection = "asc" | "desc";
 
 export interface SortOptions {
@@ -102,6 +162,8 @@ export interface ActionResult {
 	sipProtected?: boolean;
 	/** Retry information if retries were attempted */
 	retryInfo?: RetryInfo;
+	/** Why the TUI could not record this result in the audit log */
+	auditError?: string;
 }
 
 // Auto-refresh configuration
@@ -110,6 +172,27 @@ export interface AutoRefreshConfig {
 	intervalMs: number; // Interval in milliseconds
 }
 
+// Which actions ask for confirmation ("destructive" = stop, reload, disable, unload and restarting a running service)
+export type ConfirmPolicy = "always" | "destructive" | "never";
+
+// User settings from config.json, with defaults for everything not set there
+export interface AppConfig {
+	filter: FilterOptions;
+	sort: SortOptions;
+	autoRefresh: {
+		enabled: boolean;
+		/** Interval while the user is active */
+		activeIntervalMs: number;
+		/** Interval after a minute without input */
+		idleIntervalMs: number;
+	};
+	/** Consecutive failed refreshes before entering offline mode */
+	offlineThreshold: number;
+	/** Editor command for `E`; null falls back to $VISUAL, $EDITOR, then nano */
+	editor: string | null;
+	confirm: ConfirmPolicy;
+}
+
 // Offline mode state
 export interface OfflineState {
 	isOffline: boolean;
@@ -119,6 +202,447 @@ export interface OfflineState {
 	lastError: string | null;
 }
 
+// Parsed `launchctl print <domain>/<label>` output
+export interface ServiceInspection {
+	/** Top-level `key = value` fields, keyed by normalizePrintKey() */
+	fields: Record<string, string>;
+	state?: string;
+	pid?: number;
+	/** Times launchd has started the job */
+	runs?: number;
+	spawnType?: string;
+	/** e.g. "78: EX_CONFIG" or "(never exited)" */
+	lastExitCode?: string;
+	lastExitReason?: string;
+	lastTerminatingSignal?: string;
+	immediateReason?: string;
+	/** Mach service and socket endpoint names */
+	endpoints: string[];
+	/** Flags such as "inefficient" or "needs LWCR update" */
+	properties: string[];
+	/** Unparsed command output */
+	raw: string;
+}
+
+// Details panel inspection of the selected service
+export interface InspectionViewerState {
+	serviceId: string | null;
+	data: ServiceInspection | null;
+	loading: boolean;
+	error: string | null;
+	/** Whether the raw `launchctl print` output is expanded */
+	showRaw: boolean;
+	/** First raw output line shown */
+	rawScroll: number;
+}
+
+// Resource usage of one process, sampled with `ps`
+export interface ProcessSample {
+	pid: number;
+	/** CPU usage in percent of one core (can exceed 100 for multi-threaded processes) */
+	cpu: number;
+	/** Resident set size in KiB */
+	rss: number;
+	/** Seconds since the process started */
+	uptime: number;
+	/** Number of threads (missing when `ps -M` did not list the process) */
+	threads?: number;
+}
+
+// Recent samples of a service's process, oldest first
+export interface ResourceHistory {
+	/** Process the samples belong to; history restarts when the PID changes */
+	pid: number;
+	cpu: number[];
+	rss: number[];
+}
+
+// Resource monitor for running services
+export interface ResourceMonitorState {
+	/** Latest sample per PID */
+	samples: Record<number, ProcessSample>;
+	/** Sample history per service ID */
+	history: Record<string, ResourceHistory>;
+}
+
+// One process from `ps -axo pid=,ppid=,uid=,command=`
+export interface ProcessInfo {
+	pid: number;
+	ppid: number;
+	uid: number;
+	/** Full command line */
+	command: string;
+}
+
+// A process and its descendants
+export interface ProcessNode extends ProcessInfo {
+	children: ProcessNode[];
+}
+
+// Signals that can be sent from the process tree
+export type ProcessSignal = "TERM" | "KILL";
+
+// A signal waiting for confirmation (or a password) in the process tree, with the process as the tree saw it
+export interface ProcessSignalRequest extends ProcessInfo {
+	signal: ProcessSignal;
+}
+
+// Process tree of the selected service in the details panel
+export interface ProcessTreeState {
+	serviceId: string | null;
+	root: ProcessNode | null;
+	/** PIDs whose children are hidden */
+	collapsed: Record<number, boolean>;
+	/** Selected row among the visible rows */
+	cursor: number;
+	loading: boolean;
+	error: string | null;
+	pendingSignal: ProcessSignalRequest | null;
+}
+
+// A socket held by a process, from `lsof -F`
+export interface OpenSocket {
+	pid: number;
+	/** File descriptor number */
+	fd: string;
+	/** IPv4, IPv6 or unix */
+	family: string;
+	/** TCP or UDP; absent for Unix sockets */
+	protocol?: string;
+	/** Local address ("*" for any), or the path of a Unix socket */
+	address: string;
+	/** Local port; absent for Unix sockets and unbound UDP sockets */
+	port?: number;
+	/** Remote end of a connected socket */
+	remote?: string;
+	/** TCP state, e.g. LISTEN or ESTABLISHED */
+	state?: string;
+}
+
+// Sockets held by the selected service's processes in the details panel
+export interface EndpointViewerState {
+	serviceId: string | null;
+	sockets: OpenSocket[];
+	loading: boolean;
+	error: string | null;
+}
+
+// A service found by a reverse lookup, and what matched
+export interface LookupMatch {
+	serviceId: string;
+	label: string;
+	/** e.g. "ProgramArguments" or "TCP *:5432 (PID 812)" */
+	reason: string;
+}
+
+// Reverse lookup (`:port`, `:pid`, `:path`) typed into the search bar
+export interface LookupState {
+	/** Query the matches belong to */
+	query: string;
+	matches: LookupMatch[];
+	/** Match the selection jumped to */
+	index: number;
+	loading: boolean;
+	error: string | null;
+}
+
+// A service as seen by two successive refreshes
+export interface ServiceChange {
+	previous: Service;
+	current: Service;
+}
+
+// What happened to a service between two refreshes
+export type ServiceEventKind = "started" | "exited" | "restarted" | "crashed" | "flapping";
+
+// Crash and flapping badges shown in the service list
+export type ServiceAlert = Extract<ServiceEventKind, "crashed" | "flapping">;
+
+export interface ServiceEvent {
+	/** Epoch milliseconds of the refresh that noticed the change */
+	time: number;
+	serviceId: string;
+	label: string;
+	kind: ServiceEventKind;
+	/** e.g. "Restarted as PID 812 after SIGSEGV" */
+	message: string;
+	pid?: number;
+	exitStatus?: number;
+}
+
+// Crash and flapping detection across refreshes
+export interface ServiceHealthState {
+	/** Events, newest first */
+	events: ServiceEvent[];
+	/** Service ID -> times a new PID was seen, within the flapping window */
+	restarts: Record<string, number[]>;
+	/** Service ID -> worst alert since the events were last cleared */
+	alerts: Record<string, ServiceAlert>;
+	/** Send a desktop notification for crashes and flapping */
+	notify: boolean;
+	/** Index into events in the events panel */
+	selectedIndex: number;
+}
+
+// What a service history entry records
+export type ServiceHistoryKind = "status" | "pid" | "exit" | "action";
+
+// One line of a service's own history, as stored in service-history.jsonl
+export interface ServiceHistoryEntry {
+	/** Epoch milliseconds */
+	time: number;
+	serviceId: string;
+	kind: ServiceHistoryKind;
+	/** e.g. "running → stopped" or "stop: Service stopped" */
+	message: string;
+	/** A crash, flapping or a failed action */
+	failed?: boolean;
+}
+
+// Service ID -> history entries, newest first
+export type ServiceHistory = Record<string, ServiceHistoryEntry[]>;
+
+// Per-service history shown in the details panel
+export interface ServiceHistoryState {
+	entries: ServiceHistory;
+	/** Whether the saved history has been read */
+	loaded: boolean;
+	error: string | null;
+	/** Service whose history is scrolled */
+	serviceId: string | null;
+	/** Entries scrolled past */
+	scroll: number;
+}
+
+// A service as saved in an inventory snapshot
+export interface SnapshotService extends Service {
+	/** Plist contents as canonical XML, when the plist could be read */
+	plist?: string;
+}
+
+// Saved inventory of every service, as written by `msm snapshot`
+export interface ServiceSnapshot {
+	/** Format version, see SNAPSHOT_VERSION */
+	version: number;
+	/** ISO 8601 timestamp */
+	createdAt: string;
+	hostname: string;
+	services: SnapshotService[];
+}
+
+// An added or removed service in a snapshot diff
+export interface SnapshotServiceSummary {
+	id: string;
+	label: string;
+	type: ServiceType;
+	domain: ServiceDomain;
+	enabled: boolean;
+	plistPath?: string;
+	/** Program or first program argument */
+	program?: string;
+}
+
+export interface SnapshotFieldChange {
+	field: string;
+	before: string;
+	after: string;
+}
+
+// A service present in both snapshots that changed
+export interface SnapshotServiceChange {
+	id: string;
+	label: string;
+	fields: SnapshotFieldChange[];
+	/** Unified diff of the plist contents; empty when unchanged or unreadable */
+	plistDiff: string[];
+}
+
+export interface SnapshotDiff {
+	before: Pick<ServiceSnapshot, "createdAt" | "hostname">;
+	after: Pick<ServiceSnapshot, "createdAt" | "hostname">;
+	added: SnapshotServiceSummary[];
+	removed: SnapshotServiceSummary[];
+	changed: SnapshotServiceChange[];
+}
+
+// Snapshot diff panel: a saved snapshot against the live system or another saved snapshot
+export interface SnapshotViewerState {
+	/** Saved snapshot paths, newest first */
+	paths: string[];
+	/** Index into paths of the snapshot being compared */
+	pathIndex: number;
+	/** Index into paths of the snapshot it is compared with, or null for the live system */
+	targetIndex: number | null;
+	/** The live system, captured once while the panel is open */
+	live: ServiceSnapshot | null;
+	diff: SnapshotDiff | null;
+	loading: boolean;
+	/** Saving a snapshot of the live system */
+	saving: boolean;
+	error: string | null;
+	/** e.g. "Saved ~/.config/.../snapshot-20240110-120000.json" */
+	message: string | null;
+	/** Index into the diff lines */
+	selectedIndex: number;
+	/** Bumped to compare again after a save */
+	revision: number;
+}
+
+// How an executable is code signed, from `codesign -dvvv`
+export type CodeSignatureStatus = "signed" | "adhoc" | "unsigned" | "unknown";
+
+// Gatekeeper's verdict on a signed executable, from `spctl --assess`
+// "developer-id" is accepted but not notarized (signed before notarization was required)
+export type NotarizationStatus = "apple" | "app-store" | "notarized" | "developer-id" | "rejected";
+
+export interface CodeSignature {
+	status: CodeSignatureStatus;
+	/** Signing identifier, e.g. "com.docker.vmnetd" */
+	identifier?: string;
+	/** Developer team ID; unset for ad-hoc and Apple platform binaries */
+	teamId?: string;
+	/** Certificate chain, leaf first, e.g. "Developer ID Application: Docker Inc (9BNSXJN65R)" */
+	authorities?: string[];
+	/** Signed with the hardened runtime (CodeDirectory flag "runtime") */
+	hardenedRuntime?: boolean;
+	/** Unset when Gatekeeper was not asked or gave no verdict */
+	notarization?: NotarizationStatus;
+	/** spctl's reason, e.g. "Notarized Developer ID" or "no usable signature" */
+	gatekeeperSource?: string;
+	/** Why the signature could not be read (status "unknown") */
+	error?: string;
+}
+
+// Code signatures of service programs, read for the selected service or scanned for the signing filters
+export interface CodeSignatureState {
+	/** Service ID -> signature; null when the service has no program to check */
+	byService: Record<string, CodeSignature | null>;
+	/** Scan of every service in progress */
+	loading: boolean;
+	error: string | null;
+}
+
+// Risk signals checked by the persistence audit
+export type PersistenceSignal =
+	| "temp-location"
+	| "user-writable"
+	| "hidden-path"
+	| "program-missing"
+	| "unsigned"
+	| "adhoc-signed"
+	| "interpreter-one-liner"
+	| "keepalive-unknown-vendor"
+	| "world-writable-plist";
+
+export type PersistenceRisk = "high" | "medium" | "low" | "none";
+
+export interface PersistenceFinding {
+	signal: PersistenceSignal;
+	/** Points added to the service's score */
+	score: number;
+	message: string;
+}
+
+// Persistence audit result for one service
+export interface PersistenceAssessment {
+	serviceId: string;
+	label: string;
+	type: ServiceType;
+	domain: ServiceDomain;
+	plistPath?: string;
+	/** Program or ProgramArguments[0] */
+	program?: string;
+	signature?: CodeSignature;
+	score: number;
+	risk: PersistenceRisk;
+	findings: PersistenceFinding[];
+}
+
+// Exported persistence audit (JSON report)
+export interface PersistenceAuditReport {
+	/** ISO 8601 timestamp of the audit */
+	createdAt: string;
+	hostname: string;
+	/** Services per risk level */
+	summary: Record<PersistenceRisk, number>;
+	services: PersistenceAssessment[];
+}
+
+// Persistence audit panel
+export interface PersistenceAuditState {
+	/** Non-Apple services, highest score first */
+	assessments: PersistenceAssessment[];
+	/** When the audit ran */
+	auditedAt: number | null;
+	/** Index into assessments */
+	selectedIndex: number;
+	loading: boolean;
+	/** Writing an export */
+	exporting: boolean;
+	error: string | null;
+	/** e.g. "Exported ~/.config/.../persistence-audit-20240110-120000.md" */
+	message: string | null;
+}
+
+// Service list export
+export type InventoryFormat = "csv" | "json" | "markdown";
+
+// One exported service: the list columns plus plist metadata
+export interface InventoryService {
+	label: string;
+	name: string;
+	status: ServiceStatus;
+	type: ServiceType;
+	domain: ServiceDomain;
+	protection: ProtectionStatus;
+	enabled: boolean;
+	alert?: ServiceAlert;
+	pid?: number;
+	/** Latest `ps` sample: CPU in percent of one core */
+	cpu?: number;
+	/** Latest `ps` sample: resident memory in KiB */
+	memory?: number;
+	/** Latest `ps` sample: number of threads */
+	threads?: number;
+	/** Latest `ps` sample: seconds since the process started */
+	uptime?: number;
+	exitStatus?: number;
+	plistPath?: string;
+	program?: string;
+	programArguments?: string[];
+	runAtLoad?: boolean;
+	keepAlive?: boolean | Record<string, unknown>;
+	/** StartInterval or StartCalendarInterval in words */
+	schedule?: string;
+	standardOutPath?: string;
+	standardErrorPath?: string;
+}
+
+// Exported service list (JSON), with the filters it was taken with
+export interface ServiceInventory {
+	/** ISO 8601 timestamp of the export */
+	createdAt: string;
+	hostname: string;
+	filter: FilterOptions;
+	sort: SortOptions;
+	/** Fuzzy search the list was narrowed by ("" for none) */
+	search: string;
+	services: InventoryService[];
+}
+
+// Full-screen timeline of scheduled jobs
+export interface ScheduleTimelineState {
+	/** Services with a schedule, with plist metadata, by next run */
+	services: Service[];
+	range: TimelineRange;
+	/** Index into services */
+	selectedIndex: number;
+	/** When the services were loaded; runs are counted from here */
+	loadedAt: number | null;
+	loading: boolean;
+	error: string | null;
+}
+
 // Service metadata loading state
 export interface ServiceMetadataState {
 	loading: boolean;
@@ -134,7 +658,7 @@ export interface AppState {
 	searchQuery: string;
 	filter: FilterOptions;
 	sort: SortOptions;
-	focusedPanel: "list" | "details" | "search" | "help";
+	focusedPanel: "list" | "details" | "search" | "help" | "logs" | "output";
 	showHelp: boolean;
 	showConfirm: boolean;
 	showFilters: boolean; // Whether the filter bar is visible
@@ -142,6 +666,7 @@ export interface AppState {
 	lastActionResult: ActionResult | null;
 	executingAction: boolean; // True while an action is being executed
 	autoRefresh: AutoRefreshConfig; // Auto-refresh settings
+	config: AppConfig; // Settings loaded from config.json at startup
 	dryRun: boolean; // When true, show commands without executing them
 	dryRunCommand: string | null; // The command that would be executed in dry-run mode
 	offline: OfflineState; // Offline mode state
@@ -149,17 +674,201 @@ export interface AppState {
 	serviceMetadata: Record<string, Partial<Service>>;
 	// Metadata loading states: service ID -> loading state
 	metadataLoading: Record<string, ServiceMetadataState>;
+	// `launchctl print` inspection of the selected service
+	inspection: InspectionViewerState;
+	resources: ResourceMonitorState;
+	showProcessTree: boolean;
+	processTree: ProcessTreeState;
+	// Sockets held by the selected service's processes
+	endpoints: EndpointViewerState;
+	// Code signatures of service programs
+	signatures: CodeSignatureState;
+	// Reverse lookup from the search bar
+	lookup: LookupState;
 	// Password dialog state
 	showPasswordDialog: boolean;
 	passwordDialogError: string | null;
 	pendingPrivilegedAction: PendingPrivilegedAction | null;
 	passwordInput: string;
+	// Log viewer panel
+	showLogs: boolean;
+	logs: LogViewerState;
+	// StandardOutPath / StandardErrorPath viewer panel
+	showOutput: boolean;
+	output: OutputViewerState;
+	// Multi-select: service ID -> marked
+	markedServiceIds: Record<string, true>;
+	// Batch action progress and results (null when no batch is shown)
+	batch: BatchActionState | null;
+	// Action history panel
+	showHistory: boolean;
+	history: HistoryViewerState;
+	// Crash and flapping detection
+	showEvents: boolean;
+	health: ServiceHealthState;
+	// Per-service history in the details panel
+	showServiceHistory: boolean;
+	serviceHistory: ServiceHistoryState;
+	// Inventory snapshot diff
+	showSnapshots: boolean;
+	snapshots: SnapshotViewerState;
+	// Persistence audit of third-party services
+	showAudit: boolean;
+	audit: PersistenceAuditState;
+	// Export prompt for the listed services
+	showExport: boolean;
+	exportingServices: boolean;
+	// Scheduled-jobs timeline
+	showTimeline: boolean;
+	timeline: ScheduleTimelineState;
+	// Create-service wizard (null when closed)
+	wizard: ServiceWizardState | null;
+	// Structured plist editor (null when closed)
+	plistEditor: PlistEditorState | null;
+}
+
+// Where an audited action was started from
+export type AuditSource = "tui" | "cli";
+
+// Actions recorded in the audit log
+export type AuditAction = ServiceAction | "create" | "edit" | "signal";
+
+// One line of the JSON Lines audit log
+export interface AuditRecord {
+	/** ISO 8601 timestamp */
+	timestamp: string;
+	/** Login name of the person who ran the action (SUDO_USER when run under sudo) */
+	user: string;
+	source: AuditSource;
+	action: AuditAction;
+	serviceId: string;
+	label: string;
+	domain: ServiceDomain;
+	/** Exact command line, including the sudo prefix when escalated */
+	command: string;
+	sudo: boolean;
+	dryRun: boolean;
+	success: boolean;
+	message: string;
+	error?: string;
+	/** Attempts made (1 = no retries) */
+	attempts: number;
+}
+
+// History panel state
+export interface HistoryViewerState {
+	/** Records, newest first */
+	records: AuditRecord[];
+	loading: boolean;
+	error: string | null;
+	/** Index into the filtered records */
+	selectedIndex: number;
+	filterQuery: string;
+	filterEditing: boolean;
+}
+
+// Where a new service's plist is installed
+export type NewServiceScope = "userAgent" | "systemAgent" | "systemDaemon";
+
+// How a new service is started on a schedule
+export type NewServiceSchedule = "none" | "interval" | "calendar";
+
+// Raw form values of the create-service wizard
+export interface ServiceWizardValues {
+	scope: NewServiceScope;
+	label: string;
+	/** Program and arguments as a shell-style command line */
+	command: string;
+	runAtLoad: boolean;
+	keepAlive: boolean;
+	schedule: NewServiceSchedule;
+	/** Seconds for "interval", "Key=value" pairs (e.g. "Hour=9 Minute=30") for "calendar" */
+	scheduleValue: string;
+	standardOutPath: string;
+	standardErrorPath: string;
+	/** Space-separated KEY=value pairs */
+	environment: string;
+	/** Load the service with `launchctl bootstrap` after writing the plist */
+	bootstrap: boolean;
+}
+
+// Create-service wizard state
+export interface ServiceWizardState {
+	step: number;
+	/** Focused field within the step */
+	field: number;
+	values: ServiceWizardValues;
+	errors: Partial<Record<keyof ServiceWizardValues, string>>;
+	submitting: boolean;
+	/** Error from writing or bootstrapping the plist */
+	error: string | null;
+}
+
+// Location of a value inside a plist: dictionary keys and array indices
+export type PlistKeyPath = Array<string | number>;
+
+// Text being typed in the plist editor
+export interface PlistEditorInput {
+	/** "key" names a new dictionary entry, "value" edits a scalar */
+	kind: "key" | "value";
+	/** Value being edited, or the dictionary that receives the new key */
+	target: PlistKeyPath;
+	buffer: string;
+	error: string | null;
+}
+
+// Structured plist editor state
+export interface PlistEditorState {
+	serviceId: string;
+	label: string;
+	plistPath: string;
+	/** Protected plists can be browsed but not changed */
+	readOnly: boolean;
+	/** Format on disk; saving keeps it */
+	format: "xml" | "binary";
+	/** Current file contents as XML, the left side of the diff */
+	originalText: string;
+	value: PlistDict;
+	/** Containers whose children are shown, keyed by `plistPathKey` */
+	expanded: Record<string, true>;
+	/** Index into the visible tree rows */
+	cursor: number;
+	input: PlistEditorInput | null;
+	/** "diff" is the review step before saving */
+	view: "tree" | "diff";
+	diffScroll: number;
+	/** Value differs from the file on disk */
+	dirty: boolean;
+	/** Bootout and bootstrap the service after saving */
+	reload: boolean;
+	saving: boolean;
+	/** Esc was pressed once with unsaved changes */
+	confirmDiscard: boolean;
+	error: string | null;
+}
+
+// Outcome of one service in a batch action
+export interface BatchItemResult {
+	serviceId: string;
+	label: string;
+	result: ActionResult & { command?: string };
+}
+
+// Batch action progress and results
+export interface BatchActionState {
+	action: ServiceAction;
+	dryRun: boolean;
+	/** One slot per target, in target order; null while pending */
+	results: Array<BatchItemResult | null>;
+	running: boolean;
 }
 
 // Pending privileged action (waiting for password)
 export interface PendingPrivilegedAction {
-	action: ServiceAction;
+	action: ServiceAction | "signal";
 	service: Service;
+	/** Process and signal for the "signal" action */
+	signal?: ProcessSignalRequest;
 }
 
 // Match metadata for fuzzy search highlighting
@@ -171,3 +880,67 @@ export interface ServiceMatchInfo {
 	/** Indices of matched characters in the matched field */
 	matchedIndices: number[];
 }
+
+// Unified log message types (as reported by `log show`/`log stream`)
+export type LogLevel = "debug" | "info" | "default" | "error" | "fault";
+
+// Minimum level shown in the log viewer
+export type LogLevelFilter = "debug" | "info" | "default" | "error";
+
+// A single unified log entry
+export interface LogEntry {
+	/** Timestamp as printed by `log` (local time) */
+	timestamp: string;
+	level: LogLevel;
+	/** Process name (basename of the process image path) */
+	process: string;
+	pid?: number;
+	subsystem?: string;
+	category?: string;
+	message: string;
+}
+
+// Log viewer state for the selected service
+export interface LogViewerState {
+	/** Service the buffer belongs to */
+	serviceId: string | null;
+	/** Scrollback buffer, oldest first */
+	entries: LogEntry[];
+	level: LogLevelFilter;
+	/** Live tail via `log stream` */
+	follow: boolean;
+	/** Lines scrolled up from the newest entry (0 = tail) */
+	scrollOffset: number;
+	loading: boolean;
+	error: string | null;
+}
+
+// Reasons an output buffer was replaced
+export type FileChangeNotice = "truncated" | "rotated";
+
+// Output streams configured in a service plist
+export type OutputStream = "stdout" | "stderr";
+
+// Buffer for one tailed output file
+export interface OutputBuffer {
+	path: string | null;
+	lines: string[];
+	/** Last truncation/rotation notice */
+	notice: string | null;
+	error: string | null;
+}
+
+// StandardOutPath / StandardErrorPath viewer state
+export interface OutputViewerState {
+	/** Service the buffers belong to */
+	serviceId: string | null;
+	tab: OutputStream;
+	buffers: Record<OutputStream, OutputBuffer>;
+	/** Lines scrolled up from the last line (0 = follow) */
+	scrollOffset: number;
+	/** Search input is being edited */
+	searchEditing: boolean;
+	searchQuery: string;
+	/** Index of the focused match within the active buffer */
+	matchLine: number | null;
+}
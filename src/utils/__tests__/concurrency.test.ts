@@ -0,0 +1,48 @@
+/**
+ * Tests for bounded concurrency helpers
+ */
+
+import { describe, expect, test } from "bun:test";
+import { mapWithConcurrency } from "../concurrency";
+
+describe("mapWithConcurrency", () => {
+	test("keeps input order regardless of completion order", async () => {
+		const delays = [30, 5, 20, 1];
+		const results = await mapWithConcurrency(delays, 2, async (ms, i) => {
+			await Bun.sleep(ms);
+			return i;
+		});
+		expect(results).toEqual([0, 1, 2, 3]);
+	});
+
+	test("never exceeds the concurrency limit", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+			inFlight++;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await Bun.sleep(2);
+			inFlight--;
+		});
+		expect(maxInFlight).toBe(3);
+	});
+
+	test("reports each result as it completes", async () => {
+		const seen: Array<[string, number]> = [];
+		await mapWithConcurrency(
+			["a", "b", "c"],
+			1,
+			async (item) => item.toUpperCase(),
+			(result, index) => seen.push([result, index]),
+		);
+		expect(seen).toEqual([
+			["A", 0],
+			["B", 1],
+			["C", 2],
+		]);
+	});
+
+	test("handles an empty list", async () => {
+		expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+	});
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the line diff
+ */
+
+import { describe, expect, test } from "bun:test";
+import { diffLines, formatUnifiedDiff } from "../diff";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("diffLines", () => {
+	test("marks identical texts as context", () => {
+		expect(diffLines("a\nb\n", "a\nb\n")).toEqual([
+			{ type: "context", text: "a" },
+			{ type: "context", text: "b" },
+		]);
+	});
+
+	test("lists removals before additions for a replaced line", () => {
+		expect(diffLines("a\nb\nc\n", "a\nB\nc\n")).toEqual([
+			{ type: "context", text: "a" },
+			{ type: "remove", text: "b" },
+			{ type: "add", text: "B" },
+			{ type: "context", text: "c" },
+		]);
+	});
+
+	test("handles empty texts", () => {
+		expect(diffLines("", "x\n")).toEqual([{ type: "add", text: "x" }]);
+		expect(diffLines("x\n", "")).toEqual([{ type: "remove", text: "x" }]);
+	});
+
+	test("keeps the longest common subsequence", () => {
+		const types = diffLines("a\nx\nb\ny\nc", "a\nb\nc\nz").map((line) => `${line.type[0]}${line.text}`);
+		expect(types).toEqual(["ca", "rx", "cb", "ry", "cc", "az"]);
+	});
+});
+
+describe("formatUnifiedDiff", () => {
+	test("returns nothing for identical texts", () => {
+		expect(formatUnifiedDiff("same\n", "same\n")).toEqual([]);
+	});
+
+	test("writes headers and a hunk with context", () => {
+		const before = lines(10).join("\n");
+		const after = lines(10)
+			.map((line) => (line === "line 5" ? "line five" : line))
+			.join("\n");
+		expect(formatUnifiedDiff(before, after, { oldLabel: "old", newLabel: "new" })).toEqual([
+			"--- old",
+			"+++ new",
+			"@@ -2,7 +2,7 @@",
+			" line 2",
+			" line 3",
+			" line 4",
+			"-line 5",
+			"+line five",
+			" line 6",
+			" line 7",
+			" line 8",
+		]);
+	});
+
+	test("splits distant changes into separate hunks", () => {
+		const before = lines(20);
+		const after = [...before];
+		after[1] = "changed 2";
+		after[17] = "changed 18";
+		const hunks = formatUnifiedDiff(before.join("\n"), after.join("\n")).filter((line) =>
+			line.startsWith("@@"),
+		);
+		expect(hunks).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+	});
+
+	test("merges nearby changes into one hunk", () => {
+		const before = lines(12);
+		const after = [...before];
+		after[2] = "x";
+		after[7] = "y";
+		const hunks = formatUnifiedDiff(before.join("\n"), after.join("\n"), { context: 3 }).filter((line) =>
+			line.startsWith("@@"),
+		);
+		expect(hunks).toEqual(["@@ -1,11 +1,11 @@"]);
+	});
+
+	test("numbers pure insertions", () => {
+		expect(formatUnifiedDiff("a\nb\n", "a\nb\nc\n", { context: 1 })).toEqual([
+			"--- a",
+			"+++ b",
+			"@@ -2,1 +2,2 @@",
+			" b",
+			"+c",
+		]);
+	});
+});
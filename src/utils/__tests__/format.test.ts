@@ -0,0 +1,94 @@
+/**
+ * Tests for resource usage formatting
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	formatCpu,
+	formatFireTime,
+	formatMemory,
+	formatRelativeTime,
+	formatUptime,
+	markdownCell,
+	sparkline,
+} from "../format";
+
+describe("formatCpu", () => {
+	test("keeps one decimal below 100%", () => {
+		expect(formatCpu(0)).toBe("0.0%");
+		expect(formatCpu(37.54)).toBe("37.5%");
+		expect(formatCpu(112.3)).toBe("112%");
+	});
+});
+
+describe("formatMemory", () => {
+	test("picks a unit from KiB", () => {
+		expect(formatMemory(812)).toBe("812K");
+		expect(formatMemory(14_541)).toBe("14.2M");
+		expect(formatMemory(412_880)).toBe("403M");
+		expect(formatMemory(1_363_149)).toBe("1.3G");
+	});
+});
+
+describe("formatUptime", () => {
+	test("shows the two largest units", () => {
+		expect(formatUptime(42)).toBe("42s");
+		expect(formatUptime(312)).toBe("5m12s");
+		expect(formatUptime(11_045)).toBe("3h04m");
+		expect(formatUptime(12 * 86_400 + 7 * 3_600)).toBe("12d07h");
+	});
+
+	test("clamps negative values", () => {
+		expect(formatUptime(-5)).toBe("0s");
+	});
+});
+
+describe("sparkline", () => {
+	test("scales to the largest value", () => {
+		expect(sparkline([0, 1, 2, 4, 7])).toBe("▁▂▃▅█");
+	});
+
+	test("uses a fixed maximum and clamps", () => {
+		expect(sparkline([0, 50, 100, 150], 100)).toBe("▁▅██");
+	});
+
+	test("draws flat lines for all-zero and empty input", () => {
+		expect(sparkline([0, 0])).toBe("▁▁");
+		expect(sparkline([])).toBe("");
+	});
+});
+
+describe("formatFireTime", () => {
+	const now = new Date(2024, 0, 10, 12, 0);
+
+	test("names today and tomorrow", () => {
+		expect(formatFireTime(new Date(2024, 0, 10, 18, 5), now)).toBe("Today 18:05");
+		expect(formatFireTime(new Date(2024, 0, 11, 9, 30), now)).toBe("Tomorrow 09:30");
+	});
+
+	test("spells out later dates, with the year when over a year away", () => {
+		expect(formatFireTime(new Date(2024, 0, 15, 0, 0), now)).toBe("Mon 15 Jan 00:00");
+		expect(formatFireTime(new Date(2028, 1, 29, 0, 0), now)).toBe("Tue 29 Feb 2028 00:00");
+	});
+});
+
+describe("formatRelativeTime", () => {
+	const now = new Date(2024, 0, 10, 12, 0);
+
+	test("uses the largest whole unit", () => {
+		expect(formatRelativeTime(new Date(2024, 0, 10, 11, 59, 18), now)).toBe("42s ago");
+		expect(formatRelativeTime(new Date(2024, 0, 10, 11, 55), now)).toBe("5m ago");
+		expect(formatRelativeTime(new Date(2024, 0, 10, 9, 0), now)).toBe("3h ago");
+		expect(formatRelativeTime(new Date(2023, 11, 29, 12, 0), now)).toBe("12d ago");
+	});
+
+	test("treats future times as now", () => {
+		expect(formatRelativeTime(new Date(2024, 0, 10, 12, 5), now)).toBe("0s ago");
+	});
+});
+
+describe("markdownCell", () => {
+	test("escapes pipes and joins lines", () => {
+		expect(markdownCell("a|b\n  c")).toBe("a\\|b c");
+	});
+});
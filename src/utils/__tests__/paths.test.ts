@@ -0,0 +1,30 @@
+/**
+ * Tests for per-user file locations
+ */
+
+import { describe, expect, test } from "bun:test";
+import { getConfigDir, timestampedFileName } from "../paths";
+
+describe("getConfigDir", () => {
+	test("uses XDG_CONFIG_HOME when set", () => {
+		expect(getConfigDir({ XDG_CONFIG_HOME: "/xdg", HOME: "/home/alice" })).toBe("/xdg/macos-service-manager");
+	});
+
+	test("falls back to ~/.config", () => {
+		expect(getConfigDir({ HOME: "/home/alice" })).toBe("/home/alice/.config/macos-service-manager");
+	});
+
+	test("ignores an empty XDG_CONFIG_HOME", () => {
+		expect(getConfigDir({ XDG_CONFIG_HOME: "", HOME: "/home/alice" })).toBe(
+			"/home/alice/.config/macos-service-manager",
+		);
+	});
+});
+
+describe("timestampedFileName", () => {
+	test("uses the local date and time", () => {
+		const date = new Date(2024, 0, 5, 9, 3, 7);
+		expect(timestampedFileName("snapshot", date, "json")).toBe("snapshot-20240105-090307.json");
+		expect(timestampedFileName("persistence-audit", date, "md")).toBe("persistence-audit-20240105-090307.md");
+	});
+});
@@ -0,0 +1,30 @@
+/**
+ * Bounded concurrency helpers
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results keep the input order; `onResult` fires as each item completes
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+	onResult?: (result: R, index: number) => void,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			const result = await fn(items[index] as T, index);
+			results[index] = result;
+			onResult?.(result, index);
+		}
+	};
+
+	const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+	await Promise.all(workers);
+	return results;
+}
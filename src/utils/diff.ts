@@ -0,0 +1,142 @@
+/**
+ * Line-based unified diff
+ */
+
+export interface DiffLine {
+	type: "context" | "add" | "remove";
+	text: string;
+}
+
+export interface UnifiedDiffOptions {
+	oldLabel?: string;
+	newLabel?: string;
+	/** Unchanged lines shown around each change (default 3) */
+	context?: number;
+}
+
+function splitLines(text: string): string[] {
+	if (text === "") return [];
+	const lines = text.split("\n");
+	// A trailing newline does not start another line
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+/**
+ * Compute a line diff using the longest common subsequence
+ * Common leading and trailing lines are stripped first so typical small edits stay cheap
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	// lcs[i * cols + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+	const rows = endA - start + 1;
+	const cols = endB - start + 1;
+	const lcs = new Uint32Array(rows * cols);
+	for (let i = rows - 2; i >= 0; i--) {
+		for (let j = cols - 2; j >= 0; j--) {
+			lcs[i * cols + j] =
+				a[start + i] === b[start + j]
+					? (lcs[(i + 1) * cols + j + 1] ?? 0) + 1
+					: Math.max(lcs[(i + 1) * cols + j] ?? 0, lcs[i * cols + j + 1] ?? 0);
+		}
+	}
+
+	const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: "context", text }));
+	let i = 0;
+	let j = 0;
+	while (i < rows - 1 || j < cols - 1) {
+		const lineA = a[start + i] as string;
+		const lineB = b[start + j] as string;
+		if (i < rows - 1 && j < cols - 1 && lineA === lineB) {
+			result.push({ type: "context", text: lineA });
+			i++;
+			j++;
+		} else if (
+			i < rows - 1 &&
+			(j === cols - 1 || (lcs[(i + 1) * cols + j] ?? 0) >= (lcs[i * cols + j + 1] ?? 0))
+		) {
+			// Prefer removals so a replaced block reads as "-old" then "+new"
+			result.push({ type: "remove", text: lineA });
+			i++;
+		} else {
+			result.push({ type: "add", text: lineB });
+			j++;
+		}
+	}
+	for (const text of a.slice(endA)) result.push({ type: "context", text });
+
+	return result;
+}
+
+/**
+ * Format a unified diff (`---`/`+++` header and `@@` hunks)
+ * Returns an empty array when the texts are identical
+ */
+export function formatUnifiedDiff(
+	oldText: string,
+	newText: string,
+	options: UnifiedDiffOptions = {},
+): string[] {
+	const { oldLabel = "a", newLabel = "b", context = 3 } = options;
+	const lines = diffLines(oldText, newText);
+	if (lines.every((line) => line.type === "context")) return [];
+
+	const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+	let index = 0;
+	// Line numbers (1-based) of lines[index] in the old and new text
+	let oldLine = 1;
+	let newLine = 1;
+
+	while (index < lines.length) {
+		// Find the next change
+		let firstChange = index;
+		while (firstChange < lines.length && lines[firstChange]?.type === "context") firstChange++;
+		if (firstChange === lines.length) break;
+
+		// Extend the hunk while changes are within 2 * context of each other
+		let end = firstChange;
+		let lastChange = firstChange;
+		while (end < lines.length) {
+			if (lines[end]?.type !== "context") {
+				lastChange = end;
+			} else if (end - lastChange > context * 2) {
+				break;
+			}
+			end++;
+		}
+
+		const hunkStart = Math.max(index, firstChange - context);
+		const hunkEnd = Math.min(lines.length, lastChange + context + 1);
+
+		// Lines skipped before the hunk are all unchanged
+		oldLine += hunkStart - index;
+		newLine += hunkStart - index;
+
+		const hunk = lines.slice(hunkStart, hunkEnd);
+		const oldCount = hunk.filter((line) => line.type !== "add").length;
+		const newCount = hunk.filter((line) => line.type !== "remove").length;
+		output.push(
+			`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+		);
+		for (const line of hunk) {
+			output.push(`${line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}${line.text}`);
+		}
+
+		oldLine += oldCount;
+		newLine += newCount;
+		index = hunkEnd;
+	}
+
+	return output;
+}
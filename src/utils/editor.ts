@@ -7,10 +7,10 @@ import { spawn } from "bun";
 
 /**
  * Get the user's preferred editor
- * Priority: $VISUAL → $EDITOR → nano (POSIX convention: VISUAL for full-screen editors)
+ * Priority: configured editor → $VISUAL → $EDITOR → nano (POSIX convention: VISUAL for full-screen editors)
  */
-export function getPreferredEditor(): string {
-	const editor = process.env.VISUAL || process.env.EDITOR;
+export function getPreferredEditor(configured?: string | null): string {
+	const editor = configured || process.env.VISUAL || process.env.EDITOR;
 	if (editor) return editor;
 
 	// Default to nano which is available on macOS
@@ -39,19 +39,21 @@ export function plistExists(filePath: string): boolean {
  *
  * @param filePath - Path to the file to edit
  * @param options.useRoot - Whether to use sudo
+ * @param options.editor - Editor command from the config, arguments separated by spaces (e.g. "code --wait")
  */
 export async function openInEditor(
 	filePath: string,
 	options: {
 		useRoot?: boolean;
+		editor?: string | null;
 	} = {},
 ): Promise<{ success: boolean; error?: string }> {
 	const { useRoot = false } = options;
 
-	const editor = getPreferredEditor();
+	const editor = getPreferredEditor(options.editor).split(/\s+/).filter(Boolean);
 
 	// Build command
-	const command = useRoot ? ["sudo", editor, filePath] : [editor, filePath];
+	const command = useRoot ? ["sudo", ...editor, filePath] : [...editor, filePath];
 
 	try {
 		// Spawn editor with inherited stdio (takes over terminal)
@@ -0,0 +1,92 @@
+/**
+ * Compact formatting for process resource usage, schedule times and past times, and Markdown exports
+ */
+
+const SPARK_CHARS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/**
+ * Format a CPU percentage, e.g. "0.4%" or "112%"
+ */
+export function formatCpu(cpu: number): string {
+	return cpu >= 100 ? `${Math.round(cpu)}%` : `${cpu.toFixed(1)}%`;
+}
+
+/**
+ * Format a size in KiB (as reported by `ps -o rss`), e.g. "812K", "14.2M", "1.3G"
+ */
+export function formatMemory(kib: number): string {
+	if (kib < 1024) return `${kib}K`;
+	const mib = kib / 1024;
+	if (mib < 1024) return mib < 100 ? `${mib.toFixed(1)}M` : `${Math.round(mib)}M`;
+	return `${(mib / 1024).toFixed(1)}G`;
+}
+
+/**
+ * Format an uptime in seconds with its two largest units, e.g. "42s", "5m12s", "3h04m", "12d07h"
+ */
+export function formatUptime(seconds: number): string {
+	const total = Math.max(0, Math.floor(seconds));
+	const days = Math.floor(total / 86_400);
+	const hours = Math.floor((total % 86_400) / 3_600);
+	const minutes = Math.floor((total % 3_600) / 60);
+	const secs = total % 60;
+	const pad = (n: number) => String(n).padStart(2, "0");
+
+	if (days > 0) return `${days}d${pad(hours)}h`;
+	if (hours > 0) return `${hours}h${pad(minutes)}m`;
+	if (minutes > 0) return `${minutes}m${pad(secs)}s`;
+	return `${secs}s`;
+}
+
+/**
+ * Format a past time relative to `now`, e.g. "42s ago", "5m ago", "3h ago" or "12d ago"
+ */
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
+	const seconds = Math.max(0, Math.floor((now.getTime() - date.getTime()) / 1000));
+	if (seconds < 60) return `${seconds}s ago`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `${minutes}m ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ago`;
+	return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Render values as a one-line bar chart, scaled from 0 to the largest value
+ * @param max Fixed top of the scale (defaults to the largest value)
+ */
+export function sparkline(values: number[], max: number = Math.max(0, ...values)): string {
+	const top = SPARK_CHARS.length - 1;
+	return values
+		.map((value) => {
+			if (max <= 0) return SPARK_CHARS[0];
+			const level = Math.round((Math.min(Math.max(value, 0), max) / max) * top);
+			return SPARK_CHARS[level];
+		})
+		.join("");
+}
+
+const SHORT_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const SHORT_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Format an upcoming local time relative to `now`, e.g. "Today 09:30", "Tomorrow 03:00" or "Mon 21 Oct 09:30"
+ * Times more than a year ahead include the year
+ */
+export function formatFireTime(date: Date, now: Date = new Date()): string {
+	const time = `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+	const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+	const days = Math.round((startOfDay(date) - startOfDay(now)) / 86_400_000);
+
+	if (days === 0) return `Today ${time}`;
+	if (days === 1) return `Tomorrow ${time}`;
+	const day = `${SHORT_WEEKDAYS[date.getDay()]} ${date.getDate()} ${SHORT_MONTHS[date.getMonth()]}`;
+	return days > 365 ? `${day} ${date.getFullYear()} ${time}` : `${day} ${time}`;
+}
+
+/**
+ * Escape text for a Markdown table cell: pipes are escaped and line breaks become spaces
+ */
+export function markdownCell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
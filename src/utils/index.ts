@@ -2,13 +2,25 @@
  * Utility functions
  */
 
+export { mapWithConcurrency } from "./concurrency";
+export { type DiffLine, diffLines, formatUnifiedDiff, type UnifiedDiffOptions } from "./diff";
 export { getPreferredEditor, openInEditor, plistExists, requiresRootToEdit } from "./editor";
+export {
+	formatCpu,
+	formatFireTime,
+	formatMemory,
+	formatRelativeTime,
+	formatUptime,
+	markdownCell,
+	sparkline,
+} from "./format";
 export {
 	type FuzzyMatch,
 	fuzzyMatch,
 	fuzzyMatchService,
 	type ServiceFuzzyMatch,
 } from "./fuzzy";
+export { getConfigDir, timestampedFileName } from "./paths";
 export {
 	calculateDelay,
 	isTransientError,
@@ -17,4 +29,4 @@ export {
 	withRetry,
 	withRetryResult,
 } from "./retry";
-export { getProtectionSymbol, getStatusColor, getStatusSymbol } from "./status";
+export { getProtectionSymbol, getStatusColor, getStatusLabel, getStatusSymbol } from "./status";
@@ -0,0 +1,28 @@
+/**
+ * Per-user file locations
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/** Directory name under the config base */
+const APP_DIR_NAME = "macos-service-manager";
+
+/**
+ * Get the per-user config directory
+ * $XDG_CONFIG_HOME/macos-service-manager, falling back to ~/.config/macos-service-manager
+ */
+export function getConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+	const base = env.XDG_CONFIG_HOME || join(env.HOME || homedir(), ".config");
+	return join(base, APP_DIR_NAME);
+}
+
+/**
+ * File name stamped with a local date and time, e.g. "snapshot-20240110-093000.json"
+ */
+export function timestampedFileName(prefix: string, date: Date, ext: string): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+	const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+	return `${prefix}-${day}-${time}.${ext}`;
+}
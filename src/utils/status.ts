@@ -11,6 +11,7 @@ const STATUS_COLORS: Record<ServiceStatus, string> = {
 	stopped: COLORS.statusStopped,
 	disabled: COLORS.statusDisabled,
 	error: COLORS.statusError,
+	"not-loaded": COLORS.statusNotLoaded,
 	unknown: COLORS.statusUnknown,
 };
 
@@ -19,6 +20,7 @@ const STATUS_SYMBOLS: Record<ServiceStatus, string> = {
 	stopped: "○",
 	disabled: "◌",
 	error: "✕",
+	"not-loaded": "◇",
 	unknown: "?",
 };
 
@@ -37,6 +39,13 @@ export function getStatusSymbol(status: ServiceStatus): string {
 	return STATUS_SYMBOLS[status];
 }
 
+/**
+ * Human-readable status, e.g. "not loaded"
+ */
+export function getStatusLabel(status: ServiceStatus): string {
+	return status.replace("-", " ");
+}
+
 export function getProtectionSymbol(protection: ProtectionStatus): string {
 	return PROTECTION_SYMBOLS[protection];
 }